@@ -1,15 +1,30 @@
 import { dbUrl, secEdgarUserAgent, slackWebhookUrl } from "./config";
+import { filingQueue } from "./queues";
 
 /**
- * Cron job for processing Form 4 filings
- * Runs every 2 hours to fetch and process recent SEC Form 4 filings
+ * Cron job for discovering Form 4 filings
+ * Runs every 2 hours to read the live feeds and queue new filings on the filing queue
  */
 export const form4ProcessorCron = new sst.aws.Cron("Form4Processor", {
 	schedule: "rate(2 hours)", // Every 2 hours
 	job: {
 		handler: "packages/functions/form4-processor.handler",
-		link: [dbUrl, slackWebhookUrl, secEdgarUserAgent],
-		timeout: "5 minutes", // Allow time for processing
+		link: [dbUrl, secEdgarUserAgent, filingQueue],
+		timeout: "5 minutes", // Allow time for paging through the feeds
+		memory: "1024 MB",
+	},
+});
+
+/**
+ * Cron job for running backfill jobs
+ * Runs every 15 minutes to finish jobs queued from the dashboard, 200 filings per run
+ */
+export const backfillRunnerCron = new sst.aws.Cron("BackfillRunner", {
+	schedule: "rate(15 minutes)",
+	job: {
+		handler: "packages/functions/backfill-runner.handler",
+		link: [dbUrl, secEdgarUserAgent], // Backfills run with alerts off, so no Slack webhook
+		timeout: "10 minutes", // Allow time for a batch of rate-limited EDGAR requests
 		memory: "1024 MB",
 	},
 });
@@ -0,0 +1,41 @@
+import { dbUrl, secEdgarUserAgent, slackWebhookUrl } from "./config";
+
+/**
+ * Dead-letter queue for filings that kept failing
+ * Inspect with the redrive CLI and move them back to the filing queue once fixed
+ */
+export const filingQueueDlq = new sst.aws.Queue("FilingQueueDlq", {
+	fifo: true, // A FIFO queue's dead-letter queue must be FIFO too
+});
+
+/**
+ * Filing queue: one PROCESS_FORM4 message per filing, queued by the Form 4 processor cron
+ * Grouped by issuer CIK, so each issuer's filings are processed in order
+ */
+export const filingQueue = new sst.aws.Queue("FilingQueue", {
+	fifo: true,
+	visibilityTimeout: "6 minutes", // Longer than the worker timeout
+	dlq: {
+		queue: filingQueueDlq.arn,
+		// Receives before a message is moved to the dead-letter queue. Every receive counts, including
+		// a batch failed while EDGAR is throttling (those are held until the pause ends) and the up to
+		// 3 an amendment waits for its original, so this leaves room for several throttling episodes
+		// on top of genuine failures
+		retry: 10,
+	},
+});
+
+filingQueue.subscribe(
+	{
+		handler: "packages/functions/form4-worker.handler",
+		link: [dbUrl, slackWebhookUrl, secEdgarUserAgent],
+		timeout: "5 minutes",
+		memory: "1024 MB",
+	},
+	{
+		batch: {
+			size: 10,
+			partialResponses: true, // Retry only the failed messages of a batch
+		},
+	},
+);
@@ -0,0 +1,89 @@
+import type { Context } from "@starter/core-web/src/trpc/context";
+import { findCikByTicker } from "@starter/core/src/domain/tickers";
+import {
+	getFilingOutcomes,
+	getIngestionRun,
+	getIngestionRunItems,
+	getIngestionRuns,
+} from "@starter/core/src/sql/queries/ingestion";
+import type {
+	GetFilingOutcomesInput,
+	GetIngestionRunInput,
+	ListIngestionRunsInput,
+} from "./schema";
+
+/**
+ * List ingestion runs, most recent first
+ */
+export async function listIngestionRuns({ ctx, input }: { ctx: Context; input: ListIngestionRunsInput }) {
+	const { kind, status, startDate, endDate, limit, offset } = input;
+
+	const runs = await getIngestionRuns(
+		ctx.db,
+		{
+			kind,
+			status,
+			startedAfter: startDate ? new Date(startDate) : undefined,
+			startedBefore: endDate ? endOfDay(endDate) : undefined,
+		},
+		limit,
+		offset,
+	);
+
+	return {
+		runs,
+		limit,
+		offset,
+	};
+}
+
+/**
+ * Get an ingestion run with the outcome of each filing it handled
+ */
+export async function getIngestionRunDetail({ ctx, input }: { ctx: Context; input: GetIngestionRunInput }) {
+	const run = await getIngestionRun(ctx.db, input.id);
+	if (!run) {
+		throw new Error("Ingestion run not found");
+	}
+
+	return {
+		run,
+		items: await getIngestionRunItems(ctx.db, run.id, input.status),
+	};
+}
+
+/**
+ * Every recorded outcome of a filing, or of a ticker's filings, across runs
+ * Ticker lookups go through the issuer CIK, so former tickers and filings that failed
+ * before their ticker was known are included
+ */
+export async function listFilingOutcomes({ ctx, input }: { ctx: Context; input: GetFilingOutcomesInput }) {
+	let issuerCik: string | undefined;
+	if (input.ticker) {
+		const cik = await findCikByTicker(ctx.db, input.ticker);
+		if (!cik) {
+			return { outcomes: [] };
+		}
+		issuerCik = cik;
+	}
+
+	const outcomes = await getFilingOutcomes(
+		ctx.db,
+		{
+			accessionNumber: input.accessionNumber,
+			issuerCik,
+			processedAfter: input.startDate ? new Date(input.startDate) : undefined,
+			processedBefore: input.endDate ? endOfDay(input.endDate) : undefined,
+		},
+		input.limit,
+	);
+
+	return { outcomes };
+}
+
+/**
+ * Last instant of an ISO date, so date ranges include their end date
+ */
+function endOfDay(date: string): Date {
+	return new Date(`${date}T23:59:59.999Z`);
+}
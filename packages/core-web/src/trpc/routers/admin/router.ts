@@ -0,0 +1,39 @@
+import { protectedProcedureWithSuperadmin, router } from "@starter/core-web/src/trpc/trpc";
+import { getIngestionRunDetail, listFilingOutcomes, listIngestionRuns } from "./functions";
+import {
+	GetFilingOutcomesInputSchema,
+	GetIngestionRunInputSchema,
+	ListIngestionRunsInputSchema,
+} from "./schema";
+
+export const adminRouter = router({
+	/**
+	 * List ingestion runs (processor, worker, backfill, replay and digest runs) with their counts
+	 * Protected: requires superadmin
+	 */
+	ingestionRuns: protectedProcedureWithSuperadmin
+		.input(ListIngestionRunsInputSchema)
+		.query(async ({ ctx, input }) => {
+			return listIngestionRuns({ ctx, input });
+		}),
+
+	/**
+	 * Get an ingestion run with its per-filing outcomes (parsed, skipped, failed with reason)
+	 * Protected: requires superadmin
+	 */
+	ingestionRun: protectedProcedureWithSuperadmin
+		.input(GetIngestionRunInputSchema)
+		.query(async ({ ctx, input }) => {
+			return getIngestionRunDetail({ ctx, input });
+		}),
+
+	/**
+	 * Look up what happened to a filing, or to a ticker's filings, across runs
+	 * Protected: requires superadmin
+	 */
+	filingOutcomes: protectedProcedureWithSuperadmin
+		.input(GetFilingOutcomesInputSchema)
+		.query(async ({ ctx, input }) => {
+			return listFilingOutcomes({ ctx, input });
+		}),
+});
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+/**
+ * Input schema for listing ingestion runs
+ */
+export const ListIngestionRunsInputSchema = z.object({
+	kind: z.string().optional(), // e.g. 'form4-processor', 'filing-worker', 'backfill'
+	status: z.enum(["running", "completed", "failed"]).optional(),
+	startDate: z.string().optional(), // ISO date string
+	endDate: z.string().optional(), // ISO date string
+	limit: z.number().min(1).max(100).default(50),
+	offset: z.number().min(0).default(0),
+});
+
+export type ListIngestionRunsInput = z.infer<typeof ListIngestionRunsInputSchema>;
+
+/**
+ * Input schema for getting an ingestion run with its filing outcomes
+ */
+export const GetIngestionRunInputSchema = z.object({
+	id: z.string().uuid(),
+	status: z.enum(["parsed", "skipped", "failed"]).optional(),
+});
+
+export type GetIngestionRunInput = z.infer<typeof GetIngestionRunInputSchema>;
+
+/**
+ * Input schema for looking up what happened to filings, by accession number or ticker
+ */
+export const GetFilingOutcomesInputSchema = z
+	.object({
+		accessionNumber: z.string().optional(),
+		ticker: z.string().optional(),
+		startDate: z.string().optional(), // ISO date string
+		endDate: z.string().optional(), // ISO date string
+		limit: z.number().min(1).max(500).default(100),
+	})
+	.refine((input) => input.accessionNumber || input.ticker, {
+		message: "Pass an accession number or a ticker",
+	});
+
+export type GetFilingOutcomesInput = z.infer<typeof GetFilingOutcomesInputSchema>;
@@ -1,14 +1,40 @@
-import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import { type SQL, and, desc, eq, gte, isNull, lte, sql } from "drizzle-orm";
 import type { Context } from "@starter/core-web/src/trpc/context";
-import { insiders, issuers, transactions } from "@starter/core/src/sql/schema";
 import {
-	getIssuerByTicker,
+	type BackfillJob,
+	type Insider,
+	type Position,
+	insiders,
+	issuers,
+	transactions,
+} from "@starter/core/src/sql/schema";
+import { OWNERSHIP_XML_START_DATE, createForm4Backfill } from "@starter/core/src/domain/pipeline";
+import { FORM_144_VALIDITY_DAYS } from "@starter/core/src/domain/sec/types";
+import { findCikByTicker, findIssuerByTicker } from "@starter/core/src/domain/tickers";
+import {
+	countBackfillItems,
+	getLatestIssuerBackfillJob,
+} from "@starter/core/src/sql/queries/ingestion";
+import {
+	getFilingAmendmentHistory,
+	getInsiderLateFilingStats,
+	getIssuerLateFilingStats,
+	getIssuerPositions,
+	getIssuerTickerHistory,
+	getPendingForm144Notices,
+	getPersonById,
+	getPersonIssuerRoles,
+	getPersonPositions,
 	getRecentHighScoreTransactions,
+	getTransactionFootnotes,
+	getTransactionReportingOwners,
 	searchTickers,
 } from "@starter/core/src/sql/queries/insiders";
 import type {
+	GetInsiderProfileInput,
 	GetTickerStatsInput,
 	GetTransactionInput,
+	HistoryBackfillInput,
 	ListTransactionsInput,
 	SearchTickersInput,
 } from "./schema";
@@ -19,12 +45,12 @@ import type {
 export async function listTransactions({ ctx, input }: { ctx: Context; input: ListTransactionsInput }) {
 	const { ticker, startDate, endDate, minScore, limit, offset } = input;
 
-	// Build query conditions
-	const conditions: any[] = [];
+	// Build query conditions (rows replaced by a Form 4/A are hidden)
+	const conditions: SQL[] = [isNull(transactions.supersededByAccession)];
 
-	// Filter by ticker if provided
+	// Filter by ticker if provided (former tickers resolve to the same issuer)
 	if (ticker) {
-		const issuer = await getIssuerByTicker(ctx.db, ticker);
+		const issuer = await findIssuerByTicker(ctx.db, ticker);
 		if (issuer) {
 			conditions.push(eq(transactions.issuerId, issuer.id));
 		} else {
@@ -53,7 +79,7 @@ export async function listTransactions({ ctx, input }: { ctx: Context; input: Li
 	const [countResult] = await ctx.db
 		.select({ count: sql<number>`COUNT(*)` })
 		.from(transactions)
-		.where(conditions.length > 0 ? and(...conditions) : undefined);
+		.where(and(...conditions));
 
 	const total = Number(countResult?.count || 0);
 
@@ -66,10 +92,21 @@ export async function listTransactions({ ctx, input }: { ctx: Context; input: Li
 			transactionCode: transactions.transactionCode,
 			shares: transactions.shares,
 			price: transactions.price,
+			priceLow: transactions.priceLow,
+			priceHigh: transactions.priceHigh,
+			priceUnknown: transactions.priceUnknown,
+			isPriceEstimated: transactions.isPriceEstimated,
 			transactionValue: transactions.transactionValue,
 			postTransactionShares: transactions.postTransactionShares,
 			isDirectOwnership: transactions.isDirectOwnership,
+			natureOfOwnership: transactions.natureOfOwnership,
+			ownershipVehicle: transactions.ownershipVehicle,
 			is10b51: transactions.is10b51,
+			planAdoptionDate: transactions.planAdoptionDate,
+			isDuringCoolingOff: transactions.isDuringCoolingOff,
+			filingDelayDays: transactions.filingDelayDays,
+			isLateFiling: transactions.isLateFiling,
+			isExerciseAndSell: transactions.isExerciseAndSell,
 			signalScore: transactions.signalScore,
 			createdAt: transactions.createdAt,
 			issuer: {
@@ -80,6 +117,7 @@ export async function listTransactions({ ctx, input }: { ctx: Context; input: Li
 			},
 			insider: {
 				id: insiders.id,
+				personId: insiders.personId,
 				name: insiders.name,
 				title: insiders.title,
 			},
@@ -87,7 +125,7 @@ export async function listTransactions({ ctx, input }: { ctx: Context; input: Li
 		.from(transactions)
 		.innerJoin(issuers, eq(transactions.issuerId, issuers.id))
 		.innerJoin(insiders, eq(transactions.insiderId, insiders.id))
-		.where(conditions.length > 0 ? and(...conditions) : undefined)
+		.where(and(...conditions))
 		.orderBy(desc(transactions.transactionDate), desc(sql`ABS(${transactions.signalScore})`))
 		.limit(limit)
 		.offset(offset);
@@ -111,11 +149,31 @@ export async function getTransaction({ ctx, input }: { ctx: Context; input: GetT
 			transactionCode: transactions.transactionCode,
 			shares: transactions.shares,
 			price: transactions.price,
+			priceLow: transactions.priceLow,
+			priceHigh: transactions.priceHigh,
+			priceUnknown: transactions.priceUnknown,
+			isPriceEstimated: transactions.isPriceEstimated,
 			transactionValue: transactions.transactionValue,
 			postTransactionShares: transactions.postTransactionShares,
 			isDirectOwnership: transactions.isDirectOwnership,
+			natureOfOwnership: transactions.natureOfOwnership,
+			ownershipVehicle: transactions.ownershipVehicle,
 			is10b51: transactions.is10b51,
+			planAdoptionDate: transactions.planAdoptionDate,
+			isDuringCoolingOff: transactions.isDuringCoolingOff,
+			filingDelayDays: transactions.filingDelayDays,
+			isLateFiling: transactions.isLateFiling,
+			isExerciseAndSell: transactions.isExerciseAndSell,
 			signalScore: transactions.signalScore,
+			supersededByAccession: transactions.supersededByAccession,
+			supersededAt: transactions.supersededAt,
+			securityTitle: transactions.securityTitle,
+			isDerivative: transactions.isDerivative,
+			underlyingSecurityTitle: transactions.underlyingSecurityTitle,
+			underlyingShares: transactions.underlyingShares,
+			conversionOrExercisePrice: transactions.conversionOrExercisePrice,
+			exerciseDate: transactions.exerciseDate,
+			expirationDate: transactions.expirationDate,
 			createdAt: transactions.createdAt,
 			issuer: {
 				id: issuers.id,
@@ -125,6 +183,7 @@ export async function getTransaction({ ctx, input }: { ctx: Context; input: GetT
 			},
 			insider: {
 				id: insiders.id,
+				personId: insiders.personId,
 				name: insiders.name,
 				title: insiders.title,
 			},
@@ -139,7 +198,33 @@ export async function getTransaction({ ctx, input }: { ctx: Context; input: GetT
 		throw new Error("Transaction not found");
 	}
 
-	return result;
+	// Original filing and any Form 4/A amendments, oldest first
+	const amendmentHistory = await getFilingAmendmentHistory(ctx.db, result.filingAccession);
+
+	// Other owners of a joint filing (the primary owner is returned as `insider`)
+	const reportingOwners = await getTransactionReportingOwners(ctx.db, result.id);
+
+	// Filer footnotes (plan disclosures, price ranges, ownership explanations) by field
+	const footnotes = await getTransactionFootnotes(ctx.db, result.id);
+
+	return {
+		...result,
+		jointFilers: reportingOwners
+			.filter((owner) => owner.id !== result.insider.id)
+			.map((owner) => ({
+				id: owner.id,
+				personId: owner.personId,
+				name: owner.name,
+				title: owner.title,
+			})),
+		footnotes,
+		amendmentHistory: amendmentHistory.map((filing) => ({
+			accessionNumber: filing.accessionNumber,
+			formType: filing.formType,
+			filingDate: filing.filingDate,
+			isCurrent: !filing.supersededByAccession,
+		})),
+	};
 }
 
 /**
@@ -148,11 +233,12 @@ export async function getTransaction({ ctx, input }: { ctx: Context; input: GetT
 export async function getTickerStats({ ctx, input }: { ctx: Context; input: GetTickerStatsInput }) {
 	const { ticker, daysBack } = input;
 
-	// Get issuer
-	const issuer = await getIssuerByTicker(ctx.db, ticker);
+	// Get issuer (former tickers resolve to the same issuer)
+	const issuer = await findIssuerByTicker(ctx.db, ticker);
 	if (!issuer) {
 		throw new Error("Ticker not found");
 	}
+	const tickerHistory = await getIssuerTickerHistory(ctx.db, issuer.cik);
 
 	// Calculate date range
 	const endDate = new Date();
@@ -168,17 +254,30 @@ export async function getTickerStats({ ctx, input }: { ctx: Context; input: GetT
 			transactionCode: transactions.transactionCode,
 			shares: transactions.shares,
 			price: transactions.price,
+			priceLow: transactions.priceLow,
+			priceHigh: transactions.priceHigh,
+			priceUnknown: transactions.priceUnknown,
+			isPriceEstimated: transactions.isPriceEstimated,
 			transactionValue: transactions.transactionValue,
 			signalScore: transactions.signalScore,
+			filingDelayDays: transactions.filingDelayDays,
+			isLateFiling: transactions.isLateFiling,
 			insider: {
 				id: insiders.id,
+				personId: insiders.personId,
 				name: insiders.name,
 				title: insiders.title,
 			},
 		})
 		.from(transactions)
 		.innerJoin(insiders, eq(transactions.insiderId, insiders.id))
-		.where(and(eq(transactions.issuerId, issuer.id), gte(transactions.transactionDate, startDateStr)))
+		.where(
+			and(
+				eq(transactions.issuerId, issuer.id),
+				gte(transactions.transactionDate, startDateStr),
+				isNull(transactions.supersededByAccession),
+			),
+		)
 		.orderBy(desc(transactions.transactionDate));
 
 	// Calculate aggregate stats
@@ -190,6 +289,21 @@ export async function getTickerStats({ ctx, input }: { ctx: Context; input: GetT
 			? txList.reduce((sum, tx) => sum + Number(tx.signalScore), 0) / txList.length
 			: 0;
 
+	// Form 4s filed after the two-business-day deadline, overall and by insider
+	const lateFilings = await getIssuerLateFilingStats(ctx.db, issuer.id, startDateStr);
+	const lateFilers = await getInsiderLateFilingStats(ctx.db, issuer.id, startDateStr);
+
+	// Each insider's full reported stake, including holdings reported without a trade
+	const stakes = summarizeStakes(await getIssuerPositions(ctx.db, issuer.id));
+
+	// Proposed sales (Form 144) not yet executed by a Form 4
+	const pendingForm144Notices = await getPendingForm144Notices(
+		ctx.db,
+		issuer.id,
+		endDate.toISOString().split("T")[0],
+		FORM_144_VALIDITY_DAYS,
+	);
+
 	return {
 		issuer: {
 			id: issuer.id,
@@ -197,6 +311,12 @@ export async function getTickerStats({ ctx, input }: { ctx: Context; input: GetT
 			ticker: issuer.ticker,
 			companyName: issuer.companyName,
 		},
+		tickerHistory: tickerHistory.map((row) => ({
+			ticker: row.ticker,
+			exchange: row.exchange,
+			validFrom: row.validFrom,
+			validTo: row.validTo,
+		})),
 		stats: {
 			daysBack,
 			totalTransactions: txList.length,
@@ -204,8 +324,225 @@ export async function getTickerStats({ ctx, input }: { ctx: Context; input: GetT
 			sellCount,
 			totalValue,
 			avgScore: Number(avgScore.toFixed(2)),
+			lateFilings,
 		},
+		lateFilers,
+		stakes,
 		recentTransactions: txList.slice(0, 20), // Return top 20 most recent
+		pendingForm144Notices: pendingForm144Notices.map((notice) => ({
+			id: notice.id,
+			accessionNumber: notice.accessionNumber,
+			sellerName: notice.sellerName,
+			relationship: notice.relationship,
+			sharesToBeSold: notice.sharesToBeSold,
+			aggregateMarketValue: notice.aggregateMarketValue,
+			approxSaleDate: notice.approxSaleDate,
+			filingDate: notice.filingDate,
+		})),
+	};
+}
+
+/**
+ * Get an insider's activity across every issuer, linked by their reporting-owner CIK
+ */
+export async function getInsiderProfile({
+	ctx,
+	input,
+}: { ctx: Context; input: GetInsiderProfileInput }) {
+	const person = await getPersonById(ctx.db, input.personId);
+	if (!person) {
+		throw new Error("Insider not found");
+	}
+
+	const roles = await getPersonIssuerRoles(ctx.db, person.id);
+	const positions = await getPersonPositions(ctx.db, person.id);
+
+	// Trades at every issuer, most recent first (rows replaced by a Form 4/A are hidden)
+	const txList = await ctx.db
+		.select({
+			id: transactions.id,
+			transactionDate: transactions.transactionDate,
+			transactionCode: transactions.transactionCode,
+			shares: transactions.shares,
+			price: transactions.price,
+			priceUnknown: transactions.priceUnknown,
+			isPriceEstimated: transactions.isPriceEstimated,
+			transactionValue: transactions.transactionValue,
+			isDuringCoolingOff: transactions.isDuringCoolingOff,
+			filingDelayDays: transactions.filingDelayDays,
+			isLateFiling: transactions.isLateFiling,
+			isExerciseAndSell: transactions.isExerciseAndSell,
+			signalScore: transactions.signalScore,
+			issuer: {
+				id: issuers.id,
+				cik: issuers.cik,
+				ticker: issuers.ticker,
+				companyName: issuers.companyName,
+			},
+			insider: {
+				id: insiders.id,
+				personId: insiders.personId,
+				name: insiders.name,
+				title: insiders.title,
+			},
+		})
+		.from(transactions)
+		.innerJoin(issuers, eq(transactions.issuerId, issuers.id))
+		.innerJoin(insiders, eq(transactions.insiderId, insiders.id))
+		.where(and(eq(insiders.personId, person.id), isNull(transactions.supersededByAccession)))
+		.orderBy(desc(transactions.transactionDate))
+		.limit(input.limit);
+
+	return {
+		person: {
+			id: person.id,
+			cik: person.cik,
+			name: person.name,
+		},
+		roles: roles.map((role) => ({
+			insiderId: role.insider.id,
+			name: role.insider.name,
+			title: role.insider.title,
+			isDirector: role.insider.isDirector,
+			isOfficer: role.insider.isOfficer,
+			isTenPercentOwner: role.insider.isTenPercentOwner,
+			isOther: role.insider.isOther,
+			transactionCount: role.transactionCount,
+			lastTransactionDate: role.lastTransactionDate,
+			issuer: {
+				id: role.issuer.id,
+				cik: role.issuer.cik,
+				ticker: role.issuer.ticker,
+				companyName: role.issuer.companyName,
+			},
+		})),
+		positions: positions.map((position) => ({
+			...toPositionSummary(position),
+			issuer: {
+				id: position.issuer.id,
+				ticker: position.issuer.ticker,
+				companyName: position.issuer.companyName,
+			},
+		})),
+		stats: {
+			issuerCount: roles.length,
+			boardSeatCount: roles.filter((role) => role.insider.isDirector).length,
+			transactionCount: roles.reduce((sum, role) => sum + role.transactionCount, 0),
+		},
+		recentTransactions: txList,
+	};
+}
+
+/**
+ * Fields of a reported position returned to the dashboard
+ */
+function toPositionSummary(position: Position) {
+	return {
+		id: position.id,
+		securityTitle: position.securityTitle,
+		ownershipVehicle: position.ownershipVehicle,
+		isDirectOwnership: position.isDirectOwnership,
+		natureOfOwnership: position.natureOfOwnership,
+		isDerivative: position.isDerivative,
+		underlyingSecurityTitle: position.underlyingSecurityTitle,
+		shares: Number(position.shares),
+		asOfDate: position.asOfDate,
+	};
+}
+
+/**
+ * Group an issuer's positions into each insider's stake, largest first
+ * Non-derivative shares held directly and through every vehicle add up to the insider's total;
+ * derivative positions are listed alongside but not counted in it
+ */
+function summarizeStakes(positions: Array<Position & { insider: Insider }>) {
+	const stakes = new Map<
+		string,
+		{
+			insiderId: string;
+			personId: string | null;
+			name: string;
+			title: string | null;
+			totalShares: number;
+			asOfDate: string;
+			positions: ReturnType<typeof toPositionSummary>[];
+		}
+	>();
+
+	for (const position of positions) {
+		let stake = stakes.get(position.insiderId);
+		if (!stake) {
+			stake = {
+				insiderId: position.insider.id,
+				personId: position.insider.personId,
+				name: position.insider.name,
+				title: position.insider.title,
+				totalShares: 0,
+				asOfDate: position.asOfDate,
+				positions: [],
+			};
+			stakes.set(position.insiderId, stake);
+		}
+
+		const summary = toPositionSummary(position);
+		stake.positions.push(summary);
+		if (!summary.isDerivative) stake.totalShares += summary.shares;
+		if (summary.asOfDate > stake.asOfDate) stake.asOfDate = summary.asOfDate;
+	}
+
+	return [...stakes.values()].sort((a, b) => b.totalShares - a.totalShares);
+}
+
+/**
+ * Get the latest full-history backfill of a ticker's issuer, or null if it was never loaded
+ */
+export async function getHistoryBackfill({ ctx, input }: { ctx: Context; input: HistoryBackfillInput }) {
+	const cik = await findCikByTicker(ctx.db, input.ticker);
+	if (!cik) return null;
+
+	const job = await getLatestIssuerBackfillJob(ctx.db, cik);
+	return job ? summarizeBackfillJob(ctx, job) : null;
+}
+
+/**
+ * Queue every Form 3/4/5 of a ticker's issuer from its EDGAR submissions
+ * The backfill runner cron processes the job; an unfinished job is returned instead of a new one
+ */
+export async function loadFullHistory({ ctx, input }: { ctx: Context; input: HistoryBackfillInput }) {
+	const cik = await findCikByTicker(ctx.db, input.ticker);
+	if (!cik) {
+		throw new Error("Ticker not found");
+	}
+
+	const latest = await getLatestIssuerBackfillJob(ctx.db, cik);
+	if (latest && latest.status !== "completed") {
+		return summarizeBackfillJob(ctx, latest);
+	}
+
+	// After a completed load only filings from its last day on are new
+	const job = await createForm4Backfill(ctx.db).createJob({
+		source: "submissions",
+		issuerCik: cik,
+		startDate: latest ? latest.endDate : OWNERSHIP_XML_START_DATE,
+		endDate: new Date().toISOString().split("T")[0],
+		skipAlerts: true,
+	});
+
+	return summarizeBackfillJob(ctx, job);
+}
+
+/**
+ * Progress of a backfill job for display
+ */
+async function summarizeBackfillJob(ctx: Context, job: BackfillJob) {
+	return {
+		id: job.id,
+		status: job.status,
+		filingsDiscovered: await countBackfillItems(ctx.db, job.id),
+		filingsProcessed: job.filingsProcessed,
+		filingsFailed: job.filingsFailed,
+		createdAt: job.createdAt,
+		completedAt: job.completedAt,
 	};
 }
 
@@ -1,14 +1,19 @@
 import { protectedProcedure, router } from "@starter/core-web/src/trpc/trpc";
 import {
+	getHistoryBackfill,
+	getInsiderProfile,
 	getRecentHighlights,
 	getTickerStats,
 	getTransaction,
 	listTransactions,
+	loadFullHistory,
 	searchForTickers,
 } from "./functions";
 import {
+	GetInsiderProfileInputSchema,
 	GetTickerStatsInputSchema,
 	GetTransactionInputSchema,
+	HistoryBackfillInputSchema,
 	ListTransactionsInputSchema,
 	SearchTickersInputSchema,
 } from "./schema";
@@ -38,6 +43,30 @@ export const insidersRouter = router({
 		return getTickerStats({ ctx, input });
 	}),
 
+	/**
+	 * Get the progress of a ticker's full-history backfill
+	 * Protected: requires authentication
+	 */
+	historyBackfill: protectedProcedure.input(HistoryBackfillInputSchema).query(async ({ ctx, input }) => {
+		return getHistoryBackfill({ ctx, input });
+	}),
+
+	/**
+	 * Queue a backfill of every ownership filing of a ticker's issuer
+	 * Protected: requires authentication
+	 */
+	loadFullHistory: protectedProcedure.input(HistoryBackfillInputSchema).mutation(async ({ ctx, input }) => {
+		return loadFullHistory({ ctx, input });
+	}),
+
+	/**
+	 * Get an insider's board seats, roles and trades across every issuer
+	 * Protected: requires authentication
+	 */
+	profile: protectedProcedure.input(GetInsiderProfileInputSchema).query(async ({ ctx, input }) => {
+		return getInsiderProfile({ ctx, input });
+	}),
+
 	/**
 	 * Get recent high-score transactions for dashboard homepage
 	 * Protected: requires authentication
@@ -33,6 +33,25 @@ export const GetTickerStatsInputSchema = z.object({
 
 export type GetTickerStatsInput = z.infer<typeof GetTickerStatsInputSchema>;
 
+/**
+ * Input schema for getting an insider's cross-company profile
+ */
+export const GetInsiderProfileInputSchema = z.object({
+	personId: z.string().uuid(),
+	limit: z.number().min(1).max(100).default(50),
+});
+
+export type GetInsiderProfileInput = z.infer<typeof GetInsiderProfileInputSchema>;
+
+/**
+ * Input schema for loading, or checking on, a ticker's full filing history
+ */
+export const HistoryBackfillInputSchema = z.object({
+	ticker: z.string().min(1),
+});
+
+export type HistoryBackfillInput = z.infer<typeof HistoryBackfillInputSchema>;
+
 /**
  * Input schema for searching tickers
  */
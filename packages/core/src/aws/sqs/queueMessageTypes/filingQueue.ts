@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { ProcessForm4TaskSchema } from "./processForm4";
+
+export const FilingQueueMessageSchema = z.discriminatedUnion("task_type", [
+    ProcessForm4TaskSchema,
+]);
+
+export type FilingQueueMessage = z.infer<typeof FilingQueueMessageSchema>;
+
+// FIFO queue: messages of a group are delivered in order, duplicates within 5 minutes are dropped
+export type FilingQueuePushMessageToQueueArgs = {
+    message: FilingQueueMessage;
+    queue: 'FilingQueue';
+    messageGroupId: string;
+    deduplicationId: string;
+}
@@ -11,9 +11,10 @@ export { GenerateL10DemoTaskSchema, type GenerateL10DemoTask } from "./generateL
 export { GradeCallTaskSchema, type GradeCallTask } from "./gradeCall";
 export { HubspotSyncTaskSchema, type HubspotSyncTask } from "./hubspotSync";
 export { CallResearchTaskSchema, type CallResearchTask } from "./callResearchTask";
+export { ProcessForm4TaskSchema, type ProcessForm4Task } from "./processForm4";
 export { GeneralSmallTaskQueueRecordSchema, type GeneralSmallTaskQueueMessage, type GeneralSmallTaskQueuePushMessageToQueueArgs } from "./generalSmallTaskQueue";
 export { EmbeddingsQueueRecordSchema, type EmbeddingsQueueMessage, type EmbeddingsQueuePushMessageToQueueArgs } from "./embeddingsQueue";
 export { OcrQueueMessageSchema, type OcrQueueMessage, type OcrQueuePushMessageToQueueArgs } from "./ocrQueue";
 export { KnowledgeGraphQueueMessageSchema, type KnowledgeGraphQueueMessage, type KnowledgeGraphQueuePushMessageToQueueArgs } from "./knowledgeGraphQueue";
 export { EvalQueueMessageSchema, type EvalQueueMessage, type EvalQueuePushMessageToQueueArgs } from "./evalQueue";
-
+export { FilingQueueMessageSchema, type FilingQueueMessage, type FilingQueuePushMessageToQueueArgs } from "./filingQueue";
@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const ProcessForm4TaskSchema = z.object({
+    task_type: z.literal("PROCESS_FORM4"),
+    accessionNumber: z.string(),
+    cik: z.string(), // Filer CIK listed on the feed (issuer or reporting owner)
+    filingDate: z.string(),
+    formType: z.string(), // Any ownership feed form type: "3", "4", "144" and amendments
+});
+
+export type ProcessForm4Task = z.infer<typeof ProcessForm4TaskSchema>;
@@ -0,0 +1,81 @@
+import {
+	ChangeMessageVisibilityCommand,
+	DeleteMessageCommand,
+	ReceiveMessageCommand,
+	SQSClient,
+	type Message,
+} from "@aws-sdk/client-sqs";
+import type { QueueUrls } from "../../config/resourceUrls";
+import { getResourceUrl } from "../../config/resourceUrls";
+
+type ReceiveMessagesFromSQSArgs = {
+	queue: QueueUrls;
+	maxMessages?: number; // Up to 10 per request (default 10)
+	visibilityTimeoutSeconds?: number; // How long received messages stay hidden from other consumers
+	waitTimeSeconds?: number; // Long polling wait when the queue is empty (default 1)
+};
+
+const receiveMessagesFromSQS = async ({
+	queue,
+	maxMessages = 10,
+	visibilityTimeoutSeconds,
+	waitTimeSeconds = 1,
+}: ReceiveMessagesFromSQSArgs): Promise<Message[]> => {
+	const sqsClient = new SQSClient({});
+	const queueUrl = getResourceUrl(queue);
+	const command = new ReceiveMessageCommand({
+		QueueUrl: queueUrl,
+		MaxNumberOfMessages: maxMessages,
+		VisibilityTimeout: visibilityTimeoutSeconds,
+		WaitTimeSeconds: waitTimeSeconds,
+		MessageSystemAttributeNames: ["MessageGroupId", "ApproximateReceiveCount"],
+	});
+
+	const response = await sqsClient.send(command);
+	return response.Messages ?? [];
+};
+
+type DeleteMessageFromSQSArgs = {
+	queue: QueueUrls;
+	receiptHandle: string;
+};
+
+const deleteMessageFromSQS = async ({ queue, receiptHandle }: DeleteMessageFromSQSArgs) => {
+	const sqsClient = new SQSClient({});
+	const queueUrl = getResourceUrl(queue);
+	const command = new DeleteMessageCommand({
+		QueueUrl: queueUrl,
+		ReceiptHandle: receiptHandle,
+	});
+	await sqsClient.send(command);
+};
+
+// Make a received message visible to other consumers again straight away
+const releaseMessageToSQS = async ({ queue, receiptHandle }: DeleteMessageFromSQSArgs) => {
+	const sqsClient = new SQSClient({});
+	const queueUrl = getResourceUrl(queue);
+	const command = new ChangeMessageVisibilityCommand({
+		QueueUrl: queueUrl,
+		ReceiptHandle: receiptHandle,
+		VisibilityTimeout: 0,
+	});
+	await sqsClient.send(command);
+};
+
+type DelayMessageOnSQSArgs = DeleteMessageFromSQSArgs & {
+	delaySeconds: number; // Up to 12 hours from when the message was received
+};
+
+// Keep a received message hidden from consumers for a while (e.g. until a rate limit lifts)
+const delayMessageOnSQS = async ({ queue, receiptHandle, delaySeconds }: DelayMessageOnSQSArgs) => {
+	const sqsClient = new SQSClient({});
+	const queueUrl = getResourceUrl(queue);
+	const command = new ChangeMessageVisibilityCommand({
+		QueueUrl: queueUrl,
+		ReceiptHandle: receiptHandle,
+		VisibilityTimeout: delaySeconds,
+	});
+	await sqsClient.send(command);
+};
+
+export { delayMessageOnSQS, deleteMessageFromSQS, receiveMessagesFromSQS, releaseMessageToSQS };
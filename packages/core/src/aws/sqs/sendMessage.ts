@@ -3,23 +3,21 @@ import {
 	SendMessageCommand,
 	SQSClient,
 } from "@aws-sdk/client-sqs";
-import type { QueueUrls } from "/core/src/config/resourceUrls";
-import { getResourceUrl } from "/core/src/config/resourceUrls";
-import type { DocumentExtractionPushMessageToQueueArgs, EmbeddingsQueuePushMessageToQueueArgs, EvalQueuePushMessageToQueueArgs, GeneralSmallTaskQueuePushMessageToQueueArgs, KnowledgeGraphQueuePushMessageToQueueArgs, OcrQueuePushMessageToQueueArgs } from "./queueMessageTypes";
+import type { QueueUrls } from "../../config/resourceUrls";
+import { getResourceUrl } from "../../config/resourceUrls";
+import type { FilingQueuePushMessageToQueueArgs } from "./queueMessageTypes/filingQueue";
 
-type PushMessageToSQSArgs = OcrQueuePushMessageToQueueArgs | EmbeddingsQueuePushMessageToQueueArgs | GeneralSmallTaskQueuePushMessageToQueueArgs | KnowledgeGraphQueuePushMessageToQueueArgs | DocumentExtractionPushMessageToQueueArgs | EvalQueuePushMessageToQueueArgs;
-
-const pushMessageToSQS = async ({ queue, message }: PushMessageToSQSArgs) => {
-	// log SAVE_LLM_REQUEST pushes
-	if (queue === "SmallTaskQueue" && message.task_type === "SAVE_LLM_REQUEST") {
-		console.log("✅🚀 Saving LLM request to SQS", JSON.stringify(message, null, 2));
-	}
+type PushMessageToSQSArgs = FilingQueuePushMessageToQueueArgs;
 
+const pushMessageToSQS = async ({ queue, message, ...fifo }: PushMessageToSQSArgs) => {
 	const sqsClient = new SQSClient({});
 	const queueUrl = getResourceUrl(queue);
 	const params = {
 		QueueUrl: queueUrl,
 		MessageBody: JSON.stringify(message),
+		// FIFO queues need a group, and take an explicit deduplication ID
+		MessageGroupId: fifo.messageGroupId,
+		MessageDeduplicationId: fifo.deduplicationId,
 	};
 
 	const command = new SendMessageCommand(params);
@@ -0,0 +1,86 @@
+import { parseArgs } from "node:util";
+import { OWNERSHIP_XML_START_DATE, createForm4Backfill } from "../domain/pipeline";
+import type { FormIndexSource } from "../domain/sec/types";
+import { findCikByTicker } from "../domain/tickers";
+import { getDb } from "../sql";
+
+/**
+ * Historical Form 4 backfill from EDGAR form indexes or an issuer's submissions
+ *
+ * Start a new job:
+ *   pnpm backfill --from 2024-01-01 --to 2024-03-31 [--source full-index] [--alerts]
+ * Load one issuer's full history (--from/--to optional):
+ *   pnpm backfill --ticker AAPL
+ *   pnpm backfill --cik 320193 [--from 2015-01-01] [--to 2024-12-31]
+ * Resume an interrupted job:
+ *   pnpm backfill --job <jobId>
+ */
+async function main() {
+	const { values } = parseArgs({
+		options: {
+			from: { type: "string" },
+			to: { type: "string" },
+			source: { type: "string", default: "daily-index" },
+			job: { type: "string" },
+			cik: { type: "string" },
+			ticker: { type: "string" },
+			limit: { type: "string" },
+			alerts: { type: "boolean", default: false },
+		},
+	});
+
+	const db = getDb();
+	const backfill = createForm4Backfill(db);
+
+	let jobId = values.job;
+	if (!jobId && (values.cik || values.ticker)) {
+		const issuerCik = values.cik ?? (await findCikByTicker(db, values.ticker as string));
+		if (!issuerCik) {
+			throw new Error(`No CIK found for ticker ${values.ticker}; run pnpm load-tickers first`);
+		}
+
+		const job = await backfill.createJob({
+			source: "submissions",
+			issuerCik,
+			startDate: values.from ?? OWNERSHIP_XML_START_DATE,
+			endDate: values.to ?? new Date().toISOString().split("T")[0],
+			skipAlerts: !values.alerts,
+		});
+		jobId = job.id;
+		console.log(`[Backfill] Created job ${jobId} for issuer CIK ${issuerCik}`);
+	} else if (!jobId) {
+		if (!values.from || !values.to) {
+			throw new Error("Either --job, --cik, --ticker or both --from and --to are required");
+		}
+		if (values.source !== "daily-index" && values.source !== "full-index") {
+			throw new Error(`Unknown index source: ${values.source}`);
+		}
+
+		const job = await backfill.createJob({
+			source: values.source as FormIndexSource,
+			startDate: values.from,
+			endDate: values.to,
+			skipAlerts: !values.alerts,
+		});
+		jobId = job.id;
+		console.log(`[Backfill] Created job ${jobId}`);
+	}
+
+	const stats = await backfill.run(jobId, values.limit ? Number(values.limit) : undefined);
+	console.log("[Backfill] Run complete:", stats);
+
+	if (stats.circuitOpen) {
+		console.log("[Backfill] SEC EDGAR is throttling requests; resume once the pause has passed");
+	}
+
+	if (!stats.completed) {
+		console.log(`[Backfill] Job not finished, resume with: pnpm backfill --job ${jobId}`);
+	}
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("[Backfill] Failed:", error);
+		process.exit(1);
+	});
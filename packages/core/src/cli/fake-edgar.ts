@@ -0,0 +1,49 @@
+import { parseArgs } from "node:util";
+import { FORM_4_FIXTURES_DIR } from "../domain/sec/conformance";
+import { type FakeEdgarFault, createFakeEdgarServer, loadFakeEdgarFilings } from "../domain/sec/fakeEdgar";
+
+/**
+ * Serve fixture filings from a local fake EDGAR, for development without sec.gov
+ *
+ *   pnpm fake-edgar [--fixtures <dir>] [--port 8910] [--throttle getcurrent] [--delay 500]
+ *
+ * Then point the processor, backfill or replay at it:
+ *   SEC_EDGAR_BASE_URL=http://127.0.0.1:8910 SEC_EDGAR_DATA_URL=http://127.0.0.1:8910 pnpm backfill ...
+ *
+ * --fixtures defaults to the Form 4 conformance corpus. --throttle answers 429 to requests
+ * whose path contains the text, --delay slows every response down.
+ */
+async function main() {
+	const { values } = parseArgs({
+		options: {
+			fixtures: { type: "string", default: FORM_4_FIXTURES_DIR },
+			port: { type: "string", default: "8910" },
+			throttle: { type: "string", multiple: true },
+			delay: { type: "string" },
+		},
+	});
+
+	const faults: FakeEdgarFault[] = (values.throttle ?? []).map((path) => ({
+		path,
+		status: 429,
+		retryAfter: "1",
+	}));
+	if (values.delay) {
+		faults.push({ path: "/", delayMs: Number(values.delay) });
+	}
+
+	const filings = await loadFakeEdgarFilings(values.fixtures);
+	const server = createFakeEdgarServer({ filings, faults });
+	const url = await server.start(Number(values.port));
+
+	console.log(`[FakeEdgar] Serving ${filings.length} filings from ${values.fixtures} at ${url}`);
+
+	process.on("SIGINT", () => {
+		server.stop().then(() => process.exit(0));
+	});
+}
+
+main().catch((error) => {
+	console.error("[FakeEdgar] Failed:", error);
+	process.exit(1);
+});
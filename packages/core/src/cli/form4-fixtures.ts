@@ -0,0 +1,94 @@
+import { parseArgs } from "node:util";
+import { RawFilingArchive, createBlobStore } from "../domain/archive";
+import {
+	listForm4Fixtures,
+	readForm4Fixture,
+	snapshotForm4,
+	writeForm4Fixture,
+} from "../domain/sec/conformance";
+import { getDb } from "../sql";
+import { getRawFilingsInRange } from "../sql/queries/ingestion";
+
+/**
+ * Maintain the Form 4 parser's golden-file corpus (src/domain/sec/__fixtures__/form4)
+ *
+ * Add a fixture from an archived raw filing (requires RAW_FILINGS_DIR and the database):
+ *   pnpm form4-fixtures add --accession 0001209191-24-000123 --name footnote-heavy
+ * Re-bless expected outputs after an intentional parser change (all, or named fixtures):
+ *   pnpm form4-fixtures bless [--name footnote-heavy ...]
+ * Review the resulting diff of the .json files before committing it.
+ */
+async function main() {
+	const { values, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			accession: { type: "string" },
+			name: { type: "string", multiple: true },
+		},
+	});
+
+	const [command] = positionals;
+	if (command === "add") {
+		await addFixture(values.accession, values.name?.[0]);
+	} else if (command === "bless") {
+		await blessFixtures(values.name);
+	} else {
+		throw new Error('Pass a command: "add" or "bless"');
+	}
+}
+
+/**
+ * Copy an archived filing into the corpus and record the parser's current output for it
+ */
+async function addFixture(accessionNumber?: string, name?: string) {
+	if (!accessionNumber || !name) {
+		throw new Error("Pass --accession and --name to add a fixture");
+	}
+
+	const blobStore = createBlobStore();
+	if (!blobStore) {
+		throw new Error("RAW_FILINGS_DIR is not set; there is no raw filing archive to read");
+	}
+
+	const db = getDb();
+	const [rawFiling] = await getRawFilingsInRange(db, { accessionNumbers: [accessionNumber] });
+	if (!rawFiling) {
+		throw new Error(`Filing ${accessionNumber} is not in the raw filing archive`);
+	}
+
+	const { xml } = await new RawFilingArchive(db, blobStore).load(rawFiling);
+	const expected = snapshotForm4(xml, rawFiling.accessionNumber, rawFiling.filedAt);
+	await writeForm4Fixture(name, expected, xml);
+
+	console.log(
+		`[Form4Fixtures] Added ${name} (${expected.transactions.length} transactions); review ${name}.json`,
+	);
+}
+
+/**
+ * Overwrite expected outputs with what the parser produces now
+ */
+async function blessFixtures(names?: string[]) {
+	const fixtureNames = names ?? (await listForm4Fixtures());
+	let changed = 0;
+
+	for (const name of fixtureNames) {
+		const { xml, expected } = await readForm4Fixture(name);
+		const actual = snapshotForm4(xml, expected.accessionNumber, expected.filingDate);
+
+		if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+			await writeForm4Fixture(name, actual);
+			console.log(`[Form4Fixtures] Re-blessed ${name}`);
+			changed++;
+		}
+	}
+
+	console.log(`[Form4Fixtures] ${changed} of ${fixtureNames.length} fixtures changed`);
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("[Form4Fixtures] Failed:", error);
+		process.exit(1);
+	});
@@ -0,0 +1,44 @@
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { createTickerReferenceLoader, parseCompanyTickers } from "../domain/tickers";
+import { getDb } from "../sql";
+
+/**
+ * Load an SEC company tickers snapshot into the ticker history
+ * Accepts company_tickers.json or company_tickers_exchange.json as downloaded from
+ * https://www.sec.gov/files/company_tickers.json (or company_tickers_exchange.json).
+ *
+ *   pnpm load-tickers --file company_tickers_exchange.json [--as-of 2024-06-03]
+ */
+async function main() {
+	const { values } = parseArgs({
+		options: {
+			file: { type: "string" },
+			"as-of": { type: "string" },
+		},
+	});
+
+	if (!values.file) {
+		throw new Error("--file is required");
+	}
+
+	const asOf = values["as-of"] ?? new Date().toISOString().split("T")[0];
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+		throw new Error(`Invalid --as-of date: ${asOf}`);
+	}
+
+	const entries = parseCompanyTickers(await readFile(values.file, "utf8"));
+	console.log(`[LoadTickers] Parsed ${entries.length} tickers from ${values.file}`);
+
+	const loader = createTickerReferenceLoader(getDb());
+	const stats = await loader.load(entries, asOf);
+
+	console.log("[LoadTickers] Load complete:", stats);
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("[LoadTickers] Failed:", error);
+		process.exit(1);
+	});
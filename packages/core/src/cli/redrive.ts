@@ -0,0 +1,34 @@
+import { parseArgs } from "node:util";
+import { createFilingRedrive } from "../domain/pipeline";
+
+/**
+ * Move failed filings from the filing dead-letter queue back to the filing queue
+ * Run through `sst shell` so the queue URLs resolve for the stage.
+ *
+ * Redrive every failed filing, or specific filings:
+ *   pnpm redrive [--dry-run]
+ *   pnpm redrive --accession 0001209191-24-000123 [--accession ...]
+ */
+async function main() {
+	const { values } = parseArgs({
+		options: {
+			accession: { type: "string", multiple: true },
+			"dry-run": { type: "boolean", default: false },
+		},
+	});
+
+	const redrive = createFilingRedrive();
+	const stats = await redrive.run({
+		accessionNumbers: values.accession,
+		dryRun: values["dry-run"],
+	});
+
+	console.log(values["dry-run"] ? "[Redrive] Dry run complete:" : "[Redrive] Run complete:", stats);
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("[Redrive] Failed:", error);
+		process.exit(1);
+	});
@@ -0,0 +1,61 @@
+import { parseArgs } from "node:util";
+import { createBlobStore } from "../domain/archive";
+import { createFilingReplay } from "../domain/pipeline";
+import { getDb } from "../sql";
+
+/**
+ * Replay archived raw filings through parse, score and upsert without calling EDGAR
+ * Requires RAW_FILINGS_DIR to point at the raw filing archive.
+ *
+ * Replay a filing date range:
+ *   pnpm replay --from 2024-01-01 --to 2024-03-31 [--alerts]
+ * Replay an accession range, or specific filings:
+ *   pnpm replay --from-accession 0001209191-24-000100 --to-accession 0001209191-24-000200
+ *   pnpm replay --accession 0001209191-24-000123 [--accession ...]
+ */
+async function main() {
+	const { values } = parseArgs({
+		options: {
+			from: { type: "string" },
+			to: { type: "string" },
+			"from-accession": { type: "string" },
+			"to-accession": { type: "string" },
+			accession: { type: "string", multiple: true },
+			alerts: { type: "boolean", default: false },
+		},
+	});
+
+	if (
+		!values.from &&
+		!values.to &&
+		!values["from-accession"] &&
+		!values["to-accession"] &&
+		!values.accession
+	) {
+		throw new Error("Pass a date range, an accession range or --accession to choose filings");
+	}
+
+	const blobStore = createBlobStore();
+	if (!blobStore) {
+		throw new Error("RAW_FILINGS_DIR is not set; there is no raw filing archive to replay");
+	}
+
+	const replay = createFilingReplay(getDb(), blobStore);
+	const stats = await replay.run({
+		startDate: values.from,
+		endDate: values.to,
+		startAccession: values["from-accession"],
+		endAccession: values["to-accession"],
+		accessionNumbers: values.accession,
+		skipAlerts: !values.alerts,
+	});
+
+	console.log("[Replay] Run complete:", stats);
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("[Replay] Failed:", error);
+		process.exit(1);
+	});
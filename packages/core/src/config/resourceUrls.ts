@@ -1,10 +1,12 @@
-export type QueueUrls = never;
+import { Resource } from "sst";
+
+export type QueueUrls = "FilingQueue" | "FilingQueueDlq";
 export type AppUrls = never;
 
 export const getBucketName = (_bucket: never): string => {
 	throw new Error("No buckets defined in the starter template.");
 };
 
-export const getResourceUrl = (_resource: AppUrls | QueueUrls): string => {
-	throw new Error("No external resources defined in the starter template.");
+export const getResourceUrl = (resource: AppUrls | QueueUrls): string => {
+	return Resource[resource].url;
 };
@@ -0,0 +1,54 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FilesystemBlobStore } from "./blobStore";
+import { getRawFilingKey, hashContent } from "./rawFilings";
+
+describe("FilesystemBlobStore", () => {
+	let rootDir: string;
+	let store: FilesystemBlobStore;
+
+	beforeEach(async () => {
+		rootDir = await mkdtemp(join(tmpdir(), "blob-store-"));
+		store = new FilesystemBlobStore(rootDir);
+	});
+
+	afterEach(async () => {
+		await rm(rootDir, { recursive: true, force: true });
+	});
+
+	it("should read back what was stored, replacing earlier blobs", async () => {
+		const key = "raw-filings/320193/0001209191-24-000123/doc4.xml";
+		await store.put(key, Buffer.from("<old/>"));
+		await store.put(key, Buffer.from("<ownershipDocument/>"));
+
+		expect((await store.get(key))?.toString()).toBe("<ownershipDocument/>");
+	});
+
+	it("should return undefined for a missing key", async () => {
+		expect(await store.get("raw-filings/missing.xml")).toBeUndefined();
+	});
+
+	it("should reject keys outside the root directory", async () => {
+		await expect(store.put("../escape.xml", Buffer.from("x"))).rejects.toThrow(
+			"Blob key escapes the store root",
+		);
+	});
+});
+
+describe("getRawFilingKey", () => {
+	it("should group documents by unpadded CIK and accession", () => {
+		expect(getRawFilingKey("0000320193", "0001209191-24-000123", "doc4.xml")).toBe(
+			"raw-filings/320193/0001209191-24-000123/doc4.xml",
+		);
+	});
+});
+
+describe("hashContent", () => {
+	it("should return the SHA-256 of the bytes", () => {
+		expect(hashContent(Buffer.from("abc"))).toBe(
+			"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+		);
+	});
+});
@@ -0,0 +1,67 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join, resolve, sep } from "node:path";
+
+/**
+ * Key/value storage for raw bytes (e.g. filings as fetched from EDGAR)
+ * Keys are slash-separated paths such as "raw-filings/320193/0001209191-24-000123/doc4.xml"
+ */
+export interface BlobStore {
+	/**
+	 * Store bytes under a key, replacing any existing blob
+	 */
+	put(key: string, body: Buffer): Promise<void>;
+
+	/**
+	 * Read the bytes stored under a key
+	 * @returns The bytes, or undefined if nothing is stored under the key
+	 */
+	get(key: string): Promise<Buffer | undefined>;
+}
+
+/**
+ * Blob store on the local filesystem, for development and scripts
+ * Each key becomes a file below the root directory
+ */
+export class FilesystemBlobStore implements BlobStore {
+	private readonly rootDir: string;
+
+	constructor(rootDir: string) {
+		this.rootDir = resolve(rootDir);
+	}
+
+	async put(key: string, body: Buffer): Promise<void> {
+		const path = this.resolveKey(key);
+		await mkdir(dirname(path), { recursive: true });
+
+		// Write then rename, so a crash never leaves a truncated blob under the key
+		const tempPath = `${path}.${process.pid}.tmp`;
+		await writeFile(tempPath, body);
+		await rename(tempPath, path);
+	}
+
+	async get(key: string): Promise<Buffer | undefined> {
+		try {
+			return await readFile(this.resolveKey(key));
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+			throw error;
+		}
+	}
+
+	private resolveKey(key: string): string {
+		const path = resolve(join(this.rootDir, key));
+		if (!path.startsWith(this.rootDir + sep)) {
+			throw new Error(`Blob key escapes the store root: ${key}`);
+		}
+		return path;
+	}
+}
+
+/**
+ * Create the configured blob store
+ * RAW_FILINGS_DIR selects a filesystem store; without it raw filings are not archived
+ */
+export function createBlobStore(): BlobStore | undefined {
+	const rootDir = process.env.RAW_FILINGS_DIR;
+	return rootDir ? new FilesystemBlobStore(rootDir) : undefined;
+}
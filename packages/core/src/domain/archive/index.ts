@@ -0,0 +1,2 @@
+export * from "./blobStore";
+export * from "./rawFilings";
@@ -0,0 +1,89 @@
+import { createHash } from "node:crypto";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import type { FilingDocument, PrimaryDocumentStrategy } from "../sec/types";
+import type { RawFiling } from "../../sql/schema";
+import { upsertRawFiling } from "../../sql/queries/ingestion";
+import type { BlobStore } from "./blobStore";
+
+// Filing fields recorded next to the raw bytes, enough to process the filing again
+export interface RawFilingSource {
+	accessionNumber: string;
+	cik: string;
+	formType: string;
+	filingDate: string; // As listed by the feed or index; may include a time
+}
+
+/**
+ * Blob key of a filing's primary document
+ */
+export function getRawFilingKey(cik: string, accessionNumber: string, fileName: string): string {
+	return `raw-filings/${cik.replace(/^0+/, "")}/${accessionNumber}/${fileName}`;
+}
+
+/**
+ * SHA-256 of raw bytes, hex encoded
+ */
+export function hashContent(body: Buffer): string {
+	return createHash("sha256").update(body).digest("hex");
+}
+
+/**
+ * Archive of raw filing documents: bytes in a blob store, metadata in the raw_filings table
+ */
+export class RawFilingArchive {
+	private db: PgDatabase<any, any, any>;
+	private blobStore: BlobStore;
+
+	constructor(db: PgDatabase<any, any, any>, blobStore: BlobStore) {
+		this.db = db;
+		this.blobStore = blobStore;
+	}
+
+	/**
+	 * Store a fetched primary document and record its content hash and fetch metadata
+	 */
+	async save(filing: RawFilingSource, fetched: FilingDocument): Promise<RawFiling> {
+		const body = Buffer.from(fetched.xml, "utf8");
+		const blobKey = getRawFilingKey(filing.cik, filing.accessionNumber, fetched.document.fileName);
+
+		await this.blobStore.put(blobKey, body);
+
+		return upsertRawFiling(this.db, {
+			accessionNumber: filing.accessionNumber,
+			cik: filing.cik,
+			formType: filing.formType,
+			filingDate: filing.filingDate.split("T")[0],
+			filedAt: filing.filingDate,
+			sourceUrl: fetched.document.url,
+			primaryDocument: fetched.document.fileName,
+			documentStrategy: fetched.document.strategy,
+			blobKey,
+			contentHash: hashContent(body),
+			byteLength: body.length,
+			fetchedAt: new Date(),
+		});
+	}
+
+	/**
+	 * Read an archived document back in the shape the SEC client returns it
+	 * @throws Error if the blob is missing or no longer matches its recorded hash
+	 */
+	async load(rawFiling: RawFiling): Promise<FilingDocument> {
+		const body = await this.blobStore.get(rawFiling.blobKey);
+		if (!body) {
+			throw new Error(`Raw filing blob missing: ${rawFiling.blobKey}`);
+		}
+		if (hashContent(body) !== rawFiling.contentHash) {
+			throw new Error(`Raw filing blob does not match its content hash: ${rawFiling.blobKey}`);
+		}
+
+		return {
+			xml: body.toString("utf8"),
+			document: {
+				url: rawFiling.sourceUrl,
+				fileName: rawFiling.primaryDocument,
+				strategy: rawFiling.documentStrategy as PrimaryDocumentStrategy,
+			},
+		};
+	}
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+	addBusinessDays,
+	countBusinessDaysBetween,
+	getNyseHolidays,
+	isBusinessDay,
+} from "./businessDays";
+
+describe("getNyseHolidays", () => {
+	it("should list the 2024 NYSE holidays", () => {
+		expect([...getNyseHolidays(2024)].sort()).toEqual([
+			"2024-01-01",
+			"2024-01-15",
+			"2024-02-19",
+			"2024-03-29",
+			"2024-05-27",
+			"2024-06-19",
+			"2024-07-04",
+			"2024-09-02",
+			"2024-11-28",
+			"2024-12-25",
+		]);
+	});
+
+	it("should observe weekend holidays on the nearest weekday", () => {
+		// Independence Day 2026 is a Saturday; Christmas 2022 a Sunday
+		expect(getNyseHolidays(2026).has("2026-07-03")).toBe(true);
+		expect(getNyseHolidays(2022).has("2022-12-26")).toBe(true);
+	});
+
+	it("should not move a Saturday New Year's Day into the previous year", () => {
+		// January 1, 2022 was a Saturday; the NYSE was open on December 31, 2021
+		expect(getNyseHolidays(2022).has("2021-12-31")).toBe(false);
+		expect(isBusinessDay("2021-12-31")).toBe(true);
+	});
+
+	it("should only observe Juneteenth from 2022", () => {
+		expect(getNyseHolidays(2021).has("2021-06-18")).toBe(false);
+		expect(getNyseHolidays(2023).has("2023-06-19")).toBe(true);
+	});
+});
+
+describe("isBusinessDay", () => {
+	it("should skip weekends, holidays and special closures", () => {
+		expect(isBusinessDay("2024-03-28")).toBe(true);
+		expect(isBusinessDay("2024-03-29")).toBe(false); // Good Friday
+		expect(isBusinessDay("2024-03-30")).toBe(false); // Saturday
+		expect(isBusinessDay("2025-01-09")).toBe(false); // National day of mourning
+	});
+});
+
+describe("addBusinessDays", () => {
+	it("should skip weekends and holidays", () => {
+		expect(addBusinessDays("2024-03-27", 2)).toBe("2024-04-01");
+		expect(addBusinessDays("2024-12-23", 2)).toBe("2024-12-26");
+		expect(addBusinessDays("2024-04-01", -2)).toBe("2024-03-27");
+	});
+});
+
+describe("countBusinessDaysBetween", () => {
+	it("should count business days after the start up to the end", () => {
+		expect(countBusinessDaysBetween("2024-03-01", "2024-03-05")).toBe(2); // Friday to Tuesday
+		expect(countBusinessDaysBetween("2024-03-28", "2024-04-02")).toBe(2); // Across Good Friday
+		expect(countBusinessDaysBetween("2024-03-05", "2024-03-05")).toBe(0);
+		expect(countBusinessDaysBetween("2024-03-05", "2024-03-01")).toBe(-2);
+	});
+});
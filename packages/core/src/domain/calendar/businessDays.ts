@@ -0,0 +1,166 @@
+/**
+ * NYSE business-day calendar
+ * Dates are ISO date strings (YYYY-MM-DD); holidays follow the NYSE's observance rules
+ */
+
+// Unscheduled full-day closures (national days of mourning, Hurricane Sandy)
+const SPECIAL_CLOSURES = new Set([
+	"2001-09-11",
+	"2001-09-12",
+	"2001-09-13",
+	"2001-09-14",
+	"2004-06-11",
+	"2007-01-02",
+	"2012-10-29",
+	"2012-10-30",
+	"2018-12-05",
+	"2025-01-09",
+]);
+
+// First year Juneteenth was an NYSE holiday
+const JUNETEENTH_FIRST_YEAR = 2022;
+
+const holidayCache = new Map<number, Set<string>>();
+
+/**
+ * NYSE holidays of a year
+ */
+export function getNyseHolidays(year: number): Set<string> {
+	const cached = holidayCache.get(year);
+	if (cached) return cached;
+
+	const holidays = new Set<string>();
+
+	// New Year's Day: Sunday moves to Monday; Saturday is not observed (the prior
+	// Friday closes the previous year's books)
+	const newYear = utcDate(year, 1, 1);
+	if (newYear.getUTCDay() !== 6) holidays.add(toIsoDate(observed(newYear)));
+
+	holidays.add(toIsoDate(nthWeekday(year, 1, 1, 3))); // Martin Luther King Jr. Day: third Monday of January
+	holidays.add(toIsoDate(nthWeekday(year, 2, 1, 3))); // Washington's Birthday: third Monday of February
+	holidays.add(toIsoDate(addDays(easterSunday(year), -2))); // Good Friday
+	holidays.add(toIsoDate(lastWeekday(year, 5, 1))); // Memorial Day: last Monday of May
+	if (year >= JUNETEENTH_FIRST_YEAR) {
+		holidays.add(toIsoDate(observed(utcDate(year, 6, 19))));
+	}
+	holidays.add(toIsoDate(observed(utcDate(year, 7, 4)))); // Independence Day
+	holidays.add(toIsoDate(nthWeekday(year, 9, 1, 1))); // Labor Day: first Monday of September
+	holidays.add(toIsoDate(nthWeekday(year, 11, 4, 4))); // Thanksgiving: fourth Thursday of November
+	holidays.add(toIsoDate(observed(utcDate(year, 12, 25)))); // Christmas
+
+	holidayCache.set(year, holidays);
+	return holidays;
+}
+
+/**
+ * Check whether the NYSE is open on a date
+ */
+export function isBusinessDay(date: string): boolean {
+	const day = parseIsoDate(date);
+	const weekday = day.getUTCDay();
+	if (weekday === 0 || weekday === 6) return false;
+
+	return !getNyseHolidays(day.getUTCFullYear()).has(date) && !SPECIAL_CLOSURES.has(date);
+}
+
+/**
+ * Move a date forward (or back, for negative counts) by business days
+ */
+export function addBusinessDays(date: string, count: number): string {
+	const step = count < 0 ? -1 : 1;
+	let current = parseIsoDate(date);
+	let remaining = Math.abs(count);
+
+	while (remaining > 0) {
+		current = addDays(current, step);
+		if (isBusinessDay(toIsoDate(current))) remaining--;
+	}
+
+	return toIsoDate(current);
+}
+
+/**
+ * Count the business days after one date up to and including another
+ * e.g. Friday to the following Tuesday is 2; the same day is 0; an earlier end date is negative
+ */
+export function countBusinessDaysBetween(from: string, to: string): number {
+	if (to < from) return -countBusinessDaysBetween(to, from);
+
+	let count = 0;
+	let current = parseIsoDate(from);
+	const end = parseIsoDate(to);
+
+	while (current < end) {
+		current = addDays(current, 1);
+		if (isBusinessDay(toIsoDate(current))) count++;
+	}
+
+	return count;
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+	return new Date(Date.UTC(year, month - 1, day));
+}
+
+function parseIsoDate(date: string): Date {
+	return new Date(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+function toIsoDate(date: Date): string {
+	return date.toISOString().split("T")[0];
+}
+
+function addDays(date: Date, days: number): Date {
+	const result = new Date(date);
+	result.setUTCDate(result.getUTCDate() + days);
+	return result;
+}
+
+/**
+ * Weekend holidays are observed on the Friday before (Saturday) or the Monday after (Sunday)
+ */
+function observed(date: Date): Date {
+	const weekday = date.getUTCDay();
+	if (weekday === 6) return addDays(date, -1);
+	if (weekday === 0) return addDays(date, 1);
+	return date;
+}
+
+/**
+ * nth occurrence of a weekday (0 = Sunday) in a month
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+	const first = utcDate(year, month, 1);
+	const offset = (weekday - first.getUTCDay() + 7) % 7;
+	return addDays(first, offset + (n - 1) * 7);
+}
+
+/**
+ * Last occurrence of a weekday in a month
+ */
+function lastWeekday(year: number, month: number, weekday: number): Date {
+	const last = utcDate(year, month + 1, 0);
+	const offset = (last.getUTCDay() - weekday + 7) % 7;
+	return addDays(last, -offset);
+}
+
+/**
+ * Easter Sunday (Gregorian calendar, anonymous algorithm)
+ */
+function easterSunday(year: number): Date {
+	const a = year % 19;
+	const b = Math.floor(year / 100);
+	const c = year % 100;
+	const d = Math.floor(b / 4);
+	const e = b % 4;
+	const f = Math.floor((b + 8) / 25);
+	const g = Math.floor((b - f + 1) / 3);
+	const h = (19 * a + b - d - g + 15) % 30;
+	const i = Math.floor(c / 4);
+	const k = c % 4;
+	const l = (32 + 2 * e + 2 * i - h - k) % 7;
+	const m = Math.floor((a + 11 * h + 22 * l) / 451);
+	const month = Math.floor((h + l - 7 * m + 114) / 31);
+	const day = ((h + l - 7 * m + 114) % 31) + 1;
+	return utcDate(year, month, day);
+}
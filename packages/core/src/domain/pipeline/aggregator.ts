@@ -1,12 +1,18 @@
 import type { PgDatabase } from "drizzle-orm/pg-core";
 import type { Insider, Issuer, Transaction } from "../../sql/schema";
-import { getDailyTransactionsByDate, recordSlackAlert } from "../../sql/queries/insiders";
+import {
+	getDailyTransactionsByDate,
+	getForm144NoticesByFilingDate,
+	recordSlackAlert,
+} from "../../sql/queries/insiders";
 import { createSlackClient, formatDailyDigest } from "../slack";
+import { createIngestionLedger } from "./ledger";
 
 export interface DigestStats {
 	date: string;
 	transactionsProcessed: number;
 	tickersIncluded: number;
+	form144NoticesIncluded: number;
 	digestPosted: boolean;
 	error?: string;
 }
@@ -33,28 +39,34 @@ export class DailyDigestAggregator {
 			date,
 			transactionsProcessed: 0,
 			tickersIncluded: 0,
+			form144NoticesIncluded: 0,
 			digestPosted: false,
 		};
+		const ledger = createIngestionLedger(this.db);
+		await ledger.start("daily-digest", { date });
 
 		try {
 			console.log(`[DigestAggregator] Generating digest for ${date}...`);
 
-			// Fetch all transactions for the date
+			// Fetch all transactions and Form 144 notices for the date
 			const transactions = await getDailyTransactionsByDate(this.db, date);
+			const form144Notices = await getForm144NoticesByFilingDate(this.db, date);
 
-			if (transactions.length === 0) {
+			if (transactions.length === 0 && form144Notices.length === 0) {
 				console.log(`[DigestAggregator] No transactions found for ${date}`);
+				await ledger.complete(stats);
 				return stats;
 			}
 
 			stats.transactionsProcessed = transactions.length;
+			stats.form144NoticesIncluded = form144Notices.length;
 
 			// Group transactions by ticker
 			const transactionsByTicker = this.groupByTicker(transactions);
 			stats.tickersIncluded = transactionsByTicker.size;
 
 			// Format and post digest
-			const message = formatDailyDigest(date, transactionsByTicker);
+			const message = formatDailyDigest(date, transactionsByTicker, form144Notices);
 			const response = await this.slackClient.postMessage(message);
 
 			if (response.ok) {
@@ -93,6 +105,7 @@ export class DailyDigestAggregator {
 			console.error(`[DigestAggregator] Error generating digest for ${date}:`, errorMessage);
 		}
 
+		await ledger.complete(stats, stats.error);
 		return stats;
 	}
 
@@ -0,0 +1,194 @@
+import { getDb } from "@starter/core/sql";
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	queueAlert,
+	recordSlackAlert,
+	upsertInsider,
+	upsertIssuer,
+	upsertTransaction,
+} from "../../sql/queries/insiders";
+import { type Transaction, alertOutbox, slackAlerts } from "../../sql/schema";
+import { SlackClient, type SlackMessage, type SlackMessageResponse } from "../slack";
+import { AlertOutbox } from "./alertOutbox";
+
+const MESSAGE = { text: "Insider buy: HRBR" };
+
+// Records posts instead of calling the webhook; threaded replies go through postMessage too
+class FakeSlackClient extends SlackClient {
+	posts = vi.fn<(message: SlackMessage) => Promise<SlackMessageResponse>>();
+
+	override async postMessage(message: SlackMessage): Promise<SlackMessageResponse> {
+		return this.posts(message);
+	}
+}
+
+describe("AlertOutbox", () => {
+	let slackClient: FakeSlackClient;
+
+	beforeEach(() => {
+		slackClient = new FakeSlackClient("https://hooks.slack.test/webhook");
+		slackClient.posts.mockResolvedValue({ ok: true, ts: "1717444000.000100" });
+	});
+
+	function createOutbox() {
+		return new AlertOutbox(getDb(), slackClient);
+	}
+
+	async function queueUrgentAlert(transaction: Transaction) {
+		return queueAlert(getDb(), {
+			kind: "urgent",
+			transactionId: transaction.id,
+			issuerId: transaction.issuerId,
+			filingAccession: transaction.filingAccession,
+			message: MESSAGE,
+		});
+	}
+
+	async function createTransaction(): Promise<Transaction> {
+		const db = getDb();
+		const issuer = await upsertIssuer(db, { cik: "1618732", companyName: "Harbor Custom Development" });
+		const insider = await upsertInsider(db, { issuerId: issuer.id, name: "Jane Doe" });
+
+		return upsertTransaction(db, {
+			filingAccession: "0001209191-24-000123",
+			insiderId: insider.id,
+			issuerId: issuer.id,
+			transactionDate: "2024-06-03",
+			transactionCode: "P",
+			shares: "10000",
+			price: "12.50",
+			transactionValue: "125000",
+			postTransactionShares: "50000",
+		});
+	}
+
+	it("should post a queued urgent alert once and record it", async () => {
+		const db = getDb();
+		const transaction = await createTransaction();
+		await queueUrgentAlert(transaction);
+
+		const first = await createOutbox().dispatch();
+		const second = await createOutbox().dispatch();
+
+		expect(first).toEqual({ urgentAlertsPosted: 1, correctionsPosted: 0, failed: 0 });
+		expect(second.urgentAlertsPosted).toBe(0);
+		expect(slackClient.posts).toHaveBeenCalledTimes(1);
+
+		const [alert] = await db.select().from(slackAlerts);
+		expect(alert).toMatchObject({ transactionId: transaction.id, alertType: "urgent" });
+		expect(alert.slackThreadTs).toBe("1717444000.000100");
+	});
+
+	it("should retry a failed post until it runs out of attempts", async () => {
+		const db = getDb();
+		const transaction = await createTransaction();
+		const entry = await queueUrgentAlert(transaction);
+		slackClient.posts.mockResolvedValue({ ok: false, error: "Slack API error: 500" });
+
+		for (let attempt = 0; attempt < 6; attempt++) {
+			await createOutbox().dispatch();
+		}
+
+		expect(slackClient.posts).toHaveBeenCalledTimes(5);
+		const [stored] = await db.select().from(alertOutbox).where(eq(alertOutbox.id, entry?.id ?? ""));
+		expect(stored).toMatchObject({ status: "failed", attempts: 5, lastError: "Slack API error: 500" });
+		expect(await db.select().from(slackAlerts)).toHaveLength(0);
+	});
+
+	it("should deliver a failed post on a later sweep", async () => {
+		const db = getDb();
+		const transaction = await createTransaction();
+		const entry = await queueUrgentAlert(transaction);
+		slackClient.posts.mockResolvedValueOnce({ ok: false, error: "Slack API error: 500" });
+
+		const failed = await createOutbox().dispatch(entry ? [entry.id] : []);
+		const swept = await createOutbox().dispatch();
+
+		expect(failed.failed).toBe(1);
+		expect(swept.urgentAlertsPosted).toBe(1);
+
+		const [stored] = await db.select().from(alertOutbox).where(eq(alertOutbox.id, entry?.id ?? ""));
+		expect(stored).toMatchObject({ status: "sent", attempts: 2, lastError: null });
+		expect(await db.select().from(slackAlerts)).toHaveLength(1);
+	});
+
+	it("should record a thrown post as a failure instead of throwing", async () => {
+		const db = getDb();
+		const transaction = await createTransaction();
+		await queueUrgentAlert(transaction);
+		slackClient.posts.mockRejectedValueOnce(new Error("SLACK_WEBHOOK_URL not configured"));
+
+		const stats = await createOutbox().dispatch();
+
+		expect(stats.failed).toBe(1);
+		const [stored] = await db.select().from(alertOutbox);
+		expect(stored).toMatchObject({ status: "pending", lastError: "SLACK_WEBHOOK_URL not configured" });
+	});
+
+	it("should post an entry once when two dispatchers run at the same time", async () => {
+		const transaction = await createTransaction();
+		await queueUrgentAlert(transaction);
+
+		const [first, second] = await Promise.all([createOutbox().dispatch(), createOutbox().dispatch()]);
+
+		expect(first.urgentAlertsPosted + second.urgentAlertsPosted).toBe(1);
+		expect(slackClient.posts).toHaveBeenCalledTimes(1);
+		expect(await getDb().select().from(slackAlerts)).toHaveLength(1);
+	});
+
+	it("should take over a stale claim but leave a fresh one to its dispatcher", async () => {
+		const db = getDb();
+		const transaction = await createTransaction();
+		const entry = await queueUrgentAlert(transaction);
+		await db
+			.update(alertOutbox)
+			.set({ status: "sending", claimedAt: new Date() })
+			.where(eq(alertOutbox.id, entry?.id ?? ""));
+
+		const fresh = await createOutbox().dispatch();
+
+		await db
+			.update(alertOutbox)
+			.set({ claimedAt: new Date(Date.now() - 60 * 60 * 1000) })
+			.where(eq(alertOutbox.id, entry?.id ?? ""));
+		const stale = await createOutbox().dispatch();
+
+		expect(fresh.urgentAlertsPosted).toBe(0);
+		expect(stale.urgentAlertsPosted).toBe(1);
+		expect(slackClient.posts).toHaveBeenCalledTimes(1);
+	});
+
+	it("should reply in the alert's thread and flag it corrected", async () => {
+		const db = getDb();
+		const transaction = await createTransaction();
+		const alert = await recordSlackAlert(db, {
+			transactionId: transaction.id,
+			issuerId: transaction.issuerId,
+			alertType: "urgent",
+			slackMessageTs: "1717444000.000100",
+			slackThreadTs: "1717444000.000100",
+			postedAt: new Date(),
+		});
+		await queueAlert(db, {
+			kind: "correction",
+			transactionId: transaction.id,
+			issuerId: transaction.issuerId,
+			slackAlertId: alert.id,
+			filingAccession: "0001209191-24-000456",
+			message: MESSAGE,
+			threadTs: alert.slackThreadTs,
+		});
+
+		const stats = await createOutbox().dispatch();
+
+		expect(stats.correctionsPosted).toBe(1);
+		expect(slackClient.posts).toHaveBeenCalledWith({
+			...MESSAGE,
+			thread_ts: "1717444000.000100",
+		});
+
+		const [corrected] = await db.select().from(slackAlerts).where(eq(slackAlerts.id, alert.id));
+		expect(corrected.correctedByAccession).toBe("0001209191-24-000456");
+	});
+});
@@ -0,0 +1,122 @@
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import type { AlertOutboxEntry } from "../../sql/schema";
+import {
+	claimPendingAlerts,
+	markAlertSent,
+	markSlackAlertCorrected,
+	recordAlertFailure,
+	recordSlackAlert,
+} from "../../sql/queries/insiders";
+import { type SlackClient, type SlackMessageResponse, createSlackClient } from "../slack";
+
+// Failed posts are retried by later sweeps (dispatch() without IDs) until an entry has been tried this many times
+const MAX_ALERT_ATTEMPTS = 5;
+
+// A claimed entry not marked sent or failed within this long is claimed again (longer than any dispatching Lambda runs)
+const ALERT_CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+
+export interface AlertDispatchStats {
+	urgentAlertsPosted: number;
+	correctionsPosted: number;
+	failed: number; // Entries left pending (or marked failed after MAX_ALERT_ATTEMPTS)
+}
+
+/**
+ * Posts Slack alerts queued in the alert outbox
+ * Alerts are queued inside the database transaction that stores their filing, so an alert is
+ * never posted for a filing that was rolled back. Posting happens after the commit. Each
+ * dispatcher claims the entries it posts, so concurrent dispatchers don't post one twice; an
+ * entry is marked sent only after Slack accepted it, so a crash in between can post it again
+ * once its claim goes stale, but never drops it.
+ */
+export class AlertOutbox {
+	private db: PgDatabase<any, any, any>;
+	private slackClient: SlackClient;
+
+	constructor(db: PgDatabase<any, any, any>, slackClient: SlackClient = createSlackClient()) {
+		this.db = db;
+		this.slackClient = slackClient;
+	}
+
+	/**
+	 * Post pending alerts, oldest first
+	 * @param entryIds Only these entries (default: every pending entry, e.g. to retry failures)
+	 */
+	async dispatch(entryIds?: string[]): Promise<AlertDispatchStats> {
+		const stats: AlertDispatchStats = { urgentAlertsPosted: 0, correctionsPosted: 0, failed: 0 };
+
+		const staleBefore = new Date(Date.now() - ALERT_CLAIM_TIMEOUT_MS);
+
+		for (const entry of await claimPendingAlerts(this.db, staleBefore, entryIds)) {
+			const response = await this.post(entry);
+
+			if (!response.ok) {
+				console.error(
+					`[AlertOutbox] Failed to post ${entry.kind} alert for ${entry.filingAccession}: ${response.error}`,
+				);
+				await recordAlertFailure(this.db, entry.id, response.error ?? "Unknown error", MAX_ALERT_ATTEMPTS);
+				stats.failed++;
+				continue;
+			}
+
+			await this.db.transaction(async (tx) => {
+				await this.recordPosted(tx, entry, response.ts);
+				await markAlertSent(tx, entry.id);
+			});
+
+			if (entry.kind === "correction") {
+				stats.correctionsPosted++;
+			} else {
+				stats.urgentAlertsPosted++;
+			}
+		}
+
+		return stats;
+	}
+
+	/**
+	 * Post one entry; a thrown error (e.g. SLACK_WEBHOOK_URL not configured) counts as a failed post
+	 */
+	private async post(entry: AlertOutboxEntry): Promise<SlackMessageResponse> {
+		try {
+			return entry.kind === "correction" && entry.threadTs
+				? await this.slackClient.postThreadedReply(entry.message, entry.threadTs)
+				: await this.slackClient.postMessage(entry.message);
+		} catch (error) {
+			return { ok: false, error: error instanceof Error ? error.message : "Unknown error" };
+		}
+	}
+
+	/**
+	 * Record a posted alert in the Slack alert audit log
+	 */
+	private async recordPosted(
+		db: PgDatabase<any, any, any>,
+		entry: AlertOutboxEntry,
+		messageTs: string | undefined,
+	): Promise<void> {
+		if (entry.kind === "correction") {
+			if (entry.slackAlertId) {
+				await markSlackAlertCorrected(db, entry.slackAlertId, entry.filingAccession);
+			}
+			return;
+		}
+
+		await recordSlackAlert(db, {
+			transactionId: entry.transactionId,
+			issuerId: entry.issuerId,
+			alertType: "urgent",
+			slackMessageTs: messageTs,
+			slackThreadTs: messageTs, // Start a new thread
+			postedAt: new Date(),
+		});
+		console.log(`[AlertOutbox] Posted urgent alert for ${entry.filingAccession}`);
+	}
+}
+
+/**
+ * Create an alert outbox instance
+ */
+export function createAlertOutbox(db: PgDatabase<any, any, any>): AlertOutbox {
+	return new AlertOutbox(db);
+}
@@ -0,0 +1,92 @@
+import { getDb } from "@starter/core/sql";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import createFetchMock from "vitest-fetch-mock";
+import { createSECEdgarClient } from "../sec/client";
+import { FORM_4_FIXTURES_DIR } from "../sec/conformance";
+import { type FakeEdgarServer, createFakeEdgarServer, loadFakeEdgarFilings } from "../sec/fakeEdgar";
+import { getBackfillJob } from "../../sql/queries/ingestion";
+import { createForm4Backfill } from "./backfill";
+
+describe("Form4Backfill", () => {
+	let server: FakeEdgarServer;
+
+	beforeAll(async () => {
+		// The backfill talks HTTP to the fake server, not to the fetch mock
+		createFetchMock(vi).disableMocks();
+
+		server = createFakeEdgarServer({ filings: await loadFakeEdgarFilings(FORM_4_FIXTURES_DIR) });
+		await server.start();
+	});
+
+	afterAll(async () => {
+		await server.stop();
+	});
+
+	afterEach(() => {
+		server.reset();
+		vi.useRealTimers();
+	});
+
+	function createBackfill() {
+		const secClient = createSECEdgarClient({
+			baseUrl: server.url,
+			dataUrl: server.url,
+			maxRetries: 2,
+			baseDelayMs: 1,
+			maxDelayMs: 5,
+		});
+		return createForm4Backfill(getDb(), { secClient });
+	}
+
+	// Only the clock's date is faked, so requests and timers still run
+	function setToday(isoDateTime: string) {
+		vi.useFakeTimers({ toFake: ["Date"], shouldAdvanceTime: true });
+		vi.setSystemTime(new Date(isoDateTime));
+	}
+
+	it("should keep a job pending until EDGAR publishes a recent day's index", async () => {
+		const backfill = createBackfill();
+		// The fake server has filings on Thursday 2024-06-13 and no index for Friday 2024-06-14
+		const job = await backfill.createJob({
+			source: "daily-index",
+			startDate: "2024-06-13",
+			endDate: "2024-06-14",
+		});
+
+		setToday("2024-06-15T12:00:00-04:00");
+		const early = await backfill.run(job.id);
+
+		expect(early.filingsDiscovered).toBeGreaterThan(0);
+		expect(early.filingsProcessed).toBe(early.filingsDiscovered);
+		expect(early.completed).toBe(false);
+		expect(await getBackfillJob(getDb(), job.id)).toMatchObject({
+			status: "pending",
+			discoveredThrough: "2024-06-13",
+		});
+
+		// Days later a missing index means there were no filings that day
+		setToday("2024-06-20T12:00:00-04:00");
+		const later = await backfill.run(job.id);
+
+		expect(later.completed).toBe(true);
+		expect(await getBackfillJob(getDb(), job.id)).toMatchObject({
+			status: "completed",
+			discoveredThrough: "2024-06-14",
+		});
+	});
+
+	it("should not read today's index before the day is over", async () => {
+		const backfill = createBackfill();
+		const job = await backfill.createJob({
+			source: "daily-index",
+			startDate: "2024-06-13",
+			endDate: "2024-06-13",
+		});
+
+		setToday("2024-06-13T18:00:00-04:00");
+		const stats = await backfill.run(job.id);
+
+		expect(stats).toMatchObject({ filingsDiscovered: 0, completed: false });
+		expect(server.requests).toEqual([]);
+	});
+});
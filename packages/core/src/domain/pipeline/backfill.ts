@@ -0,0 +1,407 @@
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+	EdgarThrottledError,
+	PostgresRateLimiter,
+	type SECEdgarClient,
+	createSECEdgarClient,
+} from "../sec";
+import { getEasternDate, isFormIndexPending } from "../sec/formIndex";
+import type { FormIndexEntry, FormIndexSource } from "../sec/types";
+import type { BackfillJob } from "../../sql/schema";
+import {
+	createBackfillJob,
+	getActiveBackfillJobs,
+	getBackfillJob,
+	getPendingBackfillItems,
+	incrementBackfillJobCounts,
+	insertBackfillItems,
+	markBackfillItem,
+	updateBackfillJob,
+} from "../../sql/queries/ingestion";
+import { type IngestionLedger, createIngestionLedger } from "./ledger";
+import { createForm4Processor } from "./processor";
+
+// Form types a backfill queues for processing (a Form 5 uses the Form 4 document layout)
+export const BACKFILL_FORM_TYPES = ["3", "3/A", "4", "4/A", "5", "5/A"];
+
+// First filing date of the XML ownership documents; earlier Forms 3/4/5 were filed as text
+export const OWNERSHIP_XML_START_DATE = "2003-06-30";
+
+// Where a backfill discovers filings: EDGAR form indexes, or one issuer's submissions JSON
+export type BackfillSource = FormIndexSource | "submissions";
+
+// Number of pending filings loaded per processing batch
+const BACKFILL_BATCH_SIZE = 50;
+
+// Fields of a discovered filing needed to queue it
+type DiscoveredFiling = Pick<
+	FormIndexEntry,
+	"accessionNumber" | "cik" | "companyName" | "formType" | "filingDate"
+>;
+
+export interface BackfillJobOptions {
+	source: BackfillSource;
+	issuerCik?: string; // Required for 'submissions' jobs
+	startDate: string; // ISO date string (YYYY-MM-DD), inclusive
+	endDate: string; // ISO date string (YYYY-MM-DD), inclusive
+	skipAlerts?: boolean; // Default true: a backfill shouldn't flood the Slack channel
+}
+
+export interface Form4BackfillOptions {
+	secClient?: SECEdgarClient; // EDGAR client (default: one sharing the Postgres rate limit bucket)
+}
+
+export interface BackfillStats {
+	jobId: string;
+	filingsDiscovered: number;
+	filingsProcessed: number;
+	filingsFailed: number;
+	completed: boolean;
+	retries: number; // EDGAR requests retried after a throttled or transient failure
+	throttledResponses: number; // 429 and 503 responses from EDGAR
+	circuitOpen: boolean; // True if EDGAR kept throttling; unprocessed filings stay pending
+	errors: Array<{ filing: string; error: string }>;
+}
+
+/**
+ * Historical backfill from EDGAR form indexes or an issuer's submissions
+ * Walks daily-index or full-index form.idx files for a date range (or reads one issuer's
+ * submissions JSON), queues every Form 3, 4 and 5 accession (including amendments) and runs
+ * it through the Form 4 processor. Progress lives in the database, so an interrupted run
+ * picks up where it stopped.
+ */
+export class Form4Backfill {
+	private db: PgDatabase<any, any, any>;
+	private secClient: SECEdgarClient;
+
+	constructor(db: PgDatabase<any, any, any>, options: Form4BackfillOptions = {}) {
+		this.db = db;
+		// Shares the Postgres rate limit bucket with the live feed processor
+		this.secClient =
+			options.secClient ?? createSECEdgarClient({ rateLimiter: new PostgresRateLimiter(db) });
+	}
+
+	/**
+	 * Create a new backfill job
+	 */
+	async createJob(options: BackfillJobOptions): Promise<BackfillJob> {
+		if (options.startDate > options.endDate) {
+			throw new Error(`Backfill start date ${options.startDate} is after end date ${options.endDate}`);
+		}
+		if (options.source === "submissions" && !options.issuerCik) {
+			throw new Error("A submissions backfill needs an issuer CIK");
+		}
+
+		return createBackfillJob(this.db, {
+			source: options.source,
+			issuerCik: options.source === "submissions" ? options.issuerCik : undefined,
+			startDate: options.startDate,
+			endDate: options.endDate,
+			skipAlerts: options.skipAlerts ?? true,
+		});
+	}
+
+	/**
+	 * Run (or resume) a backfill job
+	 * @param jobId Backfill job ID
+	 * @param maxFilings Stop after processing this many filings (the job can be resumed later)
+	 * @returns Backfill statistics for this run
+	 */
+	async run(jobId: string, maxFilings = Number.POSITIVE_INFINITY): Promise<BackfillStats> {
+		const job = await getBackfillJob(this.db, jobId);
+		if (!job) {
+			throw new Error(`Backfill job ${jobId} not found`);
+		}
+
+		const stats: BackfillStats = {
+			jobId,
+			filingsDiscovered: 0,
+			filingsProcessed: 0,
+			filingsFailed: 0,
+			completed: job.status === "completed",
+			retries: 0,
+			throttledResponses: 0,
+			circuitOpen: false,
+			errors: [],
+		};
+
+		if (stats.completed) {
+			console.log(`[Form4Backfill] Job ${jobId} already completed`);
+			return stats;
+		}
+
+		const ledger = createIngestionLedger(this.db);
+		await ledger.start("backfill", {
+			jobId,
+			source: job.source,
+			maxFilings: Number.isFinite(maxFilings) ? maxFilings : null,
+		});
+
+		try {
+			await this.processJob(job, maxFilings, stats, ledger);
+		} catch (error) {
+			await ledger.complete(stats, error);
+			throw error;
+		}
+
+		await ledger.complete(stats);
+		return stats;
+	}
+
+	/**
+	 * Discover a job's filings and process pending ones until maxFilings, folding the
+	 * outcome into stats
+	 */
+	private async processJob(
+		job: BackfillJob,
+		maxFilings: number,
+		stats: BackfillStats,
+		ledger: IngestionLedger,
+	): Promise<void> {
+		const jobId = job.id;
+		stats.filingsDiscovered = await this.discover(job);
+		const discoveredThrough = (await getBackfillJob(this.db, jobId))?.discoveredThrough;
+
+		await updateBackfillJob(this.db, jobId, { status: "processing" });
+		const processor = createForm4Processor(this.db, {
+			skipAlerts: job.skipAlerts,
+			secClient: this.secClient,
+		});
+		const requestsBefore = this.secClient.getRequestStats();
+
+		while (!stats.circuitOpen && stats.filingsProcessed + stats.filingsFailed < maxFilings) {
+			const remaining = maxFilings - stats.filingsProcessed - stats.filingsFailed;
+			const items = await getPendingBackfillItems(
+				this.db,
+				jobId,
+				Math.min(BACKFILL_BATCH_SIZE, remaining),
+			);
+
+			if (items.length === 0) {
+				// Days EDGAR hasn't indexed yet are discovered by a later run
+				if (!discoveredThrough || discoveredThrough < job.endDate) {
+					console.log(
+						`[Form4Backfill] Job ${jobId}: waiting for the form indexes after ${discoveredThrough ?? job.startDate}`,
+					);
+					await updateBackfillJob(this.db, jobId, { status: "pending" });
+					break;
+				}
+
+				await updateBackfillJob(this.db, jobId, { status: "completed", completedAt: new Date() });
+				stats.completed = true;
+				break;
+			}
+
+			let processed = 0;
+			let failed = 0;
+
+			for (const item of items) {
+				try {
+					const result = await processor.processFiling(item);
+					await markBackfillItem(this.db, item.id, "processed");
+					await ledger.recordProcessed(item, result);
+					processed++;
+				} catch (error) {
+					// EDGAR is refusing requests: leave this and later items pending for the next run
+					if (error instanceof EdgarThrottledError) {
+						console.warn(`[Form4Backfill] Job ${jobId}: ${error.message}; stopping run`);
+						await ledger.record(item, "skipped", { reason: error.message });
+						stats.circuitOpen = true;
+						break;
+					}
+
+					const errorMessage = error instanceof Error ? error.message : "Unknown error";
+					console.error(
+						`[Form4Backfill] Error processing filing ${item.accessionNumber}:`,
+						errorMessage,
+					);
+					await markBackfillItem(this.db, item.id, "failed", errorMessage);
+					await ledger.record(item, "failed", { reason: errorMessage });
+					stats.errors.push({ filing: item.accessionNumber, error: errorMessage });
+					failed++;
+				}
+			}
+
+			await incrementBackfillJobCounts(this.db, jobId, { processed, failed });
+			stats.filingsProcessed += processed;
+			stats.filingsFailed += failed;
+
+			console.log(
+				`[Form4Backfill] Job ${jobId}: ${stats.filingsProcessed} processed, ${stats.filingsFailed} failed`,
+			);
+		}
+
+		const requestsAfter = this.secClient.getRequestStats();
+		stats.retries = requestsAfter.retries - requestsBefore.retries;
+		stats.throttledResponses = requestsAfter.throttledResponses - requestsBefore.throttledResponses;
+	}
+
+	/**
+	 * Run every job that hasn't completed, oldest first, within one filing budget
+	 * Used by the scheduled runner so jobs started from the dashboard finish in the background
+	 * @param maxFilings Filings to process across all jobs in this call
+	 */
+	async runPending(maxFilings: number): Promise<BackfillStats[]> {
+		const results: BackfillStats[] = [];
+		let remaining = maxFilings;
+
+		for (const job of await getActiveBackfillJobs(this.db)) {
+			if (remaining <= 0) break;
+
+			const stats = await this.run(job.id, remaining);
+			results.push(stats);
+			remaining -= stats.filingsProcessed + stats.filingsFailed;
+
+			// EDGAR is throttling: other jobs would hit the same open circuit
+			if (stats.circuitOpen) break;
+		}
+
+		return results;
+	}
+
+	/**
+	 * Queue the filings of the job not yet discovered
+	 * @returns Number of newly queued filings
+	 */
+	private async discover(job: BackfillJob): Promise<number> {
+		return job.source === "submissions"
+			? this.discoverSubmissions(job)
+			: this.discoverFormIndexes(job);
+	}
+
+	/**
+	 * Read the issuer's submissions JSON, including continuation files, and queue its filings
+	 * The whole history is listed in one pass, so discovery is done once it has been read
+	 */
+	private async discoverSubmissions(job: BackfillJob): Promise<number> {
+		if (job.discoveredThrough || !job.issuerCik) return 0;
+
+		await updateBackfillJob(this.db, job.id, { status: "discovering" });
+
+		const submissions = await this.secClient.fetchIssuerSubmissions(job.issuerCik, job.startDate);
+		const inRange = submissions.filings.filter(
+			(filing) => filing.filingDate >= job.startDate && filing.filingDate <= job.endDate,
+		);
+
+		const queued = await this.queueEntries(
+			job.id,
+			inRange.map((filing) => ({
+				...filing,
+				cik: submissions.cik,
+				companyName: submissions.companyName,
+			})),
+		);
+		await updateBackfillJob(this.db, job.id, { discoveredThrough: job.endDate });
+
+		console.log(
+			`[Form4Backfill] Job ${job.id}: read submissions of ${submissions.companyName} (CIK ${submissions.cik}), ${queued} filings queued`,
+		);
+
+		return queued;
+	}
+
+	/**
+	 * Read the form indexes not yet covered by the job and queue their filings
+	 * Stops before days EDGAR may not have indexed yet (see isFormIndexPending), so their
+	 * filings are discovered by a later run instead of being skipped
+	 * @returns Number of newly queued filings
+	 */
+	private async discoverFormIndexes(job: BackfillJob): Promise<number> {
+		let from = job.discoveredThrough ? addDays(job.discoveredThrough, 1) : job.startDate;
+		const today = getEasternDate(new Date());
+		if (from > job.endDate || from >= today) return 0;
+
+		await updateBackfillJob(this.db, job.id, { status: "discovering" });
+		let queued = 0;
+
+		while (from <= job.endDate && from < today) {
+			// A full-index file covers the whole quarter, a daily-index file a single day;
+			// the current quarter's file is only read through yesterday
+			const through =
+				job.source === "full-index"
+					? minDate(getQuarterEnd(from), minDate(job.endDate, addDays(today, -1)))
+					: from;
+
+			const entries = await this.secClient.fetchFormIndex(job.source as FormIndexSource, from);
+			if (!entries && isFormIndexPending(from, today)) {
+				console.log(`[Form4Backfill] Job ${job.id}: no form index for ${from} yet`);
+				break;
+			}
+
+			const inRange = (entries ?? []).filter(
+				(entry) => entry.filingDate >= from && entry.filingDate <= through,
+			);
+
+			queued += await this.queueEntries(job.id, inRange);
+			await updateBackfillJob(this.db, job.id, { discoveredThrough: through });
+
+			console.log(
+				`[Form4Backfill] Job ${job.id}: indexed ${from}..${through}, ${queued} filings queued so far`,
+			);
+
+			from = addDays(through, 1);
+		}
+
+		return queued;
+	}
+
+	/**
+	 * Queue discovered ownership filings as backfill items
+	 * A Form 3/4 is listed once per filer (issuer and each reporting owner), so rows are deduped by accession
+	 */
+	private async queueEntries(jobId: string, entries: DiscoveredFiling[]): Promise<number> {
+		const byAccession = new Map<string, DiscoveredFiling>();
+
+		for (const entry of entries) {
+			if (!BACKFILL_FORM_TYPES.includes(entry.formType)) continue;
+			if (!byAccession.has(entry.accessionNumber)) {
+				byAccession.set(entry.accessionNumber, entry);
+			}
+		}
+
+		return insertBackfillItems(
+			this.db,
+			Array.from(byAccession.values()).map((entry) => ({
+				jobId,
+				accessionNumber: entry.accessionNumber,
+				cik: entry.cik,
+				companyName: entry.companyName,
+				formType: entry.formType,
+				filingDate: entry.filingDate,
+			})),
+		);
+	}
+}
+
+/**
+ * Add days to an ISO date string (YYYY-MM-DD)
+ */
+function addDays(date: string, days: number): string {
+	const result = new Date(`${date}T00:00:00Z`);
+	result.setUTCDate(result.getUTCDate() + days);
+	return result.toISOString().split("T")[0];
+}
+
+/**
+ * Last calendar day of the quarter containing an ISO date
+ */
+function getQuarterEnd(date: string): string {
+	const [year, month] = date.split("-").map(Number);
+	const quarterEndMonth = Math.ceil(month / 3) * 3;
+	// Day 0 of the following month is the last day of the quarter's final month
+	return new Date(Date.UTC(year, quarterEndMonth, 0)).toISOString().split("T")[0];
+}
+
+function minDate(a: string, b: string): string {
+	return a < b ? a : b;
+}
+
+/**
+ * Create a Form 4 backfill instance
+ */
+export function createForm4Backfill(
+	db: PgDatabase<any, any, any>,
+	options: Form4BackfillOptions = {},
+): Form4Backfill {
+	return new Form4Backfill(db, options);
+}
@@ -1,2 +1,8 @@
 export * from "./aggregator";
+export * from "./alertOutbox";
+export * from "./backfill";
+export * from "./ledger";
 export * from "./processor";
+export * from "./redrive";
+export * from "./replay";
+export * from "./worker";
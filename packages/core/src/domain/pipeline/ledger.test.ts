@@ -0,0 +1,91 @@
+import { getDb } from "@starter/core/sql";
+import { describe, expect, it } from "vitest";
+import {
+	getFilingOutcomes,
+	getIngestionRunItems,
+	getIngestionRuns,
+} from "../../sql/queries/ingestion";
+import { createIngestionLedger } from "./ledger";
+
+const FILING = {
+	accessionNumber: "0001209191-24-000123",
+	cik: "1618732",
+	filingDate: "2024-06-03T16:05:12-04:00",
+	formType: "4",
+};
+
+describe("IngestionLedger", () => {
+	it("should record a run's parameters, counts and stats", async () => {
+		const db = getDb();
+		const ledger = createIngestionLedger(db);
+
+		await ledger.start("form4-processor", { filingCount: 100 });
+		await ledger.record(FILING, "parsed", {
+			result: {
+				issuer: { cik: "1618732", ticker: "HRBR" },
+				transactionsSaved: 2,
+				urgentAlertsPosted: 0,
+				documentStrategy: "index-json",
+			},
+		});
+		await ledger.record({ ...FILING, accessionNumber: "0001209191-24-000124" }, "failed", {
+			reason: "Invalid Form 4",
+		});
+		await ledger.complete({ filingsProcessed: 1 });
+
+		const [run] = await getIngestionRuns(db, { kind: "form4-processor" });
+		expect(run).toMatchObject({
+			status: "completed",
+			parameters: { filingCount: 100 },
+			filingsParsed: 1,
+			filingsSkipped: 0,
+			filingsFailed: 1,
+			stats: { filingsProcessed: 1 },
+			error: null,
+		});
+		expect(run.completedAt).not.toBeNull();
+
+		const failed = await getIngestionRunItems(db, run.id, "failed");
+		expect(failed).toHaveLength(1);
+		expect(failed[0].reason).toBe("Invalid Form 4");
+	});
+
+	it("should record a run that stopped on an error as failed", async () => {
+		const db = getDb();
+		const ledger = createIngestionLedger(db);
+
+		await ledger.start("backfill", { jobId: "job-1" });
+		await ledger.complete({}, new Error("Backfill job not found"));
+
+		const [run] = await getIngestionRuns(db, { status: "failed" });
+		expect(run?.error).toBe("Backfill job not found");
+	});
+
+	it("should find a filing's outcomes across runs by accession or issuer", async () => {
+		const db = getDb();
+
+		const first = createIngestionLedger(db);
+		await first.start("filing-worker");
+		await first.record(FILING, "failed", { reason: "timeout" });
+		await first.complete({});
+
+		const retry = createIngestionLedger(db);
+		await retry.start("filing-worker");
+		await retry.record(FILING, "parsed", {
+			result: {
+				issuer: { cik: "1618732", ticker: "HRBR" },
+				transactionsSaved: 1,
+				urgentAlertsPosted: 0,
+				documentStrategy: "index-json",
+			},
+		});
+		await retry.complete({});
+
+		const byAccession = await getFilingOutcomes(db, { accessionNumber: FILING.accessionNumber });
+		const byIssuer = await getFilingOutcomes(db, { issuerCik: "1618732" });
+
+		expect(byAccession.map((outcome) => outcome.status).sort()).toEqual(["failed", "parsed"]);
+		expect(byAccession[0].runKind).toBe("filing-worker");
+		expect(byIssuer).toHaveLength(2);
+	});
+});
@@ -0,0 +1,137 @@
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+	completeIngestionRun,
+	createIngestionRun,
+	insertIngestionRunItems,
+} from "../../sql/queries/ingestion";
+import type { FilingRef, FilingResult } from "./processor";
+
+export type IngestionRunKind =
+	| "form4-processor"
+	| "form4-enqueue"
+	| "filing-worker"
+	| "backfill"
+	| "replay"
+	| "daily-digest";
+
+// What happened to one filing in a run
+export type FilingOutcomeStatus = "parsed" | "skipped" | "failed";
+
+/**
+ * Records one ingestion run and the outcome of each filing it handles in
+ * ingestion_runs / ingestion_run_items
+ * Outcomes are written as they happen, so a run cut short by a Lambda timeout still shows
+ * what it did. The ledger is bookkeeping: its own database errors are logged, never thrown.
+ */
+export class IngestionLedger {
+	private db: PgDatabase<any, any, any>;
+	private runId: string | null = null;
+	private startedAt = Date.now();
+	private counts = { parsed: 0, skipped: 0, failed: 0 };
+
+	constructor(db: PgDatabase<any, any, any>) {
+		this.db = db;
+	}
+
+	/**
+	 * Start recording a run
+	 * @param parameters Options the run was started with
+	 */
+	async start(kind: IngestionRunKind, parameters: Record<string, unknown> = {}): Promise<void> {
+		this.startedAt = Date.now();
+
+		try {
+			const run = await createIngestionRun(this.db, { kind, parameters });
+			this.runId = run.id;
+		} catch (error) {
+			console.error(`[IngestionLedger] Failed to start ${kind} run:`, getErrorMessage(error));
+		}
+	}
+
+	/**
+	 * Record what happened to one filing
+	 * @param reason Why a filing was skipped or failed
+	 * @param result The processing result of a parsed filing
+	 */
+	async record(
+		filing: FilingRef,
+		status: FilingOutcomeStatus,
+		details: { reason?: string; result?: FilingResult } = {},
+	): Promise<void> {
+		this.counts[status]++;
+		if (!this.runId) return;
+
+		try {
+			await insertIngestionRunItems(this.db, [
+				{
+					runId: this.runId,
+					accessionNumber: filing.accessionNumber,
+					formType: filing.formType,
+					cik: filing.cik,
+					issuerCik: details.result?.issuer?.cik ?? null,
+					ticker: details.result?.issuer?.ticker ?? null,
+					status,
+					reason: details.reason ?? null,
+					transactionsSaved: details.result?.transactionsSaved ?? 0,
+				},
+			]);
+		} catch (error) {
+			console.error(
+				`[IngestionLedger] Failed to record ${filing.accessionNumber}:`,
+				getErrorMessage(error),
+			);
+		}
+	}
+
+	/**
+	 * Record a filing the processor returned a result for: parsed, or skipped when the same
+	 * document had already been processed
+	 */
+	async recordProcessed(filing: FilingRef, result: FilingResult): Promise<void> {
+		if (result.alreadyProcessed) {
+			await this.record(filing, "skipped", { reason: "Already processed", result });
+			return;
+		}
+
+		await this.record(filing, "parsed", { result });
+	}
+
+	/**
+	 * Record the end of the run
+	 * @param stats The run's stats object (e.g. ProcessorStats)
+	 * @param error Set when the run stopped on an error (an Error or a message); the run is recorded as failed
+	 */
+	async complete(stats: object, error?: unknown): Promise<void> {
+		if (!this.runId) return;
+
+		try {
+			await completeIngestionRun(this.db, this.runId, {
+				status: error === undefined ? "completed" : "failed",
+				completedAt: new Date(),
+				durationMs: Date.now() - this.startedAt,
+				filingsParsed: this.counts.parsed,
+				filingsSkipped: this.counts.skipped,
+				filingsFailed: this.counts.failed,
+				stats: { ...stats },
+				error: error === undefined ? null : getErrorMessage(error),
+			});
+		} catch (ledgerError) {
+			console.error(
+				`[IngestionLedger] Failed to complete run ${this.runId}:`,
+				getErrorMessage(ledgerError),
+			);
+		}
+	}
+}
+
+/**
+ * Create an ingestion ledger; call start() before recording outcomes
+ */
+export function createIngestionLedger(db: PgDatabase<any, any, any>): IngestionLedger {
+	return new IngestionLedger(db);
+}
+
+function getErrorMessage(error: unknown): string {
+	if (typeof error === "string") return error;
+	return error instanceof Error ? error.message : "Unknown error";
+}
@@ -0,0 +1,136 @@
+import { fileURLToPath } from "node:url";
+import { eq, sql } from "drizzle-orm";
+import { type NodePgDatabase, drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { Pool } from "pg";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import createFetchMock from "vitest-fetch-mock";
+import { createSECEdgarClient } from "../sec/client";
+import { FORM_4_FIXTURES_DIR } from "../sec/conformance";
+import { type FakeEdgarServer, createFakeEdgarServer, loadFakeEdgarFilings } from "../sec/fakeEdgar";
+import { getIngestionCursor } from "../../sql/queries/ingestion";
+import { issuers, transactions } from "../../sql/schema";
+import { createForm4Processor } from "./processor";
+
+/**
+ * End-to-end run of Form4Processor.process against the fake EDGAR server and a real Postgres
+ * Set TEST_DATABASE_URL to a disposable database: its public schema is dropped and migrated
+ * from scratch. Skipped when the variable isn't set.
+ */
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+const MIGRATIONS_DIR = fileURLToPath(new URL("../../sql/migrations", import.meta.url));
+
+describe.skipIf(!TEST_DATABASE_URL)("Form4Processor end to end", () => {
+	let pool: Pool;
+	let db: NodePgDatabase;
+	let server: FakeEdgarServer;
+
+	beforeAll(async () => {
+		// The processor talks HTTP to the fake server, not to the fetch mock
+		createFetchMock(vi).disableMocks();
+
+		pool = new Pool({ connectionString: TEST_DATABASE_URL });
+		db = drizzle(pool);
+		await db.execute(sql.raw("DROP SCHEMA IF EXISTS drizzle CASCADE"));
+		await db.execute(sql.raw("DROP SCHEMA public CASCADE"));
+		await db.execute(sql.raw("CREATE SCHEMA public"));
+		await migrate(db, { migrationsFolder: MIGRATIONS_DIR });
+
+		server = createFakeEdgarServer({ filings: await loadFakeEdgarFilings(FORM_4_FIXTURES_DIR) });
+		await server.start();
+	});
+
+	afterAll(async () => {
+		await server?.stop();
+		await pool?.end();
+	});
+
+	beforeEach(async () => {
+		const { rows } = await db.execute<{ table_name: string }>(
+			sql.raw(
+				"SELECT table_name FROM information_schema.tables WHERE table_schema = 'public' AND table_type = 'BASE TABLE'",
+			),
+		);
+		for (const { table_name } of rows) {
+			await db.execute(sql.raw(`TRUNCATE TABLE "${table_name}" CASCADE`));
+		}
+	});
+
+	afterEach(() => {
+		server.reset();
+	});
+
+	function createProcessor() {
+		const secClient = createSECEdgarClient({
+			baseUrl: server.url,
+			dataUrl: server.url,
+			maxRetries: 2,
+			baseDelayMs: 1,
+			maxDelayMs: 5,
+			circuitCooldownMs: 60_000,
+		});
+
+		return createForm4Processor(db, { skipAlerts: true, secClient });
+	}
+
+	it("should ingest every filing on the feed and advance the cursor", async () => {
+		const stats = await createProcessor().process();
+
+		expect(stats.errors).toEqual([]);
+		expect(stats.filingsProcessed).toBe(6);
+		expect(stats.documentStrategies["index-json"]).toBe(6);
+		expect(stats.transactionsCreated).toBeGreaterThan(0);
+
+		const [{ count }] = await db.select({ count: sql<number>`COUNT(*)` }).from(transactions);
+		expect(Number(count)).toBe(stats.transactionsCreated);
+
+		const [issuer] = await db.select().from(issuers).where(eq(issuers.cik, "1618732"));
+		expect(issuer?.ticker).toBe("HRBR");
+
+		const [newest] = await createSECEdgarClient({ baseUrl: server.url }).fetchRecentFilings("4", 1);
+		const cursor = await getIngestionCursor(db, "current-form-4");
+		expect(cursor?.lastAccession).toBe(newest.accessionNumber);
+	});
+
+	it("should pick up only new filings on the next run", async () => {
+		await createProcessor().process();
+
+		const stats = await createProcessor().process();
+
+		expect(stats.filingsProcessed).toBe(0);
+		expect(stats.gapClosed).toBe(true);
+	});
+
+	it("should retry throttled and slow responses", async () => {
+		server.addFault({ path: "type=4", status: 429, retryAfter: "0", times: 2 });
+		server.addFault({ path: "index.json", delayMs: 200, times: 1 });
+
+		const stats = await createProcessor().process();
+
+		expect(stats.errors).toEqual([]);
+		expect(stats.filingsProcessed).toBe(6);
+		expect(stats.throttledResponses).toBe(2);
+		expect(stats.retries).toBe(2);
+	});
+
+	it("should record a malformed document as a filing error and process the rest", async () => {
+		server.addFault({ path: "/multiple-owners.xml", body: "<ownershipDocument><issuer>" });
+
+		const stats = await createProcessor().process();
+
+		expect(stats.filingsProcessed).toBe(5);
+		expect(stats.errors).toHaveLength(1);
+		expect(stats.errors[0].filing).not.toBe("FETCH_FILINGS");
+	});
+
+	it("should stop without advancing the cursor when EDGAR keeps throttling", async () => {
+		server.addFault({ path: "type=4", status: 503 });
+
+		const stats = await createProcessor().process();
+
+		expect(stats.circuitOpen).toBe(true);
+		expect(stats.filingsProcessed).toBe(0);
+		expect(await getIngestionCursor(db, "current-form-4")).toBeNull();
+	});
+});
@@ -1,51 +1,227 @@
 import type { PgDatabase } from "drizzle-orm/pg-core";
-import { createForm4Parser, createSECEdgarClient } from "../sec";
-import type { Form4Data } from "../sec/types";
-import { TRANSACTION_CODE_BUY, TRANSACTION_CODE_SELL } from "../sec/types";
+import { pushMessageToSQS } from "../../aws/sqs/sendMessage";
+import { type BlobStore, RawFilingArchive, createBlobStore, hashContent } from "../archive";
+import {
+	EdgarThrottledError,
+	PostgresRateLimiter,
+	type SECEdgarClient,
+	createForm144Parser,
+	createForm3Parser,
+	createForm4Parser,
+	createSECEdgarClient,
+	personNamesMatch,
+} from "../sec";
+import type {
+	FilingDocument,
+	Form4Data,
+	InsiderInfo,
+	PrimaryDocumentStrategy,
+	SECFilingEntry,
+	TransactionInfo,
+} from "../sec/types";
+import {
+	FORM_144_VALIDITY_DAYS,
+	FORM_TYPE_144,
+	FORM_TYPE_3,
+	FORM_TYPE_4,
+	TRANSACTION_CODE_BUY,
+	TRANSACTION_CODE_SELL,
+	isAmendmentFormType,
+	isForm144Type,
+	isForm3Type,
+	selectPrimaryOwner,
+} from "../sec/types";
+import { getFilingDelay } from "../sec/filingDeadlines";
+import { getEasternDate } from "../sec/formIndex";
+import { type ReportedPosition, getForm3Positions, getForm4Positions } from "../sec/positions";
+import { getCoolingOffEnd } from "../sec/tradingPlans";
 import {
 	type ScoreInput,
+	type ScoreResult,
 	calculateHoldingsDelta,
 	calculateSignalScore,
 	shouldTriggerUrgentAlert,
 } from "../scoring";
 import { CLUSTER_DETECTION_DAYS, FIRST_ACTIVITY_DAYS } from "../scoring/rules";
-import { createSlackClient, formatUrgentAlert } from "../slack";
+import { formatAmendmentCorrection, formatUrgentAlert } from "../slack";
+import { resolveFilingTicker } from "../tickers";
+import type {
+	BackfillJob,
+	IngestionCursor,
+	Insider,
+	Issuer,
+	TradingPlan,
+	Transaction,
+} from "../../sql/schema";
+import {
+	createBackfillJob,
+	getActiveBackfillJobs,
+	getIngestionCursor,
+	updateBackfillJob,
+	upsertIngestionCursor,
+} from "../../sql/queries/ingestion";
 import {
+	deleteStaleFilingTransactions,
+	findAmendedFiling,
 	getDistinctInsiderCountInCluster,
+	getFilingByAccession,
+	getInsiderBaselineShares,
+	getInsiderInitialStatement,
 	getInsiderLastTransactionDate,
 	getInsiderPreviousTransaction,
+	getLatestTradingPlan,
+	getMatchableForm144Notices,
+	getTransactionReportingOwners,
+	getTransactionsWithInsiderInRange,
+	getUncorrectedUrgentAlerts,
+	hasIssuerFilingOn,
 	hasSlackAlertForTransaction,
-	recordSlackAlert,
+	linkFilingAmendment,
+	linkTransactionReportingOwners,
+	lockFiling,
+	markFilingProcessed,
+	markForm144NoticeMatched,
+	markSlackAlertCorrected,
+	queueAlert,
+	releaseForm144Matches,
+	replaceInitialHoldings,
+	replaceTransactionFootnotes,
+	supersedeFilingTransactions,
+	updateTransactionScore,
+	upsertFiling,
+	upsertFilingFootnotes,
+	upsertForm144Notice,
+	upsertInitialStatement,
 	upsertInsider,
 	upsertIssuer,
+	upsertPerson,
+	upsertPositions,
+	upsertTradingPlan,
 	upsertTransaction,
 } from "../../sql/queries/insiders";
+import { type AlertDispatchStats, type AlertOutbox, createAlertOutbox } from "./alertOutbox";
+import { createIngestionLedger } from "./ledger";
 
 export interface ProcessorStats {
 	filingsProcessed: number;
 	transactionsCreated: number;
 	transactionsUpdated: number;
 	urgentAlertsPosted: number;
+	initialHoldingsRecorded: number;
+	form144NoticesRecorded: number;
+	form144NoticesMatched: number;
+	amendmentsApplied: number;
+	transactionsSuperseded: number;
+	alertsCorrected: number;
+	rawFilingsArchived: number;
+	feedPagesFetched: number;
+	gapClosed: boolean; // False if any feed stopped paging before reaching the previous run's cursor
+	gapBackfillsQueued: number; // Backfill jobs queued for filings the feeds no longer listed
+	documentStrategies: Record<PrimaryDocumentStrategy, number>; // How each filing's XML was located
+	retries: number; // EDGAR requests retried after a throttled or transient failure
+	throttledResponses: number; // 429 and 503 responses from EDGAR
+	circuitOpen: boolean; // True if EDGAR kept throttling and the run stopped early
 	errors: Array<{ filing: string; error: string }>;
 }
 
+export interface EnqueueStats {
+	filingsQueued: number; // PROCESS_FORM4 messages sent to the filing queue
+	feedPagesFetched: number;
+	gapClosed: boolean; // False if any feed stopped paging before reaching the previous run's cursor
+	gapBackfillsQueued: number; // Backfill jobs queued for filings the feeds no longer listed
+	retries: number; // EDGAR requests retried after a throttled or transient failure
+	throttledResponses: number; // 429 and 503 responses from EDGAR
+	circuitOpen: boolean; // True if EDGAR kept throttling and the run stopped early
+	errors: Array<{ feed: string; error: string }>; // Feeds that couldn't be read or queued
+}
+
+// Live feeds in processing order: Form 144 notices and Form 3 baselines go first so they
+// exist before the Form 4s that use them
+const LIVE_FEED_FORM_TYPES = [FORM_TYPE_144, FORM_TYPE_3, FORM_TYPE_4];
+
+// Result of processing one filing, folded into ProcessorStats by the caller
+export interface FilingResult {
+	issuer?: { cik: string; ticker: string | null }; // Issuer the filing was stored under
+	transactionsSaved: number;
+	urgentAlertsPosted: number;
+	documentStrategy: PrimaryDocumentStrategy;
+	rawFilingArchived?: boolean; // The fetched document was stored in the raw filing archive
+	alreadyProcessed?: boolean; // The same document was already processed in full; nothing was written
+	initialHoldingsRecorded?: number; // Form 3 only
+	form144NoticeRecorded?: boolean; // Form 144 only
+	form144NoticesMatched?: number; // Notices executed by this filing's sales
+	amendment?: {
+		amendsAccession: string | null; // Null when the original filing hasn't been ingested
+		transactionsSuperseded: number;
+		alertsCorrected: number;
+	};
+}
+
+export interface Form4ProcessorOptions {
+	skipAlerts?: boolean; // Persist and score transactions without posting urgent alerts (e.g. backfills)
+	maxFeedPages?: number; // Feed pages read per form type per run (default 10)
+	secClient?: SECEdgarClient; // Default: a client sharing the Postgres rate limit bucket
+	blobStore?: BlobStore; // Where fetched documents are archived (default: createBlobStore())
+	reprocess?: boolean; // Process documents that were already processed in full (e.g. replays after a parser fix)
+	deferOrphanAmendments?: boolean; // Throw AmendmentOriginalPendingError for a 4/A whose original isn't stored yet
+}
+
+/**
+ * Thrown for a Form 4/A whose original filing hasn't been stored yet, when the processor
+ * defers orphan amendments; nothing of the filing is written, so it can simply be retried
+ */
+export class AmendmentOriginalPendingError extends Error {
+	readonly accessionNumber: string;
+	readonly dateOfOriginalSubmission: string;
+
+	constructor(accessionNumber: string, dateOfOriginalSubmission: string) {
+		super(
+			`Amendment ${accessionNumber} waits for its original filing from ${dateOfOriginalSubmission}`,
+		);
+		this.name = "AmendmentOriginalPendingError";
+		this.accessionNumber = accessionNumber;
+		this.dateOfOriginalSubmission = dateOfOriginalSubmission;
+	}
+}
+
+// Filing fields needed to fetch and process it
+export type FilingRef = Pick<SECFilingEntry, "accessionNumber" | "cik" | "filingDate" | "formType">;
+
 /**
  * Main processor for ingesting Form 4 filings
- * Fetches recent filings, parses them, scores transactions, and posts urgent alerts
+ * Fetches recent filings, parses them, scores transactions, and posts urgent alerts.
+ * Form 3 baselines and Form 144 notices are ingested alongside to give Form 4s context.
  */
 export class Form4Processor {
 	private db: PgDatabase<any, any, any>;
-	private secClient = createSECEdgarClient();
+	private secClient: SECEdgarClient;
+	private archive?: RawFilingArchive;
 	private parser = createForm4Parser();
-	private slackClient = createSlackClient();
+	private form3Parser = createForm3Parser();
+	private form144Parser = createForm144Parser();
+	private alertOutbox: AlertOutbox;
+	private options: Form4ProcessorOptions;
+	private queuedAlerts: string[] = []; // Alert outbox entries queued by the filing being processed
 
-	constructor(db: PgDatabase<any, any, any>) {
+	constructor(db: PgDatabase<any, any, any>, options: Form4ProcessorOptions = {}) {
 		this.db = db;
+		this.options = options;
+		this.alertOutbox = createAlertOutbox(db);
+		this.secClient =
+			options.secClient ??
+			createSECEdgarClient({ rateLimiter: new PostgresRateLimiter(db) });
+
+		const blobStore = options.blobStore ?? createBlobStore();
+		if (blobStore) {
+			this.archive = new RawFilingArchive(db, blobStore);
+		}
 	}
 
 	/**
 	 * Run the complete processing pipeline
-	 * @param filingCount Number of recent filings to fetch (default 100)
+	 * Each feed is read back to the newest filing the previous run saw (its ingestion cursor),
+	 * so busy windows with more filings than one page are not lost
+	 * @param filingCount Filings per feed page (default 100, the feed maximum)
 	 * @returns Processing statistics
 	 */
 	async process(filingCount = 100): Promise<ProcessorStats> {
@@ -54,76 +230,582 @@ export class Form4Processor {
 			transactionsCreated: 0,
 			transactionsUpdated: 0,
 			urgentAlertsPosted: 0,
+			initialHoldingsRecorded: 0,
+			form144NoticesRecorded: 0,
+			form144NoticesMatched: 0,
+			amendmentsApplied: 0,
+			transactionsSuperseded: 0,
+			alertsCorrected: 0,
+			rawFilingsArchived: 0,
+			feedPagesFetched: 0,
+			gapClosed: true,
+			gapBackfillsQueued: 0,
+			documentStrategies: { "index-json": 0, "index-htm": 0, guessed: 0 },
+			retries: 0,
+			throttledResponses: 0,
+			circuitOpen: false,
 			errors: [],
 		};
+		const requestsBefore = this.secClient.getRequestStats();
+		const ledger = createIngestionLedger(this.db);
+		await ledger.start("form4-processor", { filingCount, maxFeedPages: this.options.maxFeedPages });
 
-		console.log(`[Form4Processor] Fetching ${filingCount} recent Form 4 filings...`);
+		for (const formType of LIVE_FEED_FORM_TYPES) {
+			try {
+				const { feed, cursor, filings, gapClosed, pagesFetched } = await this.readFeed(
+					formType,
+					filingCount,
+				);
+				stats.feedPagesFetched += pagesFetched;
+				if (!gapClosed) stats.gapClosed = false;
 
-		try {
-			// Fetch recent Form 4 filings from SEC
-			const filings = await this.secClient.fetchRecentForm4Filings(filingCount);
-			console.log(`[Form4Processor] Found ${filings.length} filings to process`);
-
-			// Process each filing
-			for (const filing of filings) {
-				try {
-					await this.processSingleFiling(filing.accessionNumber, filing.cik, filing.filingDate);
-					stats.filingsProcessed++;
-				} catch (error) {
-					const errorMessage = error instanceof Error ? error.message : "Unknown error";
-					console.error(
-						`[Form4Processor] Error processing filing ${filing.accessionNumber}:`,
-						errorMessage,
-					);
-					stats.errors.push({
-						filing: filing.accessionNumber,
-						error: errorMessage,
+				// Process oldest first so originals are stored before their amendments
+				for (const filing of [...filings].reverse()) {
+					try {
+						const result = await this.processFiling(filing);
+						await ledger.recordProcessed(filing, result);
+						stats.filingsProcessed++;
+						stats.transactionsCreated += result.transactionsSaved;
+						stats.documentStrategies[result.documentStrategy]++;
+						if (result.rawFilingArchived) stats.rawFilingsArchived++;
+						stats.urgentAlertsPosted += result.urgentAlertsPosted;
+						stats.initialHoldingsRecorded += result.initialHoldingsRecorded || 0;
+						if (result.form144NoticeRecorded) stats.form144NoticesRecorded++;
+						stats.form144NoticesMatched += result.form144NoticesMatched || 0;
+						if (result.amendment?.amendsAccession) {
+							stats.amendmentsApplied++;
+							stats.transactionsSuperseded += result.amendment.transactionsSuperseded;
+							stats.alertsCorrected += result.amendment.alertsCorrected;
+						}
+					} catch (error) {
+						const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+						// EDGAR is refusing requests: stop the feed without advancing its cursor
+						if (error instanceof EdgarThrottledError) {
+							await ledger.record(filing, "skipped", { reason: errorMessage });
+							throw error;
+						}
+
+						console.error(
+							`[Form4Processor] Error processing filing ${filing.accessionNumber}:`,
+							errorMessage,
+						);
+						await ledger.record(filing, "failed", { reason: errorMessage });
+						stats.errors.push({
+							filing: filing.accessionNumber,
+							error: errorMessage,
+						});
+					}
+				}
+
+				// Failed filings stay in stats.errors; the cursor tracks what the feed has shown
+				if (!gapClosed && (await this.queueGapBackfill(formType, cursor, filings))) {
+					stats.gapBackfillsQueued++;
+				}
+				await this.advanceCursor(feed, filings);
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : "Unknown error";
+				console.error("[Form4Processor] Fatal error:", errorMessage);
+				stats.errors.push({
+					filing: "FETCH_FILINGS",
+					error: errorMessage,
+				});
+
+				// The remaining feeds would only hit the same throttling; the next run resumes from the cursors
+				if (error instanceof EdgarThrottledError) {
+					stats.circuitOpen = true;
+					break;
+				}
+			}
+		}
+
+		const swept = await this.dispatchPendingAlerts();
+		stats.urgentAlertsPosted += swept?.urgentAlertsPosted ?? 0;
+
+		const requestsAfter = this.secClient.getRequestStats();
+		stats.retries = requestsAfter.retries - requestsBefore.retries;
+		stats.throttledResponses = requestsAfter.throttledResponses - requestsBefore.throttledResponses;
+
+		console.log(`[Form4Processor] Processing complete:`, stats);
+		await ledger.complete(stats);
+
+		return stats;
+	}
+
+	/**
+	 * Discover new filings on the live feeds and queue a PROCESS_FORM4 message for each
+	 * Filings are processed by the filing queue worker (see FilingWorker) instead of in this
+	 * call. Messages are grouped by issuer CIK where the feed page names the issuer, so each
+	 * issuer's filings are processed in feed order; the worker also holds back an amendment
+	 * until its original is stored (see FilingWorker).
+	 * @param filingCount Filings per feed page (default 100, the feed maximum)
+	 * @returns Queueing statistics
+	 */
+	async enqueue(filingCount = 100): Promise<EnqueueStats> {
+		const stats: EnqueueStats = {
+			filingsQueued: 0,
+			feedPagesFetched: 0,
+			gapClosed: true,
+			gapBackfillsQueued: 0,
+			retries: 0,
+			throttledResponses: 0,
+			circuitOpen: false,
+			errors: [],
+		};
+		const requestsBefore = this.secClient.getRequestStats();
+		const ledger = createIngestionLedger(this.db);
+		await ledger.start("form4-enqueue", { filingCount, maxFeedPages: this.options.maxFeedPages });
+
+		for (const formType of LIVE_FEED_FORM_TYPES) {
+			const feed = getFeedName(formType);
+
+			try {
+				const { cursor, filings, gapClosed, pagesFetched } = await this.readFeed(
+					formType,
+					filingCount,
+				);
+				stats.feedPagesFetched += pagesFetched;
+				if (!gapClosed) stats.gapClosed = false;
+
+				// Oldest first, so each message group is in filing order
+				for (const filing of [...filings].reverse()) {
+					await pushMessageToSQS({
+						queue: "FilingQueue",
+						message: {
+							task_type: "PROCESS_FORM4",
+							accessionNumber: filing.accessionNumber,
+							cik: filing.cik,
+							filingDate: filing.filingDate,
+							formType: filing.formType,
+						},
+						messageGroupId: getMessageGroupId(filing),
+						deduplicationId: filing.accessionNumber,
 					});
+					stats.filingsQueued++;
+				}
+
+				// Only once every filing is queued; a failed send re-reads the feed next run
+				if (!gapClosed && (await this.queueGapBackfill(formType, cursor, filings))) {
+					stats.gapBackfillsQueued++;
+				}
+				await this.advanceCursor(feed, filings);
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : "Unknown error";
+				console.error(`[Form4Processor] Error queueing ${feed}:`, errorMessage);
+				stats.errors.push({ feed, error: errorMessage });
+
+				// The remaining feeds would only hit the same throttling; the next run resumes from the cursors
+				if (error instanceof EdgarThrottledError) {
+					stats.circuitOpen = true;
+					break;
+				}
+			}
+		}
+
+		const requestsAfter = this.secClient.getRequestStats();
+		stats.retries = requestsAfter.retries - requestsBefore.retries;
+		stats.throttledResponses = requestsAfter.throttledResponses - requestsBefore.throttledResponses;
+
+		console.log(`[Form4Processor] Queueing complete:`, stats);
+		await ledger.complete(stats);
+
+		return stats;
+	}
+
+	/**
+	 * Page through a live feed back to its ingestion cursor
+	 * @returns New filings (newest first) and how far the feed was read
+	 */
+	private async readFeed(
+		formType: string,
+		filingCount: number,
+	): Promise<{
+		feed: string;
+		cursor: IngestionCursor | null;
+		filings: SECFilingEntry[];
+		gapClosed: boolean;
+		pagesFetched: number;
+	}> {
+		const feed = getFeedName(formType);
+		const cursor = await getIngestionCursor(this.db, feed);
+		console.log(
+			`[Form4Processor] Fetching Form ${formType} filings since ${cursor ? cursor.lastAccession : "the latest page"}...`,
+		);
+
+		const { filings, gapClosed, pagesFetched } = await this.secClient.fetchFilingsSince(
+			formType,
+			cursor ? { accessionNumber: cursor.lastAccession, filedAt: cursor.lastFiledAt } : null,
+			{ pageSize: filingCount, maxPages: this.options.maxFeedPages },
+		);
+		console.log(`[Form4Processor] Found ${filings.length} new filings in ${pagesFetched} pages`);
+
+		if (!gapClosed) {
+			console.warn(
+				`[Form4Processor] Form ${formType} feed gap not closed: stopped after ${pagesFetched} pages before reaching ${cursor?.lastAccession}`,
+			);
+		}
+
+		return { feed, cursor, filings, gapClosed, pagesFetched };
+	}
+
+	/**
+	 * Queue a daily-index backfill for the filings between the cursor and the oldest filing the
+	 * feed still listed, so advancing the cursor past an unclosed gap doesn't lose them
+	 * One daily-index job loads every ownership form of its window, so the Form 3 and Form 4 feeds
+	 * share one: a queued job that covers the window is reused, one not yet started is widened.
+	 * Form 144 isn't in the backfill's form types; its gaps are only logged
+	 * @returns The new backfill job, or null if none was needed
+	 */
+	private async queueGapBackfill(
+		formType: string,
+		cursor: IngestionCursor | null,
+		filings: SECFilingEntry[],
+	): Promise<BackfillJob | null> {
+		if (!cursor || isForm144Type(formType)) return null;
+
+		// EDGAR dates filings in Eastern time, like the form indexes the backfill reads
+		const oldest = filings[filings.length - 1];
+		const startDate = getEasternDate(cursor.lastFiledAt);
+		const endDate = oldest ? oldest.filingDate.split("T")[0] : getEasternDate(new Date());
+
+		const queued = (await getActiveBackfillJobs(this.db)).filter(
+			(job) => job.source === "daily-index" && !job.issuerCik,
+		);
+		if (queued.some((job) => job.startDate <= startDate && job.endDate >= endDate)) return null;
+
+		const unstarted = queued.find(
+			(job) => !job.discoveredThrough && job.startDate <= endDate && job.endDate >= startDate,
+		);
+		if (unstarted) {
+			const widened = {
+				startDate: startDate < unstarted.startDate ? startDate : unstarted.startDate,
+				endDate: endDate > unstarted.endDate ? endDate : unstarted.endDate,
+			};
+			await updateBackfillJob(this.db, unstarted.id, widened);
+			console.warn(
+				`[Form4Processor] Widened backfill job ${unstarted.id} to ${widened.startDate}..${widened.endDate} for Form ${formType} filings`,
+			);
+			return null;
+		}
+
+		const job = await createBackfillJob(this.db, { source: "daily-index", startDate, endDate });
+		console.warn(
+			`[Form4Processor] Queued backfill job ${job.id} for Form ${formType} filings from ${startDate} to ${endDate}`,
+		);
+
+		return job;
+	}
+
+	/**
+	 * Move a feed's ingestion cursor to the newest filing it showed
+	 */
+	private async advanceCursor(feed: string, filings: SECFilingEntry[]): Promise<void> {
+		const [newest] = filings;
+		if (!newest) return;
+
+		await upsertIngestionCursor(this.db, {
+			feed,
+			lastAccession: newest.accessionNumber,
+			lastFiledAt: new Date(newest.filingDate),
+		});
+	}
+
+	/**
+	 * Fetch one filing from EDGAR, archive its raw document and process it
+	 * Also used for filings discovered outside the live feed (e.g. by a backfill).
+	 * Errors are thrown to the caller so it can record per-filing outcomes
+	 */
+	async processFiling(filing: FilingRef): Promise<FilingResult> {
+		const fetched = isForm144Type(filing.formType)
+			? await this.secClient.fetchForm144Document(filing.accessionNumber, filing.cik)
+			: await this.secClient.fetchOwnershipDocument(filing.accessionNumber, filing.cik);
+
+		// Archive before parsing, so filings that fail to parse can be replayed once the parser is fixed
+		if (this.archive) {
+			await this.archive.save(filing, fetched);
+		}
+
+		const result = await this.processDocument(filing, fetched);
+		return { ...result, rawFilingArchived: this.archive !== undefined };
+	}
+
+	/**
+	 * Parse, score and store an already fetched filing document
+	 * Every write of the filing, including its queued alerts, happens in one database transaction,
+	 * and the alerts are posted once it commits. A document that was already processed in full
+	 * (same accession, same content hash) is skipped unless the reprocess option is set.
+	 * Replays call this with archived documents, so it must not call EDGAR
+	 */
+	async processDocument(filing: FilingRef, fetched: FilingDocument): Promise<FilingResult> {
+		const contentHash = hashContent(Buffer.from(fetched.xml, "utf8"));
+
+		const { result, queuedAlerts } = await this.db.transaction(async (tx) => {
+			// Waits for any other process writing the same filing (e.g. a queue redelivery and a backfill)
+			await lockFiling(tx, filing.accessionNumber);
+
+			if (!this.options.reprocess) {
+				const stored = await getFilingByAccession(tx, filing.accessionNumber);
+				if (stored?.contentHash === contentHash) {
+					console.log(`[Form4Processor] Skipping ${filing.accessionNumber} - already processed`);
+					const skipped: FilingResult = {
+						transactionsSaved: 0,
+						urgentAlertsPosted: 0,
+						documentStrategy: fetched.document.strategy,
+						alreadyProcessed: true,
+					};
+					return { result: skipped, queuedAlerts: [] };
 				}
 			}
 
-			console.log(`[Form4Processor] Processing complete:`, stats);
+			// A processor bound to the transaction, so every query of the filing runs inside it
+			const scoped = new Form4Processor(tx, { ...this.options, secClient: this.secClient });
+			const result = await scoped.writeDocument(filing, fetched);
+			await markFilingProcessed(tx, filing.accessionNumber, contentHash);
+
+			return { result, queuedAlerts: scoped.queuedAlerts };
+		});
+
+		if (queuedAlerts.length > 0) {
+			const dispatched = await this.postAlerts(queuedAlerts);
+			result.urgentAlertsPosted = dispatched?.urgentAlertsPosted ?? 0;
+		}
+
+		return result;
+	}
+
+	/**
+	 * Post every pending alert in the alert outbox: posts that failed, and alerts whose filing
+	 * committed but whose process stopped before posting them (a redelivery skips that filing)
+	 * Called at the end of each processor run and queue batch; does nothing with skipAlerts
+	 */
+	async dispatchPendingAlerts(): Promise<AlertDispatchStats | null> {
+		if (this.options.skipAlerts) return null;
+		return this.postAlerts();
+	}
+
+	/**
+	 * Post alert outbox entries; errors are logged, not thrown, since their filings are
+	 * already stored and the entries stay pending for the next sweep
+	 */
+	private async postAlerts(entryIds?: string[]): Promise<AlertDispatchStats | null> {
+		try {
+			return await this.alertOutbox.dispatch(entryIds);
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : "Unknown error";
-			console.error("[Form4Processor] Fatal error:", errorMessage);
-			stats.errors.push({
-				filing: "FETCH_FILINGS",
-				error: errorMessage,
-			});
+			console.error("[Form4Processor] Error posting queued alerts:", errorMessage);
+			return null;
 		}
+	}
 
-		return stats;
+	/**
+	 * Parse and store a filing document by form type; called inside processDocument's transaction
+	 */
+	private async writeDocument(filing: FilingRef, fetched: FilingDocument): Promise<FilingResult> {
+		if (isForm3Type(filing.formType)) {
+			return this.processInitialStatement(filing.accessionNumber, filing.filingDate, fetched);
+		}
+		if (isForm144Type(filing.formType)) {
+			return this.processForm144Notice(filing.accessionNumber, filing.filingDate, fetched);
+		}
+		return this.processSingleFiling(filing.accessionNumber, filing.filingDate, fetched);
 	}
 
 	/**
-	 * Process a single Form 4 filing
+	 * Process a Form 3 (or 3/A): store the insider's initial holdings as their baseline
+	 */
+	private async processInitialStatement(
+		accessionNumber: string,
+		filingDate: string,
+		{ xml, document }: FilingDocument,
+	): Promise<FilingResult> {
+		const form3Data = this.form3Parser.parse(xml, accessionNumber, filingDate);
+
+		const issuer = await upsertIssuer(this.db, {
+			cik: form3Data.issuer.cik,
+			ticker: await resolveFilingTicker(this.db, form3Data.issuer.cik, form3Data.issuer.ticker),
+			companyName: form3Data.issuer.companyName,
+		});
+
+		// The statement is attributed to the primary owner, as joint Form 4 transactions are
+		const [insider] = await this.upsertReportingOwners(issuer.id, form3Data.reportingOwners);
+		if (!insider) {
+			throw new Error(`Form 3 ${accessionNumber} has no reporting owner`);
+		}
+
+		await upsertFiling(this.db, {
+			accessionNumber,
+			issuerId: issuer.id,
+			formType: form3Data.documentType,
+			filingDate: filingDate.split("T")[0],
+			primaryDocument: document.fileName,
+			documentStrategy: document.strategy,
+		});
+
+		const statement = await upsertInitialStatement(this.db, {
+			filingAccession: accessionNumber,
+			insiderId: insider.id,
+			issuerId: issuer.id,
+			formType: form3Data.documentType,
+			eventDate: form3Data.periodOfReport,
+			filingDate: filingDate.split("T")[0],
+			noSecuritiesOwned: form3Data.noSecuritiesOwned,
+		});
+
+		const holdingsRecorded = await replaceInitialHoldings(
+			this.db,
+			statement.id,
+			form3Data.holdings.map((holding) => ({
+				securityTitle: holding.securityTitle,
+				shares: holding.shares.toString(),
+				isDirectOwnership: holding.isDirectOwnership,
+				natureOfOwnership: holding.natureOfOwnership ?? null,
+				ownershipVehicle: holding.ownershipVehicle,
+				isDerivative: holding.isDerivative,
+				underlyingSecurityTitle: holding.underlyingSecurityTitle || null,
+				conversionOrExercisePrice: holding.conversionOrExercisePrice?.toString() ?? null,
+				exerciseDate: holding.exerciseDate || null,
+				expirationDate: holding.expirationDate || null,
+			})),
+		);
+
+		await this.recordPositions(
+			insider.id,
+			issuer.id,
+			accessionNumber,
+			filingDate,
+			getForm3Positions(form3Data),
+		);
+
+		console.log(
+			`[Form4Processor] Initial statement saved: ${issuer.ticker || issuer.companyName} - ${insider.name} - ${holdingsRecorded} holdings`,
+		);
+
+		return {
+			issuer: { cik: issuer.cik, ticker: issuer.ticker },
+			transactionsSaved: 0,
+			urgentAlertsPosted: 0,
+			documentStrategy: document.strategy,
+			initialHoldingsRecorded: holdingsRecorded,
+		};
+	}
+
+	/**
+	 * Process a Form 144 notice of proposed sale
+	 * The notice stays pending until a Form 4 sale by the same person executes it
+	 */
+	private async processForm144Notice(
+		accessionNumber: string,
+		filingDate: string,
+		{ xml, document }: FilingDocument,
+	): Promise<FilingResult> {
+		const form144Data = this.form144Parser.parse(xml, accessionNumber, filingDate);
+
+		// Form 144 doesn't carry a ticker; leave the issuer's existing ticker untouched
+		const issuer = await upsertIssuer(this.db, {
+			cik: form144Data.issuer.cik,
+			companyName: form144Data.issuer.companyName,
+		});
+
+		await upsertFiling(this.db, {
+			accessionNumber,
+			issuerId: issuer.id,
+			formType: FORM_TYPE_144,
+			filingDate: filingDate.split("T")[0],
+			primaryDocument: document.fileName,
+			documentStrategy: document.strategy,
+		});
+
+		await upsertForm144Notice(this.db, {
+			accessionNumber,
+			issuerId: issuer.id,
+			sellerName: form144Data.sellerName,
+			relationship: form144Data.relationships.join(", ") || null,
+			securityClassTitle: form144Data.securityClassTitle,
+			sharesToBeSold: form144Data.sharesToBeSold.toString(),
+			aggregateMarketValue: form144Data.aggregateMarketValue.toString(),
+			approxSaleDate: form144Data.approxSaleDate || null,
+			filingDate: filingDate.split("T")[0],
+			brokerName: form144Data.brokerName || null,
+			exchangeName: form144Data.exchangeName || null,
+		});
+
+		console.log(
+			`[Form4Processor] Form 144 saved: ${issuer.ticker || issuer.companyName} - ${form144Data.sellerName} - ${form144Data.sharesToBeSold} shares`,
+		);
+
+		return {
+			issuer: { cik: issuer.cik, ticker: issuer.ticker },
+			transactionsSaved: 0,
+			urgentAlertsPosted: 0,
+			documentStrategy: document.strategy,
+			form144NoticeRecorded: true,
+		};
+	}
+
+	/**
+	 * Process a single Form 4 or Form 4/A filing
 	 */
 	private async processSingleFiling(
 		accessionNumber: string,
-		cik: string,
 		filingDate: string,
-	): Promise<void> {
-		// Fetch Form 4 XML
-		const xmlContent = await this.secClient.fetchForm4XML(accessionNumber, cik);
+		{ xml, document }: FilingDocument,
+	): Promise<FilingResult> {
+		const result: FilingResult = {
+			transactionsSaved: 0,
+			urgentAlertsPosted: 0,
+			documentStrategy: document.strategy,
+			form144NoticesMatched: 0,
+		};
 
 		// Parse Form 4
-		const form4Data = this.parser.parse(xmlContent, accessionNumber, filingDate);
+		const form4Data = this.parser.parse(xml, accessionNumber, filingDate);
 
 		// Upsert issuer
 		const issuer = await upsertIssuer(this.db, {
 			cik: form4Data.issuer.cik,
-			ticker: form4Data.issuer.ticker || null,
+			ticker: await resolveFilingTicker(this.db, form4Data.issuer.cik, form4Data.issuer.ticker),
 			companyName: form4Data.issuer.companyName,
 		});
 
-		// Upsert insider
-		const insider = await upsertInsider(this.db, {
+		result.issuer = { cik: issuer.cik, ticker: issuer.ticker };
+
+		// Upsert every reporting owner; transactions are attributed to the primary owner
+		const owners = await this.upsertReportingOwners(issuer.id, form4Data.reportingOwners);
+		const [insider] = owners;
+		if (!insider) {
+			throw new Error(`Form 4 ${accessionNumber} has no reporting owner`);
+		}
+
+		// Record the filing so amendments can be linked to it
+		await upsertFiling(this.db, {
+			accessionNumber,
 			issuerId: issuer.id,
-			name: form4Data.insider.name,
-			title: form4Data.insider.title || null,
+			formType: form4Data.documentType,
+			filingDate: filingDate.split("T")[0],
+			dateOfOriginalSubmission: form4Data.dateOfOriginalSubmission || null,
+			aff10b5One: form4Data.aff10b5One ?? null,
+			primaryDocument: document.fileName,
+			documentStrategy: document.strategy,
 		});
+		await upsertFilingFootnotes(
+			this.db,
+			accessionNumber,
+			form4Data.footnotes.map((footnote) => ({ footnoteId: footnote.id, text: footnote.text })),
+		);
+
+		// Retire the rows this amendment replaces before scoring its transactions,
+		// so they no longer count toward clusters or first-activity checks
+		let superseded: Transaction[] = [];
+		if (isAmendmentFormType(form4Data.documentType)) {
+			superseded = await this.supersedeAmendedFiling(form4Data, issuer.id, insider.id);
+			result.amendment = {
+				amendsAccession: superseded.length > 0 ? superseded[0].filingAccession : null,
+				transactionsSuperseded: superseded.length,
+				alertsCorrected: 0,
+			};
+		}
 
-		// Filter to only P (buy) and S (sell) transactions
+		// Filter to only P (buy) and S (sell) transactions; exercise rows only label same-day sales
 		const relevantTransactions = form4Data.transactions.filter(
 			(tx) => tx.transactionCode === TRANSACTION_CODE_BUY || tx.transactionCode === TRANSACTION_CODE_SELL,
 		);
@@ -133,68 +815,494 @@ export class Form4Processor {
 		);
 
 		// Process each transaction
-		for (const txInfo of relevantTransactions) {
-			await this.processTransaction(form4Data, txInfo, issuer.id, insider.id);
+		const saved: Transaction[] = [];
+		for (const [rowIndex, txInfo] of relevantTransactions.entries()) {
+			const { transaction, alertPosted } = await this.processTransaction(
+				form4Data,
+				txInfo,
+				rowIndex,
+				issuer,
+				owners,
+				// Superseded alerts get a threaded correction instead of a fresh alert
+				superseded.length === 0,
+			);
+			saved.push(transaction);
+			result.transactionsSaved++;
+			if (alertPosted) result.urgentAlertsPosted++;
+
+			if (
+				transaction.transactionCode === TRANSACTION_CODE_SELL &&
+				(await this.matchForm144Notice(
+					transaction,
+					owners.map((owner) => owner.name),
+				))
+			) {
+				result.form144NoticesMatched = (result.form144NoticesMatched || 0) + 1;
+			}
 		}
+
+		// A reprocessed filing (e.g. replayed after a parser fix) may no longer produce rows an
+		// earlier parse stored under a different key; they would otherwise count twice
+		const stale = await deleteStaleFilingTransactions(
+			this.db,
+			accessionNumber,
+			saved.map((tx) => tx.id),
+		);
+		if (stale.length > 0) {
+			console.log(
+				`[Form4Processor] Removed ${stale.length} transactions of ${accessionNumber} its earlier parse stored`,
+			);
+		}
+
+		// Shares owned after each trade and holding rows without a trade, for the primary owner
+		await this.recordPositions(
+			insider.id,
+			issuer.id,
+			accessionNumber,
+			filingDate,
+			getForm4Positions(form4Data),
+		);
+
+		if (superseded.length > 0 || stale.length > 0) {
+			await this.rescoreAffectedWindow(issuer.id, [...superseded, ...stale, ...saved]);
+		}
+		if (result.amendment && superseded.length > 0) {
+			result.amendment.alertsCorrected = await this.correctAlerts(
+				superseded,
+				saved,
+				issuer,
+				accessionNumber,
+			);
+		}
+
+		return result;
 	}
 
 	/**
-	 * Process a single transaction: calculate score, save, and post alert if needed
+	 * Upsert an insider for each reporting owner of a filing
+	 * @returns Insiders with the primary owner first
 	 */
-	private async processTransaction(
-		form4Data: Form4Data,
-		txInfo: any,
+	private async upsertReportingOwners(
 		issuerId: string,
+		reportingOwners: InsiderInfo[],
+	): Promise<Insider[]> {
+		const primaryOwner = selectPrimaryOwner(reportingOwners);
+		const ordered = reportingOwners.filter((owner) => owner !== primaryOwner);
+		if (primaryOwner) ordered.unshift(primaryOwner);
+
+		const owners: Insider[] = [];
+		for (const owner of ordered) {
+			// The owner CIK links the insider to the same person at other issuers
+			const person = owner.cik
+				? await upsertPerson(this.db, { cik: owner.cik, name: owner.name })
+				: null;
+			const insider = await upsertInsider(this.db, {
+				issuerId,
+				personId: person?.id ?? null,
+				name: owner.name,
+				title: owner.title || null,
+				isDirector: owner.isDirector,
+				isOfficer: owner.isOfficer,
+				isTenPercentOwner: owner.isTenPercentOwner,
+				isOther: owner.isOther,
+			});
+			// The same person can be listed twice (e.g. individually and as trustee)
+			if (!owners.some((existing) => existing.id === insider.id)) {
+				owners.push(insider);
+			}
+		}
+
+		return owners;
+	}
+
+	/**
+	 * Store the positions a filing reports for an insider
+	 */
+	private async recordPositions(
 		insiderId: string,
+		issuerId: string,
+		accessionNumber: string,
+		filingDate: string,
+		reported: ReportedPosition[],
 	): Promise<void> {
-		// Calculate signal score with bonuses
-		const scoreInput: ScoreInput = {
-			transactionCode: txInfo.transactionCode,
-			transactionValue: txInfo.transactionValue,
-			insiderTitle: form4Data.insider.title,
-			isFirstActivityIn180Days: await this.checkFirstActivity(
+		await upsertPositions(
+			this.db,
+			reported.map((position) => ({
 				insiderId,
-				txInfo.transactionDate,
-			),
-			additionalInsidersInCluster: await this.getClusterBonus(
 				issuerId,
-				insiderId,
-				txInfo.transactionDate,
-			),
-		};
+				securityTitle: position.securityTitle,
+				ownershipVehicle: position.ownershipVehicle,
+				isDirectOwnership: position.isDirectOwnership,
+				natureOfOwnership: position.natureOfOwnership ?? null,
+				isDerivative: position.isDerivative,
+				underlyingSecurityTitle: position.underlyingSecurityTitle || null,
+				shares: position.shares.toString(),
+				asOfDate: position.asOfDate,
+				source: position.source,
+				sourceAccession: accessionNumber,
+				sourceFilingDate: filingDate.split("T")[0],
+			})),
+		);
+	}
 
-		const scoreResult = calculateSignalScore(scoreInput);
+	/**
+	 * Process a single transaction: calculate score, save, and post alert if needed
+	 * A joint filing's transaction is stored and scored once, for the primary owner
+	 * @param rowIndex Position of the row among the filing's buy and sell rows
+	 * @param owners Reporting owners of the filing, primary owner first
+	 */
+	private async processTransaction(
+		form4Data: Form4Data,
+		txInfo: TransactionInfo,
+		rowIndex: number,
+		issuer: Issuer,
+		owners: Insider[],
+		allowAlert = true,
+	): Promise<{ transaction: Transaction; alertPosted: boolean }> {
+		const [insider, ...coOwners] = owners;
+		const { filingDelayDays, isLateFiling } = getFilingDelay(
+			txInfo.transactionDate,
+			form4Data.filingDate,
+		);
+		const scoreResult = await this.scoreTransaction({
+			transactionCode: txInfo.transactionCode,
+			transactionValue: txInfo.transactionValue,
+			isValueUnknown: txInfo.priceUnknown,
+			transactionDate: txInfo.transactionDate,
+			filingAccession: form4Data.accessionNumber,
+			insiderTitle: insider.title || undefined,
+			issuerId: issuer.id,
+			insiderId: insider.id,
+			coOwnerIds: coOwners.map((owner) => owner.id),
+			isLateFiling,
+		});
+
+		const plan = txInfo.is10b51
+			? await this.resolveTradingPlan(form4Data, txInfo, issuer.id, insider.id)
+			: null;
 
 		// Upsert transaction
 		const transaction = await upsertTransaction(this.db, {
 			filingAccession: form4Data.accessionNumber,
-			insiderId,
-			issuerId,
+			insiderId: insider.id,
+			issuerId: issuer.id,
 			transactionDate: txInfo.transactionDate,
 			transactionCode: txInfo.transactionCode,
 			shares: txInfo.shares.toString(),
 			price: txInfo.pricePerShare.toString(),
+			priceLow: txInfo.priceLow?.toString() ?? null,
+			priceHigh: txInfo.priceHigh?.toString() ?? null,
+			priceUnknown: txInfo.priceUnknown,
+			isPriceEstimated: txInfo.isPriceEstimated,
 			transactionValue: txInfo.transactionValue.toString(),
 			postTransactionShares: txInfo.postTransactionShares.toString(),
 			isDirectOwnership: txInfo.isDirectOwnership,
+			natureOfOwnership: txInfo.natureOfOwnership ?? null,
+			ownershipVehicle: txInfo.ownershipVehicle,
+			rowIndex,
 			is10b51: txInfo.is10b51,
+			tradingPlanId: plan?.id ?? null,
+			planAdoptionDate: plan?.adoptionDate ?? null,
+			isDuringCoolingOff: plan !== null && txInfo.transactionDate <= plan.coolingOffEndsOn,
+			filingDelayDays,
+			isLateFiling,
 			signalScore: scoreResult.score.toString(),
+			securityTitle: txInfo.securityTitle || null,
+			isDerivative: txInfo.isDerivative,
+			underlyingSecurityTitle: txInfo.underlyingSecurityTitle || null,
+			underlyingShares: txInfo.underlyingShares?.toString() ?? null,
+			conversionOrExercisePrice: txInfo.conversionOrExercisePrice?.toString() ?? null,
+			exerciseDate: txInfo.exerciseDate || null,
+			expirationDate: txInfo.expirationDate || null,
+			isExerciseAndSell: txInfo.isExerciseAndSell,
 		});
 
+		await linkTransactionReportingOwners(
+			this.db,
+			transaction.id,
+			owners.map((owner) => owner.id),
+		);
+		await replaceTransactionFootnotes(
+			this.db,
+			transaction.id,
+			txInfo.footnotes.map((ref) => ({ footnoteId: ref.footnoteId, field: ref.field })),
+		);
+
 		console.log(
-			`[Form4Processor] Transaction saved: ${form4Data.issuer.ticker || form4Data.issuer.companyName} - ${form4Data.insider.name} - Score: ${scoreResult.score}`,
+			`[Form4Processor] Transaction saved: ${issuer.ticker || issuer.companyName} - ${insider.name}${coOwners.length > 0 ? ` (+${coOwners.length} joint filers)` : ""} - Score: ${scoreResult.score}`,
 		);
 
 		// Check if we should post an urgent alert
-		if (shouldTriggerUrgentAlert(scoreResult.score, txInfo.transactionValue)) {
-			await this.postUrgentAlert(transaction, form4Data, insiderId);
+		if (
+			allowAlert &&
+			!this.options.skipAlerts &&
+			shouldTriggerUrgentAlert(scoreResult.score, txInfo.transactionValue, !txInfo.priceUnknown)
+		) {
+			return {
+				transaction,
+				alertPosted: await this.queueUrgentAlert(transaction, issuer, owners),
+			};
 		}
+
+		return { transaction, alertPosted: false };
+	}
+
+	/**
+	 * Find the Rule 10b5-1 plan a plan trade was made under
+	 * A footnoted adoption date records (or extends) the insider's plan; without one the
+	 * insider's latest plan adopted before the trade is used
+	 * @returns The plan, or null when its adoption date is unknown
+	 */
+	private async resolveTradingPlan(
+		form4Data: Form4Data,
+		txInfo: TransactionInfo,
+		issuerId: string,
+		insiderId: string,
+	): Promise<TradingPlan | null> {
+		if (!txInfo.planAdoptionDate) {
+			return getLatestTradingPlan(this.db, insiderId, txInfo.transactionDate);
+		}
+
+		const owner = selectPrimaryOwner(form4Data.reportingOwners);
+		return upsertTradingPlan(this.db, {
+			insiderId,
+			issuerId,
+			adoptionDate: txInfo.planAdoptionDate,
+			coolingOffEndsOn: getCoolingOffEnd(
+				txInfo.planAdoptionDate,
+				Boolean(owner?.isDirector || owner?.isOfficer),
+			),
+			firstFilingAccession: form4Data.accessionNumber,
+			firstTradeDate: txInfo.transactionDate,
+			lastTradeDate: txInfo.transactionDate,
+		});
+	}
+
+	/**
+	 * Calculate a transaction's signal score with first-activity and cluster bonuses
+	 */
+	private async scoreTransaction(input: {
+		transactionCode: string;
+		transactionValue: number;
+		isValueUnknown: boolean;
+		transactionDate: string;
+		filingAccession: string;
+		insiderTitle?: string;
+		issuerId: string;
+		insiderId: string;
+		coOwnerIds: string[]; // Joint filers of the same filing, never counted as a cluster
+		isLateFiling: boolean;
+	}): Promise<ScoreResult> {
+		const scoreInput: ScoreInput = {
+			transactionCode: input.transactionCode,
+			transactionValue: input.transactionValue,
+			isValueUnknown: input.isValueUnknown,
+			insiderTitle: input.insiderTitle,
+			isLateFiling: input.isLateFiling,
+			isFirstActivityIn180Days: await this.checkFirstActivity(
+				input.insiderId,
+				input.transactionDate,
+				input.filingAccession,
+			),
+			additionalInsidersInCluster: await this.getClusterBonus(
+				input.issuerId,
+				[input.insiderId, ...input.coOwnerIds],
+				input.transactionDate,
+			),
+		};
+
+		return calculateSignalScore(scoreInput);
+	}
+
+	/**
+	 * Link a Form 4 sale to the earliest pending Form 144 notice filed for any of its owners
+	 * @returns True if a notice was matched
+	 */
+	private async matchForm144Notice(
+		transaction: Transaction,
+		ownerNames: string[],
+	): Promise<boolean> {
+		const notices = await getMatchableForm144Notices(
+			this.db,
+			transaction.issuerId,
+			transaction.transactionDate,
+			FORM_144_VALIDITY_DAYS,
+		);
+
+		const notice = notices.find((candidate) =>
+			ownerNames.some((name) => personNamesMatch(candidate.sellerName, name)),
+		);
+		if (!notice) return false;
+
+		await markForm144NoticeMatched(this.db, notice.id, transaction.id);
+		console.log(
+			`[Form4Processor] Form 144 ${notice.accessionNumber} executed by sale on ${transaction.transactionDate}`,
+		);
+
+		return true;
+	}
+
+	/**
+	 * Mark the transactions of the filing a Form 4/A amends as superseded
+	 * @returns The superseded transactions (empty if the original filing was never ingested)
+	 */
+	private async supersedeAmendedFiling(
+		form4Data: Form4Data,
+		issuerId: string,
+		insiderId: string,
+	): Promise<Transaction[]> {
+		if (!form4Data.dateOfOriginalSubmission) {
+			console.warn(
+				`[Form4Processor] Amendment ${form4Data.accessionNumber} has no dateOfOriginalSubmission, cannot link original`,
+			);
+			return [];
+		}
+
+		const original = await findAmendedFiling(this.db, {
+			issuerId,
+			insiderId,
+			dateOfOriginalSubmission: form4Data.dateOfOriginalSubmission,
+			amendmentAccession: form4Data.accessionNumber,
+		});
+
+		if (!original) {
+			// Rolls back the filing's transaction; the original may still be queued or backfilling
+			if (
+				this.options.deferOrphanAmendments &&
+				!(await hasIssuerFilingOn(this.db, {
+					issuerId,
+					filingDate: form4Data.dateOfOriginalSubmission,
+					excludeAccession: form4Data.accessionNumber,
+				}))
+			) {
+				throw new AmendmentOriginalPendingError(
+					form4Data.accessionNumber,
+					form4Data.dateOfOriginalSubmission,
+				);
+			}
+
+			console.log(
+				`[Form4Processor] No ingested filing from ${form4Data.dateOfOriginalSubmission} found for amendment ${form4Data.accessionNumber}`,
+			);
+			return [];
+		}
+
+		await linkFilingAmendment(this.db, original.accessionNumber, form4Data.accessionNumber);
+		const superseded = await supersedeFilingTransactions(
+			this.db,
+			original.accessionNumber,
+			form4Data.accessionNumber,
+			insiderId,
+		);
+
+		// Notices matched to the replaced sales are re-matched against the amended ones
+		await releaseForm144Matches(
+			this.db,
+			superseded.map((tx) => tx.id),
+		);
+
+		console.log(
+			`[Form4Processor] Amendment ${form4Data.accessionNumber} supersedes ${original.accessionNumber} (${superseded.length} transactions)`,
+		);
+
+		return superseded;
+	}
+
+	/**
+	 * Rescore active transactions whose bonuses may have changed after an amendment or a reparse
+	 * Covers the cluster window before the earliest affected trade and the first-activity
+	 * window after the latest one
+	 */
+	private async rescoreAffectedWindow(issuerId: string, affected: Transaction[]): Promise<void> {
+		const dates = affected.map((tx) => tx.transactionDate).sort();
+		const startDate = shiftDate(dates[0], -CLUSTER_DETECTION_DAYS);
+		const endDate = shiftDate(dates[dates.length - 1], FIRST_ACTIVITY_DAYS);
+
+		const rows = await getTransactionsWithInsiderInRange(this.db, issuerId, startDate, endDate);
+		let rescored = 0;
+
+		for (const { transaction, insider } of rows) {
+			const owners = await getTransactionReportingOwners(this.db, transaction.id);
+			const scoreResult = await this.scoreTransaction({
+				transactionCode: transaction.transactionCode,
+				transactionValue: Number(transaction.transactionValue),
+				isValueUnknown: transaction.priceUnknown,
+				transactionDate: transaction.transactionDate,
+				filingAccession: transaction.filingAccession,
+				insiderTitle: insider.title || undefined,
+				issuerId,
+				insiderId: insider.id,
+				coOwnerIds: owners.filter((owner) => !owner.isPrimary).map((owner) => owner.id),
+				isLateFiling: transaction.isLateFiling,
+			});
+
+			if (Number(transaction.signalScore) !== scoreResult.score) {
+				await updateTransactionScore(this.db, transaction.id, scoreResult.score.toString());
+				rescored++;
+			}
+		}
+
+		console.log(
+			`[Form4Processor] Rescored ${rescored} of ${rows.length} transactions between ${startDate} and ${endDate}`,
+		);
+	}
+
+	/**
+	 * Queue a reply in the thread of each urgent alert posted for a superseded transaction
+	 * The alert outbox flags the alert as corrected once the reply is posted
+	 * @returns Number of alerts corrected or queued for correction
+	 */
+	private async correctAlerts(
+		superseded: Transaction[],
+		replacements: Transaction[],
+		issuer: Issuer,
+		amendmentAccession: string,
+	): Promise<number> {
+		const alerts = await getUncorrectedUrgentAlerts(
+			this.db,
+			superseded.map((tx) => tx.id),
+		);
+		let corrected = 0;
+
+		for (const alert of alerts) {
+			const original = superseded.find((tx) => tx.id === alert.transactionId);
+			if (!original) continue;
+
+			if (!this.options.skipAlerts && alert.slackThreadTs) {
+				const message = formatAmendmentCorrection(
+					original,
+					replacements,
+					issuer,
+					amendmentAccession,
+				);
+				const entry = await queueAlert(this.db, {
+					kind: "correction",
+					transactionId: original.id,
+					issuerId: original.issuerId,
+					slackAlertId: alert.id,
+					filingAccession: amendmentAccession,
+					message,
+					threadTs: alert.slackThreadTs,
+				});
+				if (entry) this.queuedAlerts.push(entry.id);
+			} else {
+				await markSlackAlertCorrected(this.db, alert.id, amendmentAccession);
+			}
+
+			corrected++;
+		}
+
+		return corrected;
 	}
 
 	/**
 	 * Check if this is the insider's first transaction in 180+ days
 	 */
-	private async checkFirstActivity(insiderId: string, transactionDate: string): Promise<boolean> {
+	private async checkFirstActivity(
+		insiderId: string,
+		transactionDate: string,
+		filingAccession: string,
+	): Promise<boolean> {
 		// Calculate cutoff date (180 days before transaction)
 		const txDate = new Date(transactionDate);
 		const cutoffDate = new Date(txDate);
@@ -202,22 +1310,32 @@ export class Form4Processor {
 		const cutoffDateStr = cutoffDate.toISOString().split("T")[0];
 
 		// Get last transaction before this one
-		const lastTxDate = await getInsiderLastTransactionDate(
+		let lastActivityDate = await getInsiderLastTransactionDate(
 			this.db,
 			insiderId,
 			transactionDate,
+			filingAccession,
 		);
 
-		// If no previous transaction or it was before the cutoff, this is first activity
-		return !lastTxDate || lastTxDate < cutoffDateStr;
+		// Without earlier trades, the Form 3 event date is when the insider's position was established
+		if (!lastActivityDate) {
+			const statement = await getInsiderInitialStatement(this.db, insiderId);
+			if (statement && statement.eventDate <= transactionDate) {
+				lastActivityDate = statement.eventDate;
+			}
+		}
+
+		// If no previous activity or it was before the cutoff, this is first activity
+		return !lastActivityDate || lastActivityDate < cutoffDateStr;
 	}
 
 	/**
 	 * Get cluster bonus: count of additional insiders trading same ticker within 7 days
+	 * @param ownerIds Reporting owners of the scored transaction's filing (excluded from the count)
 	 */
 	private async getClusterBonus(
 		issuerId: string,
-		insiderId: string,
+		ownerIds: string[],
 		transactionDate: string,
 	): Promise<number> {
 		// Calculate date range (7 days centered on transaction date)
@@ -230,13 +1348,13 @@ export class Form4Processor {
 		const startDateStr = startDate.toISOString().split("T")[0];
 		const endDateStr = endDate.toISOString().split("T")[0];
 
-		// Get count of distinct insiders (excluding current insider)
+		// Get count of distinct insiders (excluding the current filing's owners)
 		const count = await getDistinctInsiderCountInCluster(
 			this.db,
 			issuerId,
 			startDateStr,
 			endDateStr,
-			insiderId,
+			ownerIds,
 		);
 
 		// Cluster bonus is the number of additional insiders (not including current one)
@@ -244,82 +1362,97 @@ export class Form4Processor {
 	}
 
 	/**
-	 * Post an urgent alert to Slack
+	 * Queue an urgent Slack alert in the alert outbox; it is posted once the filing commits
+	 * @param owners Reporting owners of the filing, primary owner first
 	 */
-	private async postUrgentAlert(
+	private async queueUrgentAlert(
 		transaction: any,
-		form4Data: Form4Data,
-		insiderId: string,
-	): Promise<void> {
+		issuer: Issuer,
+		owners: Insider[],
+	): Promise<boolean> {
+		const [insider, ...jointFilers] = owners;
+
 		// Check if we've already alerted on this transaction
 		const alreadyAlerted = await hasSlackAlertForTransaction(this.db, transaction.id, "urgent");
 		if (alreadyAlerted) {
 			console.log(
 				`[Form4Processor] Skipping alert for transaction ${transaction.id} - already alerted`,
 			);
-			return;
+			return false;
 		}
 
-		// Calculate holdings delta
+		// Calculate holdings delta within the transaction's ownership vehicle (direct, trust, spouse...)
 		const previousTx = await getInsiderPreviousTransaction(
 			this.db,
-			insiderId,
+			insider.id,
+			transaction.ownershipVehicle,
 			transaction.transactionDate,
+			transaction.filingAccession,
 		);
-		const holdingsDelta = previousTx
-			? calculateHoldingsDelta(
-					Number(previousTx.postTransactionShares),
-					Number(transaction.postTransactionShares),
-				)
-			: undefined;
+		// Fall back to the Form 3 baseline for the insider's first reported trade
+		const priorHoldings = previousTx
+			? Number(previousTx.postTransactionShares)
+			: await getInsiderBaselineShares(this.db, insider.id, transaction.ownershipVehicle);
+		const holdingsDelta =
+			priorHoldings !== null
+				? calculateHoldingsDelta(priorHoldings, Number(transaction.postTransactionShares))
+				: undefined;
 
-		// Format and post message
+		// Format and queue message
 		const message = formatUrgentAlert(
 			transaction,
-			{
-				id: form4Data.issuer.cik,
-				cik: form4Data.issuer.cik,
-				ticker: form4Data.issuer.ticker || null,
-				companyName: form4Data.issuer.companyName,
-				createdAt: new Date(),
-				updatedAt: new Date(),
-			},
-			{
-				id: insiderId,
-				issuerId: transaction.issuerId,
-				name: form4Data.insider.name,
-				title: form4Data.insider.title || null,
-				createdAt: new Date(),
-				updatedAt: new Date(),
-			},
+			issuer,
+			insider,
 			holdingsDelta,
+			jointFilers,
 		);
 
-		const response = await this.slackClient.postMessage(message);
-
-		if (response.ok) {
-			// Record alert in database
-			await recordSlackAlert(this.db, {
-				transactionId: transaction.id,
-				issuerId: transaction.issuerId,
-				alertType: "urgent",
-				slackMessageTs: response.ts,
-				slackThreadTs: response.ts, // Start a new thread
-				postedAt: new Date(),
-			});
+		// A pending entry from an earlier attempt is left to the next sweep of the outbox
+		const entry = await queueAlert(this.db, {
+			kind: "urgent",
+			transactionId: transaction.id,
+			issuerId: transaction.issuerId,
+			filingAccession: transaction.filingAccession,
+			message,
+		});
+		if (!entry) return false;
 
-			console.log(
-				`[Form4Processor] Posted urgent alert for ${form4Data.issuer.ticker || form4Data.issuer.companyName}`,
-			);
-		} else {
-			console.error(`[Form4Processor] Failed to post Slack alert: ${response.error}`);
-		}
+		this.queuedAlerts.push(entry.id);
+		console.log(`[Form4Processor] Queued urgent alert for ${issuer.ticker || issuer.companyName}`);
+		return true;
 	}
 }
 
+/**
+ * Shift an ISO date string (YYYY-MM-DD) by a number of days
+ */
+function shiftDate(date: string, days: number): string {
+	const result = new Date(`${date}T00:00:00Z`);
+	result.setUTCDate(result.getUTCDate() + days);
+	return result.toISOString().split("T")[0];
+}
+
+/**
+ * Ingestion cursor name of a live feed
+ */
+function getFeedName(formType: string): string {
+	return `current-form-${formType}`;
+}
+
+/**
+ * Filing queue message group of a feed filing: its issuer CIK when the feed page listed the
+ * issuer entry, otherwise the CIK of the filer it was listed under
+ */
+function getMessageGroupId(filing: SECFilingEntry): string {
+	return (filing.issuerCik ?? filing.cik).replace(/^0+/, "");
+}
+
 /**
  * Create a Form 4 processor instance
  */
-export function createForm4Processor(db: PgDatabase<any, any, any>): Form4Processor {
-	return new Form4Processor(db);
+export function createForm4Processor(
+	db: PgDatabase<any, any, any>,
+	options?: Form4ProcessorOptions,
+): Form4Processor {
+	return new Form4Processor(db, options);
 }
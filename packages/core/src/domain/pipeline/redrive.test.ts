@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	deleteMessageFromSQS,
+	receiveMessagesFromSQS,
+	releaseMessageToSQS,
+} from "../../aws/sqs/receiveMessage";
+import { pushMessageToSQS } from "../../aws/sqs/sendMessage";
+import { createFilingRedrive } from "./redrive";
+
+vi.mock("../../aws/sqs/sendMessage", () => ({
+	pushMessageToSQS: vi.fn().mockResolvedValue("test-message-id"),
+}));
+
+vi.mock("../../aws/sqs/receiveMessage", () => ({
+	receiveMessagesFromSQS: vi.fn(),
+	deleteMessageFromSQS: vi.fn(),
+	releaseMessageToSQS: vi.fn(),
+}));
+
+function deadLetter(accessionNumber: string) {
+	return {
+		MessageId: `message-${accessionNumber}`,
+		ReceiptHandle: `receipt-${accessionNumber}`,
+		Attributes: { MessageGroupId: "1618732" },
+		Body: JSON.stringify({
+			task_type: "PROCESS_FORM4",
+			accessionNumber,
+			// The reporting owner the feed listed the filing under
+			cik: "1234567",
+			filingDate: "2024-06-03T16:05:12-04:00",
+			formType: "4",
+		}),
+	};
+}
+
+describe("FilingRedrive", () => {
+	beforeEach(() => {
+		vi.mocked(receiveMessagesFromSQS)
+			.mockResolvedValueOnce([deadLetter("0001-24-000001"), deadLetter("0001-24-000002")])
+			.mockResolvedValueOnce([{ MessageId: "garbled", ReceiptHandle: "receipt-garbled", Body: "{" }])
+			.mockResolvedValue([]);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	it("should move every readable message back to its group with a fresh deduplication ID", async () => {
+		const stats = await createFilingRedrive().run();
+
+		expect(stats.filingsRedriven).toEqual(["0001-24-000001", "0001-24-000002"]);
+		expect(stats.errors).toHaveLength(1);
+		expect(pushMessageToSQS).toHaveBeenCalledWith(
+			expect.objectContaining({
+				queue: "FilingQueue",
+				messageGroupId: "1618732",
+				deduplicationId: expect.stringMatching(/^0001-24-000001-redrive-/),
+			}),
+		);
+		expect(deleteMessageFromSQS).toHaveBeenCalledTimes(2);
+		expect(releaseMessageToSQS).toHaveBeenCalledWith({
+			queue: "FilingQueueDlq",
+			receiptHandle: "receipt-garbled",
+		});
+	});
+
+	it("should leave filings that weren't asked for on the dead-letter queue", async () => {
+		const stats = await createFilingRedrive().run({ accessionNumbers: ["0001-24-000002"] });
+
+		expect(stats.filingsRedriven).toEqual(["0001-24-000002"]);
+		expect(stats.messagesSkipped).toBe(1);
+		expect(deleteMessageFromSQS).toHaveBeenCalledWith({
+			queue: "FilingQueueDlq",
+			receiptHandle: "receipt-0001-24-000002",
+		});
+		expect(releaseMessageToSQS).toHaveBeenCalledTimes(2);
+	});
+
+	it("should only list matching messages on a dry run", async () => {
+		const stats = await createFilingRedrive().run({ dryRun: true });
+
+		expect(stats.filingsRedriven).toHaveLength(2);
+		expect(pushMessageToSQS).not.toHaveBeenCalled();
+		expect(deleteMessageFromSQS).not.toHaveBeenCalled();
+		expect(releaseMessageToSQS).toHaveBeenCalledTimes(3);
+	});
+});
@@ -0,0 +1,106 @@
+import {
+	deleteMessageFromSQS,
+	receiveMessagesFromSQS,
+	releaseMessageToSQS,
+} from "../../aws/sqs/receiveMessage";
+import { FilingQueueMessageSchema } from "../../aws/sqs/queueMessageTypes/filingQueue";
+import { pushMessageToSQS } from "../../aws/sqs/sendMessage";
+
+// How long received dead-letter messages stay hidden while the redrive reads the rest of the queue
+const RECEIVE_VISIBILITY_TIMEOUT_SECONDS = 300;
+
+export interface RedriveOptions {
+	accessionNumbers?: string[]; // Only move these filings (default: every message)
+	dryRun?: boolean; // List matching messages without moving them
+}
+
+export interface RedriveStats {
+	messagesRead: number;
+	filingsRedriven: string[]; // Accession numbers moved back (or that would be, on a dry run)
+	messagesSkipped: number; // Not in accessionNumbers; left on the dead-letter queue
+	errors: Array<{ messageId: string; error: string }>; // Unreadable or failed moves, left on the dead-letter queue
+}
+
+/**
+ * Move failed filings from the filing dead-letter queue back to the filing queue
+ * Redriven messages get a fresh deduplication ID, otherwise SQS would drop a filing that
+ * was first queued less than five minutes ago. Reprocessing is idempotent: filings upsert
+ * on their accession number.
+ */
+export class FilingRedrive {
+	/**
+	 * Read the whole dead-letter queue once and move the matching messages
+	 * @returns Redrive statistics
+	 */
+	async run(options: RedriveOptions = {}): Promise<RedriveStats> {
+		const { accessionNumbers, dryRun = false } = options;
+		const stats: RedriveStats = {
+			messagesRead: 0,
+			filingsRedriven: [],
+			messagesSkipped: 0,
+			errors: [],
+		};
+
+		// Messages left on the queue are released at the end, so they aren't read twice
+		const leftOnQueue: string[] = [];
+
+		while (true) {
+			const messages = await receiveMessagesFromSQS({
+				queue: "FilingQueueDlq",
+				visibilityTimeoutSeconds: RECEIVE_VISIBILITY_TIMEOUT_SECONDS,
+			});
+			if (messages.length === 0) break;
+
+			for (const {
+				MessageId: messageId = "",
+				Body: body,
+				ReceiptHandle: receiptHandle,
+				Attributes: attributes,
+			} of messages) {
+				if (!receiptHandle) continue;
+				stats.messagesRead++;
+
+				try {
+					const message = FilingQueueMessageSchema.parse(JSON.parse(body ?? ""));
+					if (accessionNumbers && !accessionNumbers.includes(message.accessionNumber)) {
+						stats.messagesSkipped++;
+						leftOnQueue.push(receiptHandle);
+						continue;
+					}
+
+					if (dryRun) {
+						leftOnQueue.push(receiptHandle);
+					} else {
+						await pushMessageToSQS({
+							queue: "FilingQueue",
+							message,
+							// Back into the group it was queued in (the issuer; older messages used the feed CIK)
+							messageGroupId: attributes?.MessageGroupId ?? message.cik,
+							deduplicationId: `${message.accessionNumber}-redrive-${Date.now()}`,
+						});
+						await deleteMessageFromSQS({ queue: "FilingQueueDlq", receiptHandle });
+					}
+					stats.filingsRedriven.push(message.accessionNumber);
+				} catch (error) {
+					const errorMessage = error instanceof Error ? error.message : "Unknown error";
+					console.error(`[FilingRedrive] Error redriving message ${messageId}:`, errorMessage);
+					stats.errors.push({ messageId, error: errorMessage });
+					leftOnQueue.push(receiptHandle);
+				}
+			}
+		}
+
+		for (const receiptHandle of leftOnQueue) {
+			await releaseMessageToSQS({ queue: "FilingQueueDlq", receiptHandle });
+		}
+
+		return stats;
+	}
+}
+
+/**
+ * Create a filing redrive instance
+ */
+export function createFilingRedrive(): FilingRedrive {
+	return new FilingRedrive();
+}
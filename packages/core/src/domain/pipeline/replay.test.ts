@@ -0,0 +1,134 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getDb } from "@starter/core/sql";
+import { eq } from "drizzle-orm";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import createFetchMock from "vitest-fetch-mock";
+import { FilesystemBlobStore } from "../archive";
+import { createSECEdgarClient } from "../sec/client";
+import { FORM_4_FIXTURES_DIR } from "../sec/conformance";
+import { type FakeEdgarServer, createFakeEdgarServer, loadFakeEdgarFilings } from "../sec/fakeEdgar";
+import { rawFilings, transactions } from "../../sql/schema";
+import { createForm4Processor } from "./processor";
+import { createFilingReplay } from "./replay";
+
+describe("FilingReplay", () => {
+	let server: FakeEdgarServer;
+	let rootDir: string;
+	let blobStore: FilesystemBlobStore;
+
+	beforeAll(async () => {
+		// The processor talks HTTP to the fake server, not to the fetch mock
+		createFetchMock(vi).disableMocks();
+
+		server = createFakeEdgarServer({ filings: await loadFakeEdgarFilings(FORM_4_FIXTURES_DIR) });
+		await server.start();
+	});
+
+	afterAll(async () => {
+		await server.stop();
+	});
+
+	beforeEach(async () => {
+		rootDir = await mkdtemp(join(tmpdir(), "raw-filings-"));
+		blobStore = new FilesystemBlobStore(rootDir);
+	});
+
+	afterEach(async () => {
+		server.reset();
+		await rm(rootDir, { recursive: true, force: true });
+	});
+
+	// Ingest the fake feed once so every filing's documents land in the archive
+	async function ingest() {
+		const secClient = createSECEdgarClient({
+			baseUrl: server.url,
+			dataUrl: server.url,
+			maxRetries: 2,
+			baseDelayMs: 1,
+			maxDelayMs: 5,
+		});
+		const stats = await createForm4Processor(getDb(), { secClient, blobStore, skipAlerts: true }).process();
+		expect(stats.errors).toEqual([]);
+	}
+
+	// Rows compared across runs; ids and timestamps are left out so a rewrite still matches
+	async function getStoredTransactions() {
+		const rows = await getDb().select().from(transactions);
+		return rows
+			.map(({ filingAccession, insiderId, transactionCode, shares, price, rowIndex }) => ({
+				filingAccession,
+				insiderId,
+				transactionCode,
+				shares,
+				price,
+				rowIndex,
+			}))
+			.sort((a, b) =>
+				`${a.filingAccession}/${a.rowIndex}`.localeCompare(`${b.filingAccession}/${b.rowIndex}`),
+			);
+	}
+
+	it("should rebuild the same rows from the archive without calling EDGAR", async () => {
+		await ingest();
+		const ingested = await getStoredTransactions();
+		const archived = await getDb().select().from(rawFilings);
+		expect(ingested.length).toBeGreaterThan(0);
+		server.reset();
+
+		const first = await createFilingReplay(getDb(), blobStore).run();
+		const second = await createFilingReplay(getDb(), blobStore).run();
+
+		expect(first).toMatchObject({ filingsReplayed: archived.length, filingsFailed: 0, errors: [] });
+		expect(second).toMatchObject({ filingsReplayed: archived.length, filingsFailed: 0, errors: [] });
+		expect(await getStoredTransactions()).toEqual(ingested);
+		expect(server.requests).toEqual([]);
+	});
+
+	it("should drop rows an earlier parse stored once a replay parses them differently", async () => {
+		await ingest();
+		const ingested = await getStoredTransactions();
+
+		// As if the parser that first stored the row had misread its share count
+		const [row] = await getDb().select().from(transactions).limit(1);
+		await getDb()
+			.update(transactions)
+			.set({ shares: (Number(row.shares) + 1).toString() })
+			.where(eq(transactions.id, row.id));
+
+		const stats = await createFilingReplay(getDb(), blobStore).run({
+			accessionNumbers: [row.filingAccession],
+		});
+
+		expect(stats.errors).toEqual([]);
+		expect(await getStoredTransactions()).toEqual(ingested);
+		expect(await getDb().select().from(transactions).where(eq(transactions.id, row.id))).toEqual([]);
+	});
+
+	it("should replay only the chosen filings", async () => {
+		await ingest();
+		const [archived] = await getDb().select().from(rawFilings);
+
+		const stats = await createFilingReplay(getDb(), blobStore).run({
+			accessionNumbers: [archived.accessionNumber],
+		});
+
+		expect(stats.filingsReplayed).toBe(1);
+		expect(stats.errors).toEqual([]);
+	});
+
+	it("should record a filing whose archived document is missing as failed", async () => {
+		await ingest();
+		const [archived] = await getDb().select().from(rawFilings);
+		await rm(join(rootDir, "raw-filings"), { recursive: true, force: true });
+
+		const stats = await createFilingReplay(getDb(), blobStore).run({
+			accessionNumbers: [archived.accessionNumber],
+		});
+
+		expect(stats.filingsFailed).toBe(1);
+		expect(stats.errors).toHaveLength(1);
+		expect(stats.errors[0].filing).toBe(archived.accessionNumber);
+	});
+});
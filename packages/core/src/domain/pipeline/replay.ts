@@ -0,0 +1,104 @@
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { type BlobStore, RawFilingArchive } from "../archive";
+import type { RawFiling } from "../../sql/schema";
+import { type RawFilingRange, getRawFilingsInRange } from "../../sql/queries/ingestion";
+import { createIngestionLedger } from "./ledger";
+import { createForm4Processor } from "./processor";
+
+// Number of archived filings loaded per replay batch
+const REPLAY_BATCH_SIZE = 100;
+
+export interface ReplayOptions extends RawFilingRange {
+	skipAlerts?: boolean; // Default true: replayed filings were alerted on when first ingested
+}
+
+export interface ReplayStats {
+	filingsReplayed: number;
+	filingsFailed: number;
+	transactionsSaved: number;
+	errors: Array<{ filing: string; error: string }>;
+}
+
+/**
+ * Replay archived raw filings through parse, score and upsert without calling EDGAR
+ * Used after a parser or scoring fix to rebuild history from the raw filing archive.
+ * Filings are replayed oldest first so originals are stored before their amendments.
+ */
+export class FilingReplay {
+	private db: PgDatabase<any, any, any>;
+	private archive: RawFilingArchive;
+
+	constructor(db: PgDatabase<any, any, any>, blobStore: BlobStore) {
+		this.db = db;
+		this.archive = new RawFilingArchive(db, blobStore);
+	}
+
+	/**
+	 * Replay every archived filing in a date and/or accession range
+	 * @returns Replay statistics
+	 */
+	async run(options: ReplayOptions = {}): Promise<ReplayStats> {
+		const { skipAlerts = true, ...range } = options;
+		const stats: ReplayStats = {
+			filingsReplayed: 0,
+			filingsFailed: 0,
+			transactionsSaved: 0,
+			errors: [],
+		};
+
+		// Replays rewrite filings that were already processed, e.g. after a parser fix
+		const processor = createForm4Processor(this.db, { skipAlerts, reprocess: true });
+		const ledger = createIngestionLedger(this.db);
+		await ledger.start("replay", { ...range, skipAlerts });
+		let after: RawFiling | undefined;
+
+		while (true) {
+			const rawFilings = await getRawFilingsInRange(this.db, range, after, REPLAY_BATCH_SIZE);
+			if (rawFilings.length === 0) break;
+
+			for (const rawFiling of rawFilings) {
+				const filing = {
+					accessionNumber: rawFiling.accessionNumber,
+					cik: rawFiling.cik,
+					formType: rawFiling.formType,
+					filingDate: rawFiling.filedAt,
+				};
+
+				try {
+					const fetched = await this.archive.load(rawFiling);
+					const result = await processor.processDocument(filing, fetched);
+					await ledger.recordProcessed(filing, result);
+					stats.filingsReplayed++;
+					stats.transactionsSaved += result.transactionsSaved;
+				} catch (error) {
+					const errorMessage = error instanceof Error ? error.message : "Unknown error";
+					console.error(
+						`[FilingReplay] Error replaying filing ${rawFiling.accessionNumber}:`,
+						errorMessage,
+					);
+					await ledger.record(filing, "failed", { reason: errorMessage });
+					stats.filingsFailed++;
+					stats.errors.push({ filing: rawFiling.accessionNumber, error: errorMessage });
+				}
+			}
+
+			after = rawFilings[rawFilings.length - 1];
+			console.log(
+				`[FilingReplay] ${stats.filingsReplayed} replayed, ${stats.filingsFailed} failed (through ${after.accessionNumber})`,
+			);
+		}
+
+		await ledger.complete(stats);
+		return stats;
+	}
+}
+
+/**
+ * Create a filing replay instance
+ */
+export function createFilingReplay(
+	db: PgDatabase<any, any, any>,
+	blobStore: BlobStore,
+): FilingReplay {
+	return new FilingReplay(db, blobStore);
+}
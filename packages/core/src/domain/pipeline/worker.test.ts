@@ -0,0 +1,313 @@
+import { getDb } from "@starter/core/sql";
+import { count } from "drizzle-orm";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import createFetchMock from "vitest-fetch-mock";
+import { createSECEdgarClient } from "../sec/client";
+import { FORM_4_FIXTURES_DIR } from "../sec/conformance";
+import {
+	type FakeEdgarFiling,
+	type FakeEdgarServer,
+	createFakeEdgarServer,
+	loadFakeEdgarFilings,
+} from "../sec/fakeEdgar";
+import { getEasternDate } from "../sec/formIndex";
+import { delayMessageOnSQS } from "../../aws/sqs/receiveMessage";
+import { pushMessageToSQS } from "../../aws/sqs/sendMessage";
+import {
+	getActiveBackfillJobs,
+	getIngestionCursor,
+	getIngestionRuns,
+	upsertIngestionCursor,
+} from "../../sql/queries/ingestion";
+import { getFilingByAccession } from "../../sql/queries/insiders";
+import { transactions } from "../../sql/schema";
+import { createForm4Processor } from "./processor";
+import { type FilingQueueRecord, createFilingWorker } from "./worker";
+
+vi.mock("../../aws/sqs/sendMessage", () => ({
+	pushMessageToSQS: vi.fn().mockResolvedValue("test-message-id"),
+}));
+
+vi.mock("../../aws/sqs/receiveMessage", () => ({
+	delayMessageOnSQS: vi.fn(),
+}));
+
+describe("FilingWorker", () => {
+	let server: FakeEdgarServer;
+	let filings: FakeEdgarFiling[];
+
+	beforeAll(async () => {
+		// The processor talks HTTP to the fake server, not to the fetch mock
+		createFetchMock(vi).disableMocks();
+
+		// The feed lists the first filing under a reporting owner as well as its issuer
+		filings = await loadFakeEdgarFilings(FORM_4_FIXTURES_DIR);
+		filings[0] = { ...filings[0], feedCik: "1000001" };
+
+		server = createFakeEdgarServer({ filings });
+		await server.start();
+	});
+
+	afterAll(async () => {
+		await server.stop();
+	});
+
+	afterEach(() => {
+		server.reset();
+		vi.mocked(pushMessageToSQS).mockClear();
+		vi.mocked(delayMessageOnSQS).mockClear();
+	});
+
+	function createSecClient() {
+		return createSECEdgarClient({
+			baseUrl: server.url,
+			dataUrl: server.url,
+			maxRetries: 2,
+			baseDelayMs: 1,
+			maxDelayMs: 5,
+			circuitCooldownMs: 60_000,
+		});
+	}
+
+	// Turn the messages enqueue sent into SQS records, in send order
+	function getQueuedRecords(receiveCount = 1): FilingQueueRecord[] {
+		return vi.mocked(pushMessageToSQS).mock.calls.map(([args], index) => ({
+			messageId: `message-${index}`,
+			receiptHandle: `receipt-${index}`,
+			body: JSON.stringify(args.message),
+			attributes: {
+				MessageGroupId: args.messageGroupId,
+				ApproximateReceiveCount: receiveCount.toString(),
+			},
+		}));
+	}
+
+	// The fixtures' amendment has no original, so it's only stored once its deferrals run out
+	const LAST_AMENDMENT_DEFERRAL = 3;
+
+	function findAmendment(records: FilingQueueRecord[]): FilingQueueRecord {
+		const amendment = records.find((record) => JSON.parse(record.body).formType === "4/A");
+		if (!amendment) throw new Error("The fixtures have no amendment");
+		return amendment;
+	}
+
+	it("should queue one message per filing and advance the cursor", async () => {
+		const db = getDb();
+
+		const stats = await createForm4Processor(db, { secClient: createSecClient() }).enqueue();
+
+		expect(stats.errors).toEqual([]);
+		expect(stats.filingsQueued).toBe(6);
+		expect(pushMessageToSQS).toHaveBeenCalledTimes(6);
+		expect(vi.mocked(pushMessageToSQS).mock.calls[0][0]).toMatchObject({
+			queue: "FilingQueue",
+			message: { task_type: "PROCESS_FORM4" },
+		});
+
+		const [newest] = await createSecClient().fetchRecentFilings("4", 1);
+		const cursor = await getIngestionCursor(db, "current-form-4");
+		expect(cursor?.lastAccession).toBe(newest.accessionNumber);
+	});
+
+	it("should group each filing's message by the issuer its feed entries name", async () => {
+		const db = getDb();
+
+		await createForm4Processor(db, { secClient: createSecClient() }).enqueue();
+
+		// Only the feed is read; no filing is fetched to find its issuer
+		expect(server.requests.every((request) => request.includes("getcurrent"))).toBe(true);
+
+		const groups = getQueuedRecords().map((record) => {
+			const { accessionNumber, cik } = JSON.parse(record.body);
+			return { accessionNumber, cik, group: record.attributes?.MessageGroupId };
+		});
+		expect(groups).toHaveLength(filings.length);
+		for (const { accessionNumber, cik, group } of groups) {
+			const filing = filings.find((entry) => entry.accessionNumber === accessionNumber);
+			expect(Number(cik)).toBe(Number(filing?.feedCik ?? filing?.cik));
+			expect(group).toBe(filing?.cik);
+		}
+	});
+
+	it("should not advance the cursor when a message can't be queued", async () => {
+		const db = getDb();
+		vi.mocked(pushMessageToSQS).mockRejectedValueOnce(new Error("Queue unavailable"));
+
+		const stats = await createForm4Processor(db, { secClient: createSecClient() }).enqueue();
+
+		expect(stats.errors).toEqual([{ feed: "current-form-4", error: "Queue unavailable" }]);
+		expect(await getIngestionCursor(db, "current-form-4")).toBeNull();
+	});
+
+	it("should queue a backfill for the filings an unclosed feed gap skipped", async () => {
+		const db = getDb();
+		for (const feed of ["current-form-3", "current-form-4"]) {
+			await upsertIngestionCursor(db, {
+				feed,
+				lastAccession: "0000950170-24-000001",
+				lastFiledAt: new Date("2024-05-01T20:30:00-04:00"),
+			});
+		}
+
+		// One page of two filings can't reach a cursor older than the whole feed
+		const stats = await createForm4Processor(db, {
+			secClient: createSecClient(),
+			maxFeedPages: 1,
+		}).enqueue(2);
+
+		expect(stats.gapClosed).toBe(false);
+		// Both feeds skipped filings, but one daily-index job loads every form of the window
+		expect(stats.gapBackfillsQueued).toBe(1);
+
+		const [newest] = await createSecClient().fetchRecentFilings("4", 2);
+		const jobs = await getActiveBackfillJobs(db);
+		expect(jobs).toHaveLength(1);
+		// The fake Form 3 feed is empty, so its gap runs up to today
+		expect(jobs[0]).toMatchObject({
+			source: "daily-index",
+			startDate: "2024-05-01",
+			endDate: getEasternDate(new Date()),
+			skipAlerts: true,
+		});
+		expect((await getIngestionCursor(db, "current-form-4"))?.lastAccession).toBe(
+			newest.accessionNumber,
+		);
+	});
+
+	it("should process every queued filing", async () => {
+		const db = getDb();
+		const secClient = createSecClient();
+		await createForm4Processor(db, { secClient }).enqueue();
+
+		const result = await createFilingWorker(db, { skipAlerts: true, secClient }).processBatch(
+			getQueuedRecords(LAST_AMENDMENT_DEFERRAL),
+		);
+
+		expect(result.batchItemFailures).toEqual([]);
+
+		const [run] = await getIngestionRuns(db, { kind: "filing-worker" });
+		expect(run).toMatchObject({ status: "completed", filingsParsed: 6, filingsFailed: 0 });
+	});
+
+	it("should skip redelivered filings that were already processed", async () => {
+		const db = getDb();
+		const secClient = createSecClient();
+		await createForm4Processor(db, { secClient }).enqueue();
+		const records = getQueuedRecords(LAST_AMENDMENT_DEFERRAL);
+		const worker = createFilingWorker(db, { skipAlerts: true, secClient });
+
+		await worker.processBatch(records);
+		const [{ count: saved }] = await db.select({ count: count() }).from(transactions);
+
+		const result = await worker.processBatch(records);
+		const [{ count: afterRedelivery }] = await db.select({ count: count() }).from(transactions);
+
+		expect(result.batchItemFailures).toEqual([]);
+		expect(afterRedelivery).toBe(saved);
+
+		const runs = await getIngestionRuns(db, { kind: "filing-worker" });
+		expect(runs.map((run) => run.filingsSkipped).sort()).toEqual([0, records.length]);
+	});
+
+	it("should fail the rest of a group after a failed message", async () => {
+		const db = getDb();
+		const secClient = createSecClient();
+		await createForm4Processor(db, { secClient }).enqueue();
+		const records = getQueuedRecords();
+		const [first] = records;
+		const sameGroup = records.filter(
+			(record) => record.attributes?.MessageGroupId === first.attributes?.MessageGroupId,
+		);
+
+		const result = await createFilingWorker(db, { skipAlerts: true, secClient }).processBatch([
+			{ ...first, body: "{}" },
+			...records.slice(1),
+		]);
+
+		expect(result.batchItemFailures.map((failure) => failure.itemIdentifier)).toEqual(
+			sameGroup.map((record) => record.messageId),
+		);
+	});
+
+	it("should defer an amendment until its original is stored", async () => {
+		const db = getDb();
+		const secClient = createSecClient();
+		await createForm4Processor(db, { secClient }).enqueue();
+		const amendment = findAmendment(getQueuedRecords());
+		const worker = createFilingWorker(db, { skipAlerts: true, secClient });
+
+		const deferred = await worker.processBatch([amendment]);
+
+		expect(deferred.batchItemFailures).toEqual([{ itemIdentifier: amendment.messageId }]);
+		const { accessionNumber } = JSON.parse(amendment.body);
+		expect(await getFilingByAccession(db, accessionNumber)).toBeNull();
+		const [run] = await getIngestionRuns(db, { kind: "filing-worker" });
+		expect(run).toMatchObject({ filingsSkipped: 1, filingsFailed: 0 });
+
+		// The original arrives, e.g. from another message group, before the amendment's retry
+		const fixture = filings.find((filing) => filing.accessionNumber === accessionNumber);
+		if (!fixture) throw new Error(`No fixture for ${accessionNumber}`);
+		const original = {
+			accessionNumber: "0001391207-24-000001",
+			cik: fixture.cik,
+			filingDate: "2024-02-22T16:05:00-05:00",
+			formType: "4",
+		};
+		await createForm4Processor(db, { skipAlerts: true }).processDocument(original, {
+			xml: fixture.xml
+				.replace("<documentType>4/A</documentType>", "<documentType>4</documentType>")
+				.replace(/<dateOfOriginalSubmission>[^<]*<\/dateOfOriginalSubmission>/, ""),
+			document: { url: "", fileName: fixture.fileName, strategy: "index-json" },
+		});
+
+		const retried = await worker.processBatch([findAmendment(getQueuedRecords(2))]);
+
+		expect(retried.batchItemFailures).toEqual([]);
+		expect(await getFilingByAccession(db, accessionNumber)).toMatchObject({
+			amendsAccession: original.accessionNumber,
+		});
+	});
+
+	it("should store an amendment without its original once its deferrals run out", async () => {
+		const db = getDb();
+		const secClient = createSecClient();
+		await createForm4Processor(db, { secClient }).enqueue();
+		const amendment = findAmendment(getQueuedRecords(LAST_AMENDMENT_DEFERRAL));
+
+		const result = await createFilingWorker(db, { skipAlerts: true, secClient }).processBatch([
+			amendment,
+		]);
+
+		expect(result.batchItemFailures).toEqual([]);
+		const { accessionNumber } = JSON.parse(amendment.body);
+		expect(await getFilingByAccession(db, accessionNumber)).toMatchObject({ amendsAccession: null });
+	});
+
+	it("should fail the rest of the batch while EDGAR is throttling", async () => {
+		const db = getDb();
+		await createForm4Processor(db, { secClient: createSecClient() }).enqueue();
+		const records = getQueuedRecords();
+		const requestsBefore = server.requests.length;
+		server.addFault({ path: /index\.json$/, status: 503 });
+
+		// A fresh client, as in a new Lambda
+		const result = await createFilingWorker(db, {
+			skipAlerts: true,
+			secClient: createSecClient(),
+		}).processBatch(records);
+
+		expect(result.batchItemFailures).toHaveLength(records.length);
+		const requests = server.requests.slice(requestsBefore);
+		expect(requests.filter((request) => request.includes("index.json"))).toHaveLength(3);
+
+		// Held until the circuit breaker's pause ends, so the throttle costs one receive
+		expect(delayMessageOnSQS).toHaveBeenCalledTimes(records.length);
+		const [[delay]] = vi.mocked(delayMessageOnSQS).mock.calls;
+		expect(delay).toMatchObject({ queue: "FilingQueue", receiptHandle: "receipt-0" });
+		expect(delay.delaySeconds).toBeGreaterThan(55);
+		expect(delay.delaySeconds).toBeLessThanOrEqual(60);
+
+		const [run] = await getIngestionRuns(db, { kind: "filing-worker" });
+		expect(run.filingsSkipped).toBe(records.length);
+	});
+});
@@ -0,0 +1,190 @@
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { FilingQueueMessageSchema } from "../../aws/sqs/queueMessageTypes/filingQueue";
+import { delayMessageOnSQS } from "../../aws/sqs/receiveMessage";
+import { EdgarThrottledError } from "../sec";
+import { createIngestionLedger } from "./ledger";
+import {
+	AmendmentOriginalPendingError,
+	type FilingRef,
+	type Form4Processor,
+	type Form4ProcessorOptions,
+	createForm4Processor,
+} from "./processor";
+
+// SQS allows a message to stay hidden for at most 12 hours
+const MAX_DELAY_SECONDS = 12 * 60 * 60;
+
+// Receives an amendment waits for its original before it's stored without one (the original
+// may predate the feed); each wait is one visibility timeout
+const MAX_AMENDMENT_DEFERRALS = 3;
+
+// The parts of an SQS record the worker reads
+export interface FilingQueueRecord {
+	messageId: string;
+	receiptHandle?: string;
+	body: string;
+	attributes?: { MessageGroupId?: string; ApproximateReceiveCount?: string };
+}
+
+// SQS partial batch response: failed messages are retried, then moved to the dead-letter queue
+export interface FilingBatchResult {
+	batchItemFailures: Array<{ itemIdentifier: string }>;
+}
+
+/**
+ * Processes PROCESS_FORM4 messages from the filing queue, one filing per message
+ * The queue is FIFO and mostly grouped by issuer CIK, so once a message fails, the rest of its
+ * group in the batch is failed too and retried after it. A 4/A whose original isn't stored yet
+ * (queued in another group, or still backfilling) is failed and retried after the visibility
+ * timeout, up to MAX_AMENDMENT_DEFERRALS receives, so amendments don't overtake originals.
+ * While EDGAR is throttling, the rest of the batch is failed and kept hidden until the pause
+ * ends, so a throttle costs each message one receive instead of several.
+ */
+export class FilingWorker {
+	private db: PgDatabase<any, any, any>;
+	private options: Form4ProcessorOptions;
+	private processor: Form4Processor;
+
+	constructor(db: PgDatabase<any, any, any>, options: Form4ProcessorOptions = {}) {
+		this.db = db;
+		this.options = options;
+		this.processor = createForm4Processor(db, { ...options, deferOrphanAmendments: true });
+	}
+
+	/**
+	 * Process a batch of queue records
+	 * @returns The messages to retry
+	 */
+	async processBatch(records: FilingQueueRecord[]): Promise<FilingBatchResult> {
+		const batchItemFailures: FilingBatchResult["batchItemFailures"] = [];
+		const failedGroups = new Set<string>();
+		let throttled: string | null = null;
+		let pausedUntil: Date | null = null;
+		const pausedRecords: FilingQueueRecord[] = [];
+
+		const ledger = createIngestionLedger(this.db);
+		await ledger.start("filing-worker", { messages: records.length });
+
+		for (const record of records) {
+			const group = record.attributes?.MessageGroupId;
+			const filing = parseFilingMessage(record);
+
+			// Everything after a throttled request would only hit the same circuit breaker
+			let skipReason = throttled;
+			if (!skipReason && group && failedGroups.has(group)) {
+				skipReason = "Retried after an earlier filing of its group failed";
+			}
+			if (skipReason) {
+				batchItemFailures.push({ itemIdentifier: record.messageId });
+				if (throttled) pausedRecords.push(record);
+				if (filing) await ledger.record(filing, "skipped", { reason: skipReason });
+				continue;
+			}
+
+			try {
+				if (!filing) {
+					throw new Error(`Message ${record.messageId} is not a filing queue message`);
+				}
+
+				// Out of deferrals: store the amendment without its original
+				const processor =
+					getReceiveCount(record) < MAX_AMENDMENT_DEFERRALS
+						? this.processor
+						: createForm4Processor(this.db, this.options);
+				const result = await processor.processFiling(filing);
+				await ledger.recordProcessed(filing, result);
+				console.log(
+					`[FilingWorker] Processed ${filing.accessionNumber}: ${result.transactionsSaved} transactions`,
+				);
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : "Unknown error";
+				const deferred = error instanceof AmendmentOriginalPendingError;
+				if (deferred) {
+					console.log(`[FilingWorker] Deferring message ${record.messageId}: ${errorMessage}`);
+				} else {
+					console.error(
+						`[FilingWorker] Error processing message ${record.messageId}:`,
+						errorMessage,
+					);
+				}
+
+				batchItemFailures.push({ itemIdentifier: record.messageId });
+				if (group) failedGroups.add(group);
+				if (error instanceof EdgarThrottledError) {
+					throttled = errorMessage;
+					pausedUntil = error.pausedUntil;
+					pausedRecords.push(record);
+				}
+				if (filing) {
+					await ledger.record(filing, throttled || deferred ? "skipped" : "failed", {
+						reason: errorMessage,
+					});
+				}
+			}
+		}
+
+		if (pausedUntil) await this.delayUntil(pausedRecords, pausedUntil);
+
+		// Retry alerts left pending by earlier batches (failed posts, or a Lambda stopped after a commit)
+		const swept = await this.processor.dispatchPendingAlerts();
+
+		await ledger.complete({
+			messagesReceived: records.length,
+			messagesFailed: batchItemFailures.length,
+			alertsSwept: swept?.urgentAlertsPosted ?? 0,
+		});
+
+		return { batchItemFailures };
+	}
+
+	/**
+	 * Keep failed messages hidden until EDGAR's pause ends, instead of the queue's visibility
+	 * timeout; a message that can't be delayed is simply retried after the visibility timeout
+	 */
+	private async delayUntil(records: FilingQueueRecord[], pausedUntil: Date): Promise<void> {
+		const delaySeconds = Math.min(
+			MAX_DELAY_SECONDS,
+			Math.max(0, Math.ceil((pausedUntil.getTime() - Date.now()) / 1000)),
+		);
+
+		for (const { messageId, receiptHandle } of records) {
+			if (!receiptHandle) continue;
+
+			try {
+				await delayMessageOnSQS({ queue: "FilingQueue", receiptHandle, delaySeconds });
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : "Unknown error";
+				console.error(`[FilingWorker] Failed to delay message ${messageId}:`, errorMessage);
+			}
+		}
+	}
+}
+
+/**
+ * How many times SQS has delivered a record, including this one (1 if unknown)
+ */
+function getReceiveCount(record: FilingQueueRecord): number {
+	return Number(record.attributes?.ApproximateReceiveCount ?? 1);
+}
+
+/**
+ * Read the filing out of a queue record, or null if the body isn't a filing queue message
+ */
+function parseFilingMessage(record: FilingQueueRecord): FilingRef | null {
+	try {
+		const { task_type: _, ...filing } = FilingQueueMessageSchema.parse(JSON.parse(record.body));
+		return filing;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Create a filing queue worker instance
+ */
+export function createFilingWorker(
+	db: PgDatabase<any, any, any>,
+	options?: Form4ProcessorOptions,
+): FilingWorker {
+	return new FilingWorker(db, options);
+}
@@ -174,6 +174,40 @@ describe("calculateSignalScore", () => {
 		});
 	});
 
+	describe("unknown value", () => {
+		it("should use a neutral size multiplier for trades reported without a price", () => {
+			const input: ScoreInput = {
+				transactionCode: "S",
+				transactionValue: 0,
+				insiderTitle: "CFO",
+				isValueUnknown: true,
+			};
+
+			const result = calculateSignalScore(input);
+
+			// (-1) × 1.0 × 1.5 = -1.5
+			expect(result.breakdown.sizeMultiplier).toBe(1.0);
+			expect(result.score).toBe(-1.5);
+		});
+	});
+
+	describe("late filing multiplier", () => {
+		it("should discount transactions filed after the deadline", () => {
+			const input: ScoreInput = {
+				transactionCode: "P",
+				transactionValue: 1_000_000,
+				insiderTitle: "CEO",
+				isLateFiling: true,
+			};
+
+			const result = calculateSignalScore(input);
+
+			// (1) × log10(100) × 1.5 × 0.8 = 2.4
+			expect(result.score).toBe(2.4);
+			expect(result.breakdown.lateFilingMultiplier).toBe(0.8);
+		});
+	});
+
 	describe("size multiplier edge cases", () => {
 		it("should use minimum multiplier of 1.0 for small transactions", () => {
 			const input: ScoreInput = {
@@ -276,6 +310,11 @@ describe("shouldTriggerUrgentAlert", () => {
 		expect(shouldTriggerUrgentAlert(5.1, 100)).toBe(true);
 		expect(shouldTriggerUrgentAlert(0.5, 250_000)).toBe(true);
 	});
+
+	it("should only use the score when the value is unknown", () => {
+		expect(shouldTriggerUrgentAlert(1.0, 300_000, false)).toBe(false);
+		expect(shouldTriggerUrgentAlert(-5.0, 0, false)).toBe(true);
+	});
 });
 
 describe("calculateHoldingsDelta", () => {
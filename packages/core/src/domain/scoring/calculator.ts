@@ -3,9 +3,11 @@ import { isExecutiveRole } from "../sec/types";
 export interface ScoreInput {
 	transactionCode: string; // 'P' = buy, 'S' = sell
 	transactionValue: number; // Total value in dollars
+	isValueUnknown?: boolean; // Reported without a price: the value is unknown, not zero
 	insiderTitle?: string; // Job title (for role multiplier)
 	isFirstActivityIn180Days?: boolean; // First trade in 180+ days
 	additionalInsidersInCluster?: number; // Number of additional insiders trading same ticker in 7-day window
+	isLateFiling?: boolean; // Form 4 filed after the two-business-day deadline
 }
 
 export interface ScoreResult {
@@ -16,6 +18,7 @@ export interface ScoreResult {
 		roleMultiplier: number;
 		firstActivityBonus: number;
 		clusterBonus: number;
+		lateFilingMultiplier: number;
 	};
 }
 
@@ -24,20 +27,25 @@ export interface ScoreResult {
  *
  * Formula per specs:
  * - Base: Buy (+1), Sell (-1)
- * - Size multiplier: log10(transaction_value / $10,000)
+ * - Size multiplier: log10(transaction_value / $10,000); neutral (1.0) when the value is unknown
  * - Role multiplier: CEO/CFO/Chair (×1.5)
  * - First activity bonus: First trade in ≥180 days (+1)
  * - Cluster bonus: ≥2 insiders same ticker within 7 days (+1 per additional insider)
+ * - Late filing multiplier: filed after the Form 4 deadline (×0.8, the market learns of it late)
  *
  * Final score = (Base + FirstActivityBonus + ClusterBonus) × SizeMultiplier × RoleMultiplier
+ *   × LateFilingMultiplier
  */
 export function calculateSignalScore(input: ScoreInput): ScoreResult {
 	// 1. Base score
 	const baseScore = input.transactionCode === "P" ? 1 : -1;
 
 	// 2. Size multiplier: log10(transaction_value / 10,000)
-	// Ensure minimum of 1.0 (don't penalize small transactions below threshold)
-	const sizeMultiplier = Math.max(1.0, Math.log10(input.transactionValue / 10_000));
+	// Ensure minimum of 1.0 (don't penalize small transactions below threshold).
+	// A trade reported without a price is scored on its other factors alone.
+	const sizeMultiplier = input.isValueUnknown
+		? 1.0
+		: Math.max(1.0, Math.log10(input.transactionValue / 10_000));
 
 	// 3. Role multiplier: 1.5 for executives, 1.0 otherwise
 	const roleMultiplier = isExecutiveRole(input.insiderTitle) ? 1.5 : 1.0;
@@ -48,9 +56,15 @@ export function calculateSignalScore(input: ScoreInput): ScoreResult {
 	// 5. Cluster bonus: +1 per additional insider beyond the first
 	const clusterBonus = input.additionalInsidersInCluster || 0;
 
+	// 6. Late filing multiplier: 0.8 when the trade was disclosed after the deadline
+	const lateFilingMultiplier = input.isLateFiling ? 0.8 : 1.0;
+
 	// Final calculation
 	const score =
-		(baseScore + firstActivityBonus + clusterBonus) * sizeMultiplier * roleMultiplier;
+		(baseScore + firstActivityBonus + clusterBonus) *
+		sizeMultiplier *
+		roleMultiplier *
+		lateFilingMultiplier;
 
 	return {
 		score: Number(score.toFixed(2)), // Round to 2 decimal places
@@ -60,6 +74,7 @@ export function calculateSignalScore(input: ScoreInput): ScoreResult {
 			roleMultiplier,
 			firstActivityBonus,
 			clusterBonus,
+			lateFilingMultiplier,
 		},
 	};
 }
@@ -67,12 +82,15 @@ export function calculateSignalScore(input: ScoreInput): ScoreResult {
 /**
  * Check if a transaction meets the urgent alert threshold
  * Per specs: Signal score magnitude ≥ 5.0 OR transaction value ≥ $250k
+ * Trades reported without a price can only qualify on their score
+ * @param isValueKnown False when the transaction was reported without a price
  */
 export function shouldTriggerUrgentAlert(
 	signalScore: number,
 	transactionValue: number,
+	isValueKnown = true,
 ): boolean {
-	return Math.abs(signalScore) >= 5.0 || transactionValue >= 250_000;
+	return Math.abs(signalScore) >= 5.0 || (isValueKnown && transactionValue >= 250_000);
 }
 
 /**
@@ -1,55 +1,106 @@
-import type { Form4Data, SECFilingEntry } from "./types";
+import {
+	findPrimaryXmlInIndexHtml,
+	findPrimaryXmlInIndexJson,
+	getFilingFolderPath,
+} from "./filingIndex";
+import { EdgarThrottledError } from "./errors";
+import { takeFilingsSince } from "./feed";
+import { getFormIndexPath, parseFormIndex } from "./formIndex";
+import {
+	getSubmissionsFilePath,
+	getSubmissionsPath,
+	parseSubmissions,
+	parseSubmissionsFile,
+} from "./submissions";
+import type {
+	FeedCursor,
+	FeedFetchResult,
+	FilingDocument,
+	FormIndexEntry,
+	FormIndexSource,
+	IssuerSubmissions,
+	PrimaryDocument,
+	SECFilingEntry,
+} from "./types";
+import {
+	LocalRateLimiter,
+	type RateLimiter,
+	getBackoffDelay,
+	parseRetryAfter,
+} from "./rateLimit";
+import { childElements, elementValue, findElement, parseXml } from "./xml";
 
 const SEC_BASE_URL = "https://www.sec.gov";
-const SEC_EDGAR_RSS_URL = `${SEC_BASE_URL}/cgi-bin/browse-edgar`;
-
-// Rate limiter: SEC allows 10 requests per second
-class RateLimiter {
-	private queue: Array<() => void> = [];
-	private processing = false;
-	private readonly minDelay = 100; // 100ms = 10 requests/second
-
-	async execute<T>(fn: () => Promise<T>): Promise<T> {
-		return new Promise((resolve, reject) => {
-			this.queue.push(async () => {
-				try {
-					const result = await fn();
-					resolve(result);
-				} catch (error) {
-					reject(error);
-				}
-			});
-			this.process();
-		});
-	}
-
-	private async process() {
-		if (this.processing || this.queue.length === 0) return;
-
-		this.processing = true;
-		while (this.queue.length > 0) {
-			const task = this.queue.shift();
-			if (task) {
-				await task();
-				await this.delay(this.minDelay);
-			}
-		}
-		this.processing = false;
-	}
+const SEC_DATA_URL = "https://data.sec.gov"; // JSON APIs (submissions)
 
-	private delay(ms: number): Promise<void> {
-		return new Promise((resolve) => setTimeout(resolve, ms));
-	}
+// The getcurrent feed serves at most 100 entries per request
+const FEED_PAGE_SIZE = 100;
+
+// Resolved primary documents kept per client; oldest entries are evicted past this size
+const DOCUMENT_CACHE_SIZE = 1000;
+
+// Responses that mean "slow down": too many requests, or EDGAR shedding load
+const THROTTLE_STATUSES = [429, 503];
+
+// Other transient failures worth retrying
+const RETRYABLE_STATUSES = [500, 502, 504];
+
+export interface SECEdgarClientOptions {
+	userAgent?: string; // SEC requires a company name and contact email
+	baseUrl?: string; // Feeds, indexes and archives (default SEC_EDGAR_BASE_URL or www.sec.gov)
+	dataUrl?: string; // JSON APIs (default SEC_EDGAR_DATA_URL or data.sec.gov)
+	rateLimiter?: RateLimiter; // Default: a process-local token bucket
+	maxRetries?: number; // Retries per request after a throttled or transient failure (default 4)
+	baseDelayMs?: number; // Backoff base delay (default 1s)
+	maxDelayMs?: number; // Backoff cap (default 30s)
+	circuitCooldownMs?: number; // Pause after retries run out on throttled responses (default 10 min)
+}
+
+// Request counters for run statistics
+export interface SECRequestStats {
+	requests: number; // HTTP requests sent, including retries
+	retries: number;
+	throttledResponses: number; // 429 and 503 responses
+	circuitOpened: boolean; // This client paused ingestion because EDGAR kept throttling
 }
 
 export class SECEdgarClient {
-	private rateLimiter = new RateLimiter();
+	private rateLimiter: RateLimiter;
 	private userAgent: string;
+	private readonly baseUrl: string;
+	private readonly dataUrl: string;
+	private readonly maxRetries: number;
+	private readonly baseDelayMs: number;
+	private readonly maxDelayMs: number;
+	private readonly circuitCooldownMs: number;
+	// Accession number -> primary document located through the filing index
+	private documentCache = new Map<string, PrimaryDocument>();
+	private requestStats: SECRequestStats = {
+		requests: 0,
+		retries: 0,
+		throttledResponses: 0,
+		circuitOpened: false,
+	};
 
-	constructor(userAgent?: string) {
+	constructor(options: SECEdgarClientOptions = {}) {
 		// SEC requires a user agent with company name and contact email
 		this.userAgent =
-			userAgent || process.env.SEC_EDGAR_USER_AGENT || "InsiderWire support@example.com";
+			options.userAgent || process.env.SEC_EDGAR_USER_AGENT || "InsiderWire support@example.com";
+		// Overridable so development and tests can run against a local stand-in (see fakeEdgar.ts)
+		this.baseUrl = options.baseUrl || process.env.SEC_EDGAR_BASE_URL || SEC_BASE_URL;
+		this.dataUrl = options.dataUrl || process.env.SEC_EDGAR_DATA_URL || SEC_DATA_URL;
+		this.rateLimiter = options.rateLimiter ?? new LocalRateLimiter();
+		this.maxRetries = options.maxRetries ?? 4;
+		this.baseDelayMs = options.baseDelayMs ?? 1000;
+		this.maxDelayMs = options.maxDelayMs ?? 30_000;
+		this.circuitCooldownMs = options.circuitCooldownMs ?? 10 * 60 * 1000;
+	}
+
+	/**
+	 * Request counters since the client was created
+	 */
+	getRequestStats(): SECRequestStats {
+		return { ...this.requestStats };
 	}
 
 	/**
@@ -58,29 +109,135 @@ export class SECEdgarClient {
 	 * @returns Array of filing entries with metadata
 	 */
 	async fetchRecentForm4Filings(count = 100): Promise<SECFilingEntry[]> {
-		const url = new URL(SEC_EDGAR_RSS_URL);
+		return this.fetchRecentFilings("4", count);
+	}
+
+	/**
+	 * Fetch recent ownership filings of one form type from SEC EDGAR
+	 * @param formType Base form type, e.g. "3" or "4" (the feed includes its amendments)
+	 * @param count Maximum number of filings to retrieve (default 100)
+	 * @returns Array of filing entries with metadata
+	 */
+	async fetchRecentFilings(formType: string, count = 100): Promise<SECFilingEntry[]> {
+		const { filings } = await this.fetchFeedPage(formType, 0, count);
+		return filings;
+	}
+
+	/**
+	 * Fetch every filing of one form type published since a cursor
+	 * Pages through the feed (newest first) with start offsets until the cursor's filing, or an
+	 * older one, is reached
+	 * @param formType Base form type, e.g. "3" or "4" (the feed includes its amendments)
+	 * @param cursor Newest filing seen by the previous run; without one only the first page is read
+	 * @param options.pageSize Entries per request (at most 100)
+	 * @param options.maxPages Requests per call; stopping here leaves the gap open
+	 */
+	async fetchFilingsSince(
+		formType: string,
+		cursor: FeedCursor | null,
+		options: { pageSize?: number; maxPages?: number } = {},
+	): Promise<FeedFetchResult> {
+		const pageSize = Math.min(options.pageSize ?? FEED_PAGE_SIZE, FEED_PAGE_SIZE);
+		const maxPages = options.maxPages ?? 10;
+
+		const filings: SECFilingEntry[] = [];
+		const seen = new Set<string>();
+		let pagesFetched = 0;
+
+		while (pagesFetched < maxPages) {
+			const page = await this.fetchFeedPage(formType, pagesFetched * pageSize, pageSize);
+			pagesFetched++;
+
+			const taken = takeFilingsSince(page.filings, cursor, seen);
+			filings.push(...taken.filings);
+			if (taken.reachedCursor) {
+				return { filings, gapClosed: true, pagesFetched };
+			}
+
+			// First run: the latest page is the baseline
+			if (!cursor) {
+				return { filings, gapClosed: true, pagesFetched };
+			}
+
+			// The feed only covers recent days; running off its end means older filings were missed
+			if (page.entryCount < pageSize) {
+				return { filings, gapClosed: false, pagesFetched };
+			}
+		}
+
+		return { filings, gapClosed: false, pagesFetched };
+	}
+
+	/**
+	 * Fetch one page of the getcurrent feed
+	 * @param start Offset of the first entry (0 = newest)
+	 * @returns Matching filings and the number of entries on the page
+	 */
+	private async fetchFeedPage(
+		formType: string,
+		start: number,
+		count: number,
+	): Promise<{ filings: SECFilingEntry[]; entryCount: number }> {
+		const url = new URL(`${this.baseUrl}/cgi-bin/browse-edgar`);
 		url.searchParams.set("action", "getcurrent");
-		url.searchParams.set("type", "4"); // Form 4 only
+		url.searchParams.set("type", formType);
 		url.searchParams.set("owner", "include"); // Include insider ownership
-		url.searchParams.set("start", "0");
+		url.searchParams.set("start", start.toString());
 		url.searchParams.set("count", count.toString());
 		url.searchParams.set("output", "atom"); // RSS/Atom feed format
 
-		return this.rateLimiter.execute(async () => {
-			const response = await fetch(url.toString(), {
-				headers: {
-					"User-Agent": this.userAgent,
-					Accept: "application/atom+xml, application/xml, text/xml",
-				},
-			});
+		const response = await this.request(
+			url.toString(),
+			"application/atom+xml, application/xml, text/xml",
+		);
 
-			if (!response.ok) {
-				throw new Error(`SEC EDGAR API error: ${response.status} ${response.statusText}`);
-			}
+		if (!response.ok) {
+			throw new Error(`SEC EDGAR API error: ${response.status} ${response.statusText}`);
+		}
+
+		const xmlText = await response.text();
+		return this.parseAtomFeed(xmlText, formType);
+	}
+
+	/**
+	 * Fetch an ownership document (Form 3 or Form 4) by accession number
+	 * @param accessionNumber SEC accession number (e.g., "0001209191-24-000123")
+	 * @param cik Company CIK number
+	 * @returns Ownership document XML and how it was located
+	 */
+	async fetchOwnershipDocument(accessionNumber: string, cik: string): Promise<FilingDocument> {
+		return this.fetchFilingDocument(accessionNumber, cik, `${accessionNumber}.xml`);
+	}
 
-			const xmlText = await response.text();
-			return this.parseAtomFeed(xmlText);
-		});
+	/**
+	 * Fetch an ownership document (Form 3 or Form 4) XML by accession number
+	 * @param accessionNumber SEC accession number (e.g., "0001209191-24-000123")
+	 * @param cik Company CIK number
+	 * @returns Ownership document XML as string
+	 */
+	async fetchOwnershipXML(accessionNumber: string, cik: string): Promise<string> {
+		return (await this.fetchOwnershipDocument(accessionNumber, cik)).xml;
+	}
+
+	/**
+	 * Fetch a Form 144 notice by accession number
+	 * Electronic Form 144 filings conventionally store the notice as primary_doc.xml
+	 * @param accessionNumber SEC accession number
+	 * @param cik CIK of the issuer or the filer (either folder holds the filing)
+	 * @returns Form 144 XML and how it was located
+	 */
+	async fetchForm144Document(accessionNumber: string, cik: string): Promise<FilingDocument> {
+		return this.fetchFilingDocument(accessionNumber, cik, "primary_doc.xml");
+	}
+
+	/**
+	 * Fetch a Form 144 notice XML by accession number
+	 * @param accessionNumber SEC accession number
+	 * @param cik CIK of the issuer or the filer (either folder holds the filing)
+	 * @returns Form 144 XML as string
+	 */
+	async fetchForm144XML(accessionNumber: string, cik: string): Promise<string> {
+		return (await this.fetchForm144Document(accessionNumber, cik)).xml;
 	}
 
 	/**
@@ -90,97 +247,277 @@ export class SECEdgarClient {
 	 * @returns Form 4 XML as string
 	 */
 	async fetchForm4XML(accessionNumber: string, cik: string): Promise<string> {
-		// Format: https://www.sec.gov/Archives/edgar/data/{CIK}/{ACCESSION-NO-DASHES}/{ACCESSION-NO}.xml
-		const accessionNoDashes = accessionNumber.replace(/-/g, "");
-		const cikPadded = cik.padStart(10, "0");
-		const url = `${SEC_BASE_URL}/Archives/edgar/data/${cikPadded}/${accessionNoDashes}/${accessionNumber}.xml`;
-
-		return this.rateLimiter.execute(async () => {
-			const response = await fetch(url, {
-				headers: {
-					"User-Agent": this.userAgent,
-					Accept: "application/xml, text/xml",
-				},
-			});
-
-			if (!response.ok) {
-				throw new Error(
-					`Failed to fetch Form 4 XML: ${response.status} ${response.statusText}`,
-				);
+		return this.fetchOwnershipXML(accessionNumber, cik);
+	}
+
+	/**
+	 * Locate a filing's primary XML document
+	 * Tries the folder's index.json, then its -index.htm, then falls back to a conventional
+	 * file name. Documents found through an index are cached per accession number.
+	 * @param accessionNumber SEC accession number
+	 * @param cik CIK of the issuer or a reporting owner (either folder holds the filing)
+	 * @param fallbackFileName File name to try when neither index lists an XML document
+	 */
+	async resolvePrimaryDocument(
+		accessionNumber: string,
+		cik: string,
+		fallbackFileName: string,
+	): Promise<PrimaryDocument> {
+		const cached = this.documentCache.get(accessionNumber);
+		if (cached) return cached;
+
+		const folderUrl = `${this.baseUrl}${getFilingFolderPath(accessionNumber, cik)}`;
+		const document: PrimaryDocument = (await this.resolveFromIndexJson(folderUrl)) ||
+			(await this.resolveFromIndexHtml(folderUrl, accessionNumber)) || {
+				url: `${folderUrl}/${fallbackFileName}`,
+				fileName: fallbackFileName,
+				strategy: "guessed",
+			};
+
+		// A guessed name may 404; only index lookups are worth remembering
+		if (document.strategy !== "guessed") {
+			if (this.documentCache.size >= DOCUMENT_CACHE_SIZE) {
+				const [oldest] = this.documentCache.keys();
+				this.documentCache.delete(oldest);
 			}
+			this.documentCache.set(accessionNumber, document);
+		}
 
-			return response.text();
-		});
+		return document;
 	}
 
 	/**
-	 * Parse Atom/RSS feed XML to extract filing entries
-	 * @param xmlText Atom feed XML string
-	 * @returns Array of filing entries
+	 * Resolve and fetch a filing's primary XML document
 	 */
-	private parseAtomFeed(xmlText: string): SECFilingEntry[] {
-		// Simple XML parsing without external dependencies
-		// Extract <entry> elements from Atom feed
-		const entries: SECFilingEntry[] = [];
-		const entryRegex = /<entry>([\s\S]*?)<\/entry>/g;
-		const matches = xmlText.matchAll(entryRegex);
+	private async fetchFilingDocument(
+		accessionNumber: string,
+		cik: string,
+		fallbackFileName: string,
+	): Promise<FilingDocument> {
+		const document = await this.resolvePrimaryDocument(accessionNumber, cik, fallbackFileName);
 
-		for (const match of matches) {
-			const entryXml = match[1];
+		const response = await this.request(document.url, "application/xml, text/xml");
 
-			// Extract fields using regex (basic approach)
-			const title = this.extractXmlTag(entryXml, "title") || "";
-			const updated = this.extractXmlTag(entryXml, "updated") || "";
-			const link = this.extractXmlAttribute(entryXml, "link", "href") || "";
+		if (!response.ok) {
+			throw new Error(
+				`Failed to fetch ${document.fileName} (${document.strategy}): ${response.status} ${response.statusText}`,
+			);
+		}
 
-			// Title format: "4 - {CompanyName} ({CIK})"
-			const titleMatch = title.match(/^4\s*-\s*(.+?)\s*\((\d+)\)$/);
-			if (!titleMatch) continue;
+		return { xml: await response.text(), document };
+	}
 
-			const [, companyName, cik] = titleMatch;
+	/**
+	 * Look up the primary document in the filing folder's index.json
+	 */
+	private async resolveFromIndexJson(folderUrl: string): Promise<PrimaryDocument | null> {
+		const text = await this.fetchIndexText(`${folderUrl}/index.json`, "application/json");
+		const fileName = text && findPrimaryXmlInIndexJson(text);
+		if (!fileName) return null;
 
-			// Extract accession number from link or ID
-			const id = this.extractXmlTag(entryXml, "id") || "";
-			const accessionMatch = id.match(/accession-number=([0-9-]+)/);
-			if (!accessionMatch) continue;
+		return { url: `${folderUrl}/${fileName}`, fileName, strategy: "index-json" };
+	}
+
+	/**
+	 * Look up the primary document in the filing's -index.htm page
+	 */
+	private async resolveFromIndexHtml(
+		folderUrl: string,
+		accessionNumber: string,
+	): Promise<PrimaryDocument | null> {
+		const text = await this.fetchIndexText(`${folderUrl}/${accessionNumber}-index.htm`, "text/html");
+		const fileName = text && findPrimaryXmlInIndexHtml(text);
+		if (!fileName) return null;
 
-			const accessionNumber = accessionMatch[1];
+		return { url: `${folderUrl}/${fileName}`, fileName, strategy: "index-htm" };
+	}
 
-			entries.push({
-				accessionNumber,
-				filingDate: updated,
-				cik: cik.toString(),
-				companyName: companyName.trim(),
-				formType: "4",
-				filingUrl: link,
-			});
+	/**
+	 * Fetch a filing index, or undefined if it isn't available
+	 */
+	private async fetchIndexText(url: string, accept: string): Promise<string | undefined> {
+		const response = await this.request(url, accept);
+
+		if (!response.ok) {
+			console.log(`[SECEdgarClient] Filing index unavailable: ${url} (${response.status})`);
+			return undefined;
 		}
 
-		return entries;
+		return response.text();
 	}
 
 	/**
-	 * Extract text content from an XML tag
+	 * Fetch and parse the EDGAR form.idx covering a date
+	 * @param source "daily-index" (one file per business day) or "full-index" (one file per quarter)
+	 * @param date ISO date string (YYYY-MM-DD)
+	 * @returns Index rows, or null when no index is published (weekends, holidays, future quarters,
+	 * or a day EDGAR hasn't indexed yet)
 	 */
-	private extractXmlTag(xml: string, tagName: string): string | null {
-		const regex = new RegExp(`<${tagName}[^>]*>([\\s\\S]*?)<\/${tagName}>`, "i");
-		const match = xml.match(regex);
-		return match ? match[1].trim() : null;
+	async fetchFormIndex(source: FormIndexSource, date: string): Promise<FormIndexEntry[] | null> {
+		const url = `${this.baseUrl}${getFormIndexPath(source, date)}`;
+
+		const response = await this.request(url, "text/plain");
+
+		// No index is published for weekends, holidays, quarters that haven't started or recent days
+		if (response.status === 404) {
+			return null;
+		}
+
+		if (!response.ok) {
+			throw new Error(`Failed to fetch form index: ${response.status} ${response.statusText}`);
+		}
+
+		return parseFormIndex(await response.text());
 	}
 
 	/**
-	 * Extract attribute value from an XML tag
+	 * Fetch every filing of an issuer from its EDGAR submissions JSON
+	 * Reads the inline recent filings, then each continuation file of older ones
+	 * @param cik Issuer CIK
+	 * @param since Skip continuation files with no filing on or after this ISO date
+	 * @returns The issuer's submissions with every filing, newest first (files is empty)
+	 * @throws Error if the CIK has no submissions
 	 */
-	private extractXmlAttribute(xml: string, tagName: string, attrName: string): string | null {
-		const regex = new RegExp(`<${tagName}[^>]*${attrName}=["']([^"']+)["']`, "i");
-		const match = xml.match(regex);
-		return match ? match[1] : null;
+	async fetchIssuerSubmissions(cik: string, since?: string): Promise<IssuerSubmissions> {
+		const submissions = parseSubmissions(await this.fetchJson(getSubmissionsPath(cik)));
+
+		const filings = [...submissions.filings];
+		for (const file of submissions.files) {
+			if (since && file.filingTo < since) continue;
+
+			filings.push(...parseSubmissionsFile(await this.fetchJson(getSubmissionsFilePath(file))));
+		}
+
+		return { ...submissions, filings, files: [] };
+	}
+
+	/**
+	 * Fetch and parse a JSON document from data.sec.gov
+	 */
+	private async fetchJson(path: string): Promise<unknown> {
+		const response = await this.request(`${this.dataUrl}${path}`, "application/json");
+
+		if (!response.ok) {
+			throw new Error(`Failed to fetch ${path}: ${response.status} ${response.statusText}`);
+		}
+
+		return response.json();
+	}
+
+	/**
+	 * Send a GET request within the shared rate limit
+	 * Throttled (429/503) and transient (500/502/504, network) failures are retried with
+	 * full-jitter exponential backoff, waiting at least as long as Retry-After asks. When
+	 * retries run out on throttled responses the circuit breaker pauses every caller.
+	 * @returns The final response, which may still be an error status (e.g. 404)
+	 * @throws EdgarThrottledError when the circuit breaker is or becomes open
+	 */
+	private async request(url: string, accept: string): Promise<Response> {
+		for (let attempt = 0; ; attempt++) {
+			await this.rateLimiter.acquire();
+			this.requestStats.requests++;
+
+			let response: Response | undefined;
+			try {
+				response = await fetch(url, {
+					headers: {
+						"User-Agent": this.userAgent,
+						Accept: accept,
+					},
+				});
+			} catch (error) {
+				// Network failure: retry like a transient error, rethrow once retries run out
+				if (attempt >= this.maxRetries) throw error;
+			}
+
+			const throttled = response !== undefined && THROTTLE_STATUSES.includes(response.status);
+			if (throttled) this.requestStats.throttledResponses++;
+
+			if (response && !throttled && !RETRYABLE_STATUSES.includes(response.status)) {
+				return response;
+			}
+
+			const retryAfterMs = parseRetryAfter(response?.headers.get("retry-after") ?? null);
+
+			if (attempt >= this.maxRetries) {
+				if (!throttled || !response) return response as Response;
+
+				const pausedUntil = new Date(
+					Date.now() + Math.max(this.circuitCooldownMs, retryAfterMs ?? 0),
+				);
+				await this.rateLimiter.pause(pausedUntil);
+				this.requestStats.circuitOpened = true;
+				console.warn(
+					`[SECEdgarClient] EDGAR still throttling after ${attempt} retries; pausing until ${pausedUntil.toISOString()}`,
+				);
+				throw new EdgarThrottledError(pausedUntil);
+			}
+
+			const delayMs = Math.max(
+				getBackoffDelay(attempt, this.baseDelayMs, this.maxDelayMs),
+				retryAfterMs ?? 0,
+			);
+			console.log(
+				`[SECEdgarClient] ${response ? response.status : "Network error"} from ${url}; retry ${attempt + 1} in ${delayMs}ms`,
+			);
+			this.requestStats.retries++;
+			await new Promise((resolve) => setTimeout(resolve, delayMs));
+		}
+	}
+
+	/**
+	 * Parse Atom/RSS feed XML to extract filing entries
+	 * @param xmlText Atom feed XML string
+	 * @param formType Base form type requested from the feed (amendments are included)
+	 * @returns Filing entries and the number of <entry> elements (including skipped ones)
+	 */
+	private parseAtomFeed(
+		xmlText: string,
+		formType: string,
+	): { filings: SECFilingEntry[]; entryCount: number } {
+		const feed = parseXml(xmlText);
+		const feedEntries = childElements(feed, "entry");
+		const entries = new Map<string, SECFilingEntry>();
+
+		for (const entry of feedEntries) {
+			const title = elementValue(findElement(entry, "title")) || "";
+			const updated = elementValue(findElement(entry, "updated")) || "";
+			const link = findElement(entry, "link")?.attributes.href || "";
+
+			// Title format: "4 - {CompanyName} ({CIK}) ({Role})" or "4/A - ..."; the role is optional
+			const titleMatch = title.match(
+				/^([\w-]+(?:\/A)?)\s*-\s*(.+?)\s*\((\d+)\)(?:\s*\(([^)]+)\))?$/,
+			);
+			if (!titleMatch || titleMatch[1].replace(/\/A$/, "") !== formType) continue;
+
+			const [, entryFormType, companyName, cik, role] = titleMatch;
+
+			// Extract accession number from the entry ID
+			const id = elementValue(findElement(entry, "id")) || "";
+			const accessionMatch = id.match(/accession-number=([0-9-]+)/);
+			if (!accessionMatch) continue;
+
+			// A filing is listed once per filer (issuer, each reporting owner); the first entry is kept
+			const filing = entries.get(accessionMatch[1]) ?? {
+				accessionNumber: accessionMatch[1],
+				filingDate: updated,
+				cik,
+				companyName: companyName.trim(),
+				formType: entryFormType,
+				filingUrl: link,
+			};
+			// Form 144 lists its issuer as the subject company
+			if (role === "Issuer" || role === "Subject") filing.issuerCik = cik.replace(/^0+/, "");
+			entries.set(filing.accessionNumber, filing);
+		}
+
+		return { filings: [...entries.values()], entryCount: feedEntries.length };
 	}
 }
 
 /**
  * Create a singleton SEC EDGAR client instance
  */
-export function createSECEdgarClient(userAgent?: string): SECEdgarClient {
-	return new SECEdgarClient(userAgent);
+export function createSECEdgarClient(options: SECEdgarClientOptions = {}): SECEdgarClient {
+	return new SECEdgarClient(options);
 }
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { listForm4Fixtures, readForm4Fixture, snapshotForm4 } from "./conformance";
+
+// Re-bless after an intentional parser change: pnpm form4-fixtures bless
+const fixtures = await Promise.all((await listForm4Fixtures()).map((name) => readForm4Fixture(name)));
+
+describe("Form4Parser conformance corpus", () => {
+	it("should have fixtures", () => {
+		expect(fixtures.length).toBeGreaterThan(0);
+	});
+
+	it.each(fixtures.map((fixture) => [fixture.name, fixture] as const))(
+		"should match the expected output of %s",
+		(_name, { xml, expected }) => {
+			expect(snapshotForm4(xml, expected.accessionNumber, expected.filingDate)).toEqual(expected);
+		},
+	);
+});
@@ -0,0 +1,70 @@
+import { readFile, readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createForm4Parser } from "./parser";
+import type { Form4Data } from "./types";
+
+/**
+ * Golden-file corpus for the Form 4 parser
+ * Each fixture is a filing document (<name>.xml) and the Form4Data expected from it
+ * (<name>.json). The expected JSON also records the accession number and filing date the
+ * document is parsed with.
+ */
+
+// Corpus of Form 4 shapes: multiple owners, amendments, derivative-only, footnote-heavy...
+export const FORM_4_FIXTURES_DIR = fileURLToPath(new URL("./__fixtures__/form4", import.meta.url));
+
+export interface Form4Fixture {
+	name: string;
+	xml: string;
+	expected: Form4Data;
+}
+
+/**
+ * Names of the fixtures in a corpus, sorted
+ */
+export async function listForm4Fixtures(dir = FORM_4_FIXTURES_DIR): Promise<string[]> {
+	const files = await readdir(dir);
+	return files
+		.filter((file) => file.endsWith(".xml"))
+		.map((file) => file.slice(0, -".xml".length))
+		.sort();
+}
+
+/**
+ * Read a fixture's document and expected output
+ */
+export async function readForm4Fixture(name: string, dir = FORM_4_FIXTURES_DIR): Promise<Form4Fixture> {
+	const xml = await readFile(path.join(dir, `${name}.xml`), "utf8");
+	const expected = JSON.parse(await readFile(path.join(dir, `${name}.json`), "utf8")) as Form4Data;
+	return { name, xml, expected };
+}
+
+/**
+ * Parse a fixture document the way the pipeline does, as a JSON snapshot
+ * Optional fields the parser leaves undefined are dropped, as they are in the stored JSON
+ */
+export function snapshotForm4(xml: string, accessionNumber: string, filingDate: string): Form4Data {
+	const data = createForm4Parser().parse(xml, accessionNumber, filingDate);
+	return JSON.parse(JSON.stringify(data)) as Form4Data;
+}
+
+/**
+ * Write a fixture's document (when given) and its expected output
+ * Used to add fixtures and to re-bless snapshots after an intentional parser change
+ */
+export async function writeForm4Fixture(
+	name: string,
+	expected: Form4Data,
+	xml?: string,
+	dir = FORM_4_FIXTURES_DIR,
+): Promise<void> {
+	if (!/^[a-z0-9-]+$/.test(name)) {
+		throw new Error(`Fixture names are lowercase words joined by dashes: ${name}`);
+	}
+
+	if (xml !== undefined) {
+		await writeFile(path.join(dir, `${name}.xml`), xml, "utf8");
+	}
+	await writeFile(path.join(dir, `${name}.json`), `${JSON.stringify(expected, null, "\t")}\n`, "utf8");
+}
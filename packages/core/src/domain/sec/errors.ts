@@ -0,0 +1,41 @@
+/**
+ * One problem found while parsing a filing
+ */
+export interface FilingParseIssue {
+	field: string; // Field of the parsed data, e.g. "issuer.cik" or "reportingOwners.1.name"
+	path: string; // XML location the field is read from, e.g. "/ownershipDocument/issuer/issuerCik"
+	message: string;
+}
+
+/**
+ * Thrown when a filing document is malformed or is missing required data
+ * Carries every issue found so a filing is never stored with blank fields
+ */
+export class FilingParseError extends Error {
+	readonly accessionNumber: string;
+	readonly formType: string;
+	readonly issues: FilingParseIssue[];
+
+	constructor(accessionNumber: string, formType: string, issues: FilingParseIssue[]) {
+		const summary = issues.map((issue) => `${issue.field} at ${issue.path}: ${issue.message}`);
+		super(`Invalid Form ${formType} ${accessionNumber}: ${summary.join("; ")}`);
+		this.name = "FilingParseError";
+		this.accessionNumber = accessionNumber;
+		this.formType = formType;
+		this.issues = issues;
+	}
+}
+
+/**
+ * Thrown while SEC EDGAR is throttling us and the circuit breaker has paused requests
+ * Filings that hit it should be retried after pausedUntil rather than recorded as failed
+ */
+export class EdgarThrottledError extends Error {
+	readonly pausedUntil: Date;
+
+	constructor(pausedUntil: Date) {
+		super(`SEC EDGAR is throttling requests; paused until ${pausedUntil.toISOString()}`);
+		this.name = "EdgarThrottledError";
+		this.pausedUntil = pausedUntil;
+	}
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { labelExerciseAndSell } from "./exercises";
+import type { TransactionInfo } from "./types";
+
+function tx(transactionCode: string, transactionDate: string): TransactionInfo {
+	return {
+		transactionDate,
+		transactionCode,
+		shares: 1000,
+		pricePerShare: 50,
+		transactionValue: 50000,
+		priceUnknown: false,
+		isPriceEstimated: false,
+		postTransactionShares: 10000,
+		isDirectOwnership: true,
+		ownershipVehicle: "direct",
+		is10b51: false,
+		footnotes: [],
+		isDerivative: false,
+		isExerciseAndSell: false,
+	};
+}
+
+describe("labelExerciseAndSell", () => {
+	it("should label sales on the same day as an exercise", () => {
+		const labelled = labelExerciseAndSell([
+			tx("M", "2024-05-01"),
+			tx("S", "2024-05-01"),
+			tx("S", "2024-05-02"),
+		]);
+
+		expect(labelled.map((row) => row.isExerciseAndSell)).toEqual([false, true, false]);
+	});
+
+	it("should treat X exercises like M exercises", () => {
+		const labelled = labelExerciseAndSell([tx("S", "2024-05-01"), tx("X", "2024-05-01")]);
+
+		expect(labelled[0].isExerciseAndSell).toBe(true);
+	});
+
+	it("should leave purchases and sales without an exercise unlabelled", () => {
+		const labelled = labelExerciseAndSell([tx("P", "2024-05-01"), tx("S", "2024-05-01")]);
+
+		expect(labelled.every((row) => !row.isExerciseAndSell)).toBe(true);
+	});
+});
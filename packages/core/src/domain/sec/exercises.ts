@@ -0,0 +1,23 @@
+import { TRANSACTION_CODE_SELL, type TransactionInfo, isExerciseCode } from "./types";
+
+/**
+ * Label sales made on the same day as an option exercise in the same filing
+ * Insiders commonly exercise options (M/X) and immediately sell the acquired shares to cover
+ * the exercise price and taxes; such sales are compensation-driven rather than a discretionary
+ * decision to reduce the position
+ * @param transactions Transactions of one Form 4, including exercise rows
+ * @returns The transactions with isExerciseAndSell set on matching sales
+ */
+export function labelExerciseAndSell(transactions: TransactionInfo[]): TransactionInfo[] {
+	const exerciseDates = new Set(
+		transactions
+			.filter((tx) => isExerciseCode(tx.transactionCode))
+			.map((tx) => tx.transactionDate),
+	);
+
+	return transactions.map((tx) => ({
+		...tx,
+		isExerciseAndSell:
+			tx.transactionCode === TRANSACTION_CODE_SELL && exerciseDates.has(tx.transactionDate),
+	}));
+}
@@ -0,0 +1,130 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import createFetchMock from "vitest-fetch-mock";
+import { type SECEdgarClient, createSECEdgarClient } from "./client";
+import { FORM_4_FIXTURES_DIR } from "./conformance";
+import { EdgarThrottledError } from "./errors";
+import { type FakeEdgarServer, createFakeEdgarServer, loadFakeEdgarFilings } from "./fakeEdgar";
+import { createForm4Parser } from "./parser";
+
+describe("FakeEdgarServer", () => {
+	let server: FakeEdgarServer;
+	let client: SECEdgarClient;
+
+	beforeAll(async () => {
+		// These tests talk HTTP to the fake server, not to the fetch mock
+		createFetchMock(vi).disableMocks();
+
+		server = createFakeEdgarServer({ filings: await loadFakeEdgarFilings(FORM_4_FIXTURES_DIR) });
+		await server.start();
+	});
+
+	afterAll(async () => {
+		await server.stop();
+	});
+
+	afterEach(() => {
+		server.reset();
+	});
+
+	function createClient(): SECEdgarClient {
+		return createSECEdgarClient({
+			baseUrl: server.url,
+			dataUrl: server.url,
+			maxRetries: 2,
+			baseDelayMs: 1,
+			maxDelayMs: 5,
+			circuitCooldownMs: 60_000,
+		});
+	}
+
+	it("should serve the current feed newest first, one page at a time", async () => {
+		client = createClient();
+
+		const firstPage = await client.fetchRecentFilings("4", 2);
+		const { filings } = await client.fetchFilingsSince("4", null, { pageSize: 100 });
+
+		expect(firstPage).toHaveLength(2);
+		expect(filings).toHaveLength(6);
+		expect(filings.map((filing) => filing.filingDate)).toEqual(
+			[...filings.map((filing) => filing.filingDate)].sort((a, b) => Date.parse(b) - Date.parse(a)),
+		);
+		expect(filings.map((filing) => filing.formType)).toContain("4/A");
+		expect(filings.every((filing) => filing.issuerCik === filing.cik.replace(/^0+/, ""))).toBe(true);
+	});
+
+	it("should list a filing once per filer, and the client once with its issuer", async () => {
+		const [filing] = await loadFakeEdgarFilings(FORM_4_FIXTURES_DIR);
+		const listed = createFakeEdgarServer({ filings: [{ ...filing, feedCik: "1000001" }] });
+		await listed.start();
+
+		try {
+			const feed = await createSECEdgarClient({ baseUrl: listed.url }).fetchFilingsSince("4", null);
+
+			expect(feed.filings).toHaveLength(1);
+			expect(feed.filings[0]).toMatchObject({
+				accessionNumber: filing.accessionNumber,
+				cik: "0001000001",
+				issuerCik: filing.cik.replace(/^0+/, ""),
+			});
+		} finally {
+			await listed.stop();
+		}
+	});
+
+	it("should serve filing documents through the folder index", async () => {
+		client = createClient();
+		const [filing] = await client.fetchRecentFilings("4", 1);
+
+		const { xml, document } = await client.fetchOwnershipDocument(filing.accessionNumber, filing.cik);
+		const form4 = createForm4Parser().parse(xml, filing.accessionNumber, filing.filingDate);
+
+		expect(document.strategy).toBe("index-json");
+		expect(form4.accessionNumber).toBe(filing.accessionNumber);
+	});
+
+	it("should serve form indexes and issuer submissions", async () => {
+		client = createClient();
+		const [filing] = await client.fetchRecentFilings("4", 1);
+		const date = filing.filingDate.slice(0, 10);
+
+		const daily = await client.fetchFormIndex("daily-index", date);
+		const submissions = await client.fetchIssuerSubmissions(filing.cik);
+
+		expect(daily?.map((entry) => entry.accessionNumber)).toContain(filing.accessionNumber);
+		expect(daily?.every((entry) => entry.filingDate === date)).toBe(true);
+		expect(await client.fetchFormIndex("daily-index", "2001-01-01")).toBeNull();
+		expect(submissions.filings.map((entry) => entry.accessionNumber)).toContain(
+			filing.accessionNumber,
+		);
+	});
+
+	it("should throttle matching requests a set number of times", async () => {
+		client = createClient();
+		server.addFault({ path: "action=getcurrent", status: 429, retryAfter: "0", times: 2 });
+
+		const filings = await client.fetchRecentFilings("4");
+
+		expect(filings).toHaveLength(6);
+		expect(client.getRequestStats()).toMatchObject({ throttledResponses: 2, retries: 2 });
+	});
+
+	it("should open the circuit when throttling persists", async () => {
+		client = createClient();
+		server.addFault({ path: "action=getcurrent", status: 503 });
+
+		await expect(client.fetchRecentFilings("4")).rejects.toBeInstanceOf(EdgarThrottledError);
+		expect(server.requests).toHaveLength(3);
+	});
+
+	it("should delay and replace response bodies", async () => {
+		client = createClient();
+		const [filing] = await client.fetchRecentFilings("4", 1);
+		server.addFault({ path: /\.xml$/, delayMs: 50, body: "<ownershipDocument><issuer>" });
+
+		const startedAt = Date.now();
+		const { xml } = await client.fetchOwnershipDocument(filing.accessionNumber, filing.cik);
+
+		expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+		expect(xml).toBe("<ownershipDocument><issuer>");
+	});
+});
@@ -0,0 +1,393 @@
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { readFile, readdir } from "node:fs/promises";
+import path from "node:path";
+import { getFilingFolderPath } from "./filingIndex";
+
+/**
+ * Local stand-in for SEC EDGAR
+ * Serves the getcurrent Atom feed, filing folder indexes, daily/full form indexes, issuer
+ * submissions JSON and the filing documents themselves from a set of fixture filings, so the
+ * processor and backfill can run without sec.gov (CI, offline development). Faults inject
+ * throttling, slow responses and malformed documents.
+ *
+ * Point a client at it with `createSECEdgarClient({ baseUrl: server.url, dataUrl: server.url })`,
+ * or set SEC_EDGAR_BASE_URL and SEC_EDGAR_DATA_URL for the CLIs.
+ */
+
+// Filing served by the fake server
+export interface FakeEdgarFiling {
+	accessionNumber: string;
+	filingDate: string; // Feed timestamp (e.g. "2024-05-16T16:30:12-04:00") or ISO date
+	formType: string; // e.g. "4", "4/A", "3"
+	cik: string; // Issuer CIK
+	feedCik?: string; // Reporting owner the feed lists the filing under before its issuer entry (default: none)
+	companyName: string; // Issuer name
+	fileName: string; // Primary document name in the filing folder
+	xml: string; // Primary document contents
+}
+
+// Deviation from the normal response for matching requests
+export interface FakeEdgarFault {
+	path: string | RegExp; // Substring of, or pattern for, the request path and query string
+	status?: number; // Respond with this status instead (e.g. 429, 503)
+	retryAfter?: string; // Retry-After header sent with the status
+	delayMs?: number; // Wait before responding
+	body?: string; // Replace the response body (e.g. a truncated document)
+	times?: number; // Apply to this many matching requests (default: all of them)
+}
+
+export interface FakeEdgarServerOptions {
+	filings?: FakeEdgarFiling[];
+	faults?: FakeEdgarFault[];
+}
+
+interface FakeResponse {
+	status: number;
+	contentType: string;
+	body: string;
+}
+
+const NOT_FOUND: FakeResponse = { status: 404, contentType: "text/plain", body: "Not Found" };
+
+export class FakeEdgarServer {
+	private filings: FakeEdgarFiling[];
+	private faults: FakeEdgarFault[];
+	private server: Server | null = null;
+	// Path and query string of every request received, in order
+	readonly requests: string[] = [];
+
+	constructor(options: FakeEdgarServerOptions = {}) {
+		this.filings = [...(options.filings ?? [])];
+		this.faults = [...(options.faults ?? [])];
+	}
+
+	/**
+	 * Base URL of the running server (e.g. "http://127.0.0.1:54321")
+	 * @throws Error if the server hasn't been started
+	 */
+	get url(): string {
+		const address = this.server?.address() as AddressInfo | null | undefined;
+		if (!address) {
+			throw new Error("Fake EDGAR server is not running");
+		}
+
+		return `http://127.0.0.1:${address.port}`;
+	}
+
+	/**
+	 * Start listening on localhost
+	 * @param port Port to listen on (default: any free port)
+	 * @returns Base URL of the server
+	 */
+	async start(port = 0): Promise<string> {
+		const server = createServer((req, res) => {
+			this.handle(req, res).catch((error) => {
+				console.error("[FakeEdgarServer] Error handling request:", error);
+				res.writeHead(500).end();
+			});
+		});
+
+		await new Promise<void>((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(port, "127.0.0.1", () => resolve());
+		});
+		this.server = server;
+
+		return this.url;
+	}
+
+	/**
+	 * Stop listening and close open connections
+	 */
+	async stop(): Promise<void> {
+		const server = this.server;
+		if (!server) return;
+
+		this.server = null;
+		server.closeAllConnections();
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+	}
+
+	/**
+	 * Serve another filing
+	 */
+	addFiling(filing: FakeEdgarFiling): void {
+		this.filings.push(filing);
+	}
+
+	/**
+	 * Inject a fault into matching responses
+	 */
+	addFault(fault: FakeEdgarFault): void {
+		this.faults.push({ ...fault });
+	}
+
+	/**
+	 * Remove every fault and forget the request log
+	 */
+	reset(): void {
+		this.faults = [];
+		this.requests.length = 0;
+	}
+
+	private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+		const target = req.url ?? "/";
+		this.requests.push(target);
+
+		const fault = this.takeFault(target);
+		if (fault?.delayMs) {
+			await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+		}
+
+		const response: FakeResponse =
+			fault?.status !== undefined
+				? { status: fault.status, contentType: "text/plain", body: `Fake EDGAR fault ${fault.status}` }
+				: this.route(new URL(target, "http://localhost"));
+
+		const headers: Record<string, string> = { "Content-Type": response.contentType };
+		if (fault?.retryAfter !== undefined) headers["Retry-After"] = fault.retryAfter;
+
+		res.writeHead(response.status, headers);
+		res.end(fault?.body ?? response.body);
+	}
+
+	/**
+	 * First fault matching the request, counting it against its `times`
+	 */
+	private takeFault(target: string): FakeEdgarFault | undefined {
+		const fault = this.faults.find((candidate) =>
+			typeof candidate.path === "string"
+				? target.includes(candidate.path)
+				: candidate.path.test(target),
+		);
+		if (!fault) return undefined;
+
+		if (fault.times !== undefined) {
+			fault.times--;
+			if (fault.times <= 0) this.faults.splice(this.faults.indexOf(fault), 1);
+		}
+
+		return fault;
+	}
+
+	private route(url: URL): FakeResponse {
+		if (url.pathname === "/cgi-bin/browse-edgar" && url.searchParams.get("action") === "getcurrent") {
+			return this.renderFeed(url.searchParams);
+		}
+
+		const submissions = url.pathname.match(/^\/submissions\/CIK(\d{10})\.json$/);
+		if (submissions) {
+			return this.renderSubmissions(submissions[1]);
+		}
+
+		const dailyIndex = url.pathname.match(
+			/^\/Archives\/edgar\/daily-index\/\d{4}\/QTR\d\/form\.(\d{4})(\d{2})(\d{2})\.idx$/,
+		);
+		if (dailyIndex) {
+			const date = `${dailyIndex[1]}-${dailyIndex[2]}-${dailyIndex[3]}`;
+			return this.renderFormIndex((filing) => toDate(filing.filingDate) === date);
+		}
+
+		const fullIndex = url.pathname.match(/^\/Archives\/edgar\/full-index\/(\d{4})\/QTR(\d)\/form\.idx$/);
+		if (fullIndex) {
+			const [, year, quarter] = fullIndex;
+			return this.renderFormIndex(
+				(filing) =>
+					toDate(filing.filingDate).startsWith(year) &&
+					Math.ceil(Number(toDate(filing.filingDate).slice(5, 7)) / 3) === Number(quarter),
+			);
+		}
+
+		const archive = url.pathname.match(/^\/Archives\/edgar\/data\/(\d+)\/(\d{18})\/(.+)$/);
+		if (archive) {
+			return this.renderArchiveFile(archive[1], archive[2], archive[3]);
+		}
+
+		return NOT_FOUND;
+	}
+
+	/**
+	 * getcurrent Atom feed: filings of the requested form type and its amendments, newest first
+	 * Like EDGAR, a filing is listed once per filer, so count and start are in entries
+	 */
+	private renderFeed(params: URLSearchParams): FakeResponse {
+		const formType = params.get("type") ?? "";
+		const start = Number(params.get("start") ?? 0);
+		const count = Number(params.get("count") ?? 40);
+
+		const entries = this.filings
+			.filter((filing) => filing.formType.replace(/\/A$/, "") === formType)
+			.sort(
+				(a, b) =>
+					Date.parse(b.filingDate) - Date.parse(a.filingDate) ||
+					b.accessionNumber.localeCompare(a.accessionNumber),
+			)
+			.flatMap((filing) => [
+				...(filing.feedCik ? [{ filing, cik: filing.feedCik, role: "Reporting" }] : []),
+				{ filing, cik: filing.cik, role: "Issuer" },
+			])
+			.slice(start, start + count)
+			.map(
+				({ filing, cik, role }) => `<entry>
+<title>${escapeXml(`${filing.formType} - ${filing.companyName} (${cik.padStart(10, "0")}) (${role})`)}</title>
+<link rel="alternate" type="text/html" href="${this.folderUrl(filing)}/${filing.accessionNumber}-index.htm"/>
+<updated>${filing.filingDate}</updated>
+<category scheme="https://www.sec.gov/" label="form type" term="${escapeXml(filing.formType)}"/>
+<id>urn:tag:sec.gov,2008:accession-number=${filing.accessionNumber}</id>
+</entry>`,
+			);
+
+		return {
+			status: 200,
+			contentType: "application/atom+xml",
+			body: `<?xml version="1.0" encoding="ISO-8859-1" ?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+<title>Latest Filings</title>
+<updated>${new Date().toISOString()}</updated>
+${entries.join("\n")}
+</feed>`,
+		};
+	}
+
+	/**
+	 * form.idx listing the matching filings; EDGAR publishes no index for days without filings
+	 */
+	private renderFormIndex(matches: (filing: FakeEdgarFiling) => boolean): FakeResponse {
+		const rows = this.filings.filter(matches);
+		if (rows.length === 0) return NOT_FOUND;
+
+		const lines = rows.map(
+			(filing) =>
+				`${filing.formType.padEnd(12)}${filing.companyName.padEnd(62)}${filing.cik.replace(/^0+/, "").padEnd(12)}${toDate(filing.filingDate).padEnd(12)}edgar/data/${Number(filing.cik)}/${filing.accessionNumber}.txt`,
+		);
+
+		return {
+			status: 200,
+			contentType: "text/plain",
+			body: [
+				"Description:           Master Index of EDGAR Dissemination Feed by Form Type",
+				"",
+				`${"Form Type".padEnd(12)}${"Company Name".padEnd(62)}${"CIK".padEnd(12)}${"Date Filed".padEnd(12)}File Name`,
+				"-".repeat(120),
+				...lines,
+				"",
+			].join("\n"),
+		};
+	}
+
+	/**
+	 * Submissions JSON of an issuer; every filing is listed inline under filings.recent
+	 */
+	private renderSubmissions(paddedCik: string): FakeResponse {
+		const cik = paddedCik.replace(/^0+/, "");
+		const filings = this.filings
+			.filter((filing) => filing.cik.replace(/^0+/, "") === cik)
+			.sort((a, b) => Date.parse(b.filingDate) - Date.parse(a.filingDate));
+		if (filings.length === 0) return NOT_FOUND;
+
+		return {
+			status: 200,
+			contentType: "application/json",
+			body: JSON.stringify({
+				cik,
+				name: filings[0].companyName,
+				tickers: [],
+				filings: {
+					recent: {
+						accessionNumber: filings.map((filing) => filing.accessionNumber),
+						filingDate: filings.map((filing) => toDate(filing.filingDate)),
+						form: filings.map((filing) => filing.formType),
+						primaryDocument: filings.map((filing) => filing.fileName),
+					},
+					files: [],
+				},
+			}),
+		};
+	}
+
+	/**
+	 * index.json or a document from a filing folder
+	 * Filings are found by accession number; the CIK in the path isn't checked, as EDGAR files
+	 * each filing under the issuer and every reporting owner
+	 */
+	private renderArchiveFile(cik: string, folder: string, fileName: string): FakeResponse {
+		const filing = this.filings.find(
+			(candidate) => candidate.accessionNumber.replace(/-/g, "") === folder,
+		);
+		if (!filing) return NOT_FOUND;
+
+		if (fileName === "index.json") {
+			return {
+				status: 200,
+				contentType: "application/json",
+				body: JSON.stringify({
+					directory: {
+						name: `/Archives/edgar/data/${cik}/${folder}`,
+						item: [
+							{ name: "xslF345X05", type: "folder.gif" },
+							{ name: `${filing.accessionNumber}-index.htm`, type: "text.gif" },
+							{ name: filing.fileName, type: "text.gif" },
+						],
+					},
+				}),
+			};
+		}
+
+		if (fileName === filing.fileName) {
+			return { status: 200, contentType: "application/xml", body: filing.xml };
+		}
+
+		return NOT_FOUND;
+	}
+
+	private folderUrl(filing: FakeEdgarFiling): string {
+		return `${this.url}${getFilingFolderPath(filing.accessionNumber, filing.cik)}`;
+	}
+}
+
+/**
+ * Load fixture filings from a directory
+ * Each filing is a document (<name>.xml) with a JSON sidecar (<name>.json) holding its
+ * accessionNumber, filingDate, documentType and issuer { cik, companyName }. The Form 4
+ * conformance corpus uses this layout, so it can be served as is.
+ */
+export async function loadFakeEdgarFilings(dir: string): Promise<FakeEdgarFiling[]> {
+	const files = await readdir(dir);
+	const filings: FakeEdgarFiling[] = [];
+
+	for (const file of files.filter((name) => name.endsWith(".xml")).sort()) {
+		const name = file.slice(0, -".xml".length);
+		const sidecar = JSON.parse(await readFile(path.join(dir, `${name}.json`), "utf8"));
+
+		filings.push({
+			accessionNumber: sidecar.accessionNumber,
+			filingDate: sidecar.filingDate,
+			formType: sidecar.documentType,
+			cik: sidecar.issuer.cik,
+			companyName: sidecar.issuer.companyName,
+			fileName: file,
+			xml: await readFile(path.join(dir, file), "utf8"),
+		});
+	}
+
+	return filings;
+}
+
+/**
+ * Create a fake EDGAR server (call start() to listen)
+ */
+export function createFakeEdgarServer(options: FakeEdgarServerOptions = {}): FakeEdgarServer {
+	return new FakeEdgarServer(options);
+}
+
+/**
+ * ISO date part of a feed timestamp
+ */
+function toDate(filingDate: string): string {
+	return filingDate.slice(0, 10);
+}
+
+function escapeXml(value: string): string {
+	return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { takeFilingsSince } from "./feed";
+import type { SECFilingEntry } from "./types";
+
+function entry(accessionNumber: string, filingDate: string): SECFilingEntry {
+	return {
+		accessionNumber,
+		filingDate,
+		cik: "320193",
+		companyName: "Apple Inc.",
+		formType: "4",
+		filingUrl: "",
+	};
+}
+
+const cursor = {
+	accessionNumber: "0001209191-24-000100",
+	filedAt: new Date("2024-06-03T14:00:00-04:00"),
+};
+
+describe("takeFilingsSince", () => {
+	it("should stop at the cursor's filing", () => {
+		const result = takeFilingsSince(
+			[
+				entry("0001209191-24-000102", "2024-06-03T16:00:00-04:00"),
+				entry("0001209191-24-000101", "2024-06-03T15:00:00-04:00"),
+				entry("0001209191-24-000100", "2024-06-03T14:00:00-04:00"),
+				entry("0001209191-24-000099", "2024-06-03T13:00:00-04:00"),
+			],
+			cursor,
+			new Set(),
+		);
+
+		expect(result.reachedCursor).toBe(true);
+		expect(result.filings.map((filing) => filing.accessionNumber)).toEqual([
+			"0001209191-24-000102",
+			"0001209191-24-000101",
+		]);
+	});
+
+	it("should stop at an older filing when the cursor's filing is missing", () => {
+		const result = takeFilingsSince(
+			[
+				entry("0001209191-24-000101", "2024-06-03T15:00:00-04:00"),
+				entry("0001209191-24-000098", "2024-06-03T12:00:00-04:00"),
+			],
+			cursor,
+			new Set(),
+		);
+
+		expect(result.reachedCursor).toBe(true);
+		expect(result.filings).toHaveLength(1);
+	});
+
+	it("should skip filings taken from an earlier page", () => {
+		const seen = new Set(["0001209191-24-000105"]);
+		const result = takeFilingsSince(
+			[
+				entry("0001209191-24-000105", "2024-06-03T17:00:00-04:00"),
+				entry("0001209191-24-000104", "2024-06-03T16:30:00-04:00"),
+			],
+			cursor,
+			seen,
+		);
+
+		expect(result.reachedCursor).toBe(false);
+		expect(result.filings.map((filing) => filing.accessionNumber)).toEqual([
+			"0001209191-24-000104",
+		]);
+		expect(seen.has("0001209191-24-000104")).toBe(true);
+	});
+
+	it("should take the whole page without a cursor", () => {
+		const result = takeFilingsSince(
+			[entry("0001209191-24-000101", "2024-06-03T15:00:00-04:00")],
+			null,
+			new Set(),
+		);
+
+		expect(result).toEqual({ filings: [expect.any(Object)], reachedCursor: false });
+	});
+});
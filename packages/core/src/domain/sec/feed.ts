@@ -0,0 +1,34 @@
+import type { FeedCursor, SECFilingEntry } from "./types";
+
+/**
+ * Take the filings of one feed page (newest first) that are newer than a cursor
+ * Stops at the cursor's filing or at the first filing older than it. Filings that arrive while
+ * paging push entries onto the next page, so accessions already taken are skipped.
+ * @param page Filings of one feed page, newest first
+ * @param cursor Newest filing seen by the previous run
+ * @param seen Accession numbers taken from earlier pages; updated in place
+ * @returns The new filings, and whether the cursor was reached on this page
+ */
+export function takeFilingsSince(
+	page: SECFilingEntry[],
+	cursor: FeedCursor | null,
+	seen: Set<string>,
+): { filings: SECFilingEntry[]; reachedCursor: boolean } {
+	const filings: SECFilingEntry[] = [];
+
+	for (const filing of page) {
+		if (
+			cursor &&
+			(filing.accessionNumber === cursor.accessionNumber ||
+				new Date(filing.filingDate) < cursor.filedAt)
+		) {
+			return { filings, reachedCursor: true };
+		}
+
+		if (seen.has(filing.accessionNumber)) continue;
+		seen.add(filing.accessionNumber);
+		filings.push(filing);
+	}
+
+	return { filings, reachedCursor: false };
+}
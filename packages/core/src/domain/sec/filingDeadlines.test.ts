@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { getFilingDelay } from "./filingDeadlines";
+
+describe("getFilingDelay", () => {
+	it("should accept a filing on the second business day", () => {
+		// Thursday trade, Good Friday closure, filed Tuesday
+		expect(getFilingDelay("2024-03-28", "2024-04-02")).toEqual({
+			filingDelayDays: 2,
+			isLateFiling: false,
+		});
+	});
+
+	it("should flag a filing after the second business day", () => {
+		expect(getFilingDelay("2024-03-01", "2024-03-06T17:30:00-05:00")).toEqual({
+			filingDelayDays: 3,
+			isLateFiling: true,
+		});
+	});
+});
@@ -0,0 +1,22 @@
+import { countBusinessDaysBetween } from "../calendar";
+
+// Section 16(a): Form 4 is due before the end of the second business day after the trade
+export const FORM_4_DEADLINE_BUSINESS_DAYS = 2;
+
+export interface FilingDelay {
+	filingDelayDays: number; // NYSE business days from the trade to the filing
+	isLateFiling: boolean; // Filed after the Form 4 deadline
+}
+
+/**
+ * Reporting delay of a Form 4 transaction
+ * @param transactionDate ISO date of the trade
+ * @param filingDate ISO date (or timestamp) the form was filed
+ */
+export function getFilingDelay(transactionDate: string, filingDate: string): FilingDelay {
+	const filingDelayDays = countBusinessDaysBetween(transactionDate, filingDate.slice(0, 10));
+	return {
+		filingDelayDays,
+		isLateFiling: filingDelayDays > FORM_4_DEADLINE_BUSINESS_DAYS,
+	};
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+	findPrimaryXmlInIndexHtml,
+	findPrimaryXmlInIndexJson,
+	getFilingFolderPath,
+} from "./filingIndex";
+
+describe("getFilingFolderPath", () => {
+	it("should strip CIK padding and accession dashes", () => {
+		expect(getFilingFolderPath("0001209191-24-000123", "0000320193")).toBe(
+			"/Archives/edgar/data/320193/000120919124000123",
+		);
+	});
+});
+
+describe("findPrimaryXmlInIndexJson", () => {
+	it("should find the XML document among the folder items", () => {
+		const json = JSON.stringify({
+			directory: {
+				name: "/Archives/edgar/data/320193/000120919124000123",
+				item: [
+					{ name: "0001209191-24-000123-index-headers.html", type: "text.gif" },
+					{ name: "0001209191-24-000123-index.html", type: "text.gif" },
+					{ name: "0001209191-24-000123.txt", type: "text.gif" },
+					{ name: "wf-form4_170512345678901.xml", type: "text.gif" },
+					{ name: "xslF345X05", type: "folder.gif" },
+				],
+			},
+		});
+
+		expect(findPrimaryXmlInIndexJson(json)).toBe("wf-form4_170512345678901.xml");
+	});
+
+	it("should return undefined without an XML document or for invalid JSON", () => {
+		const json = JSON.stringify({
+			directory: { item: [{ name: "0001209191-24-000123.txt", type: "text.gif" }] },
+		});
+
+		expect(findPrimaryXmlInIndexJson(json)).toBeUndefined();
+		expect(findPrimaryXmlInIndexJson("<html>Not Found</html>")).toBeUndefined();
+	});
+});
+
+describe("findPrimaryXmlInIndexHtml", () => {
+	it("should prefer the raw XML over the rendered xsl copy", () => {
+		const html = `
+			<table class="tableFile" summary="Document Format Files">
+				<tr><th>Seq</th><th>Description</th><th>Document</th><th>Type</th></tr>
+				<tr>
+					<td>1</td><td>FORM 4</td>
+					<td><a href="/Archives/edgar/data/320193/000120919124000123/xslF345X05/doc4.xml">doc4.html</a></td>
+					<td>4</td>
+				</tr>
+				<tr>
+					<td>1</td><td>FORM 4</td>
+					<td><a href="/Archives/edgar/data/320193/000120919124000123/doc4.xml">doc4.xml</a></td>
+					<td>4</td>
+				</tr>
+				<tr>
+					<td>&nbsp;</td><td>Complete submission text file</td>
+					<td><a href="/Archives/edgar/data/320193/000120919124000123/0001209191-24-000123.txt">0001209191-24-000123.txt</a></td>
+					<td>&nbsp;</td>
+				</tr>
+			</table>
+		`;
+
+		expect(findPrimaryXmlInIndexHtml(html)).toBe("doc4.xml");
+	});
+
+	it("should return undefined when no XML document is linked", () => {
+		expect(findPrimaryXmlInIndexHtml('<a href="/index.htm">Home</a>')).toBeUndefined();
+	});
+});
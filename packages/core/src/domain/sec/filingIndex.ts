@@ -0,0 +1,70 @@
+/**
+ * Locate the primary XML document of a filing from its EDGAR filing index
+ *
+ * Filer agents name the primary document freely (e.g. "wf-form4_170512345678901.xml",
+ * "doc4.xml", "primary_doc.xml"), so the file name can't be derived from the accession number.
+ * Every filing folder has a machine-readable index.json and a human-readable -index.htm.
+ */
+
+/**
+ * Build the archive folder path of a filing
+ * @param accessionNumber SEC accession number (e.g., "0001209191-24-000123")
+ * @param cik CIK of the issuer or a reporting owner (either folder holds the filing)
+ */
+export function getFilingFolderPath(accessionNumber: string, cik: string): string {
+	return `/Archives/edgar/data/${Number(cik)}/${accessionNumber.replace(/-/g, "")}`;
+}
+
+/**
+ * Find the primary XML document in a filing folder's index.json
+ * @param text Raw index.json contents ({ directory: { item: [{ name, type }] } })
+ * @returns File name of the first XML document, or undefined if none is listed
+ */
+export function findPrimaryXmlInIndexJson(text: string): string | undefined {
+	let index: { directory?: { item?: Array<{ name?: unknown; type?: unknown }> } };
+	try {
+		index = JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+
+	const items = index.directory?.item ?? [];
+	const document = items.find(
+		(item) =>
+			typeof item.name === "string" &&
+			isXmlFileName(item.name) &&
+			// Sub-folders (e.g. the xslF345X05 rendering folder) are listed with a folder icon
+			item.type !== "folder.gif",
+	);
+
+	return document?.name as string | undefined;
+}
+
+/**
+ * Find the primary XML document in a filing's -index.htm page
+ * The document table links each file; rendered copies live under an "xsl..." folder and
+ * are skipped in favour of the raw XML
+ * @param html Raw -index.htm contents
+ * @returns File name of the first raw XML document, or undefined if none is linked
+ */
+export function findPrimaryXmlInIndexHtml(html: string): string | undefined {
+	for (const match of html.matchAll(/href="([^"]+)"/gi)) {
+		const path = match[1].split(/[?#]/)[0];
+		const segments = path.split("/");
+		const fileName = segments[segments.length - 1];
+
+		if (!isXmlFileName(fileName)) continue;
+		if (segments.some((segment) => /^xsl/i.test(segment))) continue;
+
+		return fileName;
+	}
+
+	return undefined;
+}
+
+/**
+ * XML documents, excluding EDGAR's own index files
+ */
+function isXmlFileName(fileName: string): boolean {
+	return /\.xml$/i.test(fileName) && !/-index/i.test(fileName);
+}
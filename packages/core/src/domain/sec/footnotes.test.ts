@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { extract10b51AdoptionDate, extractPriceRange, mentions10b51Plan } from "./footnotes";
+
+describe("mentions10b51Plan", () => {
+	it("should detect common spellings of Rule 10b5-1", () => {
+		expect(mentions10b51Plan("Effected pursuant to a Rule 10b5-1 trading plan.")).toBe(true);
+		expect(mentions10b51Plan("Sold under a 10B5-1(c) plan adopted May 1, 2024.")).toBe(true);
+		expect(mentions10b51Plan("Pursuant to a Rule 10b-5-1 plan.")).toBe(true);
+	});
+
+	it("should not treat the antifraud Rule 10b-5 as a trading plan", () => {
+		expect(mentions10b51Plan("Disgorged under Section 16(b) and Rule 10b-5.")).toBe(false);
+		expect(mentions10b51Plan("Weighted average price; range $10.00 to $10.50.")).toBe(false);
+	});
+});
+
+describe("extract10b51AdoptionDate", () => {
+	it("should read month-name, numeric and ISO adoption dates", () => {
+		expect(
+			extract10b51AdoptionDate(
+				"Effected pursuant to a Rule 10b5-1 trading plan adopted by the Reporting Person on May 15, 2023.",
+			),
+		).toBe("2023-05-15");
+		expect(
+			extract10b51AdoptionDate("Sold under a 10b5-1 plan entered into on 3/1/2024."),
+		).toBe("2024-03-01");
+		expect(extract10b51AdoptionDate("Rule 10b5-1 plan dated 2023-11-30.")).toBe("2023-11-30");
+		expect(
+			extract10b51AdoptionDate("Pursuant to a Rule 10b5-1 plan adopted Sept. 8th, 2023."),
+		).toBe("2023-09-08");
+	});
+
+	it("should ignore dates not tied to the plan's adoption", () => {
+		expect(
+			extract10b51AdoptionDate(
+				"Pursuant to a Rule 10b5-1 trading plan. Shares vested on February 1, 2024.",
+			),
+		).toBeUndefined();
+		expect(extract10b51AdoptionDate("Award adopted on May 15, 2023.")).toBeUndefined();
+	});
+
+	it("should reject impossible dates", () => {
+		expect(extract10b51AdoptionDate("Rule 10b5-1 plan adopted on 2/30/2024.")).toBeUndefined();
+	});
+});
+
+describe("extractPriceRange", () => {
+	it("should read the range of a weighted-average price footnote", () => {
+		expect(
+			extractPriceRange(
+				"The price reported is a weighted average price. These shares were sold in multiple transactions at prices ranging from $45.10 to $45.62, inclusive.",
+			),
+		).toEqual({ low: 45.1, high: 45.62 });
+		expect(
+			extractPriceRange("Weighted average price; sold at prices between $1,010.00 and $1,025.50."),
+		).toEqual({ low: 1010, high: 1025.5 });
+		expect(extractPriceRange("Price range: $9.87 - $10.12.")).toEqual({ low: 9.87, high: 10.12 });
+	});
+
+	it("should ignore dollar amounts that are not a price range", () => {
+		expect(extractPriceRange("Includes $5,000 to $10,000 of dividend equivalents.")).toBeUndefined();
+		expect(extractPriceRange("Prices ranged from $50.25 to $50.00.")).toBeUndefined();
+	});
+});
@@ -0,0 +1,123 @@
+/**
+ * Footnote text analysis for ownership documents
+ * Filers explain plan trades, price ranges and ownership vehicles in free-text footnotes
+ */
+
+// "Rule 10b5-1", "10b5-1(c)", "10b-5-1"; not the unrelated antifraud "Rule 10b-5"
+const RULE_10B5_1_PATTERN = /10b-?5-1/i;
+
+/**
+ * Check if footnote text says the trade was made under a Rule 10b5-1 trading plan
+ */
+export function mentions10b51Plan(text: string): boolean {
+	return RULE_10B5_1_PATTERN.test(text);
+}
+
+const MONTHS = [
+	"jan",
+	"feb",
+	"mar",
+	"apr",
+	"may",
+	"jun",
+	"jul",
+	"aug",
+	"sep",
+	"oct",
+	"nov",
+	"dec",
+];
+
+// "adopted on May 15, 2023", "entered into on 3/1/2023", "plan dated 2024-02-28"
+const ADOPTION_KEYWORD_PATTERN = /\b(adopt(?:ed|ion)|entered\s+into|dated|established)\b/gi;
+const MONTH_NAME_DATE_PATTERN = /^([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/i;
+const NUMERIC_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})\b/;
+
+// How far after the keyword the date may appear ("adopted by the Reporting Person on ...")
+const ADOPTION_DATE_WINDOW = 80;
+
+/**
+ * Extract the adoption date of a Rule 10b5-1 plan from footnote text
+ * Looks for the first date after "adopted", "entered into", "dated" or "established"
+ * @returns ISO date string, or undefined if the footnote gives none
+ */
+export function extract10b51AdoptionDate(text: string): string | undefined {
+	if (!mentions10b51Plan(text)) return undefined;
+
+	for (const keyword of text.matchAll(ADOPTION_KEYWORD_PATTERN)) {
+		const start = keyword.index + keyword[0].length;
+		const window = text.slice(start, start + ADOPTION_DATE_WINDOW);
+
+		for (let offset = 0; offset < window.length; offset++) {
+			const date = parseDateAt(window.slice(offset));
+			if (date) return date;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Parse a date written at the start of a string
+ */
+function parseDateAt(text: string): string | undefined {
+	let year: number;
+	let month: number;
+	let day: number;
+
+	const monthName = MONTH_NAME_DATE_PATTERN.exec(text);
+	const numeric = NUMERIC_DATE_PATTERN.exec(text);
+	const iso = ISO_DATE_PATTERN.exec(text);
+
+	if (monthName) {
+		month = MONTHS.indexOf(monthName[1].toLowerCase()) + 1;
+		day = Number(monthName[2]);
+		year = Number(monthName[3]);
+	} else if (numeric) {
+		month = Number(numeric[1]);
+		day = Number(numeric[2]);
+		year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+	} else if (iso) {
+		year = Number(iso[1]);
+		month = Number(iso[2]);
+		day = Number(iso[3]);
+	} else {
+		return undefined;
+	}
+
+	const date = new Date(Date.UTC(year, month - 1, day));
+	if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+		return undefined;
+	}
+
+	return date.toISOString().split("T")[0];
+}
+
+export interface PriceRange {
+	low: number;
+	high: number;
+}
+
+// "prices ranging from $45.10 to $45.62", "between $10.00 and $10.50", "$9.87 - $10.12"
+const PRICE_CONTEXT_PATTERN = /price|weighted[\s-]+average/i;
+const PRICE_RANGE_PATTERN =
+	/\$\s?(\d[\d,]*(?:\.\d+)?)\s*(?:to|and|-|–|—|through)\s*\$?\s?(\d[\d,]*(?:\.\d+)?)/i;
+
+/**
+ * Extract the low and high prices of a weighted-average price footnote
+ * Multi-lot trades are reported at one weighted-average price, with the range in a footnote
+ * @returns The range, or undefined if the footnote gives none
+ */
+export function extractPriceRange(text: string): PriceRange | undefined {
+	if (!PRICE_CONTEXT_PATTERN.test(text)) return undefined;
+
+	const match = PRICE_RANGE_PATTERN.exec(text);
+	if (!match) return undefined;
+
+	const low = Number(match[1].replace(/,/g, ""));
+	const high = Number(match[2].replace(/,/g, ""));
+	if (!(low > 0) || !(high >= low)) return undefined;
+
+	return { low, high };
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { Form144Parser } from "./form144Parser";
+
+describe("Form144Parser", () => {
+	const parser = new Form144Parser();
+
+	describe("parse", () => {
+		it("should parse a Form 144 notice", () => {
+			const xml = `
+				<?xml version="1.0" encoding="UTF-8"?>
+				<edgarSubmission xmlns="http://www.sec.gov/edgar/rule144">
+					<headerData>
+						<submissionType>144</submissionType>
+					</headerData>
+					<formData>
+						<issuerInfo>
+							<issuerCik>0000320193</issuerCik>
+							<issuerName>Apple Inc.</issuerName>
+							<nameOfPersonForWhoseAccountTheSecuritiesAreToBeSold>COOK TIMOTHY D</nameOfPersonForWhoseAccountTheSecuritiesAreToBeSold>
+							<relationshipsToIssuer>
+								<relationshipToIssuer>Officer</relationshipToIssuer>
+								<relationshipToIssuer>Director</relationshipToIssuer>
+							</relationshipsToIssuer>
+						</issuerInfo>
+						<securitiesInformation>
+							<securitiesClassTitle>Common</securitiesClassTitle>
+							<brokerOrMarketmakerDetails>
+								<name>Morgan Stanley Smith Barney LLC</name>
+							</brokerOrMarketmakerDetails>
+							<noOfUnitsSold>100000</noOfUnitsSold>
+							<aggregateMarketValue>19050000</aggregateMarketValue>
+							<noOfUnitsOutstanding>15441881000</noOfUnitsOutstanding>
+							<approxSaleDate>04/02/2024</approxSaleDate>
+							<securitiesExchangeName>NASDAQ</securitiesExchangeName>
+						</securitiesInformation>
+						<noticeSignature>
+							<noticeDate>04/01/2024</noticeDate>
+						</noticeSignature>
+					</formData>
+				</edgarSubmission>
+			`;
+
+			const result = parser.parse(xml, "0001214156-24-000010", "2024-04-01");
+
+			expect(result.issuer).toEqual({ cik: "320193", companyName: "Apple Inc." });
+			expect(result.sellerName).toBe("COOK TIMOTHY D");
+			expect(result.relationships).toEqual(["Officer", "Director"]);
+			expect(result.securityClassTitle).toBe("Common");
+			expect(result.sharesToBeSold).toBe(100000);
+			expect(result.aggregateMarketValue).toBe(19050000);
+			expect(result.approxSaleDate).toBe("2024-04-02");
+			expect(result.brokerName).toBe("Morgan Stanley Smith Barney LLC");
+			expect(result.exchangeName).toBe("NASDAQ");
+			expect(result.noticeDate).toBe("2024-04-01");
+		});
+
+		it("should total multiple securities rows and keep the earliest sale date", () => {
+			const xml = `
+				<edgarSubmission>
+					<formData>
+						<issuerInfo>
+							<issuerCik>0000012345</issuerCik>
+							<issuerName>Test Company</issuerName>
+							<nameOfPersonForWhoseAccountTheSecuritiesAreToBeSold>Jane Doe</nameOfPersonForWhoseAccountTheSecuritiesAreToBeSold>
+						</issuerInfo>
+						<securitiesInformation>
+							<securitiesClassTitle>Common</securitiesClassTitle>
+							<noOfUnitsSold>1000</noOfUnitsSold>
+							<aggregateMarketValue>50000</aggregateMarketValue>
+							<approxSaleDate>05/20/2024</approxSaleDate>
+						</securitiesInformation>
+						<securitiesInformation>
+							<securitiesClassTitle>Common</securitiesClassTitle>
+							<noOfUnitsSold>500</noOfUnitsSold>
+							<aggregateMarketValue>25000</aggregateMarketValue>
+							<approxSaleDate>05/13/2024</approxSaleDate>
+						</securitiesInformation>
+					</formData>
+				</edgarSubmission>
+			`;
+
+			const result = parser.parse(xml, "0000012345-24-000001", "2024-05-10");
+
+			expect(result.sharesToBeSold).toBe(1500);
+			expect(result.aggregateMarketValue).toBe(75000);
+			expect(result.approxSaleDate).toBe("2024-05-13");
+			expect(result.relationships).toEqual([]);
+			expect(result.brokerName).toBeUndefined();
+		});
+	});
+});
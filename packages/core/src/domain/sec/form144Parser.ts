@@ -0,0 +1,92 @@
+import { OwnershipDocumentParser } from "./ownershipParser";
+import type { Form144Data } from "./types";
+import { FORM_TYPE_144, Form144DataSchema } from "./types";
+import { elementValue, findElement, findElements } from "./xml";
+
+/**
+ * Parser for Form 144 (notice of proposed sale of securities)
+ * Form 144 is an <edgarSubmission> document, not an ownership document, but it shares the
+ * element readers and validation. A notice is filed before the sale, so it leads the Form 4
+ * that reports the executed trade.
+ */
+export class Form144Parser extends OwnershipDocumentParser {
+	/**
+	 * Parse Form 144 XML (primary_doc.xml) into structured data
+	 * @param xmlText Form 144 XML string
+	 * @param accessionNumber Filing accession number
+	 * @param filingDate Filing date (ISO string)
+	 * @returns Parsed Form 144 data
+	 * @throws FilingParseError if the document is malformed or misses required fields
+	 */
+	parse(xmlText: string, accessionNumber: string, filingDate: string): Form144Data {
+		const root = this.parseDocument(xmlText, accessionNumber, FORM_TYPE_144, "edgarSubmission");
+		const issuerInfo = findElement(root, "formData/issuerInfo") ?? root;
+		const relationships = findElements(issuerInfo, "relationshipsToIssuer/relationshipToIssuer")
+			.map((element) => elementValue(element))
+			.filter((relationship): relationship is string => relationship !== undefined);
+
+		// A notice can list several securities rows; totals cover the whole proposed sale
+		const rows = findElements(root, "formData/securitiesInformation");
+		let sharesToBeSold = 0;
+		let aggregateMarketValue = 0;
+		const saleDates: string[] = [];
+
+		for (const row of rows) {
+			sharesToBeSold += this.readNumber(row, "noOfUnitsSold") ?? 0;
+			aggregateMarketValue += this.readNumber(row, "aggregateMarketValue") ?? 0;
+			const saleDate = toIsoDate(this.read(row, "approxSaleDate"));
+			if (saleDate) saleDates.push(saleDate);
+		}
+
+		const [firstRow] = rows;
+
+		return this.validate(
+			Form144DataSchema,
+			{
+				accessionNumber,
+				filingDate,
+				issuer: {
+					cik: (this.read(issuerInfo, "issuerCik", "issuer.cik") || "").replace(/^0+/, ""),
+					companyName: this.read(issuerInfo, "issuerName", "issuer.companyName") || "",
+				},
+				sellerName:
+					this.read(
+						issuerInfo,
+						"nameOfPersonForWhoseAccountTheSecuritiesAreToBeSold",
+						"sellerName",
+					) || "",
+				relationships,
+				securityClassTitle: firstRow ? this.read(firstRow, "securitiesClassTitle") || "" : "",
+				sharesToBeSold,
+				aggregateMarketValue,
+				approxSaleDate: saleDates.sort()[0],
+				brokerName: firstRow ? this.read(firstRow, "brokerOrMarketmakerDetails/name") : undefined,
+				exchangeName: firstRow ? this.read(firstRow, "securitiesExchangeName") : undefined,
+				noticeDate: toIsoDate(this.read(root, "formData/noticeSignature/noticeDate")),
+			},
+			accessionNumber,
+			FORM_TYPE_144,
+		);
+	}
+}
+
+/**
+ * Convert a Form 144 date (MM/DD/YYYY) to an ISO date string
+ */
+function toIsoDate(value: string | undefined): string | undefined {
+	if (!value) return undefined;
+	if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+
+	const match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+	if (!match) return undefined;
+
+	const [, month, day, year] = match;
+	return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+/**
+ * Create a Form 144 parser instance
+ */
+export function createForm144Parser(): Form144Parser {
+	return new Form144Parser();
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import { Form3Parser } from "./form3Parser";
+
+describe("Form3Parser", () => {
+	const parser = new Form3Parser();
+
+	describe("parse", () => {
+		it("should parse non-derivative and derivative holdings", () => {
+			const xml = `
+				<?xml version="1.0"?>
+				<ownershipDocument>
+					<documentType>3</documentType>
+					<periodOfReport>2024-03-01</periodOfReport>
+					<noSecuritiesOwned>0</noSecuritiesOwned>
+					<issuer>
+						<issuerCik>0000320193</issuerCik>
+						<issuerName>Apple Inc.</issuerName>
+						<issuerTradingSymbol>AAPL</issuerTradingSymbol>
+					</issuer>
+					<reportingOwner>
+						<reportingOwnerId>
+							<rptOwnerCik>0001234567</rptOwnerCik>
+							<rptOwnerName>Jane Doe</rptOwnerName>
+						</reportingOwnerId>
+						<reportingOwnerRelationship>
+							<isOfficer>1</isOfficer>
+							<officerTitle>Chief Financial Officer</officerTitle>
+						</reportingOwnerRelationship>
+					</reportingOwner>
+					<nonDerivativeTable>
+						<nonDerivativeHolding>
+							<securityTitle>
+								<value>Common Stock</value>
+							</securityTitle>
+							<postTransactionAmounts>
+								<sharesOwnedFollowingTransaction>
+									<value>25000</value>
+								</sharesOwnedFollowingTransaction>
+							</postTransactionAmounts>
+							<ownershipNature>
+								<directOrIndirectOwnership>
+									<value>D</value>
+								</directOrIndirectOwnership>
+							</ownershipNature>
+						</nonDerivativeHolding>
+						<nonDerivativeHolding>
+							<securityTitle>
+								<value>Common Stock</value>
+							</securityTitle>
+							<postTransactionAmounts>
+								<sharesOwnedFollowingTransaction>
+									<value>5000</value>
+								</sharesOwnedFollowingTransaction>
+							</postTransactionAmounts>
+							<ownershipNature>
+								<directOrIndirectOwnership>
+									<value>I</value>
+								</directOrIndirectOwnership>
+								<natureOfOwnership>
+									<value>By Trust</value>
+								</natureOfOwnership>
+							</ownershipNature>
+						</nonDerivativeHolding>
+					</nonDerivativeTable>
+					<derivativeTable>
+						<derivativeHolding>
+							<securityTitle>
+								<value>Stock Option (Right to Buy)</value>
+							</securityTitle>
+							<conversionOrExercisePrice>
+								<value>150.25</value>
+							</conversionOrExercisePrice>
+							<exerciseDate>
+								<footnoteId id="F1"/>
+							</exerciseDate>
+							<expirationDate>
+								<value>2034-03-01</value>
+							</expirationDate>
+							<underlyingSecurity>
+								<underlyingSecurityTitle>
+									<value>Common Stock</value>
+								</underlyingSecurityTitle>
+								<underlyingSecurityShares>
+									<value>40000</value>
+								</underlyingSecurityShares>
+							</underlyingSecurity>
+							<ownershipNature>
+								<directOrIndirectOwnership>
+									<value>D</value>
+								</directOrIndirectOwnership>
+							</ownershipNature>
+						</derivativeHolding>
+					</derivativeTable>
+				</ownershipDocument>
+			`;
+
+			const result = parser.parse(xml, "0001234567-24-000100", "2024-03-05");
+
+			expect(result.documentType).toBe("3");
+			expect(result.periodOfReport).toBe("2024-03-01");
+			expect(result.noSecuritiesOwned).toBe(false);
+			expect(result.issuer.cik).toBe("320193");
+			expect(result.reportingOwners[0].name).toBe("Jane Doe");
+			expect(result.reportingOwners[0].title).toBe("Chief Financial Officer");
+
+			expect(result.holdings).toHaveLength(3);
+			expect(result.holdings[0]).toEqual({
+				securityTitle: "Common Stock",
+				shares: 25000,
+				isDirectOwnership: true,
+				ownershipVehicle: "direct",
+				isDerivative: false,
+			});
+			expect(result.holdings[1].isDirectOwnership).toBe(false);
+			expect(result.holdings[1].natureOfOwnership).toBe("By Trust");
+			expect(result.holdings[1].ownershipVehicle).toBe("trust");
+			expect(result.holdings[1].shares).toBe(5000);
+
+			const option = result.holdings[2];
+			expect(option.isDerivative).toBe(true);
+			expect(option.securityTitle).toBe("Stock Option (Right to Buy)");
+			expect(option.shares).toBe(40000);
+			expect(option.underlyingSecurityTitle).toBe("Common Stock");
+			expect(option.conversionOrExercisePrice).toBe(150.25);
+			expect(option.exerciseDate).toBeUndefined(); // Footnote-only date
+			expect(option.expirationDate).toBe("2034-03-01");
+		});
+
+		it("should handle a Form 3 reporting no securities owned", () => {
+			const xml = `
+				<ownershipDocument>
+					<documentType>3</documentType>
+					<periodOfReport>2024-05-10</periodOfReport>
+					<noSecuritiesOwned>1</noSecuritiesOwned>
+					<issuer>
+						<issuerCik>0000012345</issuerCik>
+						<issuerName>Test Company</issuerName>
+					</issuer>
+					<reportingOwner>
+						<reportingOwnerId>
+							<rptOwnerName>New Director</rptOwnerName>
+						</reportingOwnerId>
+						<reportingOwnerRelationship>
+							<isDirector>1</isDirector>
+						</reportingOwnerRelationship>
+					</reportingOwner>
+				</ownershipDocument>
+			`;
+
+			const result = parser.parse(xml, "0001234567-24-000101", "2024-05-15");
+
+			expect(result.noSecuritiesOwned).toBe(true);
+			expect(result.holdings).toEqual([]);
+			expect(result.reportingOwners[0].isDirector).toBe(true);
+		});
+
+		it("should fall back to the filing date when periodOfReport is missing", () => {
+			const xml = `
+				<ownershipDocument>
+					<documentType>3/A</documentType>
+					<issuer>
+						<issuerCik>0000012345</issuerCik>
+						<issuerName>Test Company</issuerName>
+					</issuer>
+					<reportingOwner>
+						<reportingOwnerId>
+							<rptOwnerName>New Director</rptOwnerName>
+						</reportingOwnerId>
+					</reportingOwner>
+				</ownershipDocument>
+			`;
+
+			const result = parser.parse(xml, "0001234567-24-000102", "2024-05-15T16:30:00-04:00");
+
+			expect(result.documentType).toBe("3/A");
+			expect(result.periodOfReport).toBe("2024-05-15");
+		});
+	});
+});
@@ -0,0 +1,49 @@
+import { OwnershipDocumentParser } from "./ownershipParser";
+import type { Form3Data } from "./types";
+import { FORM_TYPE_3, Form3DataSchema } from "./types";
+
+/**
+ * Parser for Form 3 (initial statement of beneficial ownership)
+ * A Form 3 reports what an insider owns when they become an insider; it has holding rows
+ * instead of transactions and seeds the baseline for later Form 4 holdings deltas
+ */
+export class Form3Parser extends OwnershipDocumentParser {
+	/**
+	 * Parse Form 3 XML document into structured data
+	 * @param xmlText Form 3 XML string
+	 * @param accessionNumber Filing accession number
+	 * @param filingDate Filing date (ISO string)
+	 * @returns Parsed Form 3 data
+	 * @throws FilingParseError if the document is malformed or misses required fields
+	 */
+	parse(xmlText: string, accessionNumber: string, filingDate: string): Form3Data {
+		const root = this.parseDocument(xmlText, accessionNumber, FORM_TYPE_3, "ownershipDocument");
+		const documentType = this.read(root, "documentType") || FORM_TYPE_3;
+
+		// Date of the event requiring the statement; fall back to the filing date if absent
+		const periodOfReport = this.read(root, "periodOfReport") || filingDate.split("T")[0];
+
+		return this.validate(
+			Form3DataSchema,
+			{
+				accessionNumber,
+				filingDate,
+				documentType,
+				periodOfReport,
+				noSecuritiesOwned: this.readFlag(root, "noSecuritiesOwned"),
+				issuer: this.parseIssuer(root),
+				reportingOwners: this.parseReportingOwners(root),
+				holdings: this.parseHoldings(root),
+			},
+			accessionNumber,
+			documentType,
+		);
+	}
+}
+
+/**
+ * Create a Form 3 parser instance
+ */
+export function createForm3Parser(): Form3Parser {
+	return new Form3Parser();
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { getEasternDate, getFormIndexPath, isFormIndexPending, parseFormIndex } from "./formIndex";
+
+// Build a fixed-width form.idx row (column widths match the EDGAR layout)
+function row(formType: string, company: string, cik: string, date: string, file: string): string {
+	return `${formType.padEnd(12)}${company.padEnd(62)}${cik.padEnd(12)}${date.padEnd(12)}${file}`;
+}
+
+const PREAMBLE = [
+	"Description:           Daily Index of EDGAR Dissemination Feed by Form Type",
+	"Last Data Received:    January 16, 2024",
+	"Comments:              webmaster@sec.gov",
+	"Anonymous FTP:         ftp://ftp.sec.gov/edgar/",
+	" ",
+	" ",
+	row("Form Type", "Company Name", "CIK", "Date Filed", "File Name"),
+	"-".repeat(140),
+];
+
+describe("parseFormIndex", () => {
+	it("should parse daily-index rows", () => {
+		const text = [
+			...PREAMBLE,
+			row("10-K", "MICROSOFT CORP", "789019", "20240116", "edgar/data/789019/0000950170-24-000001.txt"),
+			row("4", "APPLE INC", "320193", "20240116", "edgar/data/320193/0000320193-24-000010.txt"),
+			row("4/A", "COOK TIMOTHY D", "1214156", "20240116", "edgar/data/1214156/0000320193-24-000011.txt"),
+		].join("\n");
+
+		const entries = parseFormIndex(text);
+
+		expect(entries).toHaveLength(3);
+		expect(entries[1]).toEqual({
+			formType: "4",
+			companyName: "APPLE INC",
+			cik: "320193",
+			filingDate: "2024-01-16",
+			accessionNumber: "0000320193-24-000010",
+			fileName: "edgar/data/320193/0000320193-24-000010.txt",
+		});
+		expect(entries[2].formType).toBe("4/A");
+		expect(entries[2].companyName).toBe("COOK TIMOTHY D");
+	});
+
+	it("should parse full-index dates and company names with spaces", () => {
+		const text = [
+			...PREAMBLE,
+			row(
+				"4",
+				"BERKSHIRE HATHAWAY INC /DE/",
+				"1067983",
+				"2024-02-27",
+				"edgar/data/1067983/0001067983-24-000003.txt",
+			),
+		].join("\r\n");
+
+		const [entry] = parseFormIndex(text);
+
+		expect(entry.companyName).toBe("BERKSHIRE HATHAWAY INC /DE/");
+		expect(entry.filingDate).toBe("2024-02-27");
+		expect(entry.accessionNumber).toBe("0001067983-24-000003");
+	});
+
+	it("should skip blank and malformed rows", () => {
+		const text = [
+			...PREAMBLE,
+			"",
+			row("4", "NO ACCESSION CORP", "12345", "20240116", "edgar/data/12345/readme.txt"),
+			row("4", "VALID CORP", "67890", "20240116", "edgar/data/67890/0000067890-24-000001.txt"),
+		].join("\n");
+
+		const entries = parseFormIndex(text);
+
+		expect(entries).toHaveLength(1);
+		expect(entries[0].companyName).toBe("VALID CORP");
+	});
+
+	it("should return an empty list when the header is missing", () => {
+		expect(parseFormIndex("<html>Not Found</html>")).toEqual([]);
+	});
+});
+
+describe("getFormIndexPath", () => {
+	it("should build daily-index paths", () => {
+		expect(getFormIndexPath("daily-index", "2024-01-16")).toBe(
+			"/Archives/edgar/daily-index/2024/QTR1/form.20240116.idx",
+		);
+		expect(getFormIndexPath("daily-index", "2023-11-03")).toBe(
+			"/Archives/edgar/daily-index/2023/QTR4/form.20231103.idx",
+		);
+	});
+
+	it("should build full-index paths per quarter", () => {
+		expect(getFormIndexPath("full-index", "2024-06-30")).toBe(
+			"/Archives/edgar/full-index/2024/QTR2/form.idx",
+		);
+		expect(getFormIndexPath("full-index", "2024-07-01")).toBe(
+			"/Archives/edgar/full-index/2024/QTR3/form.idx",
+		);
+	});
+});
+
+describe("isFormIndexPending", () => {
+	it("should wait for today and recent business days", () => {
+		expect(isFormIndexPending("2024-06-14", "2024-06-14")).toBe(true);
+		expect(isFormIndexPending("2024-06-13", "2024-06-14")).toBe(true);
+		expect(isFormIndexPending("2024-06-10", "2024-06-13")).toBe(true);
+	});
+
+	it("should treat weekends and older days without an index as having no filings", () => {
+		expect(isFormIndexPending("2024-06-15", "2024-06-17")).toBe(false);
+		expect(isFormIndexPending("2024-06-10", "2024-06-14")).toBe(false);
+	});
+});
+
+describe("getEasternDate", () => {
+	it("should date evening filings on the Eastern day they were made", () => {
+		expect(getEasternDate(new Date("2024-06-04T00:30:00Z"))).toBe("2024-06-03");
+	});
+});
@@ -0,0 +1,104 @@
+import type { FormIndexEntry, FormIndexSource } from "./types";
+
+// Column headers of the fixed-width form.idx layout
+const HEADER_COLUMNS = ["Form Type", "Company Name", "CIK", "Date Filed", "File Name"] as const;
+
+// Days after a business day within which its form.idx may still be unpublished
+const FORM_INDEX_PUBLICATION_DAYS = 3;
+
+/**
+ * Parse an EDGAR form.idx file (daily-index or full-index)
+ *
+ * The file starts with a free-text preamble, followed by a header line,
+ * a line of dashes and then one fixed-width row per filing. Column offsets
+ * are taken from the header line so both index flavours parse the same way.
+ *
+ * @param text Raw form.idx contents
+ * @returns Index rows in file order
+ */
+export function parseFormIndex(text: string): FormIndexEntry[] {
+	const lines = text.split(/\r?\n/);
+	const headerIndex = lines.findIndex((line) => line.startsWith(HEADER_COLUMNS[0]));
+	if (headerIndex === -1) return [];
+
+	const header = lines[headerIndex];
+	const offsets = HEADER_COLUMNS.map((column) => header.indexOf(column));
+	if (offsets.some((offset) => offset === -1)) return [];
+
+	const entries: FormIndexEntry[] = [];
+
+	// Skip the header and the dashed separator line
+	for (const line of lines.slice(headerIndex + 2)) {
+		if (!line.trim()) continue;
+
+		const [formType, companyName, cik, dateFiled] = offsets
+			.slice(0, 4)
+			.map((start, i) => line.slice(start, offsets[i + 1]).trim());
+		const fileName = line.slice(offsets[4]).trim();
+
+		const accessionMatch = fileName.match(/(\d{10}-\d{2}-\d{6})\.txt$/);
+		if (!formType || !cik || !accessionMatch) continue;
+
+		entries.push({
+			formType,
+			companyName,
+			cik: cik.replace(/^0+/, ""),
+			filingDate: normalizeIndexDate(dateFiled),
+			accessionNumber: accessionMatch[1],
+			fileName,
+		});
+	}
+
+	return entries;
+}
+
+/**
+ * Build the archive path of the form.idx file covering a date
+ * @param source Index flavour
+ * @param date ISO date string (YYYY-MM-DD)
+ */
+export function getFormIndexPath(source: FormIndexSource, date: string): string {
+	const [year, month, day] = date.split("-");
+	const quarter = Math.floor((Number(month) - 1) / 3) + 1;
+
+	if (source === "full-index") {
+		return `/Archives/edgar/full-index/${year}/QTR${quarter}/form.idx`;
+	}
+
+	return `/Archives/edgar/daily-index/${year}/QTR${quarter}/form.${year}${month}${day}.idx`;
+}
+
+/**
+ * ISO date string (YYYY-MM-DD) of an instant in Eastern time, the time zone EDGAR dates filings in
+ */
+export function getEasternDate(date: Date): string {
+	return date.toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+}
+
+/**
+ * Whether the form.idx of a date may not be published yet
+ * EDGAR indexes a day after it ends, so today and later are never indexed and a recent
+ * business day may still be missing; a weekend or an older day without an index had no filings
+ * @param date ISO date string (YYYY-MM-DD)
+ * @param today Current Eastern date (see getEasternDate)
+ */
+export function isFormIndexPending(date: string, today: string): boolean {
+	if (date >= today) return true;
+
+	const day = new Date(`${date}T00:00:00Z`);
+	const weekday = day.getUTCDay();
+	if (weekday === 0 || weekday === 6) return false;
+
+	day.setUTCDate(day.getUTCDate() + FORM_INDEX_PUBLICATION_DAYS);
+	return day.toISOString().split("T")[0] >= today;
+}
+
+/**
+ * daily-index rows use YYYYMMDD, full-index rows use YYYY-MM-DD
+ */
+function normalizeIndexDate(value: string): string {
+	const compact = value.replace(/-/g, "");
+	if (!/^\d{8}$/.test(compact)) return value;
+
+	return `${compact.slice(0, 4)}-${compact.slice(4, 6)}-${compact.slice(6, 8)}`;
+}
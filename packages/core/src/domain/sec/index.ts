@@ -1,3 +1,18 @@
 export * from "./client";
+export * from "./errors";
+export * from "./exercises";
+export * from "./feed";
+export * from "./filingDeadlines";
+export * from "./filingIndex";
+export * from "./footnotes";
+export * from "./form3Parser";
+export * from "./form144Parser";
+export * from "./names";
+export * from "./ownership";
 export * from "./parser";
+export * from "./positions";
+export * from "./rateLimit";
+export * from "./submissions";
+export * from "./tradingPlans";
 export * from "./types";
+export * from "./xml";
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { personNamesMatch, tokenizePersonName } from "./names";
+
+describe("tokenizePersonName", () => {
+	it("should uppercase, strip punctuation and drop initials and suffixes", () => {
+		expect(tokenizePersonName("Timothy D. Cook, Jr.")).toEqual(["TIMOTHY", "COOK"]);
+	});
+});
+
+describe("personNamesMatch", () => {
+	it("should match EDGAR last-first names against natural order", () => {
+		expect(personNamesMatch("COOK TIMOTHY D", "Timothy D. Cook")).toBe(true);
+		expect(personNamesMatch("Cook Timothy", "COOK TIMOTHY D")).toBe(true);
+	});
+
+	it("should not match different people sharing a surname", () => {
+		expect(personNamesMatch("COOK TIMOTHY D", "Cook Jane")).toBe(false);
+	});
+
+	it("should not match on a single token", () => {
+		expect(personNamesMatch("Cook", "COOK TIMOTHY D")).toBe(false);
+	});
+});
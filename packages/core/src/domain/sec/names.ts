@@ -0,0 +1,30 @@
+// Tokens that don't identify a person (suffixes, honorifics)
+const IGNORED_NAME_TOKENS = new Set(["JR", "SR", "II", "III", "IV", "MR", "MRS", "MS", "DR"]);
+
+/**
+ * Split a person's name into comparable tokens
+ * EDGAR filers write the same person as "COOK TIMOTHY D", "Timothy D. Cook" or "Cook, Tim",
+ * so tokens are uppercased, stripped of punctuation and order is ignored
+ */
+export function tokenizePersonName(name: string): string[] {
+	return name
+		.toUpperCase()
+		.replace(/[^A-Z0-9\s]/g, " ")
+		.split(/\s+/)
+		.filter((token) => token.length > 1 && !IGNORED_NAME_TOKENS.has(token));
+}
+
+/**
+ * Check whether two filer names refer to the same person
+ * Matches when every token of the shorter name appears in the longer one and at least
+ * two tokens are shared (first and last name), so middle initials may be dropped
+ */
+export function personNamesMatch(a: string, b: string): boolean {
+	const tokensA = tokenizePersonName(a);
+	const tokensB = tokenizePersonName(b);
+	const [shorter, longer] =
+		tokensA.length <= tokensB.length ? [tokensA, new Set(tokensB)] : [tokensB, new Set(tokensA)];
+
+	if (shorter.length < 2) return false;
+	return shorter.every((token) => longer.has(token));
+}
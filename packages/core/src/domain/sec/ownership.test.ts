@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { getOwnershipVehicle } from "./ownership";
+
+describe("getOwnershipVehicle", () => {
+	it("should key direct holdings as direct whatever their description", () => {
+		expect(getOwnershipVehicle(true)).toBe("direct");
+		expect(getOwnershipVehicle(true, "By Trust")).toBe("direct");
+	});
+
+	it("should match descriptions of the same vehicle", () => {
+		expect(getOwnershipVehicle(false, "By Trust")).toBe("trust");
+		expect(getOwnershipVehicle(false, "by trust (1)")).toBe("trust");
+		expect(getOwnershipVehicle(false, "By Spouse.")).toBe("spouse");
+		expect(getOwnershipVehicle(false, "By the Cook Family LLC[2]")).toBe("cook family llc");
+	});
+
+	it("should keep the footnote number of see-footnote descriptions", () => {
+		expect(getOwnershipVehicle(false, "See Footnote (1)")).toBe("see footnote 1");
+		expect(getOwnershipVehicle(false, "See Footnote (2)")).toBe("see footnote 2");
+	});
+
+	it("should fall back to a generic indirect vehicle", () => {
+		expect(getOwnershipVehicle(false)).toBe("indirect");
+		expect(getOwnershipVehicle(false, " ")).toBe("indirect");
+	});
+});
@@ -0,0 +1,35 @@
+/**
+ * Ownership vehicles of reported holdings
+ * Indirect holdings are held through a trust, spouse, LLC or fund, described by the filer
+ * in free text ("By Trust", "By Spouse (1)"). Holdings are only comparable within one vehicle.
+ */
+
+// Vehicle of shares the reporting person owns directly
+export const DIRECT_OWNERSHIP_VEHICLE = "direct";
+
+// Vehicle of indirect holdings that don't describe their nature of ownership
+export const INDIRECT_OWNERSHIP_VEHICLE = "indirect";
+
+/**
+ * Key identifying the vehicle a holding is owned through
+ * Case, punctuation, a leading "By" and footnote markers are ignored, so "By Trust (1)" and
+ * "by trust" match. "See footnote" descriptions keep their footnote number, which is all
+ * that tells such vehicles apart.
+ * @param natureOfOwnership Filer's description of an indirect holding
+ */
+export function getOwnershipVehicle(isDirectOwnership: boolean, natureOfOwnership?: string): string {
+	if (isDirectOwnership) return DIRECT_OWNERSHIP_VEHICLE;
+
+	let text = (natureOfOwnership ?? "").toLowerCase().trim();
+	if (!/^see\b/.test(text)) {
+		text = text.replace(/[([]\s*\d+\s*[)\]]/g, " ");
+	}
+
+	const vehicle = text
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim()
+		.replace(/^by\s+/, "")
+		.replace(/^(the|a|an|his|her|their)\s+/, "");
+
+	return vehicle || INDIRECT_OWNERSHIP_VEHICLE;
+}
@@ -0,0 +1,284 @@
+import type { z } from "zod";
+import { FilingParseError } from "./errors";
+import { getOwnershipVehicle } from "./ownership";
+import type { Footnote, FootnoteRef, HoldingInfo, InsiderInfo, IssuerInfo } from "./types";
+import {
+	type XmlElement,
+	XmlSyntaxError,
+	childElements,
+	elementValue,
+	findElement,
+	findElements,
+	parseXml,
+} from "./xml";
+
+/**
+ * Shared parsing for SEC filing documents (Forms 3, 4 and 144)
+ * Forms 3 and 4 use the same <ownershipDocument> layout for the header, issuer and reporting
+ * owners; subclasses parse their own tables. Parsed data is validated against the form's
+ * schema and every missing or malformed field is reported as a FilingParseError.
+ */
+export abstract class OwnershipDocumentParser {
+	// Field of the parsed data -> XML location it was read from, for the current document
+	private sources = new Map<string, string>();
+
+	/**
+	 * Parse a document into an element tree and check its root element
+	 * @throws FilingParseError if the XML is malformed or has an unexpected root
+	 */
+	protected parseDocument(
+		xmlText: string,
+		accessionNumber: string,
+		formType: string,
+		rootName: string,
+	): XmlElement {
+		this.sources = new Map();
+
+		let root: XmlElement;
+		try {
+			root = parseXml(xmlText);
+		} catch (error) {
+			if (!(error instanceof XmlSyntaxError)) throw error;
+			throw new FilingParseError(accessionNumber, formType, [
+				{
+					field: "document",
+					path: `line ${error.line}, column ${error.column}`,
+					message: error.message,
+				},
+			]);
+		}
+
+		if (root.name !== rootName) {
+			throw new FilingParseError(accessionNumber, formType, [
+				{ field: "document", path: root.path, message: `Expected a <${rootName}> document` },
+			]);
+		}
+
+		return root;
+	}
+
+	/**
+	 * Validate parsed data against its schema
+	 * @throws FilingParseError listing each invalid field and where it was read from
+	 */
+	protected validate<T extends z.ZodType>(
+		schema: T,
+		data: z.input<T>,
+		accessionNumber: string,
+		formType: string,
+	): z.output<T> {
+		const result = schema.safeParse(data);
+		if (result.success) return result.data;
+
+		throw new FilingParseError(
+			accessionNumber,
+			formType,
+			result.error.issues.map((issue) => {
+				const field = issue.path.join(".");
+				return {
+					field,
+					path: this.sources.get(field) || "unknown",
+					message: issue.message,
+				};
+			}),
+		);
+	}
+
+	/**
+	 * Read a field value at a path below an element
+	 * @param field Field of the parsed data the value becomes, recorded for error reporting
+	 */
+	protected read(element: XmlElement, path: string, field?: string): string | undefined {
+		if (field) this.sources.set(field, `${element.path}/${path}`);
+		return elementValue(findElement(element, path));
+	}
+
+	/**
+	 * Read a numeric value, or null if missing or not a number
+	 */
+	protected readNumber(element: XmlElement, path: string): number | null {
+		const text = this.read(element, path);
+		if (!text) return null;
+
+		const value = Number.parseFloat(text.replace(/,/g, ""));
+		return Number.isNaN(value) ? null : value;
+	}
+
+	/**
+	 * Read an ISO date; exercise/expiration dates are often footnote-only
+	 */
+	protected readDate(element: XmlElement, path: string): string | undefined {
+		const text = this.read(element, path);
+		return text && /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : undefined;
+	}
+
+	/**
+	 * Read a relationship or checkbox flag ("1"/"0" or "true"/"false")
+	 */
+	protected readFlag(element: XmlElement, path: string): boolean {
+		const text = this.read(element, path)?.toLowerCase();
+		return text === "1" || text === "true";
+	}
+
+	/**
+	 * Parse how a table row's securities are owned: directly, or through a vehicle
+	 */
+	protected parseOwnershipNature(row: XmlElement): {
+		isDirectOwnership: boolean;
+		natureOfOwnership?: string;
+		ownershipVehicle: string;
+	} {
+		const isDirectOwnership =
+			this.read(row, "ownershipNature/directOrIndirectOwnership") === "D";
+		const natureOfOwnership = isDirectOwnership
+			? undefined
+			: this.read(row, "ownershipNature/natureOfOwnership")?.replace(/\s+/g, " ").trim() ||
+				undefined;
+
+		return {
+			isDirectOwnership,
+			natureOfOwnership,
+			ownershipVehicle: getOwnershipVehicle(isDirectOwnership, natureOfOwnership),
+		};
+	}
+
+	/**
+	 * Parse the holding rows (nonDerivativeHolding / derivativeHolding) of a document
+	 * They report securities owned without a transaction, e.g. shares held by a trust
+	 */
+	protected parseHoldings(root: XmlElement): HoldingInfo[] {
+		return [
+			...findElements(root, "nonDerivativeTable/nonDerivativeHolding").map((row) =>
+				this.parseHolding(row, false),
+			),
+			...findElements(root, "derivativeTable/derivativeHolding").map((row) =>
+				this.parseHolding(row, true),
+			),
+		].filter((holding): holding is HoldingInfo => holding !== null);
+	}
+
+	/**
+	 * Parse a single holding row
+	 * Derivative holdings report the underlying share count instead of shares owned
+	 */
+	private parseHolding(row: XmlElement, isDerivative: boolean): HoldingInfo | null {
+		const securityTitle = this.read(row, "securityTitle");
+		if (!securityTitle) return null;
+
+		const sharesOwned = this.readNumber(row, "postTransactionAmounts/sharesOwnedFollowingTransaction");
+		const shares = isDerivative
+			? (this.readNumber(row, "underlyingSecurity/underlyingSecurityShares") ?? sharesOwned)
+			: sharesOwned;
+		if (shares === null) return null;
+
+		const holding: HoldingInfo = {
+			securityTitle,
+			shares,
+			...this.parseOwnershipNature(row),
+			isDerivative,
+		};
+
+		if (isDerivative) {
+			holding.underlyingSecurityTitle = this.read(row, "underlyingSecurity/underlyingSecurityTitle");
+			holding.conversionOrExercisePrice =
+				this.readNumber(row, "conversionOrExercisePrice") ?? undefined;
+			holding.exerciseDate = this.readDate(row, "exerciseDate");
+			holding.expirationDate = this.readDate(row, "expirationDate");
+		}
+
+		return holding;
+	}
+
+	/**
+	 * Parse issuer information
+	 */
+	protected parseIssuer(root: XmlElement): IssuerInfo {
+		const cik = this.read(root, "issuer/issuerCik", "issuer.cik") || "";
+		const companyName = this.read(root, "issuer/issuerName", "issuer.companyName") || "";
+		const ticker = this.read(root, "issuer/issuerTradingSymbol", "issuer.ticker");
+
+		return {
+			cik: cik.replace(/^0+/, ""), // Remove leading zeros
+			companyName,
+			ticker,
+		};
+	}
+
+	/**
+	 * Parse every reporting owner (insider)
+	 * Joint filings (e.g. a fund, its general partner and a managing member) list several
+	 * <reportingOwner> elements that share the same transactions
+	 */
+	protected parseReportingOwners(root: XmlElement): InsiderInfo[] {
+		this.sources.set("reportingOwners", `${root.path}/reportingOwner`);
+		return childElements(root, "reportingOwner").map((ownerElement, index) =>
+			this.parseInsider(ownerElement, `reportingOwners.${index}`),
+		);
+	}
+
+	/**
+	 * Parse a single <reportingOwner> element
+	 * @param field Field prefix of the owner in the parsed data, e.g. "reportingOwners.0"
+	 */
+	protected parseInsider(ownerElement: XmlElement, field: string): InsiderInfo {
+		const cik = this.read(ownerElement, "reportingOwnerId/rptOwnerCik", `${field}.cik`);
+		const relationship = findElement(ownerElement, "reportingOwnerRelationship");
+
+		return {
+			name: this.read(ownerElement, "reportingOwnerId/rptOwnerName", `${field}.name`) || "",
+			cik: cik?.replace(/^0+/, ""),
+			title: relationship ? this.read(relationship, "officerTitle") : undefined,
+			isDirector: relationship ? this.readFlag(relationship, "isDirector") : false,
+			isOfficer: relationship ? this.readFlag(relationship, "isOfficer") : false,
+			isTenPercentOwner: relationship ? this.readFlag(relationship, "isTenPercentOwner") : false,
+			isOther: relationship ? this.readFlag(relationship, "isOther") : false,
+		};
+	}
+
+	/**
+	 * Parse the document-level <footnotes> block
+	 * Rows only carry <footnoteId id="F1"/> references; the text lives here
+	 */
+	protected parseFootnotes(root: XmlElement): Footnote[] {
+		return findElements(root, "footnotes/footnote")
+			.filter((footnote) => footnote.attributes.id)
+			.map((footnote) => ({
+				id: footnote.attributes.id,
+				text: footnote.text.replace(/\s+/g, " ").trim(),
+			}));
+	}
+
+	/**
+	 * Resolve the footnotes referenced anywhere inside a table row
+	 * A <footnoteId> annotates its parent element (e.g. transactionPricePerShare); references
+	 * placed directly in the row annotate the row itself and get the row name as their field
+	 * @param row Row element, e.g. a <nonDerivativeTransaction>
+	 * @param footnotes Document footnotes from parseFootnotes
+	 */
+	protected extractFootnoteRefs(row: XmlElement, footnotes: Footnote[]): FootnoteRef[] {
+		const refs: FootnoteRef[] = [];
+
+		const visit = (element: XmlElement) => {
+			for (const child of element.children) {
+				if (child.name !== "footnoteId") {
+					visit(child);
+					continue;
+				}
+
+				const footnote = footnotes.find((candidate) => candidate.id === child.attributes.id);
+				const field = element.name;
+
+				// Skip dangling references and repeats of the same footnote on the same field
+				if (
+					footnote &&
+					!refs.some((ref) => ref.footnoteId === footnote.id && ref.field === field)
+				) {
+					refs.push({ footnoteId: footnote.id, field, text: footnote.text });
+				}
+			}
+		};
+		visit(row);
+
+		return refs;
+	}
+}
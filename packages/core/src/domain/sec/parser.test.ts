@@ -1,5 +1,7 @@
 import { describe, expect, it } from "vitest";
+import { FilingParseError } from "./errors";
 import { Form4Parser } from "./parser";
+import { selectPrimaryOwner } from "./types";
 
 describe("Form4Parser", () => {
 	const parser = new Form4Parser();
@@ -71,11 +73,13 @@ describe("Form4Parser", () => {
 			expect(result.issuer.companyName).toBe("Apple Inc.");
 			expect(result.issuer.ticker).toBe("AAPL");
 
-			// Insider
-			expect(result.insider.name).toBe("Tim Cook");
-			expect(result.insider.title).toBe("Chief Executive Officer");
-			expect(result.insider.isOfficer).toBe(true);
-			expect(result.insider.isDirector).toBe(false);
+			// Reporting owner
+			expect(result.reportingOwners).toHaveLength(1);
+			expect(result.reportingOwners[0].name).toBe("Tim Cook");
+			expect(result.reportingOwners[0].cik).toBe("1234567"); // Leading zeros removed
+			expect(result.reportingOwners[0].title).toBe("Chief Executive Officer");
+			expect(result.reportingOwners[0].isOfficer).toBe(true);
+			expect(result.reportingOwners[0].isDirector).toBe(false);
 
 			// Transaction
 			expect(result.transactions).toHaveLength(1);
@@ -210,6 +214,195 @@ describe("Form4Parser", () => {
 
 			expect(result.transactions).toHaveLength(1);
 			expect(result.transactions[0].is10b51).toBe(true);
+			expect(result.transactions[0].footnotes).toEqual([
+				{
+					footnoteId: "F1",
+					field: "nonDerivativeTransaction",
+					text: "This transaction was made pursuant to a Rule 10b5-1 trading plan.",
+				},
+			]);
+		});
+
+		it("should read the 10b5-1 checkbox and the plan adoption date", () => {
+			const row = (date: string, footnote: string) => `
+				<nonDerivativeTransaction>
+					<transactionDate><value>${date}</value></transactionDate>
+					<transactionCoding><transactionCode>S</transactionCode></transactionCoding>
+					<transactionAmounts>
+						<transactionShares><value>1000</value></transactionShares>
+						<transactionPricePerShare><value>50.00</value></transactionPricePerShare>
+					</transactionAmounts>
+					<postTransactionAmounts>
+						<sharesOwnedFollowingTransaction><value>9000</value></sharesOwnedFollowingTransaction>
+					</postTransactionAmounts>
+					<ownershipNature><directOrIndirectOwnership><value>D</value></directOrIndirectOwnership></ownershipNature>
+					${footnote}
+				</nonDerivativeTransaction>`;
+			const document = (aff10b5One: string, rows: string, footnotes: string) => `
+				<?xml version="1.0"?>
+				<ownershipDocument>
+					${aff10b5One}
+					<issuer>
+						<issuerCik>0000012345</issuerCik>
+						<issuerName>Test Company</issuerName>
+					</issuer>
+					<reportingOwner>
+						<reportingOwnerId><rptOwnerName>John Doe</rptOwnerName></reportingOwnerId>
+					</reportingOwner>
+					<nonDerivativeTable>${rows}</nonDerivativeTable>
+					<footnotes>${footnotes}</footnotes>
+				</ownershipDocument>
+			`;
+
+			// Footnotes single out the plan trade and give its adoption date
+			const footnoted = parser.parse(
+				document(
+					"<aff10b5One>1</aff10b5One>",
+					row("2024-03-01", '<footnoteId id="F1"/>') + row("2024-03-01", ""),
+					'<footnote id="F1">Sold pursuant to a Rule 10b5-1 trading plan adopted on November 10, 2023.</footnote>',
+				),
+				"0001234567-24-000010",
+				"2024-03-04",
+			);
+
+			expect(footnoted.aff10b5One).toBe(true);
+			expect(footnoted.transactions.map((tx) => tx.is10b51)).toEqual([true, false]);
+			expect(footnoted.transactions[0].planAdoptionDate).toBe("2023-11-10");
+
+			// A checked box without plan footnotes covers every purchase and sale
+			const checked = parser.parse(
+				document("<aff10b5One>true</aff10b5One>", row("2024-03-01", ""), ""),
+				"0001234567-24-000011",
+				"2024-03-04",
+			);
+
+			expect(checked.transactions[0].is10b51).toBe(true);
+			expect(checked.transactions[0].planAdoptionDate).toBeUndefined();
+
+			// Filings from before the checkbox existed
+			const legacy = parser.parse(document("", row("2024-03-01", ""), ""), "0001234567-24-000012", "2024-03-04");
+
+			expect(legacy.aff10b5One).toBeUndefined();
+			expect(legacy.transactions[0].is10b51).toBe(false);
+		});
+
+		it("should attach document footnotes to the fields that reference them", () => {
+			const xml = `
+				<?xml version="1.0"?>
+				<ownershipDocument>
+					<issuer>
+						<issuerCik>0000012345</issuerCik>
+						<issuerName>Test Company</issuerName>
+					</issuer>
+					<reportingOwner>
+						<reportingOwnerId>
+							<rptOwnerName>John Doe</rptOwnerName>
+						</reportingOwnerId>
+					</reportingOwner>
+					<nonDerivativeTable>
+						<nonDerivativeTransaction>
+							<transactionDate><value>2024-03-01</value></transactionDate>
+							<transactionCoding>
+								<transactionCode>S</transactionCode>
+								<footnoteId id="F1"/>
+							</transactionCoding>
+							<transactionAmounts>
+								<transactionShares><value>5000</value></transactionShares>
+								<transactionPricePerShare>
+									<value>50.12</value>
+									<footnoteId id="F2"/>
+								</transactionPricePerShare>
+							</transactionAmounts>
+							<postTransactionAmounts>
+								<sharesOwnedFollowingTransaction><value>50000</value></sharesOwnedFollowingTransaction>
+							</postTransactionAmounts>
+							<ownershipNature>
+								<directOrIndirectOwnership><value>D</value></directOrIndirectOwnership>
+							</ownershipNature>
+							<footnoteId id="F9"/>
+						</nonDerivativeTransaction>
+					</nonDerivativeTable>
+					<footnotes>
+						<footnote id="F1">The sale was effected pursuant to a Rule 10b5-1
+							trading plan adopted by the reporting person on December 1, 2023.</footnote>
+						<footnote id="F2">Weighted average price. Prices ranged from $50.00 to $50.25.</footnote>
+					</footnotes>
+				</ownershipDocument>
+			`;
+
+			const result = parser.parse(xml, "0001234567-24-000008", "2024-03-02");
+
+			expect(result.footnotes.map((footnote) => footnote.id)).toEqual(["F1", "F2"]);
+			expect(result.footnotes[0].text).toBe(
+				"The sale was effected pursuant to a Rule 10b5-1 trading plan adopted by the reporting person on December 1, 2023.",
+			);
+
+			const tx = result.transactions[0];
+			expect(tx.is10b51).toBe(true);
+			// F9 has no footnote body and is dropped
+			expect(tx.footnotes.map((ref) => [ref.footnoteId, ref.field])).toEqual([
+				["F1", "transactionCoding"],
+				["F2", "transactionPricePerShare"],
+			]);
+			expect(tx.footnotes[1].text).toContain("Weighted average price");
+			expect(tx.pricePerShare).toBe(50.12);
+			expect([tx.priceLow, tx.priceHigh]).toEqual([50, 50.25]);
+		});
+
+		it("should keep purchases and sales reported without a price", () => {
+			const row = (code: string, price: string, footnote = "") => `
+				<nonDerivativeTransaction>
+					<transactionDate><value>2024-03-01</value></transactionDate>
+					<transactionCoding><transactionCode>${code}</transactionCode></transactionCoding>
+					<transactionAmounts>
+						<transactionShares><value>1000</value></transactionShares>
+						<transactionPricePerShare><value>${price}</value>${footnote}</transactionPricePerShare>
+					</transactionAmounts>
+					<postTransactionAmounts>
+						<sharesOwnedFollowingTransaction><value>9000</value></sharesOwnedFollowingTransaction>
+					</postTransactionAmounts>
+					<ownershipNature>
+						<directOrIndirectOwnership><value>D</value></directOrIndirectOwnership>
+					</ownershipNature>
+				</nonDerivativeTransaction>
+			`;
+			const xml = `
+				<?xml version="1.0"?>
+				<ownershipDocument>
+					<issuer>
+						<issuerCik>0000012345</issuerCik>
+						<issuerName>Test Company</issuerName>
+					</issuer>
+					<reportingOwner>
+						<reportingOwnerId>
+							<rptOwnerName>John Doe</rptOwnerName>
+						</reportingOwnerId>
+					</reportingOwner>
+					<nonDerivativeTable>
+						${row("S", "", '<footnoteId id="F1"/>')}
+						${row("P", "0")}
+						${row("S", "")}
+					</nonDerivativeTable>
+					<footnotes>
+						<footnote id="F1">Weighted average price. Prices ranged from $20.00 to $21.00.</footnote>
+					</footnotes>
+				</ownershipDocument>
+			`;
+
+			const result = parser.parse(xml, "0001234567-24-000011", "2024-03-02");
+
+			expect(result.transactions).toHaveLength(3);
+			const [estimated, zeroPrice, blankPrice] = result.transactions;
+
+			// Blank price with a footnoted range: estimated at the midpoint
+			expect(estimated.priceUnknown).toBe(false);
+			expect(estimated.isPriceEstimated).toBe(true);
+			expect(estimated.pricePerShare).toBe(20.5);
+			expect(estimated.transactionValue).toBe(20500);
+
+			expect(zeroPrice.priceUnknown).toBe(true);
+			expect(zeroPrice.transactionValue).toBe(0);
+			expect(blankPrice.priceUnknown).toBe(true);
 		});
 
 		it("should filter out non-P/S transactions", () => {
@@ -339,6 +532,9 @@ describe("Form4Parser", () => {
 								<directOrIndirectOwnership>
 									<value>I</value>
 								</directOrIndirectOwnership>
+								<natureOfOwnership>
+									<value>By Spouse (1)</value>
+								</natureOfOwnership>
 							</ownershipNature>
 						</nonDerivativeTransaction>
 					</nonDerivativeTable>
@@ -349,6 +545,8 @@ describe("Form4Parser", () => {
 
 			expect(result.transactions).toHaveLength(1);
 			expect(result.transactions[0].isDirectOwnership).toBe(false);
+			expect(result.transactions[0].natureOfOwnership).toBe("By Spouse (1)");
+			expect(result.transactions[0].ownershipVehicle).toBe("spouse");
 		});
 
 		it("should handle missing optional fields gracefully", () => {
@@ -404,9 +602,321 @@ describe("Form4Parser", () => {
 			const result = parser.parse(xml, "0001234567-24-000006", "2024-04-02");
 
 			expect(result.issuer.ticker).toBeUndefined();
-			expect(result.insider.title).toBeUndefined();
-			expect(result.insider.isTenPercentOwner).toBe(true);
+			expect(result.reportingOwners[0].title).toBeUndefined();
+			expect(result.reportingOwners[0].isTenPercentOwner).toBe(true);
 			expect(result.transactions).toHaveLength(1);
 		});
+
+		it("should parse every reporting owner of a joint filing", () => {
+			const xml = `
+				<?xml version="1.0"?>
+				<ownershipDocument>
+					<issuer>
+						<issuerCik>0001800000</issuerCik>
+						<issuerName>Example Biotech Inc.</issuerName>
+						<issuerTradingSymbol>EXBT</issuerTradingSymbol>
+					</issuer>
+					<reportingOwner>
+						<reportingOwnerId>
+							<rptOwnerCik>0001700001</rptOwnerCik>
+							<rptOwnerName>Example Ventures Fund II, L.P.</rptOwnerName>
+						</reportingOwnerId>
+						<reportingOwnerRelationship>
+							<isTenPercentOwner>1</isTenPercentOwner>
+						</reportingOwnerRelationship>
+					</reportingOwner>
+					<reportingOwner>
+						<reportingOwnerId>
+							<rptOwnerCik>0001700002</rptOwnerCik>
+							<rptOwnerName>Example Ventures GP II, LLC</rptOwnerName>
+						</reportingOwnerId>
+						<reportingOwnerRelationship>
+							<isTenPercentOwner>1</isTenPercentOwner>
+						</reportingOwnerRelationship>
+					</reportingOwner>
+					<reportingOwner>
+						<reportingOwnerId>
+							<rptOwnerCik>0001700003</rptOwnerCik>
+							<rptOwnerName>Smith Jane</rptOwnerName>
+						</reportingOwnerId>
+						<reportingOwnerRelationship>
+							<isDirector>1</isDirector>
+							<isTenPercentOwner>1</isTenPercentOwner>
+						</reportingOwnerRelationship>
+					</reportingOwner>
+					<nonDerivativeTable>
+						<nonDerivativeTransaction>
+							<transactionDate><value>2024-05-01</value></transactionDate>
+							<transactionCoding><transactionCode>P</transactionCode></transactionCoding>
+							<transactionAmounts>
+								<transactionShares><value>100000</value></transactionShares>
+								<transactionPricePerShare><value>12.00</value></transactionPricePerShare>
+							</transactionAmounts>
+							<postTransactionAmounts>
+								<sharesOwnedFollowingTransaction><value>2100000</value></sharesOwnedFollowingTransaction>
+							</postTransactionAmounts>
+							<ownershipNature>
+								<directOrIndirectOwnership><value>I</value></directOrIndirectOwnership>
+							</ownershipNature>
+						</nonDerivativeTransaction>
+					</nonDerivativeTable>
+				</ownershipDocument>
+			`;
+
+			const result = parser.parse(xml, "0001234567-24-000007", "2024-05-03");
+
+			expect(result.reportingOwners.map((owner) => owner.name)).toEqual([
+				"Example Ventures Fund II, L.P.",
+				"Example Ventures GP II, LLC",
+				"Smith Jane",
+			]);
+			expect(result.reportingOwners.map((owner) => owner.cik)).toEqual([
+				"1700001",
+				"1700002",
+				"1700003",
+			]);
+			expect(result.reportingOwners[2].isDirector).toBe(true);
+			expect(result.reportingOwners[0].isDirector).toBe(false);
+
+			// The director is the person the filing is attributed to, not the fund listed first
+			expect(selectPrimaryOwner(result.reportingOwners)?.name).toBe("Smith Jane");
+
+			// The shared transaction is reported once, not once per owner
+			expect(result.transactions).toHaveLength(1);
+			expect(result.transactions[0].transactionValue).toBe(1200000);
+		});
+
+		it("should capture derivative details and label exercise-and-sell sales", () => {
+			const xml = `
+				<?xml version="1.0"?>
+				<ownershipDocument>
+					<issuer>
+						<issuerCik>0000789019</issuerCik>
+						<issuerName>Example Software Corp</issuerName>
+						<issuerTradingSymbol>EXSW</issuerTradingSymbol>
+					</issuer>
+					<reportingOwner>
+						<reportingOwnerId>
+							<rptOwnerName>Jane Doe</rptOwnerName>
+						</reportingOwnerId>
+						<reportingOwnerRelationship>
+							<isOfficer>1</isOfficer>
+							<officerTitle>Chief Financial Officer</officerTitle>
+						</reportingOwnerRelationship>
+					</reportingOwner>
+					<nonDerivativeTable>
+						<nonDerivativeTransaction>
+							<securityTitle><value>Common Stock</value></securityTitle>
+							<transactionDate><value>2024-06-03</value></transactionDate>
+							<transactionCoding><transactionCode>M</transactionCode></transactionCoding>
+							<transactionAmounts>
+								<transactionShares><value>20000</value></transactionShares>
+								<transactionPricePerShare><value>15.00</value></transactionPricePerShare>
+							</transactionAmounts>
+							<postTransactionAmounts>
+								<sharesOwnedFollowingTransaction><value>60000</value></sharesOwnedFollowingTransaction>
+							</postTransactionAmounts>
+							<ownershipNature>
+								<directOrIndirectOwnership><value>D</value></directOrIndirectOwnership>
+							</ownershipNature>
+						</nonDerivativeTransaction>
+						<nonDerivativeTransaction>
+							<securityTitle><value>Common Stock</value></securityTitle>
+							<transactionDate><value>2024-06-03</value></transactionDate>
+							<transactionCoding><transactionCode>S</transactionCode></transactionCoding>
+							<transactionAmounts>
+								<transactionShares><value>20000</value></transactionShares>
+								<transactionPricePerShare><value>48.25</value></transactionPricePerShare>
+							</transactionAmounts>
+							<postTransactionAmounts>
+								<sharesOwnedFollowingTransaction><value>40000</value></sharesOwnedFollowingTransaction>
+							</postTransactionAmounts>
+							<ownershipNature>
+								<directOrIndirectOwnership><value>D</value></directOrIndirectOwnership>
+							</ownershipNature>
+						</nonDerivativeTransaction>
+					</nonDerivativeTable>
+					<derivativeTable>
+						<derivativeTransaction>
+							<securityTitle><value>Stock Option (Right to Buy)</value></securityTitle>
+							<conversionOrExercisePrice><value>15.00</value></conversionOrExercisePrice>
+							<transactionDate><value>2024-06-03</value></transactionDate>
+							<transactionCoding><transactionCode>M</transactionCode></transactionCoding>
+							<transactionAmounts>
+								<transactionShares><value>20000</value></transactionShares>
+								<transactionPricePerShare><value></value></transactionPricePerShare>
+							</transactionAmounts>
+							<exerciseDate><value>2021-06-01</value></exerciseDate>
+							<expirationDate><value>2030-06-01</value></expirationDate>
+							<underlyingSecurity>
+								<underlyingSecurityTitle><value>Common Stock</value></underlyingSecurityTitle>
+								<underlyingSecurityShares><value>20000</value></underlyingSecurityShares>
+							</underlyingSecurity>
+							<postTransactionAmounts>
+								<sharesOwnedFollowingTransaction><value>80000</value></sharesOwnedFollowingTransaction>
+							</postTransactionAmounts>
+							<ownershipNature>
+								<directOrIndirectOwnership><value>D</value></directOrIndirectOwnership>
+							</ownershipNature>
+						</derivativeTransaction>
+					</derivativeTable>
+				</ownershipDocument>
+			`;
+
+			const result = parser.parse(xml, "0001234567-24-000010", "2024-06-05");
+
+			expect(result.transactions.map((tx) => tx.transactionCode)).toEqual(["M", "S", "M"]);
+
+			const sale = result.transactions[1];
+			expect(sale.isDerivative).toBe(false);
+			expect(sale.securityTitle).toBe("Common Stock");
+			expect(sale.isExerciseAndSell).toBe(true);
+
+			const option = result.transactions[2];
+			expect(option.isDerivative).toBe(true);
+			expect(option.securityTitle).toBe("Stock Option (Right to Buy)");
+			expect(option.underlyingSecurityTitle).toBe("Common Stock");
+			expect(option.underlyingShares).toBe(20000);
+			expect(option.conversionOrExercisePrice).toBe(15);
+			expect(option.pricePerShare).toBe(15); // Blank price falls back to the exercise price
+			expect(option.exerciseDate).toBe("2021-06-01");
+			expect(option.expirationDate).toBe("2030-06-01");
+			expect(option.isExerciseAndSell).toBe(false);
+		});
+
+		it("should parse Form 4/A amendment metadata", () => {
+			const xml = `
+				<?xml version="1.0"?>
+				<ownershipDocument>
+					<documentType>4/A</documentType>
+					<periodOfReport>2024-01-15</periodOfReport>
+					<dateOfOriginalSubmission>2024-01-17</dateOfOriginalSubmission>
+					<issuer>
+						<issuerCik>0000320193</issuerCik>
+						<issuerName>Apple Inc.</issuerName>
+						<issuerTradingSymbol>AAPL</issuerTradingSymbol>
+					</issuer>
+					<reportingOwner>
+						<reportingOwnerId>
+							<rptOwnerName>Tim Cook</rptOwnerName>
+						</reportingOwnerId>
+						<reportingOwnerRelationship>
+							<isOfficer>1</isOfficer>
+							<officerTitle>Chief Executive Officer</officerTitle>
+						</reportingOwnerRelationship>
+					</reportingOwner>
+				</ownershipDocument>
+			`;
+
+			const result = parser.parse(xml, "0001234567-24-000009", "2024-01-20");
+
+			expect(result.documentType).toBe("4/A");
+			expect(result.dateOfOriginalSubmission).toBe("2024-01-17");
+			expect(result.transactions).toHaveLength(0);
+		});
+
+		it("should default to an original Form 4 without amendment metadata", () => {
+			const xml = `
+				<ownershipDocument>
+					<issuer>
+						<issuerCik>0000320193</issuerCik>
+						<issuerName>Apple Inc.</issuerName>
+					</issuer>
+					<reportingOwner>
+						<reportingOwnerId>
+							<rptOwnerName>Tim Cook</rptOwnerName>
+						</reportingOwnerId>
+					</reportingOwner>
+				</ownershipDocument>
+			`;
+
+			const result = parser.parse(xml, "0001234567-24-000001", "2024-01-17");
+
+			expect(result.documentType).toBe("4");
+			expect(result.dateOfOriginalSubmission).toBeUndefined();
+		});
+	});
+	describe("errors", () => {
+		const owner = `
+			<reportingOwner>
+				<reportingOwnerId>
+					<rptOwnerCik>0001234567</rptOwnerCik>
+					<rptOwnerName>Jane Doe</rptOwnerName>
+				</reportingOwnerId>
+			</reportingOwner>
+		`;
+
+		it("should decode entities in issuer names", () => {
+			const xml = `
+				<ownershipDocument>
+					<issuer>
+						<issuerCik>0000200406</issuerCik>
+						<issuerName>JOHNSON &amp; JOHNSON</issuerName>
+					</issuer>
+					${owner}
+				</ownershipDocument>
+			`;
+
+			const result = parser.parse(xml, "0001234567-24-000010", "2024-06-01");
+
+			expect(result.issuer.companyName).toBe("JOHNSON & JOHNSON");
+		});
+
+		it("should report a missing issuer CIK with its field, path and accession", () => {
+			const xml = `
+				<ownershipDocument>
+					<issuer>
+						<issuerName>Test Company</issuerName>
+					</issuer>
+					${owner}
+				</ownershipDocument>
+			`;
+
+			let caught: unknown;
+			try {
+				parser.parse(xml, "0001234567-24-000011", "2024-06-01");
+			} catch (error) {
+				caught = error;
+			}
+
+			expect(caught).toBeInstanceOf(FilingParseError);
+			const parseError = caught as FilingParseError;
+			expect(parseError.accessionNumber).toBe("0001234567-24-000011");
+			expect(parseError.formType).toBe("4");
+			expect(parseError.issues).toEqual([
+				{
+					field: "issuer.cik",
+					path: "/ownershipDocument/issuer/issuerCik",
+					message: "Expected a numeric CIK",
+				},
+			]);
+		});
+
+		it("should report a filing without reporting owners", () => {
+			const xml = `
+				<ownershipDocument>
+					<issuer>
+						<issuerCik>0000012345</issuerCik>
+						<issuerName>Test Company</issuerName>
+					</issuer>
+				</ownershipDocument>
+			`;
+
+			expect(() => parser.parse(xml, "0001234567-24-000012", "2024-06-01")).toThrow(
+				/reportingOwners at \/ownershipDocument\/reportingOwner: Expected at least one reporting owner/,
+			);
+		});
+
+		it("should report malformed XML as a parse error", () => {
+			expect(() =>
+				parser.parse("<ownershipDocument><issuer>", "0001234567-24-000013", "2024-06-01"),
+			).toThrow(FilingParseError);
+		});
+
+		it("should reject documents that are not ownership documents", () => {
+			expect(() =>
+				parser.parse("<html><body>Not found</body></html>", "0001234567-24-000014", "2024-06-01"),
+			).toThrow(/Expected a <ownershipDocument> document/);
+		});
 	});
 });
@@ -1,183 +1,168 @@
-import type { Form4Data, InsiderInfo, IssuerInfo, TransactionInfo } from "./types";
-import { TRANSACTION_CODE_BUY, TRANSACTION_CODE_SELL } from "./types";
+import { labelExerciseAndSell } from "./exercises";
+import {
+	type PriceRange,
+	extract10b51AdoptionDate,
+	extractPriceRange,
+	mentions10b51Plan,
+} from "./footnotes";
+import { OwnershipDocumentParser } from "./ownershipParser";
+import type { Footnote, FootnoteRef, Form4Data, TransactionInfo } from "./types";
+import {
+	FORM_TYPE_4,
+	Form4DataSchema,
+	TRANSACTION_CODE_BUY,
+	TRANSACTION_CODE_SELL,
+	isExerciseCode,
+} from "./types";
+import { type XmlElement, findElements } from "./xml";
 
 /**
- * Simple XML parser for Form 4 documents
- * Avoids external dependencies by using regex-based parsing
+ * Parser for Form 4 (statement of changes in beneficial ownership)
  */
-export class Form4Parser {
+export class Form4Parser extends OwnershipDocumentParser {
 	/**
 	 * Parse Form 4 XML document into structured data
 	 * @param xmlText Form 4 XML string
 	 * @param accessionNumber Filing accession number
 	 * @param filingDate Filing date (ISO string)
 	 * @returns Parsed Form 4 data
+	 * @throws FilingParseError if the document is malformed or misses required fields
 	 */
 	parse(xmlText: string, accessionNumber: string, filingDate: string): Form4Data {
-		// Extract issuer information
-		const issuer = this.parseIssuer(xmlText);
-
-		// Extract reporting owner (insider) information
-		const insider = this.parseInsider(xmlText);
-
-		// Extract transactions (both derivative and non-derivative)
-		const transactions = this.parseTransactions(xmlText);
+		const root = this.parseDocument(xmlText, accessionNumber, FORM_TYPE_4, "ownershipDocument");
+
+		// Form type and, for amendments, the filing date of the original Form 4
+		const documentType = this.read(root, "documentType") || FORM_TYPE_4;
+		const dateOfOriginalSubmission = this.read(
+			root,
+			"dateOfOriginalSubmission",
+			"dateOfOriginalSubmission",
+		);
 
-		return {
+		// Footnotes are document-level; rows reference them by ID
+		const footnotes = this.parseFootnotes(root);
+
+		// Rule 10b5-1(c) checkbox; absent from filings made before the April 2023 form change
+		const aff10b5One =
+			this.read(root, "aff10b5One") === undefined ? undefined : this.readFlag(root, "aff10b5One");
+
+		return this.validate(
+			Form4DataSchema,
+			{
+				accessionNumber,
+				filingDate,
+				documentType,
+				dateOfOriginalSubmission,
+				aff10b5One,
+				issuer: this.parseIssuer(root),
+				reportingOwners: this.parseReportingOwners(root),
+				// Both non-derivative and derivative transactions; sales made alongside an
+				// option exercise are labelled from the filing as a whole
+				transactions: applyPlanCheckbox(
+					labelExerciseAndSell([
+						...this.parseTransactions(
+							root,
+							"nonDerivativeTable/nonDerivativeTransaction",
+							footnotes,
+							false,
+						),
+						...this.parseTransactions(root, "derivativeTable/derivativeTransaction", footnotes, true),
+					]),
+					aff10b5One,
+				),
+				holdings: this.parseHoldings(root),
+				footnotes,
+			},
 			accessionNumber,
-			filingDate,
-			issuer,
-			insider,
-			transactions,
-		};
-	}
-
-	/**
-	 * Parse issuer information from Form 4 XML
-	 */
-	private parseIssuer(xml: string): IssuerInfo {
-		const cik = this.extractText(xml, "issuerCik") || "";
-		const companyName = this.extractText(xml, "issuerName") || "";
-		const ticker = this.extractText(xml, "issuerTradingSymbol");
-
-		return {
-			cik: cik.replace(/^0+/, ""), // Remove leading zeros
-			companyName,
-			ticker: ticker || undefined,
-		};
-	}
-
-	/**
-	 * Parse reporting owner (insider) information from Form 4 XML
-	 */
-	private parseInsider(xml: string): InsiderInfo {
-		const name = this.extractText(xml, "rptOwnerName") || "";
-		const title = this.extractText(xml, "officerTitle");
-
-		// Parse relationship flags
-		const isDirector = this.extractText(xml, "isDirector") === "1";
-		const isOfficer = this.extractText(xml, "isOfficer") === "1";
-		const isTenPercentOwner = this.extractText(xml, "isTenPercentOwner") === "1";
-		const isOther = this.extractText(xml, "isOther") === "1";
-
-		return {
-			name,
-			title: title || undefined,
-			isDirector,
-			isOfficer,
-			isTenPercentOwner,
-			isOther,
-		};
-	}
-
-	/**
-	 * Parse transactions from Form 4 XML (both derivative and non-derivative)
-	 */
-	private parseTransactions(xml: string): TransactionInfo[] {
-		const transactions: TransactionInfo[] = [];
-
-		// Parse non-derivative transactions
-		const nonDerivTransactions = this.extractNonDerivativeTransactions(xml);
-		transactions.push(...nonDerivTransactions);
-
-		// Parse derivative transactions
-		const derivTransactions = this.extractDerivativeTransactions(xml);
-		transactions.push(...derivTransactions);
-
-		return transactions;
-	}
-
-	/**
-	 * Extract non-derivative transactions
-	 */
-	private extractNonDerivativeTransactions(xml: string): TransactionInfo[] {
-		const transactions: TransactionInfo[] = [];
-		const tableMatch = xml.match(
-			/<nonDerivativeTable>([\s\S]*?)<\/nonDerivativeTable>/i,
+			documentType,
 		);
-
-		if (!tableMatch) return transactions;
-
-		const tableXml = tableMatch[1];
-		const txRegex = /<nonDerivativeTransaction>([\s\S]*?)<\/nonDerivativeTransaction>/gi;
-		const txMatches = tableXml.matchAll(txRegex);
-
-		for (const match of txMatches) {
-			const txXml = match[1];
-			const transaction = this.parseTransactionElement(txXml);
-			if (transaction) {
-				transactions.push(transaction);
-			}
-		}
-
-		return transactions;
 	}
 
 	/**
-	 * Extract derivative transactions
+	 * Parse the buy, sell and exercise rows of one transaction table
 	 */
-	private extractDerivativeTransactions(xml: string): TransactionInfo[] {
-		const transactions: TransactionInfo[] = [];
-		const tableMatch = xml.match(/<derivativeTable>([\s\S]*?)<\/derivativeTable>/i);
-
-		if (!tableMatch) return transactions;
-
-		const tableXml = tableMatch[1];
-		const txRegex = /<derivativeTransaction>([\s\S]*?)<\/derivativeTransaction>/gi;
-		const txMatches = tableXml.matchAll(txRegex);
-
-		for (const match of txMatches) {
-			const txXml = match[1];
-			const transaction = this.parseTransactionElement(txXml);
-			if (transaction) {
-				transactions.push(transaction);
-			}
-		}
-
-		return transactions;
+	private parseTransactions(
+		root: XmlElement,
+		rowPath: string,
+		footnotes: Footnote[],
+		isDerivative: boolean,
+	): TransactionInfo[] {
+		return findElements(root, rowPath)
+			.map((row) => this.parseTransactionElement(row, footnotes, isDerivative))
+			.filter((tx): tx is TransactionInfo => tx !== null);
 	}
 
 	/**
 	 * Parse a single transaction element
+	 * Exercise rows (M/X) are kept so same-day sales can be labelled exercise-and-sell
 	 */
-	private parseTransactionElement(txXml: string): TransactionInfo | null {
+	private parseTransactionElement(
+		row: XmlElement,
+		footnotes: Footnote[],
+		isDerivative: boolean,
+	): TransactionInfo | null {
 		// Extract transaction code
-		const transactionCode = this.extractText(txXml, "transactionCode");
+		const transactionCode = this.read(row, "transactionCoding/transactionCode");
 
-		// Filter to only P (purchase) and S (sale) transactions
+		// Filter to P (purchase), S (sale) and exercise transactions
 		if (
 			!transactionCode ||
-			(transactionCode !== TRANSACTION_CODE_BUY && transactionCode !== TRANSACTION_CODE_SELL)
+			(transactionCode !== TRANSACTION_CODE_BUY &&
+				transactionCode !== TRANSACTION_CODE_SELL &&
+				!isExerciseCode(transactionCode))
 		) {
 			return null;
 		}
 
 		// Extract transaction date
-		const transactionDate = this.extractText(txXml, "transactionDate");
+		const transactionDate = this.read(row, "transactionDate");
 		if (!transactionDate) return null;
 
-		// Extract shares and price
-		const sharesStr = this.extractText(txXml, "transactionShares");
-		const priceStr = this.extractText(txXml, "transactionPricePerShare");
-
-		if (!sharesStr || !priceStr) return null;
-
-		const shares = Number.parseFloat(sharesStr);
-		const price = Number.parseFloat(priceStr);
-
-		if (Number.isNaN(shares) || Number.isNaN(price)) return null;
+		// Derivative rows also describe the option or convertible and its underlying shares
+		const conversionOrExercisePrice = isDerivative
+			? (this.readNumber(row, "conversionOrExercisePrice") ?? undefined)
+			: undefined;
+
+		// Extract shares
+		const shares = this.readNumber(row, "transactionAmounts/transactionShares");
+		if (shares === null) return null;
+
+		// Resolve every footnote the row references; any of them can state the 10b5-1 plan
+		// and when it was adopted
+		const footnoteRefs = this.extractFootnoteRefs(row, footnotes);
+		const is10b51 = footnoteRefs.some((ref) => mentions10b51Plan(ref.text));
+		const planAdoptionDate = footnoteRefs
+			.map((ref) => extract10b51AdoptionDate(ref.text))
+			.find((date) => date !== undefined);
+
+		// Multi-lot trades give the weighted-average price, with the range usually footnoted on it
+		const priceRange = findPriceRange(footnoteRefs);
+
+		// Exercises often leave the price blank (or footnoted); fall back to the exercise price.
+		// A purchase or sale without a price is estimated from its range, or kept as priceUnknown.
+		const reportedPrice = this.readNumber(row, "transactionAmounts/transactionPricePerShare");
+		let price: number;
+		let priceUnknown = false;
+		let isPriceEstimated = false;
+		if (isExerciseCode(transactionCode)) {
+			price = reportedPrice ?? conversionOrExercisePrice ?? 0;
+		} else if (reportedPrice) {
+			price = reportedPrice;
+		} else if (priceRange) {
+			price = Number(((priceRange.low + priceRange.high) / 2).toFixed(4));
+			isPriceEstimated = true;
+		} else {
+			price = 0;
+			priceUnknown = true;
+		}
 
 		// Extract post-transaction shares
-		const postSharesStr = this.extractText(txXml, "sharesOwnedFollowingTransaction");
-		const postShares = postSharesStr ? Number.parseFloat(postSharesStr) : 0;
+		const postShares =
+			this.readNumber(row, "postTransactionAmounts/sharesOwnedFollowingTransaction") ?? 0;
 
-		// Determine if direct ownership
-		const ownershipCode = this.extractText(txXml, "directOrIndirectOwnership");
-		const isDirectOwnership = ownershipCode === "D";
-
-		// Check for 10b5-1 plan in footnotes
-		const footnoteId = this.extractAttribute(txXml, "footnoteId");
-		const is10b51 = this.check10b51InFootnotes(txXml, footnoteId);
+		// Direct ownership, or the vehicle (trust, spouse, LLC) holding the shares
+		const { isDirectOwnership, natureOfOwnership, ownershipVehicle } =
+			this.parseOwnershipNature(row);
 
 		return {
 			transactionDate,
@@ -185,59 +170,62 @@ export class Form4Parser {
 			shares,
 			pricePerShare: price,
 			transactionValue: shares * price,
+			priceLow: priceRange?.low,
+			priceHigh: priceRange?.high,
+			priceUnknown,
+			isPriceEstimated,
 			postTransactionShares: postShares,
 			isDirectOwnership,
+			natureOfOwnership,
+			ownershipVehicle,
 			is10b51,
+			planAdoptionDate,
+			footnotes: footnoteRefs,
+			securityTitle: this.read(row, "securityTitle"),
+			isDerivative,
+			underlyingSecurityTitle: isDerivative
+				? this.read(row, "underlyingSecurity/underlyingSecurityTitle")
+				: undefined,
+			underlyingShares: isDerivative
+				? (this.readNumber(row, "underlyingSecurity/underlyingSecurityShares") ?? undefined)
+				: undefined,
+			conversionOrExercisePrice,
+			exerciseDate: isDerivative ? this.readDate(row, "exerciseDate") : undefined,
+			expirationDate: isDerivative ? this.readDate(row, "expirationDate") : undefined,
+			isExerciseAndSell: false, // Set once every row of the filing is known
 		};
 	}
+}
 
-	/**
-	 * Check if transaction is under a 10b5-1 plan by looking at footnotes
-	 */
-	private check10b51InFootnotes(xml: string, footnoteId: string | null): boolean {
-		if (!footnoteId) return false;
-
-		// Look for footnote content
-		const footnoteRegex = new RegExp(
-			`<footnote[^>]*id=["']${footnoteId}["'][^>]*>([\\s\\S]*?)<\\/footnote>`,
-			"i",
-		);
-		const match = xml.match(footnoteRegex);
-
-		if (!match) return false;
-
-		const footnoteText = match[1].toLowerCase();
-		return footnoteText.includes("10b5-1") || footnoteText.includes("10b5");
-	}
-
-	/**
-	 * Extract text content from an XML tag
-	 */
-	private extractText(xml: string, tagName: string): string | null {
-		// Try <tagName><value>text</value></tagName> format first (common in Form 4)
-		const valueRegex = new RegExp(
-			`<${tagName}[^>]*>\\s*<value>([\\s\\S]*?)<\\/value>\\s*<\/${tagName}>`,
-			"i",
-		);
-		let match = xml.match(valueRegex);
-
-		if (match) return match[1].trim();
-
-		// Try direct <tagName>text</tagName> format
-		const directRegex = new RegExp(`<${tagName}[^>]*>([\\s\\S]*?)<\/${tagName}>`, "i");
-		match = xml.match(directRegex);
+/**
+ * Find the price range of a row's weighted-average price
+ * Footnotes on the price field come first; some filers attach the range to the row instead
+ */
+function findPriceRange(footnoteRefs: FootnoteRef[]): PriceRange | undefined {
+	const ordered = [
+		...footnoteRefs.filter((ref) => ref.field === "transactionPricePerShare"),
+		...footnoteRefs.filter((ref) => ref.field !== "transactionPricePerShare"),
+	];
 
-		return match ? match[1].trim() : null;
-	}
+	return ordered.map((ref) => extractPriceRange(ref.text)).find((range) => range !== undefined);
+}
 
-	/**
-	 * Extract attribute value from an XML tag
-	 */
-	private extractAttribute(xml: string, attrName: string): string | null {
-		const regex = new RegExp(`${attrName}=["']([^"']+)["']`, "i");
-		const match = xml.match(regex);
-		return match ? match[1] : null;
-	}
+/**
+ * Apply the filing's Rule 10b5-1(c) checkbox to its rows
+ * The box says some transaction in the filing was made under a plan. When footnotes single out
+ * the plan trades they already carry is10b51; when none do, every purchase and sale is a plan trade.
+ */
+function applyPlanCheckbox(
+	transactions: TransactionInfo[],
+	aff10b5One: boolean | undefined,
+): TransactionInfo[] {
+	if (!aff10b5One || transactions.some((tx) => tx.is10b51)) return transactions;
+
+	return transactions.map((tx) =>
+		tx.transactionCode === TRANSACTION_CODE_BUY || tx.transactionCode === TRANSACTION_CODE_SELL
+			? { ...tx, is10b51: true }
+			: tx,
+	);
 }
 
 /**
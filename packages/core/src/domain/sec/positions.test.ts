@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { getForm3Positions, getForm4Positions } from "./positions";
+import type { Form3Data, Form4Data, HoldingInfo, TransactionInfo } from "./types";
+
+function tx(
+	transactionDate: string,
+	postTransactionShares: number,
+	overrides: Partial<TransactionInfo> = {},
+): TransactionInfo {
+	return {
+		transactionDate,
+		transactionCode: "S",
+		shares: 1000,
+		pricePerShare: 50,
+		transactionValue: 50000,
+		priceUnknown: false,
+		isPriceEstimated: false,
+		postTransactionShares,
+		isDirectOwnership: true,
+		ownershipVehicle: "direct",
+		is10b51: false,
+		footnotes: [],
+		securityTitle: "Common Stock",
+		isDerivative: false,
+		isExerciseAndSell: false,
+		...overrides,
+	};
+}
+
+function holding(shares: number, overrides: Partial<HoldingInfo> = {}): HoldingInfo {
+	return {
+		securityTitle: "Common Stock",
+		shares,
+		isDirectOwnership: false,
+		natureOfOwnership: "By Trust",
+		ownershipVehicle: "trust",
+		isDerivative: false,
+		...overrides,
+	};
+}
+
+function form4(transactions: TransactionInfo[], holdings: HoldingInfo[]): Form4Data {
+	return {
+		accessionNumber: "0001234567-24-000001",
+		filingDate: "2024-05-03T00:00:00.000Z",
+		documentType: "4",
+		issuer: { cik: "320193", companyName: "Apple Inc.", ticker: "AAPL" },
+		reportingOwners: [
+			{
+				name: "Cook Timothy D",
+				isDirector: true,
+				isOfficer: true,
+				isTenPercentOwner: false,
+				isOther: false,
+			},
+		],
+		transactions,
+		holdings,
+		footnotes: [],
+	};
+}
+
+describe("getForm4Positions", () => {
+	it("should combine transaction rows and holding rows", () => {
+		const positions = getForm4Positions(form4([tx("2024-05-01", 90000)], [holding(25000)]));
+
+		expect(positions).toEqual([
+			{
+				securityTitle: "Common Stock",
+				ownershipVehicle: "direct",
+				isDirectOwnership: true,
+				natureOfOwnership: undefined,
+				isDerivative: false,
+				underlyingSecurityTitle: undefined,
+				shares: 90000,
+				asOfDate: "2024-05-01",
+				source: "transaction",
+			},
+			{
+				securityTitle: "Common Stock",
+				ownershipVehicle: "trust",
+				isDirectOwnership: false,
+				natureOfOwnership: "By Trust",
+				isDerivative: false,
+				underlyingSecurityTitle: undefined,
+				shares: 25000,
+				asOfDate: "2024-05-03",
+				source: "holding",
+			},
+		]);
+	});
+
+	it("should keep the amount after the latest trade of a security", () => {
+		const positions = getForm4Positions(
+			form4([tx("2024-05-02", 80000), tx("2024-05-01", 90000), tx("2024-05-02", 75000)], []),
+		);
+
+		expect(positions).toHaveLength(1);
+		expect(positions[0].shares).toBe(75000);
+		expect(positions[0].asOfDate).toBe("2024-05-02");
+	});
+
+	it("should track each security and ownership vehicle separately", () => {
+		const positions = getForm4Positions(
+			form4(
+				[
+					tx("2024-05-01", 90000),
+					tx("2024-05-01", 40000, {
+						isDirectOwnership: false,
+						natureOfOwnership: "By Spouse",
+						ownershipVehicle: "spouse",
+					}),
+					tx("2024-05-01", 20000, {
+						transactionCode: "M",
+						securityTitle: "Stock Option (Right to Buy)",
+						isDerivative: true,
+						underlyingSecurityTitle: "Common Stock",
+					}),
+				],
+				[],
+			),
+		);
+
+		expect(
+			positions.map((position) => [position.securityTitle, position.ownershipVehicle]),
+		).toEqual([
+			["Common Stock", "direct"],
+			["Common Stock", "spouse"],
+			["Stock Option (Right to Buy)", "direct"],
+		]);
+	});
+
+	it("should skip transaction rows without a security title", () => {
+		const positions = getForm4Positions(
+			form4([tx("2024-05-01", 90000, { securityTitle: undefined })], []),
+		);
+
+		expect(positions).toEqual([]);
+	});
+});
+
+describe("getForm3Positions", () => {
+	it("should date holdings at the event that made the filer an insider", () => {
+		const form3Data: Form3Data = {
+			accessionNumber: "0001234567-24-000002",
+			filingDate: "2024-01-12T00:00:00.000Z",
+			documentType: "3",
+			periodOfReport: "2024-01-02",
+			noSecuritiesOwned: false,
+			issuer: { cik: "320193", companyName: "Apple Inc.", ticker: "AAPL" },
+			reportingOwners: [
+				{
+					name: "Doe Jane",
+					isDirector: true,
+					isOfficer: false,
+					isTenPercentOwner: false,
+					isOther: false,
+				},
+			],
+			holdings: [
+				holding(10000, {
+					isDirectOwnership: true,
+					natureOfOwnership: undefined,
+					ownershipVehicle: "direct",
+				}),
+			],
+		};
+
+		expect(getForm3Positions(form3Data)).toEqual([
+			expect.objectContaining({ shares: 10000, asOfDate: "2024-01-02", source: "initial" }),
+		]);
+	});
+});
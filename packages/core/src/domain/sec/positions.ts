@@ -0,0 +1,97 @@
+import type { Form3Data, Form4Data, HoldingInfo, TransactionInfo } from "./types";
+
+// Where a position's share count was reported
+export const POSITION_SOURCE_TRANSACTION = "transaction"; // Shares owned following a Form 4 transaction
+export const POSITION_SOURCE_HOLDING = "holding"; // Form 4 holding row (no transaction)
+export const POSITION_SOURCE_INITIAL = "initial"; // Form 3 holding row
+
+export type PositionSource =
+	| typeof POSITION_SOURCE_TRANSACTION
+	| typeof POSITION_SOURCE_HOLDING
+	| typeof POSITION_SOURCE_INITIAL;
+
+/**
+ * Holding of one security in one ownership vehicle, as reported on a filing
+ */
+export interface ReportedPosition {
+	securityTitle: string;
+	ownershipVehicle: string; // "direct", or the normalized nature of ownership
+	isDirectOwnership: boolean;
+	natureOfOwnership?: string;
+	isDerivative: boolean;
+	underlyingSecurityTitle?: string; // Derivative positions only
+	shares: number; // Shares owned; underlying shares for derivative holding rows
+	asOfDate: string; // Trade date for transaction rows, otherwise the filing's date
+	source: PositionSource;
+}
+
+/**
+ * Positions reported on a Form 4: shares owned following each transaction, and holding rows
+ * A security traded several times keeps the amount after its latest trade (document order
+ * breaks ties, as filers list same-day trades in execution order)
+ */
+export function getForm4Positions(form4Data: Form4Data): ReportedPosition[] {
+	const filingDate = form4Data.filingDate.split("T")[0];
+
+	return latestPerKey([
+		...form4Data.transactions.filter((tx) => tx.securityTitle).map(fromTransaction),
+		...form4Data.holdings.map((holding) =>
+			fromHolding(holding, filingDate, POSITION_SOURCE_HOLDING),
+		),
+	]);
+}
+
+/**
+ * Positions reported on a Form 3, as of the date the filer became an insider
+ */
+export function getForm3Positions(form3Data: Form3Data): ReportedPosition[] {
+	return latestPerKey(
+		form3Data.holdings.map((holding) =>
+			fromHolding(holding, form3Data.periodOfReport, POSITION_SOURCE_INITIAL),
+		),
+	);
+}
+
+function fromTransaction(tx: TransactionInfo): ReportedPosition {
+	return {
+		securityTitle: tx.securityTitle as string,
+		ownershipVehicle: tx.ownershipVehicle,
+		isDirectOwnership: tx.isDirectOwnership,
+		natureOfOwnership: tx.natureOfOwnership,
+		isDerivative: tx.isDerivative,
+		underlyingSecurityTitle: tx.underlyingSecurityTitle,
+		shares: tx.postTransactionShares,
+		asOfDate: tx.transactionDate,
+		source: POSITION_SOURCE_TRANSACTION,
+	};
+}
+
+function fromHolding(holding: HoldingInfo, asOfDate: string, source: PositionSource): ReportedPosition {
+	return {
+		securityTitle: holding.securityTitle,
+		ownershipVehicle: holding.ownershipVehicle,
+		isDirectOwnership: holding.isDirectOwnership,
+		natureOfOwnership: holding.natureOfOwnership,
+		isDerivative: holding.isDerivative,
+		underlyingSecurityTitle: holding.underlyingSecurityTitle,
+		shares: holding.shares,
+		asOfDate,
+		source,
+	};
+}
+
+/**
+ * Keep one position per key: the latest as-of date, later rows winning ties
+ */
+function latestPerKey(positions: ReportedPosition[]): ReportedPosition[] {
+	const byKey = new Map<string, ReportedPosition>();
+	for (const position of positions) {
+		// Positions are tracked per insider, security and ownership vehicle
+		const key = `${position.securityTitle}|${position.ownershipVehicle}`;
+		const existing = byKey.get(key);
+		if (!existing || position.asOfDate >= existing.asOfDate) {
+			byKey.set(key, position);
+		}
+	}
+	return [...byKey.values()];
+}
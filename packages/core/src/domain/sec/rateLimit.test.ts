@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { EdgarThrottledError } from "./errors";
+import { LocalRateLimiter, getBackoffDelay, parseRetryAfter } from "./rateLimit";
+
+describe("getBackoffDelay", () => {
+	it("should double the delay ceiling with each attempt", () => {
+		const max = () => 0.999;
+
+		expect(getBackoffDelay(0, 500, 30_000, max)).toBe(499);
+		expect(getBackoffDelay(3, 500, 30_000, max)).toBe(3996);
+	});
+
+	it("should cap the delay and apply jitter", () => {
+		expect(getBackoffDelay(10, 500, 30_000, () => 0.999)).toBe(29_970);
+		expect(getBackoffDelay(10, 500, 30_000, () => 0.5)).toBe(15_000);
+		expect(getBackoffDelay(10, 500, 30_000, () => 0)).toBe(0);
+	});
+});
+
+describe("parseRetryAfter", () => {
+	const now = new Date("2024-06-03T14:00:00Z");
+
+	it("should read a delay in seconds", () => {
+		expect(parseRetryAfter("120", now)).toBe(120_000);
+	});
+
+	it("should read an HTTP date", () => {
+		expect(parseRetryAfter("Mon, 03 Jun 2024 14:00:30 GMT", now)).toBe(30_000);
+		expect(parseRetryAfter("Mon, 03 Jun 2024 13:00:00 GMT", now)).toBe(0);
+	});
+
+	it("should return undefined for a missing or invalid header", () => {
+		expect(parseRetryAfter(null, now)).toBeUndefined();
+		expect(parseRetryAfter("soon", now)).toBeUndefined();
+	});
+});
+
+describe("LocalRateLimiter", () => {
+	it("should let a burst through up to capacity without waiting", async () => {
+		const limiter = new LocalRateLimiter({ ratePerSecond: 10, capacity: 3 });
+		const started = Date.now();
+
+		for (let i = 0; i < 3; i++) {
+			await limiter.acquire();
+		}
+
+		expect(Date.now() - started).toBeLessThan(50);
+	});
+
+	it("should wait for a token once the bucket is empty", async () => {
+		const limiter = new LocalRateLimiter({ ratePerSecond: 20, capacity: 1 });
+		await limiter.acquire();
+		const started = Date.now();
+
+		await limiter.acquire();
+
+		expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+	});
+
+	it("should refuse requests while paused", async () => {
+		const limiter = new LocalRateLimiter();
+		const until = new Date(Date.now() + 60_000);
+		await limiter.pause(until);
+
+		await expect(limiter.acquire()).rejects.toBeInstanceOf(EdgarThrottledError);
+		await expect(limiter.acquire()).rejects.toMatchObject({ pausedUntil: until });
+	});
+});
@@ -0,0 +1,144 @@
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { pauseRateLimitBucket, takeRateLimitToken } from "../../sql/queries/ingestion";
+import { EdgarThrottledError } from "./errors";
+
+// SEC fair access policy: at most 10 requests per second across all of our machines
+export const SEC_REQUESTS_PER_SECOND = 10;
+
+/**
+ * Request budget shared by the callers of an API, with a circuit breaker
+ * acquire() resolves when a request may be sent; pause() stops every caller until a time
+ */
+export interface RateLimiter {
+	/**
+	 * Wait for a request slot
+	 * @throws EdgarThrottledError while the circuit breaker is open
+	 */
+	acquire(): Promise<void>;
+
+	/**
+	 * Open the circuit breaker until a time
+	 */
+	pause(until: Date): Promise<void>;
+}
+
+export interface RateLimiterOptions {
+	ratePerSecond?: number; // Sustained request rate (default 10)
+	capacity?: number; // Largest burst (default: one second of requests)
+}
+
+/**
+ * Token bucket for a single process (scripts and tests)
+ */
+export class LocalRateLimiter implements RateLimiter {
+	private readonly ratePerSecond: number;
+	private readonly capacity: number;
+	private tokens: number;
+	private refilledAt = Date.now();
+	private pausedUntil: Date | null = null;
+
+	constructor(options: RateLimiterOptions = {}) {
+		this.ratePerSecond = options.ratePerSecond ?? SEC_REQUESTS_PER_SECOND;
+		this.capacity = options.capacity ?? this.ratePerSecond;
+		this.tokens = this.capacity;
+	}
+
+	async acquire(): Promise<void> {
+		throwIfPaused(this.pausedUntil);
+
+		// Same reservation scheme as the Postgres bucket: take a token now, wait off any deficit
+		const now = Date.now();
+		this.tokens =
+			Math.min(this.capacity, this.tokens + ((now - this.refilledAt) / 1000) * this.ratePerSecond) -
+			1;
+		this.refilledAt = now;
+
+		if (this.tokens < 0) {
+			await sleep((-this.tokens / this.ratePerSecond) * 1000);
+		}
+	}
+
+	async pause(until: Date): Promise<void> {
+		if (!this.pausedUntil || until > this.pausedUntil) {
+			this.pausedUntil = until;
+		}
+	}
+}
+
+/**
+ * Token bucket stored in Postgres, shared by concurrent Lambda invocations and scripts
+ * Each acquire() is one atomic upsert that refills the bucket and takes a token
+ */
+export class PostgresRateLimiter implements RateLimiter {
+	private db: PgDatabase<any, any, any>;
+	private readonly key: string;
+	private readonly ratePerSecond: number;
+	private readonly capacity: number;
+
+	constructor(db: PgDatabase<any, any, any>, key = "sec-edgar", options: RateLimiterOptions = {}) {
+		this.db = db;
+		this.key = key;
+		this.ratePerSecond = options.ratePerSecond ?? SEC_REQUESTS_PER_SECOND;
+		this.capacity = options.capacity ?? this.ratePerSecond;
+	}
+
+	async acquire(): Promise<void> {
+		const { waitMs, pausedUntil } = await takeRateLimitToken(
+			this.db,
+			this.key,
+			this.ratePerSecond,
+			this.capacity,
+		);
+		throwIfPaused(pausedUntil);
+
+		if (waitMs > 0) {
+			await sleep(waitMs);
+		}
+	}
+
+	async pause(until: Date): Promise<void> {
+		await pauseRateLimitBucket(this.db, this.key, until);
+	}
+}
+
+/**
+ * Delay before a retry: full-jitter exponential backoff
+ * @param attempt Retry number, starting at 0
+ * @param random Source of randomness in [0, 1)
+ */
+export function getBackoffDelay(
+	attempt: number,
+	baseDelayMs: number,
+	maxDelayMs: number,
+	random: () => number = Math.random,
+): number {
+	return Math.floor(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | null, now = new Date()): number | undefined {
+	if (!header) return undefined;
+
+	const trimmed = header.trim();
+	if (/^\d+$/.test(trimmed)) {
+		return Number(trimmed) * 1000;
+	}
+
+	const date = new Date(trimmed);
+	if (Number.isNaN(date.getTime())) return undefined;
+
+	return Math.max(0, date.getTime() - now.getTime());
+}
+
+function throwIfPaused(pausedUntil: Date | null): void {
+	if (pausedUntil && pausedUntil > new Date()) {
+		throw new EdgarThrottledError(pausedUntil);
+	}
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+	getSubmissionsFilePath,
+	getSubmissionsPath,
+	parseSubmissions,
+	parseSubmissionsFile,
+} from "./submissions";
+
+const SUBMISSIONS = {
+	cik: "320193",
+	entityType: "operating",
+	name: "Apple Inc.",
+	tickers: ["AAPL"],
+	exchanges: ["Nasdaq"],
+	filings: {
+		recent: {
+			accessionNumber: ["0000320193-24-000081", "0001140361-24-034544", "0000320193-24-000069"],
+			filingDate: ["2024-08-02", "2024-07-31", "2024-05-03"],
+			reportDate: ["2024-06-29", "2024-07-29", "2024-03-30"],
+			form: ["10-Q", "4", "10-Q"],
+			primaryDocument: [
+				"aapl-20240629.htm",
+				"xslF345X05/form4.xml",
+				"aapl-20240330.htm",
+			],
+		},
+		files: [
+			{
+				name: "CIK0000320193-submissions-001.json",
+				filingCount: 1195,
+				filingFrom: "1994-01-26",
+				filingTo: "2014-01-06",
+			},
+		],
+	},
+};
+
+describe("getSubmissionsPath", () => {
+	it("should pad the CIK to ten digits", () => {
+		expect(getSubmissionsPath("320193")).toBe("/submissions/CIK0000320193.json");
+		expect(getSubmissionsPath("0000320193")).toBe("/submissions/CIK0000320193.json");
+	});
+
+	it("should build continuation file paths", () => {
+		expect(getSubmissionsFilePath(SUBMISSIONS.filings.files[0])).toBe(
+			"/submissions/CIK0000320193-submissions-001.json",
+		);
+	});
+});
+
+describe("parseSubmissions", () => {
+	it("should turn the recent column arrays into filings", () => {
+		const submissions = parseSubmissions(SUBMISSIONS);
+
+		expect(submissions.cik).toBe("320193");
+		expect(submissions.companyName).toBe("Apple Inc.");
+		expect(submissions.tickers).toEqual(["AAPL"]);
+		expect(submissions.filings).toHaveLength(3);
+		expect(submissions.filings[1]).toEqual({
+			accessionNumber: "0001140361-24-034544",
+			filingDate: "2024-07-31",
+			formType: "4",
+			primaryDocument: "xslF345X05/form4.xml",
+		});
+	});
+
+	it("should list continuation files", () => {
+		const submissions = parseSubmissions(SUBMISSIONS);
+
+		expect(submissions.files).toEqual(SUBMISSIONS.filings.files);
+	});
+
+	it("should accept issuers without continuation files or tickers", () => {
+		const submissions = parseSubmissions({
+			cik: 1234567,
+			name: "Private Co",
+			filings: {
+				recent: { accessionNumber: [], filingDate: [], form: [] },
+			},
+		});
+
+		expect(submissions.cik).toBe("1234567");
+		expect(submissions.tickers).toEqual([]);
+		expect(submissions.filings).toEqual([]);
+		expect(submissions.files).toEqual([]);
+	});
+
+	it("should reject JSON without the submissions layout", () => {
+		expect(() => parseSubmissions({ message: "Not Found" })).toThrow(
+			"Unexpected EDGAR submissions JSON",
+		);
+	});
+});
+
+describe("parseSubmissionsFile", () => {
+	it("should read the column arrays at the top level", () => {
+		const filings = parseSubmissionsFile({
+			accessionNumber: ["0001181431-13-061845"],
+			filingDate: ["2013-12-03"],
+			form: ["4/A"],
+			primaryDocument: [""],
+		});
+
+		expect(filings).toEqual([
+			{
+				accessionNumber: "0001181431-13-061845",
+				filingDate: "2013-12-03",
+				formType: "4/A",
+				primaryDocument: undefined,
+			},
+		]);
+	});
+});
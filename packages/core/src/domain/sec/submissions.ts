@@ -0,0 +1,92 @@
+import { z } from "zod";
+import type { IssuerSubmissions, SubmissionFiling, SubmissionsFileRef } from "./types";
+
+// Column arrays of a submissions block: index i of every array describes the same filing
+const SubmissionColumnsSchema = z.object({
+	accessionNumber: z.array(z.string()),
+	filingDate: z.array(z.string()),
+	form: z.array(z.string()),
+	primaryDocument: z.array(z.string()).optional(),
+});
+
+const SubmissionsSchema = z.object({
+	cik: z.union([z.string(), z.number()]),
+	name: z.string(),
+	tickers: z.array(z.string()).default([]),
+	filings: z.object({
+		recent: SubmissionColumnsSchema,
+		files: z
+			.array(
+				z.object({
+					name: z.string(),
+					filingCount: z.number(),
+					filingFrom: z.string(),
+					filingTo: z.string(),
+				}),
+			)
+			.default([]),
+	}),
+});
+
+/**
+ * Path of an issuer's submissions JSON on data.sec.gov
+ * @param cik CIK with or without leading zeros
+ */
+export function getSubmissionsPath(cik: string): string {
+	return `/submissions/CIK${cik.replace(/^0+/, "").padStart(10, "0")}.json`;
+}
+
+/**
+ * Path of a submissions continuation file on data.sec.gov
+ */
+export function getSubmissionsFilePath(file: SubmissionsFileRef): string {
+	return `/submissions/${file.name}`;
+}
+
+/**
+ * Parse an issuer's submissions JSON (CIK##########.json)
+ * The most recent filings (at least a year, up to 1,000) are inline under filings.recent;
+ * older ones are listed in continuation files under filings.files
+ * @throws Error if the JSON doesn't have the submissions layout
+ */
+export function parseSubmissions(json: unknown): IssuerSubmissions {
+	const result = SubmissionsSchema.safeParse(json);
+	if (!result.success) {
+		throw new Error(`Unexpected EDGAR submissions JSON: ${result.error.issues[0]?.message}`);
+	}
+
+	const { cik, name, tickers, filings } = result.data;
+	return {
+		cik: String(cik).replace(/^0+/, ""),
+		companyName: name,
+		tickers,
+		filings: toFilings(filings.recent),
+		files: filings.files,
+	};
+}
+
+/**
+ * Parse a submissions continuation file (CIK##########-submissions-###.json)
+ * Continuation files hold the column arrays at the top level
+ * @throws Error if the JSON doesn't have the column layout
+ */
+export function parseSubmissionsFile(json: unknown): SubmissionFiling[] {
+	const result = SubmissionColumnsSchema.safeParse(json);
+	if (!result.success) {
+		throw new Error(`Unexpected EDGAR submissions file: ${result.error.issues[0]?.message}`);
+	}
+
+	return toFilings(result.data);
+}
+
+/**
+ * Turn column arrays into one entry per filing
+ */
+function toFilings(columns: z.infer<typeof SubmissionColumnsSchema>): SubmissionFiling[] {
+	return columns.accessionNumber.map((accessionNumber, index) => ({
+		accessionNumber,
+		filingDate: columns.filingDate[index],
+		formType: columns.form[index],
+		primaryDocument: columns.primaryDocument?.[index] || undefined,
+	}));
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { getCoolingOffEnd, getDaysSincePlanAdoption } from "./tradingPlans";
+
+describe("getCoolingOffEnd", () => {
+	it("should give directors and officers 90 days and others 30", () => {
+		expect(getCoolingOffEnd("2023-05-15", true)).toBe("2023-08-13");
+		expect(getCoolingOffEnd("2023-05-15", false)).toBe("2023-06-14");
+	});
+});
+
+describe("getDaysSincePlanAdoption", () => {
+	it("should count calendar days from adoption to the trade", () => {
+		expect(getDaysSincePlanAdoption("2023-12-01", "2024-01-15")).toBe(45);
+		expect(getDaysSincePlanAdoption("2024-03-09", "2024-03-11")).toBe(2);
+	});
+});
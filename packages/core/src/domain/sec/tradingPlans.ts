@@ -0,0 +1,32 @@
+/**
+ * Rule 10b5-1 trading plan timing
+ * Since the SEC's 2023 amendments, trades under a newly adopted plan must wait out a cooling-off period
+ */
+
+// Directors and officers: 90 days after adoption (up to 120 days once the next 10-Q/10-K is due;
+// we don't track periodic report dates, so the 90-day minimum is used)
+export const COOLING_OFF_DAYS_DIRECTOR_OFFICER = 90;
+
+// Everyone else subject to the rule
+export const COOLING_OFF_DAYS_OTHER = 30;
+
+/**
+ * Last day of a plan's cooling-off period; trades on or before it are early
+ * @param adoptionDate ISO date string
+ * @param isDirectorOrOfficer Whether the plan holder is a director or officer of the issuer
+ */
+export function getCoolingOffEnd(adoptionDate: string, isDirectorOrOfficer: boolean): string {
+	const days = isDirectorOrOfficer ? COOLING_OFF_DAYS_DIRECTOR_OFFICER : COOLING_OFF_DAYS_OTHER;
+	const end = new Date(`${adoptionDate}T00:00:00Z`);
+	end.setUTCDate(end.getUTCDate() + days);
+	return end.toISOString().split("T")[0];
+}
+
+/**
+ * Whole days from a plan's adoption to a trade
+ */
+export function getDaysSincePlanAdoption(adoptionDate: string, transactionDate: string): number {
+	const adopted = Date.parse(`${adoptionDate}T00:00:00Z`);
+	const traded = Date.parse(`${transactionDate}T00:00:00Z`);
+	return Math.round((traded - adopted) / (24 * 60 * 60 * 1000));
+}
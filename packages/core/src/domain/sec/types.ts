@@ -1,8 +1,20 @@
 import { z } from "zod";
 
+// Ownership form types
+export const FORM_TYPE_3 = "3";
+export const FORM_TYPE_3_AMENDMENT = "3/A";
+export const FORM_TYPE_4 = "4";
+export const FORM_TYPE_4_AMENDMENT = "4/A";
+export const FORM_TYPE_144 = "144";
+
+// A Form 144 notice covers sales within 90 days of filing
+export const FORM_144_VALIDITY_DAYS = 90;
+
 // SEC Form 4 transaction codes we care about
 export const TRANSACTION_CODE_BUY = "P"; // Purchase
 export const TRANSACTION_CODE_SELL = "S"; // Sale
+export const TRANSACTION_CODE_EXERCISE = "M"; // Exercise or conversion of a derivative security
+export const TRANSACTION_CODE_EXERCISE_IN_THE_MONEY = "X"; // Exercise of an in/at-the-money derivative
 
 // SEC filing entry from RSS/search results
 export const SECFilingEntrySchema = z.object({
@@ -12,22 +24,97 @@ export const SECFilingEntrySchema = z.object({
 	companyName: z.string(),
 	formType: z.string(), // Should be "4" for Form 4
 	filingUrl: z.string(), // URL to the filing page
+	issuerCik: z.string().optional(), // From the feed's issuer entry for the filing, when the page lists one
 });
 
 export type SECFilingEntry = z.infer<typeof SECFilingEntrySchema>;
 
+// Newest filing a previous run saw on a live feed
+export interface FeedCursor {
+	accessionNumber: string;
+	filedAt: Date; // Feed timestamp of that filing
+}
+
+// Filings read from a live feed since a cursor
+export interface FeedFetchResult {
+	filings: SECFilingEntry[]; // Newest first, deduplicated
+	gapClosed: boolean; // False if paging stopped before reaching the cursor
+	pagesFetched: number;
+}
+
+// Row from an EDGAR daily-index/full-index form.idx file
+export const FormIndexEntrySchema = z.object({
+	formType: z.string(), // e.g., "4", "4/A", "10-K"
+	companyName: z.string(),
+	cik: z.string(), // CIK of the filer listed on this row (issuer or reporting owner)
+	filingDate: z.string(), // ISO date string (YYYY-MM-DD)
+	accessionNumber: z.string(), // Derived from the file name
+	fileName: z.string(), // e.g., "edgar/data/320193/0000320193-24-000001.txt"
+});
+
+export type FormIndexEntry = z.infer<typeof FormIndexEntrySchema>;
+
+// EDGAR index flavours: daily-index has one file per business day, full-index one per quarter
+export type FormIndexSource = "daily-index" | "full-index";
+
+// Filing listed in an issuer's EDGAR submissions JSON (data.sec.gov/submissions)
+export interface SubmissionFiling {
+	accessionNumber: string;
+	filingDate: string; // ISO date string (YYYY-MM-DD)
+	formType: string; // e.g. "4", "4/A", "10-K"
+	primaryDocument?: string; // As listed; ownership forms point at the XSL-rendered copy
+}
+
+// Older filings of an issuer, in a continuation file listed under filings.files
+export interface SubmissionsFileRef {
+	name: string; // e.g. "CIK0000320193-submissions-001.json"
+	filingCount: number;
+	filingFrom: string; // ISO date of the oldest filing in the file
+	filingTo: string; // ISO date of the newest filing in the file
+}
+
+// Parsed submissions JSON of one issuer
+export interface IssuerSubmissions {
+	cik: string; // Leading zeros removed
+	companyName: string;
+	tickers: string[];
+	filings: SubmissionFiling[]; // Newest first, as listed
+	files: SubmissionsFileRef[]; // Continuation files not yet read
+}
+
+// How a filing's primary XML document was located
+// index-json / index-htm: read from the filing index; guessed: conventional file name fallback
+export type PrimaryDocumentStrategy = "index-json" | "index-htm" | "guessed";
+
+// Primary XML document of a filing
+export interface PrimaryDocument {
+	url: string;
+	fileName: string; // e.g. "wf-form4_170512345678901.xml"
+	strategy: PrimaryDocumentStrategy;
+}
+
+// Primary document fetched for processing
+export interface FilingDocument {
+	xml: string;
+	document: PrimaryDocument;
+}
+
+// Central Index Key without leading zeros
+const CikSchema = z.string().regex(/^[1-9]\d{0,9}$/, "Expected a numeric CIK");
+
 // Parsed issuer information from Form 4 XML
 export const IssuerInfoSchema = z.object({
-	cik: z.string(),
+	cik: CikSchema,
 	ticker: z.string().optional(),
-	companyName: z.string(),
+	companyName: z.string().min(1, "Expected an issuer name"),
 });
 
 export type IssuerInfo = z.infer<typeof IssuerInfoSchema>;
 
 // Parsed insider (reporting owner) information from Form 4 XML
 export const InsiderInfoSchema = z.object({
-	name: z.string(),
+	name: z.string().min(1, "Expected a reporting owner name"),
+	cik: CikSchema.optional(), // Reporting owner CIK (leading zeros removed)
 	title: z.string().optional(),
 	isDirector: z.boolean().default(false),
 	isOfficer: z.boolean().default(false),
@@ -37,32 +124,168 @@ export const InsiderInfoSchema = z.object({
 
 export type InsiderInfo = z.infer<typeof InsiderInfoSchema>;
 
+// Footnote from the document-level <footnotes> block
+export const FootnoteSchema = z.object({
+	id: z.string(), // e.g. "F1"
+	text: z.string(),
+});
+
+export type Footnote = z.infer<typeof FootnoteSchema>;
+
+// Footnote attached to one field of a table row
+export const FootnoteRefSchema = z.object({
+	footnoteId: z.string(),
+	field: z.string(), // Element the <footnoteId> annotates (e.g. "transactionPricePerShare"), or the row tag
+	text: z.string(),
+});
+
+export type FootnoteRef = z.infer<typeof FootnoteRefSchema>;
+
 // Parsed transaction from Form 4 XML
 export const TransactionInfoSchema = z.object({
 	transactionDate: z.string(), // ISO date string
 	transactionCode: z.string(), // e.g., "P" or "S"
 	shares: z.number(),
-	pricePerShare: z.number(),
-	transactionValue: z.number(),
+	pricePerShare: z.number(), // Reported (often weighted-average) price; 0 when priceUnknown
+	transactionValue: z.number(), // shares * price; 0 when priceUnknown
+	priceLow: z.number().optional(), // Lowest price of a multi-lot trade, from the price footnote
+	priceHigh: z.number().optional(), // Highest price of a multi-lot trade, from the price footnote
+	priceUnknown: z.boolean(), // Purchase or sale reported without a price (blank or zero) and no range to estimate it from
+	isPriceEstimated: z.boolean(), // Price left blank and estimated at the midpoint of the footnoted range
 	postTransactionShares: z.number(),
 	isDirectOwnership: z.boolean(),
-	is10b51: z.boolean(), // Parsed from footnotes
-	footnotes: z.string().optional(),
+	natureOfOwnership: z.string().optional(), // Indirect rows: the filer's description, e.g. "By Trust"
+	ownershipVehicle: z.string(), // "direct", or the normalized nature of ownership (see getOwnershipVehicle)
+	is10b51: z.boolean(), // Rule 10b5-1 plan trade: stated in the row's footnotes, or the filing's checkbox
+	planAdoptionDate: z.string().optional(), // ISO date the 10b5-1 plan was adopted, from the row's footnotes
+	footnotes: z.array(FootnoteRefSchema), // Every footnote referenced by the row, per field
+	securityTitle: z.string().optional(), // e.g. "Common Stock" or "Stock Option (Right to Buy)"
+	isDerivative: z.boolean(), // Row from the derivativeTable
+	underlyingSecurityTitle: z.string().optional(), // Derivative rows only
+	underlyingShares: z.number().optional(), // Derivative rows only
+	conversionOrExercisePrice: z.number().optional(), // Derivative rows only
+	exerciseDate: z.string().optional(), // ISO date string, derivative rows only
+	expirationDate: z.string().optional(), // ISO date string, derivative rows only
+	isExerciseAndSell: z.boolean(), // Sale on the same day as an option exercise in the filing
 });
 
 export type TransactionInfo = z.infer<typeof TransactionInfoSchema>;
 
+// Holding row from a Form 3 or Form 4 (nonDerivativeHolding / derivativeHolding)
+export const HoldingInfoSchema = z.object({
+	securityTitle: z.string(),
+	shares: z.number(), // Shares owned; underlying shares for derivative holdings
+	isDirectOwnership: z.boolean(),
+	natureOfOwnership: z.string().optional(), // Indirect holdings: the filer's description, e.g. "By Trust"
+	ownershipVehicle: z.string(), // "direct", or the normalized nature of ownership
+	isDerivative: z.boolean(),
+	underlyingSecurityTitle: z.string().optional(), // Derivative holdings only
+	conversionOrExercisePrice: z.number().optional(), // Derivative holdings only
+	exerciseDate: z.string().optional(), // ISO date string, derivative holdings only
+	expirationDate: z.string().optional(), // ISO date string, derivative holdings only
+});
+
+export type HoldingInfo = z.infer<typeof HoldingInfoSchema>;
+
 // Complete parsed Form 4 document
 export const Form4DataSchema = z.object({
 	accessionNumber: z.string(),
 	filingDate: z.string(),
+	documentType: z.string(), // "4" or "4/A"
+	dateOfOriginalSubmission: z.string().optional(), // Filing date of the amended Form 4 (4/A only)
+	aff10b5One: z.boolean().optional(), // Rule 10b5-1(c) checkbox (filings since April 2023; undefined when absent)
 	issuer: IssuerInfoSchema,
-	insider: InsiderInfoSchema,
+	// All reporting owners, in document order
+	reportingOwners: z.array(InsiderInfoSchema).min(1, "Expected at least one reporting owner"),
 	transactions: z.array(TransactionInfoSchema),
+	holdings: z.array(HoldingInfoSchema), // Securities reported without a transaction
+	footnotes: z.array(FootnoteSchema), // Document-level footnotes, in document order
 });
 
 export type Form4Data = z.infer<typeof Form4DataSchema>;
 
+// Complete parsed Form 3 (initial statement of beneficial ownership)
+export const Form3DataSchema = z.object({
+	accessionNumber: z.string(),
+	filingDate: z.string(),
+	documentType: z.string(), // "3" or "3/A"
+	periodOfReport: z.string(), // Date of the event that made the filer an insider
+	noSecuritiesOwned: z.boolean(),
+	issuer: IssuerInfoSchema,
+	// All reporting owners, in document order
+	reportingOwners: z.array(InsiderInfoSchema).min(1, "Expected at least one reporting owner"),
+	holdings: z.array(HoldingInfoSchema),
+});
+
+export type Form3Data = z.infer<typeof Form3DataSchema>;
+
+// Parsed Form 144 (notice of proposed sale of restricted or control securities)
+export const Form144DataSchema = z.object({
+	accessionNumber: z.string(),
+	filingDate: z.string(),
+	issuer: z.object({
+		cik: CikSchema,
+		companyName: z.string().min(1, "Expected an issuer name"),
+	}),
+	// Person for whose account the securities are to be sold
+	sellerName: z.string().min(1, "Expected a seller name"),
+	relationships: z.array(z.string()), // e.g. ["Officer", "Director"]
+	securityClassTitle: z.string(),
+	sharesToBeSold: z.number(),
+	aggregateMarketValue: z.number(),
+	approxSaleDate: z.string().optional(), // ISO date string
+	brokerName: z.string().optional(),
+	exchangeName: z.string().optional(),
+	noticeDate: z.string().optional(), // ISO date string
+});
+
+export type Form144Data = z.infer<typeof Form144DataSchema>;
+
+/**
+ * Check if a transaction code is a derivative exercise (M or X)
+ */
+export function isExerciseCode(transactionCode: string): boolean {
+	return (
+		transactionCode === TRANSACTION_CODE_EXERCISE ||
+		transactionCode === TRANSACTION_CODE_EXERCISE_IN_THE_MONEY
+	);
+}
+
+/**
+ * Check if a form type is an initial statement (Form 3 or 3/A)
+ */
+export function isForm3Type(formType: string): boolean {
+	return formType.trim().toUpperCase().replace(/\/A$/, "") === FORM_TYPE_3;
+}
+
+/**
+ * Check if a form type is a Form 144 notice (or its amendment)
+ */
+export function isForm144Type(formType: string): boolean {
+	return formType.trim().toUpperCase().replace(/\/A$/, "") === FORM_TYPE_144;
+}
+
+/**
+ * Check if a form type is an amendment (e.g. "4/A")
+ */
+export function isAmendmentFormType(formType: string): boolean {
+	return formType.trim().toUpperCase().endsWith("/A");
+}
+
+/**
+ * Pick the reporting owner a joint filing is attributed to
+ * Prefers an executive, then any officer, then a director (natural persons whose role drives
+ * the score) over entities such as funds; falls back to the first listed owner
+ */
+export function selectPrimaryOwner(owners: InsiderInfo[]): InsiderInfo | undefined {
+	return (
+		owners.find((owner) => isExecutiveRole(owner.title)) ||
+		owners.find((owner) => owner.isOfficer) ||
+		owners.find((owner) => owner.isDirector) ||
+		owners[0]
+	);
+}
+
 // Title-based role detection for scoring multipliers
 export const EXECUTIVE_TITLES = [
 	"CEO",
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { XmlSyntaxError, elementValue, findElement, findElements, parseXml } from "./xml";
+
+describe("parseXml", () => {
+	it("should decode entities and CDATA", () => {
+		const root = parseXml(`
+			<?xml version="1.0"?>
+			<issuer>
+				<issuerName>Johnson &amp; Johnson</issuerName>
+				<remarks><![CDATA[Price < $10 & rising]]></remarks>
+			</issuer>
+		`);
+
+		expect(elementValue(findElement(root, "issuerName"))).toBe("Johnson & Johnson");
+		expect(elementValue(findElement(root, "remarks"))).toBe("Price < $10 & rising");
+	});
+
+	it("should use local names for namespaced elements and attributes", () => {
+		const root = parseXml(`
+			<edgarSubmission xmlns="http://www.sec.gov/edgar/rule144" xmlns:com="http://www.sec.gov/edgar/common">
+				<com:issuerCik com:type="number">0000320193</com:issuerCik>
+			</edgarSubmission>
+		`);
+
+		const cik = findElement(root, "issuerCik");
+		expect(root.name).toBe("edgarSubmission");
+		expect(elementValue(cik)).toBe("0000320193");
+		expect(cik?.attributes.type).toBe("number");
+	});
+
+	it("should unwrap <value> children and index repeated siblings in paths", () => {
+		const root = parseXml(`
+			<ownershipDocument>
+				<reportingOwner><rptOwnerName>First</rptOwnerName></reportingOwner>
+				<reportingOwner><rptOwnerName>Second</rptOwnerName></reportingOwner>
+				<periodOfReport><value> 2024-01-15 </value><footnoteId id="F1"/></periodOfReport>
+			</ownershipDocument>
+		`);
+
+		const owners = findElements(root, "reportingOwner");
+		expect(owners.map((owner) => owner.path)).toEqual([
+			"/ownershipDocument/reportingOwner[1]",
+			"/ownershipDocument/reportingOwner[2]",
+		]);
+		expect(elementValue(findElement(root, "periodOfReport"))).toBe("2024-01-15");
+		expect(findElement(root, "periodOfReport")?.path).toBe("/ownershipDocument/periodOfReport");
+	});
+
+	it("should throw XmlSyntaxError with a position for malformed documents", () => {
+		expect(() => parseXml("<ownershipDocument><issuer></ownershipDocument>")).toThrow(
+			XmlSyntaxError,
+		);
+	});
+});
@@ -0,0 +1,145 @@
+import { SaxesParser } from "saxes";
+
+/**
+ * Element of a parsed XML document
+ * Names are local names: namespace prefixes (e.g. "com:" in Form 144) are dropped so
+ * lookups work whether or not a filer agent declares a default namespace
+ */
+export interface XmlElement {
+	name: string;
+	path: string; // Location for error messages, e.g. "/ownershipDocument/reportingOwner[2]/reportingOwnerId"
+	attributes: Record<string, string>; // Keyed by local name
+	children: XmlElement[];
+	text: string; // Direct text and CDATA content with entities decoded (untrimmed)
+}
+
+/**
+ * Thrown when a document is not well-formed XML
+ */
+export class XmlSyntaxError extends Error {
+	readonly line: number;
+	readonly column: number;
+
+	constructor(message: string, line: number, column: number) {
+		super(message);
+		this.name = "XmlSyntaxError";
+		this.line = line;
+		this.column = column;
+	}
+}
+
+/**
+ * Parse an XML document into an element tree using a streaming, namespace-aware parser
+ * @param xml XML document (leading whitespace and byte order marks are ignored)
+ * @returns The root element
+ * @throws XmlSyntaxError if the document is not well-formed
+ */
+export function parseXml(xml: string): XmlElement {
+	const parser = new SaxesParser({ xmlns: true });
+	const stack: XmlElement[] = [];
+	let root: XmlElement | undefined;
+
+	parser.on("opentag", (tag) => {
+		const element: XmlElement = {
+			name: tag.local,
+			path: "",
+			attributes: Object.fromEntries(
+				Object.values(tag.attributes).map((attribute) => [attribute.local, attribute.value]),
+			),
+			children: [],
+			text: "",
+		};
+
+		const parent = stack[stack.length - 1];
+		if (parent) {
+			parent.children.push(element);
+		} else {
+			root = element;
+		}
+
+		stack.push(element);
+	});
+	parser.on("closetag", () => {
+		stack.pop();
+	});
+	const appendText = (text: string) => {
+		const current = stack[stack.length - 1];
+		if (current) current.text += text;
+	};
+	parser.on("text", appendText);
+	parser.on("cdata", appendText);
+
+	try {
+		// An XML declaration must be the first thing in a document; EDGAR documents sometimes
+		// arrive with leading whitespace
+		parser.write(xml.replace(/^[\s﻿]+/, "")).close();
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Malformed XML";
+		throw new XmlSyntaxError(message, parser.line, parser.column);
+	}
+
+	if (!root) {
+		throw new XmlSyntaxError("Document has no root element", parser.line, parser.column);
+	}
+
+	assignPaths(root, `/${root.name}`);
+	return root;
+}
+
+/**
+ * Get the direct children of an element with a name
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+	return element.children.filter((child) => child.name === name);
+}
+
+/**
+ * Find the first element at a slash-separated path below an element (e.g. "issuer/issuerCik")
+ */
+export function findElement(element: XmlElement, path: string): XmlElement | undefined {
+	return findElements(element, path)[0];
+}
+
+/**
+ * Find every element at a slash-separated path below an element
+ * e.g. findElements(root, "nonDerivativeTable/nonDerivativeTransaction")
+ */
+export function findElements(element: XmlElement, path: string): XmlElement[] {
+	let matches = [element];
+	for (const name of path.split("/")) {
+		matches = matches.flatMap((match) => childElements(match, name));
+	}
+	return matches;
+}
+
+/**
+ * Read an element's value, unwrapping the <value> child ownership documents use for data fields
+ * @returns Trimmed text, or undefined when the element is missing or empty
+ */
+export function elementValue(element: XmlElement | undefined): string | undefined {
+	if (!element) return undefined;
+
+	const [valueElement] = childElements(element, "value");
+	const text = (valueElement ?? element).text.trim();
+	return text || undefined;
+}
+
+/**
+ * Give every element an XPath-like location, indexing siblings that share a name
+ */
+function assignPaths(element: XmlElement, path: string): void {
+	element.path = path;
+
+	const counts = new Map<string, number>();
+	for (const child of element.children) {
+		counts.set(child.name, (counts.get(child.name) || 0) + 1);
+	}
+
+	const seen = new Map<string, number>();
+	for (const child of element.children) {
+		const index = (seen.get(child.name) || 0) + 1;
+		seen.set(child.name, index);
+		const segment = (counts.get(child.name) || 0) > 1 ? `${child.name}[${index}]` : child.name;
+		assignPaths(child, `${path}/${segment}`);
+	}
+}
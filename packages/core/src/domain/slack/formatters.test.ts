@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
-import type { Insider, Issuer, Transaction } from "../../sql/schema";
-import { formatUrgentAlert, formatDailyDigest } from "./formatters";
+import type { Form144Notice, Insider, Issuer, Transaction } from "../../sql/schema";
+import { formatAmendmentCorrection, formatUrgentAlert, formatDailyDigest } from "./formatters";
 
 describe("Slack Formatters", () => {
 	describe("formatUrgentAlert", () => {
@@ -16,8 +16,29 @@ describe("Slack Formatters", () => {
 			transactionValue: "1505000",
 			postTransactionShares: "500000",
 			isDirectOwnership: true,
+			natureOfOwnership: null,
+			ownershipVehicle: "direct",
 			is10b51: false,
 			signalScore: "5.5",
+			supersededByAccession: null,
+			supersededAt: null,
+			securityTitle: "Common Stock",
+			isDerivative: false,
+			underlyingSecurityTitle: null,
+			underlyingShares: null,
+			conversionOrExercisePrice: null,
+			exerciseDate: null,
+			expirationDate: null,
+			isExerciseAndSell: false,
+			tradingPlanId: null,
+			planAdoptionDate: null,
+			isDuringCoolingOff: false,
+			filingDelayDays: 1,
+			isLateFiling: false,
+			priceLow: null,
+			priceHigh: null,
+			priceUnknown: false,
+			isPriceEstimated: false,
 			createdAt: new Date("2024-01-16"),
 			updatedAt: new Date("2024-01-16"),
 		};
@@ -34,8 +55,13 @@ describe("Slack Formatters", () => {
 		const mockInsider: Insider = {
 			id: "insider-1",
 			issuerId: "issuer-1",
+			personId: "person-1",
 			name: "Tim Cook",
 			title: "Chief Executive Officer",
+			isDirector: true,
+			isOfficer: true,
+			isTenPercentOwner: false,
+			isOther: false,
 			createdAt: new Date("2024-01-01"),
 			updatedAt: new Date("2024-01-01"),
 		};
@@ -76,6 +102,14 @@ describe("Slack Formatters", () => {
 			expect(deltaText).toContain("25.5%");
 		});
 
+		it("should name joint filers when provided", () => {
+			const fund = { ...mockInsider, id: "insider-2", name: "Cook Family Fund LP", title: null };
+			const message = formatUrgentAlert(mockTransaction, mockIssuer, mockInsider, undefined, [fund]);
+
+			const messageText = JSON.stringify(message.blocks);
+			expect(messageText).toContain("Joint filing with Cook Family Fund LP");
+		});
+
 		it("should indicate 10b5-1 plan when applicable", () => {
 			const tenB51Transaction = { ...mockTransaction, is10b51: true };
 			const message = formatUrgentAlert(tenB51Transaction, mockIssuer, mockInsider);
@@ -84,6 +118,62 @@ describe("Slack Formatters", () => {
 			expect(messageText).toContain("10b5-1");
 		});
 
+		it("should show the plan adoption date and flag cooling-off trades", () => {
+			const planTrade = {
+				...mockTransaction,
+				is10b51: true,
+				planAdoptionDate: "2023-12-01",
+				isDuringCoolingOff: true,
+			};
+			const message = formatUrgentAlert(planTrade, mockIssuer, mockInsider);
+
+			const messageText = JSON.stringify(message.blocks);
+			expect(messageText).toContain("adopted 45 days earlier");
+			expect(messageText).toContain("cooling-off period");
+		});
+
+		it("should show the price range and unknown prices", () => {
+			const multiLot = { ...mockTransaction, priceLow: "149.80", priceHigh: "151.20" };
+			expect(JSON.stringify(formatUrgentAlert(multiLot, mockIssuer, mockInsider).blocks)).toContain(
+				"(range $149.80–$151.20)",
+			);
+
+			const noPrice = { ...mockTransaction, price: "0", transactionValue: "0", priceUnknown: true };
+			const messageText = JSON.stringify(formatUrgentAlert(noPrice, mockIssuer, mockInsider).blocks);
+			expect(messageText).toContain("price not reported");
+			expect(messageText).toContain("*Total Value:*\\nUnknown");
+		});
+
+		it("should show the ownership vehicle of indirect holdings", () => {
+			const trustSale = {
+				...mockTransaction,
+				isDirectOwnership: false,
+				natureOfOwnership: "By Trust",
+				ownershipVehicle: "trust",
+			};
+			const message = formatUrgentAlert(trustSale, mockIssuer, mockInsider, -20);
+
+			const messageText = JSON.stringify(message.blocks);
+			expect(messageText).toContain("Indirect (By Trust)");
+			expect(messageText).toContain("shares held (By Trust)");
+		});
+
+		it("should flag late filings", () => {
+			const lateFiling = { ...mockTransaction, filingDelayDays: 5, isLateFiling: true };
+			const message = formatUrgentAlert(lateFiling, mockIssuer, mockInsider);
+
+			const messageText = JSON.stringify(message.blocks);
+			expect(messageText).toContain("Filed late: 5 business days after the trade");
+		});
+
+		it("should label exercise-and-sell sales", () => {
+			const exerciseSale = { ...mockTransaction, transactionCode: "S", isExerciseAndSell: true };
+			const message = formatUrgentAlert(exerciseSale, mockIssuer, mockInsider);
+
+			const messageText = JSON.stringify(message.blocks);
+			expect(messageText).toContain("Exercise-and-sell");
+		});
+
 		it("should include SEC filing link", () => {
 			const message = formatUrgentAlert(mockTransaction, mockIssuer, mockInsider);
 
@@ -109,6 +199,88 @@ describe("Slack Formatters", () => {
 		});
 	});
 
+	describe("formatAmendmentCorrection", () => {
+		const original: Transaction = {
+			id: "tx-123",
+			filingAccession: "0001234567-24-000001",
+			insiderId: "insider-1",
+			issuerId: "issuer-1",
+			transactionDate: "2024-01-15",
+			transactionCode: "P",
+			shares: "10000",
+			price: "150.50",
+			transactionValue: "1505000",
+			postTransactionShares: "500000",
+			isDirectOwnership: true,
+			natureOfOwnership: null,
+			ownershipVehicle: "direct",
+			is10b51: false,
+			signalScore: "5.5",
+			supersededByAccession: "0001234567-24-000009",
+			supersededAt: new Date("2024-01-20"),
+			createdAt: new Date("2024-01-16"),
+			updatedAt: new Date("2024-01-20"),
+		};
+
+		const issuer: Issuer = {
+			id: "issuer-1",
+			cik: "0000320193",
+			ticker: "AAPL",
+			companyName: "Apple Inc.",
+			createdAt: new Date("2024-01-01"),
+			updatedAt: new Date("2024-01-01"),
+		};
+
+		it("should reference the amendment and list the amended transactions", () => {
+			const replacement: Transaction = {
+				...original,
+				id: "tx-456",
+				filingAccession: "0001234567-24-000009",
+				shares: "1000",
+				transactionValue: "150500",
+				signalScore: "3.0",
+				supersededByAccession: null,
+				supersededAt: null,
+				securityTitle: "Common Stock",
+				isDerivative: false,
+				underlyingSecurityTitle: null,
+				underlyingShares: null,
+				conversionOrExercisePrice: null,
+				exerciseDate: null,
+				expirationDate: null,
+				isExerciseAndSell: false,
+				tradingPlanId: null,
+				planAdoptionDate: null,
+				isDuringCoolingOff: false,
+				filingDelayDays: 1,
+				isLateFiling: false,
+				priceLow: null,
+				priceHigh: null,
+				priceUnknown: false,
+				isPriceEstimated: false,
+			};
+
+			const message = formatAmendmentCorrection(
+				original,
+				[replacement],
+				issuer,
+				"0001234567-24-000009",
+			);
+
+			expect(message.text).toContain("AAPL");
+			expect(message.text).toContain("0001234567-24-000009");
+			const blocksText = JSON.stringify(message.blocks);
+			expect(blocksText).toContain("10,000 shares");
+			expect(blocksText).toContain("1,000 shares");
+		});
+
+		it("should note when the amendment drops the transaction", () => {
+			const message = formatAmendmentCorrection(original, [], issuer, "0001234567-24-000009");
+
+			expect(JSON.stringify(message.blocks)).toContain("no longer reports this transaction");
+		});
+	});
+
 	describe("formatDailyDigest", () => {
 		const mockTransactionsMap = new Map([
 			[
@@ -126,8 +298,29 @@ describe("Slack Formatters", () => {
 						transactionValue: "1505000",
 						postTransactionShares: "500000",
 						isDirectOwnership: true,
+						natureOfOwnership: null,
+						ownershipVehicle: "direct",
 						is10b51: false,
 						signalScore: "5.5",
+						supersededByAccession: null,
+						supersededAt: null,
+						securityTitle: "Common Stock",
+						isDerivative: false,
+						underlyingSecurityTitle: null,
+						underlyingShares: null,
+						conversionOrExercisePrice: null,
+						exerciseDate: null,
+						expirationDate: null,
+						isExerciseAndSell: false,
+						tradingPlanId: null,
+						planAdoptionDate: null,
+						isDuringCoolingOff: false,
+						filingDelayDays: 1,
+						isLateFiling: false,
+						priceLow: null,
+						priceHigh: null,
+						priceUnknown: false,
+						isPriceEstimated: false,
 						createdAt: new Date("2024-01-16"),
 						updatedAt: new Date("2024-01-16"),
 						issuer: {
@@ -159,8 +352,29 @@ describe("Slack Formatters", () => {
 						transactionValue: "750000",
 						postTransactionShares: "100000",
 						isDirectOwnership: true,
+						natureOfOwnership: null,
+						ownershipVehicle: "direct",
 						is10b51: false,
 						signalScore: "-2.0",
+						supersededByAccession: null,
+						supersededAt: null,
+						securityTitle: "Common Stock",
+						isDerivative: false,
+						underlyingSecurityTitle: null,
+						underlyingShares: null,
+						conversionOrExercisePrice: null,
+						exerciseDate: null,
+						expirationDate: null,
+						isExerciseAndSell: false,
+						tradingPlanId: null,
+						planAdoptionDate: null,
+						isDuringCoolingOff: false,
+						filingDelayDays: 1,
+						isLateFiling: false,
+						priceLow: null,
+						priceHigh: null,
+						priceUnknown: false,
+						isPriceEstimated: false,
 						createdAt: new Date("2024-01-16"),
 						updatedAt: new Date("2024-01-16"),
 						issuer: {
@@ -230,6 +444,41 @@ describe("Slack Formatters", () => {
 			expect(message.text).toContain("0 tickers");
 		});
 
+		it("should list Form 144 proposed sales", () => {
+			const notice: Form144Notice & { issuer: Issuer } = {
+				id: "notice-1",
+				accessionNumber: "0001214156-24-000010",
+				issuerId: "issuer-1",
+				sellerName: "COOK TIMOTHY D",
+				relationship: "Officer",
+				securityClassTitle: "Common",
+				sharesToBeSold: "100000",
+				aggregateMarketValue: "19050000",
+				approxSaleDate: "2024-01-17",
+				filingDate: "2024-01-15",
+				brokerName: null,
+				exchangeName: "NASDAQ",
+				matchedTransactionId: null,
+				matchedAt: null,
+				createdAt: new Date("2024-01-15"),
+				updatedAt: new Date("2024-01-15"),
+				issuer: {
+					id: "issuer-1",
+					cik: "0000320193",
+					ticker: "AAPL",
+					companyName: "Apple Inc.",
+					createdAt: new Date("2024-01-01"),
+					updatedAt: new Date("2024-01-01"),
+				},
+			};
+
+			const message = formatDailyDigest("2024-01-15", new Map(), [notice]);
+
+			const messageText = JSON.stringify(message.blocks);
+			expect(messageText).toContain("Proposed sales (Form 144)");
+			expect(messageText).toContain("COOK TIMOTHY D plans to sell 100,000 shares");
+		});
+
 		it("should limit insiders to top 3 per ticker", () => {
 			// Create a map with 5 transactions for same ticker
 			const manyTransactions = Array.from({ length: 5 }, (_, i) => ({
@@ -244,8 +493,29 @@ describe("Slack Formatters", () => {
 				transactionValue: "100000",
 				postTransactionShares: "10000",
 				isDirectOwnership: true,
+				natureOfOwnership: null,
+				ownershipVehicle: "direct",
 				is10b51: false,
 				signalScore: String(i + 1),
+				supersededByAccession: null,
+				supersededAt: null,
+				securityTitle: "Common Stock",
+				isDerivative: false,
+				underlyingSecurityTitle: null,
+				underlyingShares: null,
+				conversionOrExercisePrice: null,
+				exerciseDate: null,
+				expirationDate: null,
+				isExerciseAndSell: false,
+				tradingPlanId: null,
+				planAdoptionDate: null,
+				isDuringCoolingOff: false,
+				filingDelayDays: 1,
+				isLateFiling: false,
+				priceLow: null,
+				priceHigh: null,
+				priceUnknown: false,
+				isPriceEstimated: false,
 				createdAt: new Date("2024-01-16"),
 				updatedAt: new Date("2024-01-16"),
 				issuer: {
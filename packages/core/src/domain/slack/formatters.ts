@@ -1,7 +1,46 @@
-import type { Insider, Issuer, Transaction } from "../../sql/schema";
+import type { Form144Notice, Insider, Issuer, Transaction } from "../../sql/schema";
 import { formatSignalScore, getScoreEmoji } from "../scoring/rules";
+import { FORM_4_DEADLINE_BUSINESS_DAYS } from "../sec/filingDeadlines";
+import { getDaysSincePlanAdoption } from "../sec/tradingPlans";
 import type { SlackMessage } from "./client";
 
+type PricedTransaction = Pick<
+	Transaction,
+	"price" | "priceLow" | "priceHigh" | "priceUnknown" | "isPriceEstimated" | "transactionValue"
+>;
+
+/**
+ * Format a transaction's price, with the range of a multi-lot trade
+ */
+function formatPrice(transaction: PricedTransaction): string {
+	if (transaction.priceUnknown) return "price not reported";
+
+	const price = `${transaction.isPriceEstimated ? "~" : ""}$${Number(transaction.price).toFixed(2)}`;
+	if (transaction.priceLow === null || transaction.priceHigh === null) return price;
+
+	return `${price} (range $${Number(transaction.priceLow).toFixed(2)}–$${Number(transaction.priceHigh).toFixed(2)})`;
+}
+
+/**
+ * Format a transaction's total value; estimated values are marked with "~"
+ */
+function formatValue(transaction: PricedTransaction): string {
+	if (transaction.priceUnknown) return "Unknown";
+
+	return `${transaction.isPriceEstimated ? "~" : ""}$${Number(transaction.transactionValue).toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+/**
+ * Format how a transaction's shares are owned: "Direct", or the filer's description of the
+ * indirect vehicle ("Indirect (By Trust)")
+ */
+function formatOwnership(
+	transaction: Pick<Transaction, "isDirectOwnership" | "natureOfOwnership">,
+): string {
+	if (transaction.isDirectOwnership) return "Direct";
+	return transaction.natureOfOwnership ? `Indirect (${transaction.natureOfOwnership})` : "Indirect";
+}
+
 /**
  * Format a transaction as an urgent alert message
  */
@@ -10,6 +49,7 @@ export function formatUrgentAlert(
 	issuer: Issuer,
 	insider: Insider,
 	holdingsDeltaPercent?: number,
+	jointFilers: Insider[] = [],
 ): SlackMessage {
 	const scoreEmoji = getScoreEmoji(Number(transaction.signalScore));
 	const formattedScore = formatSignalScore(Number(transaction.signalScore));
@@ -18,11 +58,8 @@ export function formatUrgentAlert(
 
 	// Format values
 	const sharesFormatted = Number(transaction.shares).toLocaleString();
-	const priceFormatted = `$${Number(transaction.price).toFixed(2)}`;
-	const valueFormatted = `$${Number(transaction.transactionValue).toLocaleString(undefined, {
-		minimumFractionDigits: 0,
-		maximumFractionDigits: 0,
-	})}`;
+	const priceFormatted = formatPrice(transaction);
+	const valueFormatted = formatValue(transaction);
 
 	// Build SEC filing URL
 	const accessionNoDashes = transaction.filingAccession.replace(/-/g, "");
@@ -67,35 +104,88 @@ export function formatUrgentAlert(
 				},
 				{
 					type: "mrkdwn",
-					text: `*Ownership:*\n${transaction.isDirectOwnership ? "Direct" : "Indirect"}`,
+					text: `*Ownership:*\n${formatOwnership(transaction)}`,
 				},
 			],
 		},
 	];
 
-	// Add holdings delta if available
+	// Add holdings delta if available (compared within the transaction's ownership vehicle)
 	if (holdingsDeltaPercent !== undefined && holdingsDeltaPercent !== 0) {
 		const deltaSign = holdingsDeltaPercent > 0 ? "+" : "";
 		const deltaEmoji = holdingsDeltaPercent > 0 ? "📈" : "📉";
+		const heldBy = transaction.isDirectOwnership
+			? ""
+			: ` held ${transaction.natureOfOwnership ? `(${transaction.natureOfOwnership})` : "indirectly"}`;
+		blocks.push({
+			type: "context",
+			elements: [
+				{
+					type: "mrkdwn",
+					text: `${deltaEmoji} Holdings changed by *${deltaSign}${holdingsDeltaPercent.toFixed(1)}%* to ${Number(transaction.postTransactionShares).toLocaleString()} shares${heldBy}`,
+				},
+			],
+		});
+	}
+
+	// Name the other reporting owners of a joint filing (the value is shared, not additional)
+	if (jointFilers.length > 0) {
 		blocks.push({
 			type: "context",
 			elements: [
 				{
 					type: "mrkdwn",
-					text: `${deltaEmoji} Holdings changed by *${deltaSign}${holdingsDeltaPercent.toFixed(1)}%* to ${Number(transaction.postTransactionShares).toLocaleString()} shares`,
+					text: `👥 Joint filing with ${jointFilers.map((owner) => owner.name).join(", ")}`,
 				},
 			],
 		});
 	}
 
-	// Add 10b5-1 plan indicator if applicable
+	// Add 10b5-1 plan indicator if applicable, with the plan's age when its adoption date is known
 	if (transaction.is10b51) {
+		const planText = transaction.planAdoptionDate
+			? `ℹ️ This transaction was made pursuant to a Rule 10b5-1 trading plan adopted ${getDaysSincePlanAdoption(transaction.planAdoptionDate, transaction.transactionDate)} days earlier (${transaction.planAdoptionDate})`
+			: "ℹ️ This transaction was made pursuant to a Rule 10b5-1 trading plan";
+		blocks.push({
+			type: "context",
+			elements: [{ type: "mrkdwn", text: planText }],
+		});
+	}
+
+	// Plan trades are not supposed to start until the plan's cooling-off period has passed
+	if (transaction.isDuringCoolingOff) {
+		blocks.push({
+			type: "context",
+			elements: [
+				{
+					type: "mrkdwn",
+					text: "⚠️ Traded during the plan's cooling-off period",
+				},
+			],
+		});
+	}
+
+	// Section 16 gives insiders two business days to report a trade
+	if (transaction.isLateFiling) {
+		blocks.push({
+			type: "context",
+			elements: [
+				{
+					type: "mrkdwn",
+					text: `⏰ Filed late: ${transaction.filingDelayDays} business days after the trade (deadline: ${FORM_4_DEADLINE_BUSINESS_DAYS})`,
+				},
+			],
+		});
+	}
+
+	// Label sales that accompany a same-day option exercise (compensation, not a discretionary sell)
+	if (transaction.isExerciseAndSell) {
 		blocks.push({
 			type: "context",
 			elements: [
 				{
 					type: "mrkdwn",
-					text: "ℹ️ This transaction was made pursuant to a Rule 10b5-1 trading plan",
+					text: "🔁 Exercise-and-sell: shares were sold alongside a same-day option exercise",
 				},
 			],
 		});
@@ -124,6 +214,53 @@ export function formatUrgentAlert(
 	};
 }
 
+/**
+ * Format a threaded correction for an urgent alert whose transaction was replaced by a Form 4/A
+ * @param original Transaction the alert was posted for
+ * @param replacements Active transactions reported by the amendment (empty if it dropped the trade)
+ */
+export function formatAmendmentCorrection(
+	original: Transaction,
+	replacements: Transaction[],
+	issuer: Issuer,
+	amendmentAccession: string,
+): SlackMessage {
+	const tickerDisplay = issuer.ticker || issuer.companyName;
+	const describe = (tx: Transaction) => {
+		const action = tx.transactionCode === "P" ? "bought" : "sold";
+		return `${action} ${Number(tx.shares).toLocaleString()} shares @ ${formatPrice(tx)} (${formatValue(tx)}) on ${tx.transactionDate}, score ${formatSignalScore(Number(tx.signalScore))}`;
+	};
+
+	const fallbackText = `✏️ ${tickerDisplay}: this alert was amended by Form 4/A ${amendmentAccession}`;
+
+	const replacementText =
+		replacements.length > 0
+			? replacements.map((tx) => `• ${describe(tx)}`).join("\n")
+			: "_The amendment no longer reports this transaction._";
+
+	const blocks: Array<Record<string, any>> = [
+		{
+			type: "section",
+			text: {
+				type: "mrkdwn",
+				text: `✏️ *Correction:* this filing was amended by Form 4/A \`${amendmentAccession}\`.\n~${describe(original)}~`,
+			},
+		},
+		{
+			type: "section",
+			text: {
+				type: "mrkdwn",
+				text: `*Amended transactions:*\n${replacementText}`,
+			},
+		},
+	];
+
+	return {
+		text: fallbackText,
+		blocks,
+	};
+}
+
 /**
  * Format daily digest message with transaction summaries
  */
@@ -133,6 +270,7 @@ export function formatDailyDigest(
 		string,
 		Array<Transaction & { issuer: Issuer; insider: Insider }>
 	>,
+	form144Notices: Array<Form144Notice & { issuer: Issuer }> = [],
 ): SlackMessage {
 	const totalTransactions = Array.from(transactionsByTicker.values()).reduce(
 		(sum, txs) => sum + txs.length,
@@ -194,9 +332,14 @@ export function formatDailyDigest(
 		const insiderLines = topInsiders.map((tx) => {
 			const scoreEmoji = getScoreEmoji(Number(tx.signalScore));
 			const action = tx.transactionCode === "P" ? "bought" : "sold";
-			const value = `$${Number(tx.transactionValue).toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
 			const score = formatSignalScore(Number(tx.signalScore));
-			return `${scoreEmoji} ${tx.insider.name} ${action} ${value} worth (score: ${score})`;
+			const label =
+				(tx.isExerciseAndSell ? " [exercise-and-sell]" : "") +
+				(tx.isDuringCoolingOff ? " [10b5-1 cooling-off]" : "");
+			const amount = tx.priceUnknown
+				? `${Number(tx.shares).toLocaleString()} shares (price not reported)`
+				: `${formatValue(tx)} worth`;
+			return `${scoreEmoji} ${tx.insider.name} ${action} ${amount}${label} (score: ${score})`;
 		});
 
 		blocks.push({
@@ -226,6 +369,36 @@ export function formatDailyDigest(
 		});
 	}
 
+	// Proposed sales filed today (leading sell signal, not yet executed)
+	if (form144Notices.length > 0) {
+		const noticeLines = form144Notices.slice(0, 10).map((notice) => {
+			const ticker = notice.issuer.ticker || notice.issuer.companyName;
+			const value = `$${Number(notice.aggregateMarketValue).toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+			const saleDate = notice.approxSaleDate ? ` around ${notice.approxSaleDate}` : "";
+			return `• *${ticker}*: ${notice.sellerName} plans to sell ${Number(notice.sharesToBeSold).toLocaleString()} shares (${value})${saleDate}`;
+		});
+
+		blocks.push({
+			type: "section",
+			text: {
+				type: "mrkdwn",
+				text: `📝 *Proposed sales (Form 144)*\n${noticeLines.join("\n")}`,
+			},
+		});
+
+		if (form144Notices.length > 10) {
+			blocks.push({
+				type: "context",
+				elements: [
+					{
+						type: "mrkdwn",
+						text: `_...and ${form144Notices.length - 10} more notices_`,
+					},
+				],
+			});
+		}
+	}
+
 	return {
 		text: fallbackText,
 		blocks,
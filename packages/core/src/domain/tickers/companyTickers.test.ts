@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { parseCompanyTickers } from "./companyTickers";
+
+describe("parseCompanyTickers", () => {
+	it("should parse company_tickers.json", () => {
+		const text = JSON.stringify({
+			"0": { cik_str: 320193, ticker: "AAPL", title: "Apple Inc." },
+			"1": { cik_str: 1067983, ticker: "BRK-B", title: "BERKSHIRE HATHAWAY INC" },
+			"2": { cik_str: 1067983, ticker: "BRK-A", title: "BERKSHIRE HATHAWAY INC" },
+		});
+
+		expect(parseCompanyTickers(text)).toEqual([
+			{ cik: "320193", ticker: "AAPL", companyName: "Apple Inc.", exchange: null },
+			{ cik: "1067983", ticker: "BRK-B", companyName: "BERKSHIRE HATHAWAY INC", exchange: null },
+			{ cik: "1067983", ticker: "BRK-A", companyName: "BERKSHIRE HATHAWAY INC", exchange: null },
+		]);
+	});
+
+	it("should parse company_tickers_exchange.json by field name", () => {
+		const text = JSON.stringify({
+			fields: ["cik", "name", "ticker", "exchange"],
+			data: [
+				[320193, "Apple Inc.", "AAPL", "Nasdaq"],
+				[1067983, "BERKSHIRE HATHAWAY INC", "BRK.B", "NYSE"],
+				[1067983, "BERKSHIRE HATHAWAY INC", "BRK-B", "NYSE"],
+				[1234567, "Shell Co", null, null],
+			],
+		});
+
+		expect(parseCompanyTickers(text)).toEqual([
+			{ cik: "320193", ticker: "AAPL", companyName: "Apple Inc.", exchange: "Nasdaq" },
+			{ cik: "1067983", ticker: "BRK-B", companyName: "BERKSHIRE HATHAWAY INC", exchange: "NYSE" },
+		]);
+	});
+
+	it("should reject other JSON", () => {
+		expect(() => parseCompanyTickers('["AAPL"]')).toThrow("Unrecognized company tickers file");
+	});
+});
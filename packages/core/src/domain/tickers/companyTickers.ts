@@ -0,0 +1,114 @@
+import { z } from "zod";
+import { normalizeTicker } from "./normalize";
+
+// One CIK/ticker pair from an SEC company tickers file
+export interface CompanyTickerEntry {
+	cik: string; // Without leading zeros
+	ticker: string; // Normalized
+	companyName: string;
+	exchange: string | null; // Only in company_tickers_exchange.json
+}
+
+// company_tickers.json: { "0": { "cik_str": 320193, "ticker": "AAPL", "title": "Apple Inc." }, ... }
+const CompanyTickersSchema = z.record(
+	z.string(),
+	z.object({
+		cik_str: z.union([z.number(), z.string()]),
+		ticker: z.string(),
+		title: z.string(),
+	}),
+);
+
+// company_tickers_exchange.json: { "fields": ["cik", "name", "ticker", "exchange"], "data": [[...]] }
+const CompanyTickersExchangeSchema = z.object({
+	fields: z.array(z.string()),
+	data: z.array(z.array(z.union([z.string(), z.number(), z.null()]))),
+});
+
+/**
+ * Parse an SEC company_tickers.json or company_tickers_exchange.json file
+ * Entries are returned in file order (the SEC lists a company's primary ticker first);
+ * entries without a usable ticker are dropped
+ * @throws Error if the text is not one of the two formats
+ */
+export function parseCompanyTickers(text: string): CompanyTickerEntry[] {
+	const json: unknown = JSON.parse(text);
+
+	const exchangeFormat = CompanyTickersExchangeSchema.safeParse(json);
+	if (exchangeFormat.success) {
+		return parseExchangeFormat(exchangeFormat.data);
+	}
+
+	const tickersFormat = CompanyTickersSchema.safeParse(json);
+	if (tickersFormat.success) {
+		return toEntries(
+			Object.values(tickersFormat.data).map((row) => ({
+				cik: row.cik_str,
+				ticker: row.ticker,
+				companyName: row.title,
+				exchange: null,
+			})),
+		);
+	}
+
+	throw new Error(
+		"Unrecognized company tickers file: expected company_tickers.json or company_tickers_exchange.json",
+	);
+}
+
+function parseExchangeFormat(
+	file: z.infer<typeof CompanyTickersExchangeSchema>,
+): CompanyTickerEntry[] {
+	const column = (name: string) => {
+		const index = file.fields.indexOf(name);
+		if (index === -1) {
+			throw new Error(`Company tickers file is missing the "${name}" field`);
+		}
+		return index;
+	};
+	const cik = column("cik");
+	const name = column("name");
+	const ticker = column("ticker");
+	const exchange = file.fields.indexOf("exchange");
+
+	return toEntries(
+		file.data.map((row) => ({
+			cik: row[cik],
+			ticker: row[ticker],
+			companyName: row[name],
+			exchange: exchange === -1 ? null : row[exchange],
+		})),
+	);
+}
+
+function toEntries(
+	rows: Array<{
+		cik: string | number | null;
+		ticker: string | number | null;
+		companyName: string | number | null;
+		exchange: string | number | null;
+	}>,
+): CompanyTickerEntry[] {
+	const entries: CompanyTickerEntry[] = [];
+	const seen = new Set<string>();
+
+	for (const row of rows) {
+		const cik = String(row.cik ?? "").replace(/^0+/, "");
+		const ticker = normalizeTicker(row.ticker === null ? null : String(row.ticker));
+		if (!cik || !ticker) continue;
+
+		// The same pair can appear twice once class separators are normalized (BRK.B and BRK-B)
+		const key = `${cik}:${ticker}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
+
+		entries.push({
+			cik,
+			ticker,
+			companyName: String(row.companyName ?? ""),
+			exchange: row.exchange === null ? null : String(row.exchange),
+		});
+	}
+
+	return entries;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import type { CompanyTickerEntry } from "./companyTickers";
+import { chooseIssuerTicker, diffTickerSnapshot } from "./history";
+
+function entry(cik: string, ticker: string): CompanyTickerEntry {
+	return { cik, ticker, companyName: "Example Corp", exchange: null };
+}
+
+describe("diffTickerSnapshot", () => {
+	it("should open new pairs and close pairs no longer listed", () => {
+		const open = [
+			{ id: "fb", cik: "1326801", ticker: "FB" },
+			{ id: "aapl", cik: "320193", ticker: "AAPL" },
+		];
+
+		const { toInsert, toClose } = diffTickerSnapshot(open, [
+			entry("1326801", "META"),
+			entry("320193", "AAPL"),
+		]);
+
+		expect(toInsert).toEqual([entry("1326801", "META")]);
+		expect(toClose).toEqual(["fb"]);
+	});
+
+	it("should treat a ticker moving to another CIK as a new pair", () => {
+		const { toInsert, toClose } = diffTickerSnapshot(
+			[{ id: "old", cik: "111", ticker: "XYZ" }],
+			[entry("222", "XYZ")],
+		);
+
+		expect(toInsert).toEqual([entry("222", "XYZ")]);
+		expect(toClose).toEqual(["old"]);
+	});
+});
+
+describe("chooseIssuerTicker", () => {
+	it("should keep a candidate that is a current reference ticker", () => {
+		expect(chooseIssuerTicker("BRK-A", ["BRK-B", "BRK-A"])).toBe("BRK-A");
+	});
+
+	it("should fall back to the primary reference ticker", () => {
+		expect(chooseIssuerTicker("FB", ["META"])).toBe("META");
+		expect(chooseIssuerTicker(null, ["META"])).toBe("META");
+	});
+
+	it("should use the candidate without reference tickers", () => {
+		expect(chooseIssuerTicker("XYZ", [])).toBe("XYZ");
+		expect(chooseIssuerTicker(null, [])).toBeNull();
+	});
+});
@@ -0,0 +1,43 @@
+import type { CompanyTickerEntry } from "./companyTickers";
+
+// A current (open) reference ticker row
+export interface OpenTicker {
+	id: string;
+	cik: string;
+	ticker: string;
+}
+
+/**
+ * Compare a full company tickers snapshot with the current reference rows
+ * Pairs new to the snapshot are opened; current pairs missing from it (renamed, delisted) are closed
+ * @returns Snapshot entries to insert and ids of rows to close
+ */
+export function diffTickerSnapshot(
+	open: OpenTicker[],
+	snapshot: CompanyTickerEntry[],
+): { toInsert: CompanyTickerEntry[]; toClose: string[] } {
+	const openKeys = new Set(open.map((row) => `${row.cik}:${row.ticker}`));
+	const snapshotKeys = new Set(snapshot.map((entry) => `${entry.cik}:${entry.ticker}`));
+
+	return {
+		toInsert: snapshot.filter((entry) => !openKeys.has(`${entry.cik}:${entry.ticker}`)),
+		toClose: open.filter((row) => !snapshotKeys.has(`${row.cik}:${row.ticker}`)).map((row) => row.id),
+	};
+}
+
+/**
+ * Choose the ticker to show for an issuer
+ * A candidate (from a filing, or the issuer's current ticker) is kept when it is one of the
+ * issuer's current reference tickers, so class shares don't flip; otherwise the primary
+ * reference ticker wins. Without reference tickers the candidate is used as is.
+ * @param referenceTickers The CIK's current reference tickers, primary first
+ */
+export function chooseIssuerTicker(
+	candidate: string | null,
+	referenceTickers: string[],
+): string | null {
+	if (referenceTickers.length === 0) return candidate;
+	if (candidate && referenceTickers.includes(candidate)) return candidate;
+
+	return referenceTickers[0];
+}
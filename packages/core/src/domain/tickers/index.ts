@@ -0,0 +1,4 @@
+export * from "./companyTickers";
+export * from "./history";
+export * from "./loader";
+export * from "./normalize";
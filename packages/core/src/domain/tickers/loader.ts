@@ -0,0 +1,145 @@
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import type { Issuer } from "../../sql/schema";
+import {
+	closeIssuerTickers,
+	getCurrentIssuerTickers,
+	getIssuerByTicker,
+	getIssuerTickerSummaries,
+	getReferenceTickerCik,
+	insertIssuerTickers,
+	updateIssuerTicker,
+} from "../../sql/queries/insiders";
+import type { CompanyTickerEntry } from "./companyTickers";
+import { chooseIssuerTicker, diffTickerSnapshot } from "./history";
+import { normalizeTicker } from "./normalize";
+
+// Rows written per statement (stays well under the Postgres bind parameter limit)
+const WRITE_BATCH_SIZE = 1000;
+
+export interface TickerLoadStats {
+	entriesLoaded: number;
+	tickersOpened: number;
+	tickersClosed: number;
+	issuersUpdated: number;
+}
+
+/**
+ * Loads SEC company tickers snapshots into the effective-dated ticker history
+ * and keeps each ingested issuer's current ticker in line with it
+ */
+export class TickerReferenceLoader {
+	private db: PgDatabase<any, any, any>;
+
+	constructor(db: PgDatabase<any, any, any>) {
+		this.db = db;
+	}
+
+	/**
+	 * Apply a full snapshot: open new CIK/ticker pairs and close pairs no longer listed
+	 * @param entries Parsed company tickers file (see parseCompanyTickers)
+	 * @param asOf ISO date string (YYYY-MM-DD) the snapshot was taken
+	 */
+	async load(entries: CompanyTickerEntry[], asOf: string): Promise<TickerLoadStats> {
+		const open = await getCurrentIssuerTickers(this.db);
+		const { toInsert, toClose } = diffTickerSnapshot(open, entries);
+
+		for (let i = 0; i < toClose.length; i += WRITE_BATCH_SIZE) {
+			await closeIssuerTickers(this.db, toClose.slice(i, i + WRITE_BATCH_SIZE), asOf);
+		}
+		for (let i = 0; i < toInsert.length; i += WRITE_BATCH_SIZE) {
+			await insertIssuerTickers(
+				this.db,
+				toInsert.slice(i, i + WRITE_BATCH_SIZE).map((entry) => ({ ...entry, validFrom: asOf })),
+			);
+		}
+
+		// Snapshot order puts each company's primary ticker first
+		const tickersByCik = new Map<string, string[]>();
+		for (const entry of entries) {
+			const tickers = tickersByCik.get(entry.cik) ?? [];
+			tickers.push(entry.ticker);
+			tickersByCik.set(entry.cik, tickers);
+		}
+
+		let issuersUpdated = 0;
+		for (const issuer of await getIssuerTickerSummaries(this.db)) {
+			const ticker = chooseIssuerTicker(
+				normalizeTicker(issuer.ticker),
+				tickersByCik.get(issuer.cik) ?? [],
+			);
+			if (ticker && ticker !== issuer.ticker) {
+				await updateIssuerTicker(this.db, issuer.id, ticker);
+				issuersUpdated++;
+			}
+		}
+
+		const stats = {
+			entriesLoaded: entries.length,
+			tickersOpened: toInsert.length,
+			tickersClosed: toClose.length,
+			issuersUpdated,
+		};
+		console.log("[TickerReferenceLoader] Snapshot loaded:", stats);
+
+		return stats;
+	}
+}
+
+/**
+ * Choose the ticker to store for an issuer seen in a filing
+ * The filing's issuerTradingSymbol is normalized and checked against the reference tickers
+ * @returns The ticker, or undefined to leave the issuer's stored ticker untouched
+ */
+export async function resolveFilingTicker(
+	db: PgDatabase<any, any, any>,
+	cik: string,
+	filingTicker: string | undefined,
+): Promise<string | undefined> {
+	const reference = await getCurrentIssuerTickers(db, cik);
+	const ticker = chooseIssuerTicker(
+		normalizeTicker(filingTicker),
+		reference.map((row) => row.ticker),
+	);
+
+	return ticker ?? undefined;
+}
+
+/**
+ * Find an issuer by any form of a current or former ticker (brk.b, BRK/B, BRK-B)
+ */
+export async function findIssuerByTicker(
+	db: PgDatabase<any, any, any>,
+	ticker: string,
+): Promise<Issuer | null> {
+	const normalized = normalizeTicker(ticker);
+	if (!normalized) return null;
+
+	// Issuers stored before normalization may still hold the filing's spelling
+	return (
+		(await getIssuerByTicker(db, normalized)) ??
+		(normalized === ticker.trim().toUpperCase()
+			? null
+			: await getIssuerByTicker(db, ticker.trim().toUpperCase()))
+	);
+}
+
+/**
+ * Find the CIK behind a ticker, including issuers only known from the reference tickers
+ */
+export async function findCikByTicker(
+	db: PgDatabase<any, any, any>,
+	ticker: string,
+): Promise<string | null> {
+	const issuer = await findIssuerByTicker(db, ticker);
+	if (issuer) return issuer.cik;
+
+	const normalized = normalizeTicker(ticker);
+	return normalized ? getReferenceTickerCik(db, normalized) : null;
+}
+
+/**
+ * Create a ticker reference loader instance
+ */
+export function createTickerReferenceLoader(db: PgDatabase<any, any, any>): TickerReferenceLoader {
+	return new TickerReferenceLoader(db);
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { normalizeTicker } from "./normalize";
+
+describe("normalizeTicker", () => {
+	it("should upper-case and trim tickers", () => {
+		expect(normalizeTicker(" aapl ")).toBe("AAPL");
+	});
+
+	it("should separate class shares with a dash", () => {
+		expect(normalizeTicker("BRK.B")).toBe("BRK-B");
+		expect(normalizeTicker("brk/a")).toBe("BRK-A");
+		expect(normalizeTicker("BRK B")).toBe("BRK-B");
+		expect(normalizeTicker("BRK-B")).toBe("BRK-B");
+	});
+
+	it("should treat blanks and placeholders as no ticker", () => {
+		expect(normalizeTicker(undefined)).toBeNull();
+		expect(normalizeTicker("  ")).toBeNull();
+		expect(normalizeTicker("NONE")).toBeNull();
+		expect(normalizeTicker("n/a")).toBeNull();
+		expect(normalizeTicker("-")).toBeNull();
+	});
+});
@@ -0,0 +1,21 @@
+// Placeholder values filers put in issuerTradingSymbol when the issuer has no listed ticker
+const NO_TICKER_VALUES = new Set(["NONE", "N/A", "NA", "NULL", "-", "--"]);
+
+/**
+ * Normalize a ticker to the SEC company tickers form
+ * Upper case, with class shares separated by '-' (BRK.B, BRK/B and BRK B become BRK-B)
+ * @returns The normalized ticker, or null for blank and placeholder values such as NONE or N/A
+ */
+export function normalizeTicker(raw: string | null | undefined): string | null {
+	if (!raw) return null;
+
+	const ticker = raw
+		.trim()
+		.toUpperCase()
+		.replace(/[\s./]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+
+	if (!ticker || NO_TICKER_VALUES.has(raw.trim().toUpperCase())) return null;
+
+	return ticker;
+}
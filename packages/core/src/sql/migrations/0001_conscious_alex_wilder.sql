@@ -0,0 +1,34 @@
+CREATE TABLE "backfill_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"job_id" uuid NOT NULL,
+	"accession_number" text NOT NULL,
+	"cik" text NOT NULL,
+	"company_name" text NOT NULL,
+	"form_type" text NOT NULL,
+	"filing_date" date NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"error" text,
+	"processed_at" timestamp,
+	CONSTRAINT "backfill_items_job_accession_unique" UNIQUE("job_id","accession_number")
+);
+--> statement-breakpoint
+CREATE TABLE "backfill_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"source" text NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date NOT NULL,
+	"skip_alerts" boolean DEFAULT true NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"discovered_through" date,
+	"filings_processed" integer DEFAULT 0 NOT NULL,
+	"filings_failed" integer DEFAULT 0 NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "backfill_items" ADD CONSTRAINT "backfill_items_job_id_backfill_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."backfill_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "backfill_items_job_status_idx" ON "backfill_items" USING btree ("job_id","status","filing_date");--> statement-breakpoint
+CREATE INDEX "backfill_jobs_status_idx" ON "backfill_jobs" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "filings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"accession_number" text NOT NULL,
+	"issuer_id" uuid NOT NULL,
+	"form_type" text NOT NULL,
+	"filing_date" date NOT NULL,
+	"date_of_original_submission" date,
+	"amends_accession" text,
+	"superseded_by_accession" text,
+	CONSTRAINT "filings_accession_number_unique" UNIQUE("accession_number")
+);
+--> statement-breakpoint
+ALTER TABLE "slack_alerts" ADD COLUMN "corrected_by_accession" text;--> statement-breakpoint
+ALTER TABLE "slack_alerts" ADD COLUMN "corrected_at" timestamp;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "superseded_by_accession" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "superseded_at" timestamp;--> statement-breakpoint
+ALTER TABLE "filings" ADD CONSTRAINT "filings_issuer_id_issuers_id_fk" FOREIGN KEY ("issuer_id") REFERENCES "public"."issuers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "filings_issuer_date_idx" ON "filings" USING btree ("issuer_id","filing_date");--> statement-breakpoint
+CREATE INDEX "filings_amends_idx" ON "filings" USING btree ("amends_accession");--> statement-breakpoint
+CREATE INDEX "transactions_superseded_idx" ON "transactions" USING btree ("superseded_by_accession");
\ No newline at end of file
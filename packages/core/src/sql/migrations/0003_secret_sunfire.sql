@@ -0,0 +1,34 @@
+CREATE TABLE "initial_holdings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"statement_id" uuid NOT NULL,
+	"security_title" text NOT NULL,
+	"shares" numeric(20, 4) NOT NULL,
+	"is_direct_ownership" boolean DEFAULT true NOT NULL,
+	"is_derivative" boolean DEFAULT false NOT NULL,
+	"underlying_security_title" text,
+	"conversion_or_exercise_price" numeric(20, 4),
+	"exercise_date" date,
+	"expiration_date" date
+);
+--> statement-breakpoint
+CREATE TABLE "initial_statements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"filing_accession" text NOT NULL,
+	"insider_id" uuid NOT NULL,
+	"issuer_id" uuid NOT NULL,
+	"form_type" text NOT NULL,
+	"event_date" date NOT NULL,
+	"filing_date" date NOT NULL,
+	"no_securities_owned" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "initial_statements_filing_accession_unique" UNIQUE("filing_accession")
+);
+--> statement-breakpoint
+ALTER TABLE "initial_holdings" ADD CONSTRAINT "initial_holdings_statement_id_initial_statements_id_fk" FOREIGN KEY ("statement_id") REFERENCES "public"."initial_statements"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "initial_statements" ADD CONSTRAINT "initial_statements_insider_id_insiders_id_fk" FOREIGN KEY ("insider_id") REFERENCES "public"."insiders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "initial_statements" ADD CONSTRAINT "initial_statements_issuer_id_issuers_id_fk" FOREIGN KEY ("issuer_id") REFERENCES "public"."issuers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "initial_holdings_statement_idx" ON "initial_holdings" USING btree ("statement_id");--> statement-breakpoint
+CREATE INDEX "initial_statements_insider_idx" ON "initial_statements" USING btree ("insider_id","event_date");
\ No newline at end of file
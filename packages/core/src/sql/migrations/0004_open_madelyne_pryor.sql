@@ -0,0 +1,24 @@
+CREATE TABLE "form144_notices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"accession_number" text NOT NULL,
+	"issuer_id" uuid NOT NULL,
+	"seller_name" text NOT NULL,
+	"relationship" text,
+	"security_class_title" text NOT NULL,
+	"shares_to_be_sold" numeric(20, 4) NOT NULL,
+	"aggregate_market_value" numeric(20, 2) NOT NULL,
+	"approx_sale_date" date,
+	"filing_date" date NOT NULL,
+	"broker_name" text,
+	"exchange_name" text,
+	"matched_transaction_id" uuid,
+	"matched_at" timestamp,
+	CONSTRAINT "form144_notices_accession_number_unique" UNIQUE("accession_number")
+);
+--> statement-breakpoint
+ALTER TABLE "form144_notices" ADD CONSTRAINT "form144_notices_issuer_id_issuers_id_fk" FOREIGN KEY ("issuer_id") REFERENCES "public"."issuers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "form144_notices" ADD CONSTRAINT "form144_notices_matched_transaction_id_transactions_id_fk" FOREIGN KEY ("matched_transaction_id") REFERENCES "public"."transactions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "form144_notices_issuer_date_idx" ON "form144_notices" USING btree ("issuer_id","filing_date");--> statement-breakpoint
+CREATE INDEX "form144_notices_matched_idx" ON "form144_notices" USING btree ("matched_transaction_id");
\ No newline at end of file
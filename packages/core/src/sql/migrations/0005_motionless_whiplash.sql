@@ -0,0 +1,14 @@
+CREATE TABLE "transaction_reporting_owners" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"insider_id" uuid NOT NULL,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "transaction_reporting_owners_unique" UNIQUE("transaction_id","insider_id")
+);
+--> statement-breakpoint
+ALTER TABLE "transaction_reporting_owners" ADD CONSTRAINT "transaction_reporting_owners_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transaction_reporting_owners" ADD CONSTRAINT "transaction_reporting_owners_insider_id_insiders_id_fk" FOREIGN KEY ("insider_id") REFERENCES "public"."insiders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transaction_reporting_owners_insider_idx" ON "transaction_reporting_owners" USING btree ("insider_id");--> statement-breakpoint
+INSERT INTO "transaction_reporting_owners" ("transaction_id", "insider_id", "is_primary") SELECT "id", "insider_id", true FROM "transactions" ON CONFLICT DO NOTHING;
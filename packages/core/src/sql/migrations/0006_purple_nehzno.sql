@@ -0,0 +1,21 @@
+CREATE TABLE "filing_footnotes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"filing_accession" text NOT NULL,
+	"footnote_id" text NOT NULL,
+	"text" text NOT NULL,
+	CONSTRAINT "filing_footnotes_unique" UNIQUE("filing_accession","footnote_id")
+);
+--> statement-breakpoint
+CREATE TABLE "transaction_footnotes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"footnote_id" text NOT NULL,
+	"field" text NOT NULL,
+	CONSTRAINT "transaction_footnotes_unique" UNIQUE("transaction_id","footnote_id","field")
+);
+--> statement-breakpoint
+ALTER TABLE "transaction_footnotes" ADD CONSTRAINT "transaction_footnotes_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "transactions" ADD COLUMN "security_title" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "is_derivative" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "underlying_security_title" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "underlying_shares" numeric(20, 4);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "conversion_or_exercise_price" numeric(20, 4);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "exercise_date" date;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "expiration_date" date;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "is_exercise_and_sell" boolean DEFAULT false NOT NULL;
\ No newline at end of file
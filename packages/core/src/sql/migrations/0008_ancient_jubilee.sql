@@ -0,0 +1,2 @@
+ALTER TABLE "filings" ADD COLUMN "primary_document" text;--> statement-breakpoint
+ALTER TABLE "filings" ADD COLUMN "document_strategy" text;
\ No newline at end of file
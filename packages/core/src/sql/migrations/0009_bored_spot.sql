@@ -0,0 +1,9 @@
+CREATE TABLE "ingestion_cursors" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"feed" text NOT NULL,
+	"last_accession" text NOT NULL,
+	"last_filed_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "ingestion_cursors_feed_unique" UNIQUE("feed")
+);
@@ -0,0 +1,10 @@
+CREATE TABLE "rate_limit_buckets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"key" text NOT NULL,
+	"tokens" double precision NOT NULL,
+	"refilled_at" timestamp with time zone NOT NULL,
+	"paused_until" timestamp with time zone,
+	CONSTRAINT "rate_limit_buckets_key_unique" UNIQUE("key")
+);
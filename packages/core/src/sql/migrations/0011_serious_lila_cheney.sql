@@ -0,0 +1,20 @@
+CREATE TABLE "raw_filings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"accession_number" text NOT NULL,
+	"cik" text NOT NULL,
+	"form_type" text NOT NULL,
+	"filing_date" date NOT NULL,
+	"filed_at" text NOT NULL,
+	"source_url" text NOT NULL,
+	"primary_document" text NOT NULL,
+	"document_strategy" text NOT NULL,
+	"blob_key" text NOT NULL,
+	"content_hash" text NOT NULL,
+	"byte_length" integer NOT NULL,
+	"fetched_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "raw_filings_accession_number_unique" UNIQUE("accession_number")
+);
+--> statement-breakpoint
+CREATE INDEX "raw_filings_filing_date_idx" ON "raw_filings" USING btree ("filing_date","accession_number");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "issuer_tickers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"cik" text NOT NULL,
+	"ticker" text NOT NULL,
+	"exchange" text,
+	"company_name" text NOT NULL,
+	"valid_from" date NOT NULL,
+	"valid_to" date
+);
+--> statement-breakpoint
+CREATE INDEX "issuer_tickers_ticker_idx" ON "issuer_tickers" USING btree ("ticker");--> statement-breakpoint
+CREATE INDEX "issuer_tickers_cik_idx" ON "issuer_tickers" USING btree ("cik","valid_to");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "trading_plans" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"insider_id" uuid NOT NULL,
+	"issuer_id" uuid NOT NULL,
+	"adoption_date" date NOT NULL,
+	"cooling_off_ends_on" date NOT NULL,
+	"first_filing_accession" text NOT NULL,
+	"first_trade_date" date NOT NULL,
+	"last_trade_date" date NOT NULL,
+	CONSTRAINT "trading_plans_insider_adoption_unique" UNIQUE("insider_id","adoption_date")
+);
+--> statement-breakpoint
+ALTER TABLE "filings" ADD COLUMN "aff_10b5_one" boolean;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "trading_plan_id" uuid;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "plan_adoption_date" date;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "is_during_cooling_off" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "trading_plans" ADD CONSTRAINT "trading_plans_insider_id_insiders_id_fk" FOREIGN KEY ("insider_id") REFERENCES "public"."insiders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trading_plans" ADD CONSTRAINT "trading_plans_issuer_id_issuers_id_fk" FOREIGN KEY ("issuer_id") REFERENCES "public"."issuers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "trading_plans_issuer_idx" ON "trading_plans" USING btree ("issuer_id");--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_trading_plan_id_trading_plans_id_fk" FOREIGN KEY ("trading_plan_id") REFERENCES "public"."trading_plans"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "transactions" ADD COLUMN "filing_delay_days" integer;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "is_late_filing" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "transactions" ADD COLUMN "price_low" numeric(20, 4);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "price_high" numeric(20, 4);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "price_unknown" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "is_price_estimated" boolean DEFAULT false NOT NULL;
\ No newline at end of file
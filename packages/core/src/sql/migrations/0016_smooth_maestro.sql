@@ -0,0 +1,6 @@
+ALTER TABLE "initial_holdings" ADD COLUMN "nature_of_ownership" text;--> statement-breakpoint
+ALTER TABLE "initial_holdings" ADD COLUMN "ownership_vehicle" text DEFAULT 'direct' NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "nature_of_ownership" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "ownership_vehicle" text DEFAULT 'direct' NOT NULL;--> statement-breakpoint
+UPDATE "initial_holdings" SET "ownership_vehicle" = 'indirect' WHERE NOT "is_direct_ownership";--> statement-breakpoint
+UPDATE "transactions" SET "ownership_vehicle" = 'indirect' WHERE NOT "is_direct_ownership";
\ No newline at end of file
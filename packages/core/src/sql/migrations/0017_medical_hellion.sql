@@ -0,0 +1,16 @@
+CREATE TABLE "persons" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"cik" text NOT NULL,
+	"name" text NOT NULL,
+	CONSTRAINT "persons_cik_unique" UNIQUE("cik")
+);
+--> statement-breakpoint
+ALTER TABLE "insiders" ADD COLUMN "person_id" uuid;--> statement-breakpoint
+ALTER TABLE "insiders" ADD COLUMN "is_director" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "insiders" ADD COLUMN "is_officer" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "insiders" ADD COLUMN "is_ten_percent_owner" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "insiders" ADD COLUMN "is_other" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "insiders" ADD CONSTRAINT "insiders_person_id_persons_id_fk" FOREIGN KEY ("person_id") REFERENCES "public"."persons"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "insiders" ADD CONSTRAINT "insiders_person_issuer_unique" UNIQUE("person_id","issuer_id");
\ No newline at end of file
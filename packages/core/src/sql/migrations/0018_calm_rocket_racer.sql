@@ -0,0 +1,23 @@
+CREATE TABLE "positions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"insider_id" uuid NOT NULL,
+	"issuer_id" uuid NOT NULL,
+	"security_title" text NOT NULL,
+	"ownership_vehicle" text NOT NULL,
+	"is_direct_ownership" boolean DEFAULT true NOT NULL,
+	"nature_of_ownership" text,
+	"is_derivative" boolean DEFAULT false NOT NULL,
+	"underlying_security_title" text,
+	"shares" numeric(20, 4) NOT NULL,
+	"as_of_date" date NOT NULL,
+	"source" text NOT NULL,
+	"source_accession" text NOT NULL,
+	"source_filing_date" date NOT NULL,
+	CONSTRAINT "positions_insider_security_vehicle_unique" UNIQUE("insider_id","security_title","ownership_vehicle")
+);
+--> statement-breakpoint
+ALTER TABLE "positions" ADD CONSTRAINT "positions_insider_id_insiders_id_fk" FOREIGN KEY ("insider_id") REFERENCES "public"."insiders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "positions" ADD CONSTRAINT "positions_issuer_id_issuers_id_fk" FOREIGN KEY ("issuer_id") REFERENCES "public"."issuers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "positions_issuer_idx" ON "positions" USING btree ("issuer_id");
\ No newline at end of file
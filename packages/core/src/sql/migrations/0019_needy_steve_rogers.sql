@@ -0,0 +1,2 @@
+ALTER TABLE "backfill_jobs" ADD COLUMN "issuer_cik" text;--> statement-breakpoint
+CREATE INDEX "backfill_jobs_issuer_cik_idx" ON "backfill_jobs" USING btree ("issuer_cik");
\ No newline at end of file
@@ -0,0 +1,38 @@
+CREATE TABLE "ingestion_run_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"run_id" uuid NOT NULL,
+	"accession_number" text NOT NULL,
+	"form_type" text NOT NULL,
+	"cik" text NOT NULL,
+	"issuer_cik" text,
+	"ticker" text,
+	"status" text NOT NULL,
+	"reason" text,
+	"transactions_saved" integer DEFAULT 0 NOT NULL,
+	"processed_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ingestion_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"kind" text NOT NULL,
+	"parameters" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone,
+	"duration_ms" integer,
+	"filings_parsed" integer DEFAULT 0 NOT NULL,
+	"filings_skipped" integer DEFAULT 0 NOT NULL,
+	"filings_failed" integer DEFAULT 0 NOT NULL,
+	"stats" jsonb,
+	"error" text
+);
+--> statement-breakpoint
+ALTER TABLE "ingestion_run_items" ADD CONSTRAINT "ingestion_run_items_run_id_ingestion_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."ingestion_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ingestion_run_items_run_status_idx" ON "ingestion_run_items" USING btree ("run_id","status");--> statement-breakpoint
+CREATE INDEX "ingestion_run_items_accession_idx" ON "ingestion_run_items" USING btree ("accession_number");--> statement-breakpoint
+CREATE INDEX "ingestion_run_items_ticker_idx" ON "ingestion_run_items" USING btree ("ticker","processed_at");--> statement-breakpoint
+CREATE INDEX "ingestion_runs_kind_started_idx" ON "ingestion_runs" USING btree ("kind","started_at");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "alert_outbox" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"kind" text NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"issuer_id" uuid NOT NULL,
+	"slack_alert_id" uuid,
+	"filing_accession" text NOT NULL,
+	"message" jsonb NOT NULL,
+	"thread_ts" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"sent_at" timestamp,
+	CONSTRAINT "alert_outbox_kind_transaction_unique" UNIQUE("kind","transaction_id")
+);
+--> statement-breakpoint
+ALTER TABLE "filings" ADD COLUMN "content_hash" text;--> statement-breakpoint
+ALTER TABLE "alert_outbox" ADD CONSTRAINT "alert_outbox_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_outbox" ADD CONSTRAINT "alert_outbox_issuer_id_issuers_id_fk" FOREIGN KEY ("issuer_id") REFERENCES "public"."issuers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_outbox" ADD CONSTRAINT "alert_outbox_slack_alert_id_slack_alerts_id_fk" FOREIGN KEY ("slack_alert_id") REFERENCES "public"."slack_alerts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alert_outbox_status_idx" ON "alert_outbox" USING btree ("status","created_at");
\ No newline at end of file
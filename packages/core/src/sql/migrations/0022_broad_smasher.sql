@@ -0,0 +1,2 @@
+ALTER TABLE "insiders" DROP CONSTRAINT "insiders_name_issuer_unique";--> statement-breakpoint
+CREATE UNIQUE INDEX "insiders_name_issuer_unlinked_unique" ON "insiders" USING btree ("name","issuer_id") WHERE "insiders"."person_id" IS NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "transactions" DROP CONSTRAINT "transactions_dedupe";--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_dedupe" UNIQUE("filing_accession","insider_id","transaction_date","shares","price","ownership_vehicle","transaction_code");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "transactions" DROP CONSTRAINT "transactions_dedupe";--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "row_index" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE "transactions" SET "row_index" = "numbered"."row_index" FROM (SELECT "id", ROW_NUMBER() OVER (PARTITION BY "filing_accession", "insider_id" ORDER BY "created_at", "id") - 1 AS "row_index" FROM "transactions") AS "numbered" WHERE "transactions"."id" = "numbered"."id";--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_dedupe" UNIQUE("filing_accession","insider_id","transaction_date","shares","price","ownership_vehicle","transaction_code","row_index");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "alert_outbox" ADD COLUMN "claimed_at" timestamp;
\ No newline at end of file
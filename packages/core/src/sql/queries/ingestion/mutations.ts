@@ -0,0 +1,255 @@
+import { eq, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+	type BackfillJob,
+	type InsertBackfillItem,
+	type InsertBackfillJob,
+	type InsertIngestionCursor,
+	type InsertIngestionRun,
+	type InsertIngestionRunItem,
+	type InsertRawFiling,
+	type IngestionCursor,
+	type IngestionRun,
+	type RawFiling,
+	backfillItems,
+	backfillJobs,
+	ingestionCursors,
+	ingestionRunItems,
+	ingestionRuns,
+	rateLimitBuckets,
+	rawFilings,
+} from "../../schema";
+
+/**
+ * Create a backfill job
+ */
+export async function createBackfillJob(
+	db: PgDatabase<any, any, any>,
+	data: Omit<InsertBackfillJob, "id" | "createdAt" | "updatedAt">,
+): Promise<BackfillJob> {
+	const [job] = await db.insert(backfillJobs).values(data).returning();
+
+	return job;
+}
+
+/**
+ * Update backfill job status, date range and discovery progress
+ */
+export async function updateBackfillJob(
+	db: PgDatabase<any, any, any>,
+	jobId: string,
+	data: Partial<
+		Pick<InsertBackfillJob, "status" | "startDate" | "endDate" | "discoveredThrough" | "completedAt">
+	>,
+): Promise<void> {
+	await db
+		.update(backfillJobs)
+		.set({
+			...data,
+			updatedAt: new Date(),
+		})
+		.where(eq(backfillJobs.id, jobId));
+}
+
+/**
+ * Add processed/failed filing counts to a backfill job
+ */
+export async function incrementBackfillJobCounts(
+	db: PgDatabase<any, any, any>,
+	jobId: string,
+	counts: { processed: number; failed: number },
+): Promise<void> {
+	await db
+		.update(backfillJobs)
+		.set({
+			filingsProcessed: sql`${backfillJobs.filingsProcessed} + ${counts.processed}`,
+			filingsFailed: sql`${backfillJobs.filingsFailed} + ${counts.failed}`,
+			updatedAt: new Date(),
+		})
+		.where(eq(backfillJobs.id, jobId));
+}
+
+/**
+ * Insert discovered filings for a backfill job
+ * Filings already queued for the job are ignored, so discovery can be re-run safely
+ * @returns Number of newly queued filings
+ */
+export async function insertBackfillItems(
+	db: PgDatabase<any, any, any>,
+	items: Array<Omit<InsertBackfillItem, "id" | "createdAt" | "updatedAt">>,
+): Promise<number> {
+	if (items.length === 0) return 0;
+
+	const inserted = await db
+		.insert(backfillItems)
+		.values(items)
+		.onConflictDoNothing({
+			target: [backfillItems.jobId, backfillItems.accessionNumber],
+		})
+		.returning({ id: backfillItems.id });
+
+	return inserted.length;
+}
+
+/**
+ * Mark a backfill item as processed or failed
+ */
+export async function markBackfillItem(
+	db: PgDatabase<any, any, any>,
+	itemId: string,
+	status: "processed" | "failed",
+	error?: string,
+): Promise<void> {
+	await db
+		.update(backfillItems)
+		.set({
+			status,
+			error: error ?? null,
+			processedAt: new Date(),
+			updatedAt: new Date(),
+		})
+		.where(eq(backfillItems.id, itemId));
+}
+
+/**
+ * Move a feed's ingestion cursor to the newest filing seen
+ */
+export async function upsertIngestionCursor(
+	db: PgDatabase<any, any, any>,
+	data: Omit<InsertIngestionCursor, "id" | "createdAt" | "updatedAt">,
+): Promise<IngestionCursor> {
+	const [cursor] = await db
+		.insert(ingestionCursors)
+		.values(data)
+		.onConflictDoUpdate({
+			target: ingestionCursors.feed,
+			set: {
+				lastAccession: data.lastAccession,
+				lastFiledAt: data.lastFiledAt,
+				updatedAt: new Date(),
+			},
+		})
+		.returning();
+
+	return cursor;
+}
+
+/**
+ * Start an ingestion run
+ */
+export async function createIngestionRun(
+	db: PgDatabase<any, any, any>,
+	data: Pick<InsertIngestionRun, "kind" | "parameters">,
+): Promise<IngestionRun> {
+	const [run] = await db.insert(ingestionRuns).values(data).returning();
+
+	return run;
+}
+
+/**
+ * Record the end of an ingestion run: its status, duration, counts and stats
+ */
+export async function completeIngestionRun(
+	db: PgDatabase<any, any, any>,
+	runId: string,
+	data: Pick<
+		InsertIngestionRun,
+		| "status"
+		| "completedAt"
+		| "durationMs"
+		| "filingsParsed"
+		| "filingsSkipped"
+		| "filingsFailed"
+		| "stats"
+		| "error"
+	>,
+): Promise<void> {
+	await db
+		.update(ingestionRuns)
+		.set({
+			...data,
+			updatedAt: new Date(),
+		})
+		.where(eq(ingestionRuns.id, runId));
+}
+
+/**
+ * Record the outcome of filings handled by an ingestion run
+ */
+export async function insertIngestionRunItems(
+	db: PgDatabase<any, any, any>,
+	items: Array<Omit<InsertIngestionRunItem, "id" | "createdAt" | "updatedAt">>,
+): Promise<void> {
+	if (items.length === 0) return;
+
+	await db.insert(ingestionRunItems).values(items);
+}
+
+/**
+ * Take one token from a shared token bucket, refilling it for the time since the last take
+ * A token is always taken; when the bucket is empty it goes negative and the caller waits its turn
+ * @param ratePerSecond Refill rate (the sustained request rate)
+ * @param capacity Bucket size (the largest burst)
+ * @returns Milliseconds the caller must wait before using its token, and the circuit breaker state
+ */
+export async function takeRateLimitToken(
+	db: PgDatabase<any, any, any>,
+	key: string,
+	ratePerSecond: number,
+	capacity: number,
+): Promise<{ waitMs: number; pausedUntil: Date | null }> {
+	const [bucket] = await db
+		.insert(rateLimitBuckets)
+		.values({ key, tokens: capacity - 1, refilledAt: sql`clock_timestamp()` })
+		.onConflictDoUpdate({
+			target: rateLimitBuckets.key,
+			set: {
+				tokens: sql`LEAST(${capacity}, ${rateLimitBuckets.tokens} + EXTRACT(EPOCH FROM (clock_timestamp() - ${rateLimitBuckets.refilledAt})) * ${ratePerSecond}) - 1`,
+				refilledAt: sql`clock_timestamp()`,
+				updatedAt: new Date(),
+			},
+		})
+		.returning({ tokens: rateLimitBuckets.tokens, pausedUntil: rateLimitBuckets.pausedUntil });
+
+	return {
+		waitMs: bucket.tokens >= 0 ? 0 : (-bucket.tokens / ratePerSecond) * 1000,
+		pausedUntil: bucket.pausedUntil,
+	};
+}
+
+/**
+ * Open a shared circuit breaker until a time (never shortens an existing pause)
+ */
+export async function pauseRateLimitBucket(
+	db: PgDatabase<any, any, any>,
+	key: string,
+	until: Date,
+): Promise<void> {
+	await db
+		.update(rateLimitBuckets)
+		.set({
+			pausedUntil: sql`GREATEST(COALESCE(${rateLimitBuckets.pausedUntil}, ${until}), ${until})`,
+			updatedAt: new Date(),
+		})
+		.where(eq(rateLimitBuckets.key, key));
+}
+
+/**
+ * Record an archived raw filing; a refetch replaces the previous blob's metadata
+ */
+export async function upsertRawFiling(
+	db: PgDatabase<any, any, any>,
+	data: Omit<InsertRawFiling, "id" | "createdAt" | "updatedAt">,
+): Promise<RawFiling> {
+	const { accessionNumber, ...rest } = data;
+	const [rawFiling] = await db
+		.insert(rawFilings)
+		.values(data)
+		.onConflictDoUpdate({
+			target: rawFilings.accessionNumber,
+			set: { ...rest, updatedAt: new Date() },
+		})
+		.returning();
+
+	return rawFiling;
+}
@@ -0,0 +1,263 @@
+import { type SQL, and, asc, desc, eq, gt, gte, inArray, lte, ne, or, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import type {
+	BackfillItem,
+	BackfillJob,
+	IngestionCursor,
+	IngestionRun,
+	IngestionRunItem,
+	RawFiling,
+} from "../../schema";
+import {
+	backfillItems,
+	backfillJobs,
+	ingestionCursors,
+	ingestionRunItems,
+	ingestionRuns,
+	rawFilings,
+} from "../../schema";
+
+/**
+ * Get a backfill job by ID
+ */
+export async function getBackfillJob(
+	db: PgDatabase<any, any, any>,
+	jobId: string,
+): Promise<BackfillJob | null> {
+	const [job] = await db.select().from(backfillJobs).where(eq(backfillJobs.id, jobId)).limit(1);
+
+	return job || null;
+}
+
+/**
+ * Get backfill jobs that haven't completed, oldest first
+ */
+export async function getActiveBackfillJobs(db: PgDatabase<any, any, any>): Promise<BackfillJob[]> {
+	return db
+		.select()
+		.from(backfillJobs)
+		.where(ne(backfillJobs.status, "completed"))
+		.orderBy(asc(backfillJobs.createdAt));
+}
+
+/**
+ * Get the most recent submissions backfill job of an issuer, or null if it was never backfilled
+ */
+export async function getLatestIssuerBackfillJob(
+	db: PgDatabase<any, any, any>,
+	issuerCik: string,
+): Promise<BackfillJob | null> {
+	const [job] = await db
+		.select()
+		.from(backfillJobs)
+		.where(and(eq(backfillJobs.source, "submissions"), eq(backfillJobs.issuerCik, issuerCik)))
+		.orderBy(desc(backfillJobs.createdAt))
+		.limit(1);
+
+	return job || null;
+}
+
+/**
+ * Count the filings queued by a backfill job
+ */
+export async function countBackfillItems(
+	db: PgDatabase<any, any, any>,
+	jobId: string,
+): Promise<number> {
+	const [result] = await db
+		.select({ count: sql<number>`COUNT(*)` })
+		.from(backfillItems)
+		.where(eq(backfillItems.jobId, jobId));
+
+	return Number(result?.count || 0);
+}
+
+/**
+ * Get the next pending filings of a backfill job, oldest filing date first
+ */
+export async function getPendingBackfillItems(
+	db: PgDatabase<any, any, any>,
+	jobId: string,
+	limit = 50,
+): Promise<BackfillItem[]> {
+	return db
+		.select()
+		.from(backfillItems)
+		.where(and(eq(backfillItems.jobId, jobId), eq(backfillItems.status, "pending")))
+		.orderBy(asc(backfillItems.filingDate), asc(backfillItems.accessionNumber))
+		.limit(limit);
+}
+
+/**
+ * Get the ingestion cursor of a live feed, or null before its first run
+ */
+export async function getIngestionCursor(
+	db: PgDatabase<any, any, any>,
+	feed: string,
+): Promise<IngestionCursor | null> {
+	const [cursor] = await db
+		.select()
+		.from(ingestionCursors)
+		.where(eq(ingestionCursors.feed, feed))
+		.limit(1);
+
+	return cursor || null;
+}
+
+export interface RawFilingRange {
+	startDate?: string; // ISO date string (YYYY-MM-DD), inclusive
+	endDate?: string; // ISO date string (YYYY-MM-DD), inclusive
+	startAccession?: string; // Inclusive, compared as text
+	endAccession?: string; // Inclusive, compared as text
+	accessionNumbers?: string[]; // Only these filings
+}
+
+/**
+ * Get a page of archived raw filings in a range, oldest filing date first
+ * Pass the last row of the previous page as `after` to continue (keyset pagination)
+ */
+export async function getRawFilingsInRange(
+	db: PgDatabase<any, any, any>,
+	range: RawFilingRange,
+	after?: Pick<RawFiling, "filingDate" | "accessionNumber">,
+	limit = 100,
+): Promise<RawFiling[]> {
+	const conditions: SQL[] = [];
+
+	if (range.startDate) conditions.push(gte(rawFilings.filingDate, range.startDate));
+	if (range.endDate) conditions.push(lte(rawFilings.filingDate, range.endDate));
+	if (range.startAccession) conditions.push(gte(rawFilings.accessionNumber, range.startAccession));
+	if (range.endAccession) conditions.push(lte(rawFilings.accessionNumber, range.endAccession));
+	if (range.accessionNumbers) {
+		conditions.push(inArray(rawFilings.accessionNumber, range.accessionNumbers));
+	}
+	if (after) {
+		conditions.push(
+			or(
+				gt(rawFilings.filingDate, after.filingDate),
+				and(
+					eq(rawFilings.filingDate, after.filingDate),
+					gt(rawFilings.accessionNumber, after.accessionNumber),
+				),
+			) as SQL,
+		);
+	}
+
+	return db
+		.select()
+		.from(rawFilings)
+		.where(and(...conditions))
+		.orderBy(asc(rawFilings.filingDate), asc(rawFilings.accessionNumber))
+		.limit(limit);
+}
+
+export interface IngestionRunFilters {
+	kind?: string;
+	status?: string;
+	startedAfter?: Date;
+	startedBefore?: Date;
+}
+
+/**
+ * Get ingestion runs, most recent first
+ */
+export async function getIngestionRuns(
+	db: PgDatabase<any, any, any>,
+	filters: IngestionRunFilters = {},
+	limit = 50,
+	offset = 0,
+): Promise<IngestionRun[]> {
+	const conditions: SQL[] = [];
+
+	if (filters.kind) conditions.push(eq(ingestionRuns.kind, filters.kind));
+	if (filters.status) conditions.push(eq(ingestionRuns.status, filters.status));
+	if (filters.startedAfter) conditions.push(gte(ingestionRuns.startedAt, filters.startedAfter));
+	if (filters.startedBefore) conditions.push(lte(ingestionRuns.startedAt, filters.startedBefore));
+
+	return db
+		.select()
+		.from(ingestionRuns)
+		.where(and(...conditions))
+		.orderBy(desc(ingestionRuns.startedAt))
+		.limit(limit)
+		.offset(offset);
+}
+
+/**
+ * Get an ingestion run by ID
+ */
+export async function getIngestionRun(
+	db: PgDatabase<any, any, any>,
+	runId: string,
+): Promise<IngestionRun | null> {
+	const [run] = await db.select().from(ingestionRuns).where(eq(ingestionRuns.id, runId)).limit(1);
+
+	return run || null;
+}
+
+/**
+ * Get the filing outcomes of an ingestion run, optionally only one status
+ */
+export async function getIngestionRunItems(
+	db: PgDatabase<any, any, any>,
+	runId: string,
+	status?: string,
+): Promise<IngestionRunItem[]> {
+	const conditions: SQL[] = [eq(ingestionRunItems.runId, runId)];
+	if (status) conditions.push(eq(ingestionRunItems.status, status));
+
+	return db
+		.select()
+		.from(ingestionRunItems)
+		.where(and(...conditions))
+		.orderBy(asc(ingestionRunItems.processedAt));
+}
+
+export interface FilingOutcomeFilters {
+	accessionNumber?: string;
+	ticker?: string; // Matched against the ticker recorded when the filing was parsed
+	issuerCik?: string;
+	processedAfter?: Date;
+	processedBefore?: Date;
+}
+
+/**
+ * Get every recorded outcome of matching filings across runs, most recent first
+ * Answers "did we ingest this filing?": a filing retried after a failure has one row per attempt
+ */
+export async function getFilingOutcomes(
+	db: PgDatabase<any, any, any>,
+	filters: FilingOutcomeFilters,
+	limit = 100,
+): Promise<Array<IngestionRunItem & { runKind: string }>> {
+	const conditions: SQL[] = [];
+
+	if (filters.accessionNumber) {
+		conditions.push(eq(ingestionRunItems.accessionNumber, filters.accessionNumber));
+	}
+	if (filters.ticker) conditions.push(eq(ingestionRunItems.ticker, filters.ticker));
+	if (filters.issuerCik) {
+		conditions.push(
+			or(
+				eq(ingestionRunItems.issuerCik, filters.issuerCik),
+				eq(ingestionRunItems.cik, filters.issuerCik),
+			) as SQL,
+		);
+	}
+	if (filters.processedAfter) {
+		conditions.push(gte(ingestionRunItems.processedAt, filters.processedAfter));
+	}
+	if (filters.processedBefore) {
+		conditions.push(lte(ingestionRunItems.processedAt, filters.processedBefore));
+	}
+
+	const rows = await db
+		.select({ item: ingestionRunItems, runKind: ingestionRuns.kind })
+		.from(ingestionRunItems)
+		.innerJoin(ingestionRuns, eq(ingestionRunItems.runId, ingestionRuns.id))
+		.where(and(...conditions))
+		.orderBy(desc(ingestionRunItems.processedAt))
+		.limit(limit);
+
+	return rows.map(({ item, runKind }) => ({ ...item, runKind }));
+}
@@ -0,0 +1,125 @@
+import { getDb } from "@starter/core/sql";
+import { describe, expect, it } from "vitest";
+import { upsertInsider, upsertIssuer, upsertPerson, upsertTransaction } from "./mutations";
+import { getPersonIssuerRoles } from "./queries";
+
+describe("upsertInsider", () => {
+	async function createIssuer(cik = "1618732") {
+		return upsertIssuer(getDb(), { cik, companyName: `Issuer ${cik}` });
+	}
+
+	it("should keep the same person's insider when the name format changes", async () => {
+		const db = getDb();
+		const issuer = await createIssuer();
+		const person = await upsertPerson(db, { cik: "1234567", name: "DOE JANE" });
+
+		const first = await upsertInsider(db, { issuerId: issuer.id, personId: person.id, name: "DOE JANE" });
+		const renamed = await upsertInsider(db, {
+			issuerId: issuer.id,
+			personId: person.id,
+			name: "Jane Doe",
+			isDirector: true,
+		});
+
+		expect(renamed.id).toBe(first.id);
+		expect(renamed.isDirector).toBe(true);
+	});
+
+	it("should not merge owners with different CIKs that share a name", async () => {
+		const db = getDb();
+		const issuer = await createIssuer();
+		const father = await upsertPerson(db, { cik: "1234567", name: "Smith John" });
+		const son = await upsertPerson(db, { cik: "7654321", name: "Smith John" });
+
+		const first = await upsertInsider(db, { issuerId: issuer.id, personId: father.id, name: "Smith John" });
+		const second = await upsertInsider(db, { issuerId: issuer.id, personId: son.id, name: "Smith John" });
+
+		expect(second.id).not.toBe(first.id);
+		expect(first.personId).toBe(father.id);
+		expect(second.personId).toBe(son.id);
+	});
+
+	it("should link an insider stored without a CIK to the person filing under its name", async () => {
+		const db = getDb();
+		const issuer = await createIssuer();
+		const unlinked = await upsertInsider(db, { issuerId: issuer.id, name: "Jane Doe" });
+		const person = await upsertPerson(db, { cik: "1234567", name: "Jane Doe" });
+
+		const linked = await upsertInsider(db, { issuerId: issuer.id, personId: person.id, name: "Jane Doe" });
+
+		expect(linked.id).toBe(unlinked.id);
+		expect(linked.personId).toBe(person.id);
+	});
+
+	it("should resolve the same person to one insider per issuer", async () => {
+		const db = getDb();
+		const harbor = await createIssuer("1618732");
+		const acme = await createIssuer("320193");
+		const person = await upsertPerson(db, { cik: "1234567", name: "Jane Doe" });
+
+		await upsertInsider(db, { issuerId: harbor.id, personId: person.id, name: "Jane Doe" });
+		await upsertInsider(db, { issuerId: acme.id, personId: person.id, name: "DOE JANE" });
+		await upsertInsider(db, { issuerId: acme.id, personId: person.id, name: "Jane Doe" });
+
+		const roles = await getPersonIssuerRoles(db, person.id);
+		expect(roles.map((role) => role.issuer.cik).sort()).toEqual(["1618732", "320193"]);
+	});
+});
+
+describe("upsertTransaction", () => {
+	async function createInsider() {
+		const db = getDb();
+		const issuer = await upsertIssuer(db, { cik: "1618732", companyName: "Harbor Custom Development" });
+		return upsertInsider(db, { issuerId: issuer.id, name: "Jane Doe" });
+	}
+
+	function purchase(insiderId: string, issuerId: string, ownershipVehicle: string) {
+		return {
+			filingAccession: "0001209191-24-000123",
+			insiderId,
+			issuerId,
+			transactionDate: "2024-06-03",
+			transactionCode: "P",
+			shares: "10000",
+			price: "12.50",
+			transactionValue: "125000",
+			postTransactionShares: "50000",
+			isDirectOwnership: ownershipVehicle === "direct",
+			ownershipVehicle,
+		};
+	}
+
+	it("should store same-sized trades in different ownership vehicles as separate rows", async () => {
+		const db = getDb();
+		const insider = await createInsider();
+
+		const direct = await upsertTransaction(db, purchase(insider.id, insider.issuerId, "direct"));
+		const trust = await upsertTransaction(db, purchase(insider.id, insider.issuerId, "by trust"));
+		const again = await upsertTransaction(db, {
+			...purchase(insider.id, insider.issuerId, "by trust"),
+			postTransactionShares: "60000",
+		});
+
+		expect(trust.id).not.toBe(direct.id);
+		expect(again.id).toBe(trust.id);
+		expect(again.postTransactionShares).toBe("60000.0000");
+	});
+
+	it("should store same-sized rows reported without a price as separate rows", async () => {
+		const db = getDb();
+		const insider = await createInsider();
+		const unpriced = {
+			...purchase(insider.id, insider.issuerId, "direct"),
+			price: "0",
+			priceUnknown: true,
+			transactionValue: "0",
+		};
+
+		const first = await upsertTransaction(db, { ...unpriced, rowIndex: 0 });
+		const second = await upsertTransaction(db, { ...unpriced, rowIndex: 1 });
+		const replayed = await upsertTransaction(db, { ...unpriced, rowIndex: 1 });
+
+		expect(second.id).not.toBe(first.id);
+		expect(replayed.id).toBe(second.id);
+	});
+});
@@ -1,17 +1,46 @@
-import { eq } from "drizzle-orm";
+import { and, asc, eq, inArray, isNull, lt, notInArray, or, sql } from "drizzle-orm";
 import type { PgDatabase } from "drizzle-orm/pg-core";
 import {
+	type AlertOutboxEntry,
+	type Filing,
+	type Form144Notice,
+	type InitialStatement,
+	type InsertAlertOutboxEntry,
+	type InsertFiling,
+	type InsertFilingFootnote,
+	type InsertForm144Notice,
+	type InsertInitialHolding,
+	type InsertInitialStatement,
 	type InsertInsider,
 	type InsertIssuer,
+	type InsertIssuerTicker,
+	type InsertPerson,
+	type InsertPosition,
 	type InsertSlackAlert,
 	type InsertTransaction,
+	type InsertTradingPlan,
+	type InsertTransactionFootnote,
 	type Insider,
 	type Issuer,
+	type Person,
 	type SlackAlert,
+	type TradingPlan,
 	type Transaction,
+	alertOutbox,
+	filingFootnotes,
+	filings,
+	form144Notices,
+	initialHoldings,
+	initialStatements,
 	insiders,
+	issuerTickers,
 	issuers,
+	persons,
+	positions,
 	slackAlerts,
+	tradingPlans,
+	transactionFootnotes,
+	transactionReportingOwners,
 	transactions,
 } from "../../schema";
 
@@ -39,23 +68,127 @@ export async function upsertIssuer(
 	return issuer;
 }
 
+/**
+ * Set an issuer's current ticker
+ */
+export async function updateIssuerTicker(
+	db: PgDatabase<any, any, any>,
+	issuerId: string,
+	ticker: string,
+): Promise<void> {
+	await db.update(issuers).set({ ticker, updatedAt: new Date() }).where(eq(issuers.id, issuerId));
+}
+
+/**
+ * Insert reference ticker rows
+ */
+export async function insertIssuerTickers(
+	db: PgDatabase<any, any, any>,
+	data: Array<Omit<InsertIssuerTicker, "id" | "createdAt" | "updatedAt">>,
+): Promise<void> {
+	if (data.length === 0) return;
+
+	await db.insert(issuerTickers).values(data);
+}
+
+/**
+ * End reference ticker rows on a date
+ */
+export async function closeIssuerTickers(
+	db: PgDatabase<any, any, any>,
+	ids: string[],
+	validTo: string,
+): Promise<void> {
+	if (ids.length === 0) return;
+
+	await db
+		.update(issuerTickers)
+		.set({ validTo, updatedAt: new Date() })
+		.where(inArray(issuerTickers.id, ids));
+}
+
+/**
+ * Upsert a person (reporting owner across issuers)
+ * Updates the name if the CIK already exists, otherwise inserts
+ */
+export async function upsertPerson(
+	db: PgDatabase<any, any, any>,
+	data: Omit<InsertPerson, "id" | "createdAt" | "updatedAt">,
+): Promise<Person> {
+	const [person] = await db
+		.insert(persons)
+		.values(data)
+		.onConflictDoUpdate({
+			target: persons.cik,
+			set: {
+				name: data.name,
+				updatedAt: new Date(),
+			},
+		})
+		.returning();
+
+	return person;
+}
+
 /**
  * Upsert an insider (reporting owner)
- * Updates if name+issuerId already exists, otherwise inserts
+ * With a person, updates the person's insider at the issuer so a changed name format is not a
+ * new insider, adopting an insider stored by name before CIKs were linked if there is one.
+ * Owners with different CIKs are never merged, even when their names match. Without a person,
+ * updates the unlinked insider with the same name at the issuer, or inserts
  */
 export async function upsertInsider(
 	db: PgDatabase<any, any, any>,
 	data: Omit<InsertInsider, "id" | "createdAt" | "updatedAt">,
 ): Promise<Insider> {
+	const relationship = {
+		title: data.title,
+		isDirector: data.isDirector,
+		isOfficer: data.isOfficer,
+		isTenPercentOwner: data.isTenPercentOwner,
+		isOther: data.isOther,
+	};
+
+	if (data.personId) {
+		const [existing] = await db
+			.update(insiders)
+			.set({ ...relationship, updatedAt: new Date() })
+			.where(and(eq(insiders.personId, data.personId), eq(insiders.issuerId, data.issuerId)))
+			.returning();
+		if (existing) return existing;
+
+		const [adopted] = await db
+			.update(insiders)
+			.set({ ...relationship, personId: data.personId, updatedAt: new Date() })
+			.where(
+				and(
+					eq(insiders.name, data.name),
+					eq(insiders.issuerId, data.issuerId),
+					isNull(insiders.personId),
+				),
+			)
+			.returning();
+		if (adopted) return adopted;
+
+		const [insider] = await db
+			.insert(insiders)
+			.values(data)
+			.onConflictDoUpdate({
+				target: [insiders.personId, insiders.issuerId],
+				set: { ...relationship, updatedAt: new Date() },
+			})
+			.returning();
+
+		return insider;
+	}
+
 	const [insider] = await db
 		.insert(insiders)
 		.values(data)
 		.onConflictDoUpdate({
 			target: [insiders.name, insiders.issuerId],
-			set: {
-				title: data.title,
-				updatedAt: new Date(),
-			},
+			targetWhere: sql`${insiders.personId} IS NULL`,
+			set: { ...relationship, updatedAt: new Date() },
 		})
 		.returning();
 
@@ -65,7 +198,8 @@ export async function upsertInsider(
 /**
  * Upsert a transaction
  * Uses composite unique constraint for deduplication
- * If transaction already exists (same filing, insider, date, shares, price), updates it
+ * If transaction already exists (same filing, insider, date, shares, price, ownership vehicle,
+ * transaction code and row), updates it
  */
 export async function upsertTransaction(
 	db: PgDatabase<any, any, any>,
@@ -81,14 +215,34 @@ export async function upsertTransaction(
 				transactions.transactionDate,
 				transactions.shares,
 				transactions.price,
+				transactions.ownershipVehicle,
+				transactions.transactionCode,
+				transactions.rowIndex,
 			],
 			set: {
-				transactionCode: data.transactionCode,
 				transactionValue: data.transactionValue,
+				priceLow: data.priceLow,
+				priceHigh: data.priceHigh,
+				priceUnknown: data.priceUnknown,
+				isPriceEstimated: data.isPriceEstimated,
 				postTransactionShares: data.postTransactionShares,
 				isDirectOwnership: data.isDirectOwnership,
+				natureOfOwnership: data.natureOfOwnership,
 				is10b51: data.is10b51,
+				tradingPlanId: data.tradingPlanId,
+				planAdoptionDate: data.planAdoptionDate,
+				isDuringCoolingOff: data.isDuringCoolingOff,
+				filingDelayDays: data.filingDelayDays,
+				isLateFiling: data.isLateFiling,
 				signalScore: data.signalScore,
+				securityTitle: data.securityTitle,
+				isDerivative: data.isDerivative,
+				underlyingSecurityTitle: data.underlyingSecurityTitle,
+				underlyingShares: data.underlyingShares,
+				conversionOrExercisePrice: data.conversionOrExercisePrice,
+				exerciseDate: data.exerciseDate,
+				expirationDate: data.expirationDate,
+				isExerciseAndSell: data.isExerciseAndSell,
 				updatedAt: new Date(),
 			},
 		})
@@ -97,6 +251,68 @@ export async function upsertTransaction(
 	return transaction;
 }
 
+/**
+ * Link a transaction to every reporting owner on its filing
+ * @param insiderIds Owner insider IDs, primary owner first
+ */
+export async function linkTransactionReportingOwners(
+	db: PgDatabase<any, any, any>,
+	transactionId: string,
+	insiderIds: string[],
+): Promise<void> {
+	if (insiderIds.length === 0) return;
+
+	await db
+		.insert(transactionReportingOwners)
+		.values(
+			insiderIds.map((insiderId, index) => ({
+				transactionId,
+				insiderId,
+				isPrimary: index === 0,
+			})),
+		)
+		.onConflictDoNothing();
+}
+
+/**
+ * Upsert the footnotes of a filing
+ */
+export async function upsertFilingFootnotes(
+	db: PgDatabase<any, any, any>,
+	filingAccession: string,
+	data: Array<Omit<InsertFilingFootnote, "id" | "createdAt" | "updatedAt" | "filingAccession">>,
+): Promise<void> {
+	for (const footnote of data) {
+		await db
+			.insert(filingFootnotes)
+			.values({ ...footnote, filingAccession })
+			.onConflictDoUpdate({
+				target: [filingFootnotes.filingAccession, filingFootnotes.footnoteId],
+				set: {
+					text: footnote.text,
+					updatedAt: new Date(),
+				},
+			});
+	}
+}
+
+/**
+ * Replace the footnote references of a transaction
+ */
+export async function replaceTransactionFootnotes(
+	db: PgDatabase<any, any, any>,
+	transactionId: string,
+	data: Array<Omit<InsertTransactionFootnote, "id" | "createdAt" | "updatedAt" | "transactionId">>,
+): Promise<void> {
+	await db.delete(transactionFootnotes).where(eq(transactionFootnotes.transactionId, transactionId));
+
+	if (data.length === 0) return;
+
+	await db
+		.insert(transactionFootnotes)
+		.values(data.map((ref) => ({ ...ref, transactionId })));
+}
+
 /**
  * Record a Slack alert for a transaction
  */
@@ -158,3 +374,414 @@ export async function batchUpsertTransactions(
 
 	return results;
 }
+
+/**
+ * Upsert a processed filing
+ * Reprocessing an accession refreshes its form metadata but keeps amendment links
+ */
+export async function upsertFiling(
+	db: PgDatabase<any, any, any>,
+	data: Omit<InsertFiling, "id" | "createdAt" | "updatedAt">,
+): Promise<Filing> {
+	const [filing] = await db
+		.insert(filings)
+		.values(data)
+		.onConflictDoUpdate({
+			target: filings.accessionNumber,
+			set: {
+				formType: data.formType,
+				filingDate: data.filingDate,
+				dateOfOriginalSubmission: data.dateOfOriginalSubmission,
+				primaryDocument: data.primaryDocument,
+				documentStrategy: data.documentStrategy,
+				aff10b5One: data.aff10b5One,
+				updatedAt: new Date(),
+			},
+		})
+		.returning();
+
+	return filing;
+}
+
+/**
+ * Link a Form 4/A to the filing it replaces
+ */
+export async function linkFilingAmendment(
+	db: PgDatabase<any, any, any>,
+	originalAccession: string,
+	amendmentAccession: string,
+): Promise<void> {
+	await db
+		.update(filings)
+		.set({ supersededByAccession: amendmentAccession, updatedAt: new Date() })
+		.where(eq(filings.accessionNumber, originalAccession));
+
+	await db
+		.update(filings)
+		.set({ amendsAccession: originalAccession, updatedAt: new Date() })
+		.where(eq(filings.accessionNumber, amendmentAccession));
+}
+
+/**
+ * Mark an insider's active transactions from a filing as replaced by an amendment
+ * @returns The transactions that were superseded
+ */
+export async function supersedeFilingTransactions(
+	db: PgDatabase<any, any, any>,
+	originalAccession: string,
+	amendmentAccession: string,
+	insiderId: string,
+): Promise<Transaction[]> {
+	return db
+		.update(transactions)
+		.set({
+			supersededByAccession: amendmentAccession,
+			supersededAt: new Date(),
+			updatedAt: new Date(),
+		})
+		.where(
+			and(
+				eq(transactions.filingAccession, originalAccession),
+				eq(transactions.insiderId, insiderId),
+				isNull(transactions.supersededByAccession),
+			),
+		)
+		.returning();
+}
+
+/**
+ * Delete a filing's transactions that its latest parse did not write
+ * Rows keyed by an earlier parse (e.g. before a parser fix changed a row's shares or price)
+ * would otherwise stay active next to the rewritten ones
+ * @returns The deleted transactions
+ */
+export async function deleteStaleFilingTransactions(
+	db: PgDatabase<any, any, any>,
+	accessionNumber: string,
+	keepIds: string[],
+): Promise<Transaction[]> {
+	return db
+		.delete(transactions)
+		.where(
+			and(eq(transactions.filingAccession, accessionNumber), notInArray(transactions.id, keepIds)),
+		)
+		.returning();
+}
+
+/**
+ * Update a transaction's signal score after rescoring
+ */
+export async function updateTransactionScore(
+	db: PgDatabase<any, any, any>,
+	transactionId: string,
+	signalScore: string,
+): Promise<void> {
+	await db
+		.update(transactions)
+		.set({ signalScore, updatedAt: new Date() })
+		.where(eq(transactions.id, transactionId));
+}
+
+/**
+ * Flag an urgent alert as corrected by a Form 4/A
+ */
+export async function markSlackAlertCorrected(
+	db: PgDatabase<any, any, any>,
+	alertId: string,
+	amendmentAccession: string,
+): Promise<void> {
+	await db
+		.update(slackAlerts)
+		.set({
+			correctedByAccession: amendmentAccession,
+			correctedAt: new Date(),
+			updatedAt: new Date(),
+		})
+		.where(eq(slackAlerts.id, alertId));
+}
+
+/**
+ * Take a transaction-scoped lock on an accession number
+ * Held until the surrounding transaction ends, so two processes never write the same filing at once
+ */
+export async function lockFiling(db: PgDatabase<any, any, any>, accessionNumber: string): Promise<void> {
+	await db.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${accessionNumber}))`);
+}
+
+/**
+ * Record the content hash of the document a filing was last processed from in full
+ */
+export async function markFilingProcessed(
+	db: PgDatabase<any, any, any>,
+	accessionNumber: string,
+	contentHash: string,
+): Promise<void> {
+	await db
+		.update(filings)
+		.set({
+			contentHash,
+			updatedAt: new Date(),
+		})
+		.where(eq(filings.accessionNumber, accessionNumber));
+}
+
+/**
+ * Queue a Slack alert in the alert outbox
+ * @returns The queued entry, or null if the transaction already has one of this kind
+ */
+export async function queueAlert(
+	db: PgDatabase<any, any, any>,
+	data: Omit<InsertAlertOutboxEntry, "id" | "createdAt" | "updatedAt">,
+): Promise<AlertOutboxEntry | null> {
+	const [entry] = await db
+		.insert(alertOutbox)
+		.values(data)
+		.onConflictDoNothing({ target: [alertOutbox.kind, alertOutbox.transactionId] })
+		.returning();
+
+	return entry || null;
+}
+
+/**
+ * Claim pending alert outbox entries for posting, oldest first
+ * Claimed entries are marked 'sending' in one statement (rows another dispatcher is claiming
+ * are skipped), so concurrent dispatchers never post the same entry. A claim older than
+ * staleBefore is taken over, e.g. after a dispatcher crashed mid-post.
+ * @param entryIds Only these entries (e.g. the ones a filing just queued)
+ */
+export async function claimPendingAlerts(
+	db: PgDatabase<any, any, any>,
+	staleBefore: Date,
+	entryIds?: string[],
+	limit = 100,
+): Promise<AlertOutboxEntry[]> {
+	if (entryIds?.length === 0) return [];
+
+	const claimable = db
+		.select({ id: alertOutbox.id })
+		.from(alertOutbox)
+		.where(
+			and(
+				or(
+					eq(alertOutbox.status, "pending"),
+					and(eq(alertOutbox.status, "sending"), lt(alertOutbox.claimedAt, staleBefore)),
+				),
+				entryIds ? inArray(alertOutbox.id, entryIds) : undefined,
+			),
+		)
+		.orderBy(asc(alertOutbox.createdAt))
+		.limit(limit)
+		.for("update", { skipLocked: true });
+
+	const entries = await db
+		.update(alertOutbox)
+		.set({ status: "sending", claimedAt: new Date(), updatedAt: new Date() })
+		.where(inArray(alertOutbox.id, claimable))
+		.returning();
+
+	return entries.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Mark an alert outbox entry as posted
+ */
+export async function markAlertSent(db: PgDatabase<any, any, any>, entryId: string): Promise<void> {
+	await db
+		.update(alertOutbox)
+		.set({
+			status: "sent",
+			attempts: sql`${alertOutbox.attempts} + 1`,
+			lastError: null,
+			sentAt: new Date(),
+			updatedAt: new Date(),
+		})
+		.where(eq(alertOutbox.id, entryId));
+}
+
+/**
+ * Record a failed attempt to post an alert outbox entry
+ * The entry goes back to pending for the next dispatch until maxAttempts, then is marked failed
+ */
+export async function recordAlertFailure(
+	db: PgDatabase<any, any, any>,
+	entryId: string,
+	error: string,
+	maxAttempts: number,
+): Promise<void> {
+	await db
+		.update(alertOutbox)
+		.set({
+			status: sql`CASE WHEN ${alertOutbox.attempts} + 1 >= ${maxAttempts} THEN 'failed' ELSE 'pending' END`,
+			attempts: sql`${alertOutbox.attempts} + 1`,
+			lastError: error,
+			updatedAt: new Date(),
+		})
+		.where(eq(alertOutbox.id, entryId));
+}
+
+/**
+ * Upsert a Form 3 initial statement
+ */
+export async function upsertInitialStatement(
+	db: PgDatabase<any, any, any>,
+	data: Omit<InsertInitialStatement, "id" | "createdAt" | "updatedAt">,
+): Promise<InitialStatement> {
+	const [statement] = await db
+		.insert(initialStatements)
+		.values(data)
+		.onConflictDoUpdate({
+			target: initialStatements.filingAccession,
+			set: {
+				formType: data.formType,
+				eventDate: data.eventDate,
+				filingDate: data.filingDate,
+				noSecuritiesOwned: data.noSecuritiesOwned,
+				updatedAt: new Date(),
+			},
+		})
+		.returning();
+
+	return statement;
+}
+
+/**
+ * Replace the holding rows of an initial statement
+ * Holding rows have no natural key, so reprocessing a Form 3 rewrites them
+ */
+export async function replaceInitialHoldings(
+	db: PgDatabase<any, any, any>,
+	statementId: string,
+	data: Array<Omit<InsertInitialHolding, "id" | "createdAt" | "updatedAt" | "statementId">>,
+): Promise<number> {
+	await db.delete(initialHoldings).where(eq(initialHoldings.statementId, statementId));
+
+	if (data.length === 0) return 0;
+
+	const rows = await db
+		.insert(initialHoldings)
+		.values(data.map((holding) => ({ ...holding, statementId })))
+		.returning({ id: initialHoldings.id });
+
+	return rows.length;
+}
+
+/**
+ * Upsert an insider's reported positions (one row per security and ownership vehicle)
+ * A position is only replaced by a filing made on the same or a later date, so replays and
+ * backfills of older filings don't roll it back; same-day filings compare as-of dates
+ * @returns Number of positions inserted or updated
+ */
+export async function upsertPositions(
+	db: PgDatabase<any, any, any>,
+	data: Array<Omit<InsertPosition, "id" | "createdAt" | "updatedAt">>,
+): Promise<number> {
+	if (data.length === 0) return 0;
+
+	const rows = await db
+		.insert(positions)
+		.values(data)
+		.onConflictDoUpdate({
+			target: [positions.insiderId, positions.securityTitle, positions.ownershipVehicle],
+			set: {
+				isDirectOwnership: sql`excluded.is_direct_ownership`,
+				natureOfOwnership: sql`excluded.nature_of_ownership`,
+				isDerivative: sql`excluded.is_derivative`,
+				underlyingSecurityTitle: sql`excluded.underlying_security_title`,
+				shares: sql`excluded.shares`,
+				asOfDate: sql`excluded.as_of_date`,
+				source: sql`excluded.source`,
+				sourceAccession: sql`excluded.source_accession`,
+				sourceFilingDate: sql`excluded.source_filing_date`,
+				updatedAt: new Date(),
+			},
+			setWhere: sql`(${positions.sourceFilingDate}, ${positions.asOfDate}) <= (excluded.source_filing_date, excluded.as_of_date)`,
+		})
+		.returning({ id: positions.id });
+
+	return rows.length;
+}
+
+/**
+ * Upsert a Form 144 notice
+ * Reprocessing refreshes the notice details but keeps an existing Form 4 match
+ */
+export async function upsertForm144Notice(
+	db: PgDatabase<any, any, any>,
+	data: Omit<InsertForm144Notice, "id" | "createdAt" | "updatedAt">,
+): Promise<Form144Notice> {
+	const [notice] = await db
+		.insert(form144Notices)
+		.values(data)
+		.onConflictDoUpdate({
+			target: form144Notices.accessionNumber,
+			set: {
+				sellerName: data.sellerName,
+				relationship: data.relationship,
+				securityClassTitle: data.securityClassTitle,
+				sharesToBeSold: data.sharesToBeSold,
+				aggregateMarketValue: data.aggregateMarketValue,
+				approxSaleDate: data.approxSaleDate,
+				brokerName: data.brokerName,
+				exchangeName: data.exchangeName,
+				updatedAt: new Date(),
+			},
+		})
+		.returning();
+
+	return notice;
+}
+
+/**
+ * Link a Form 144 notice to the Form 4 sale that executed it
+ */
+export async function markForm144NoticeMatched(
+	db: PgDatabase<any, any, any>,
+	noticeId: string,
+	transactionId: string,
+): Promise<void> {
+	await db
+		.update(form144Notices)
+		.set({ matchedTransactionId: transactionId, matchedAt: new Date(), updatedAt: new Date() })
+		.where(eq(form144Notices.id, noticeId));
+}
+
+/**
+ * Return Form 144 notices matched to the given transactions to pending
+ * Used when a Form 4/A supersedes the sale a notice was matched to
+ */
+export async function releaseForm144Matches(
+	db: PgDatabase<any, any, any>,
+	transactionIds: string[],
+): Promise<void> {
+	if (transactionIds.length === 0) return;
+
+	await db
+		.update(form144Notices)
+		.set({ matchedTransactionId: null, matchedAt: null, updatedAt: new Date() })
+		.where(inArray(form144Notices.matchedTransactionId, transactionIds));
+}
+
+/**
+ * Upsert a Rule 10b5-1 trading plan seen on a plan trade
+ * An existing plan keeps its first filing and widens its first/last trade dates
+ */
+export async function upsertTradingPlan(
+	db: PgDatabase<any, any, any>,
+	data: Omit<InsertTradingPlan, "id" | "createdAt" | "updatedAt">,
+): Promise<TradingPlan> {
+	const [plan] = await db
+		.insert(tradingPlans)
+		.values(data)
+		.onConflictDoUpdate({
+			target: [tradingPlans.insiderId, tradingPlans.adoptionDate],
+			set: {
+				coolingOffEndsOn: data.coolingOffEndsOn,
+				firstTradeDate: sql`LEAST(${tradingPlans.firstTradeDate}, ${data.firstTradeDate})`,
+				lastTradeDate: sql`GREATEST(${tradingPlans.lastTradeDate}, ${data.lastTradeDate})`,
+				updatedAt: new Date(),
+			},
+		})
+		.returning();
+
+	return plan;
+}
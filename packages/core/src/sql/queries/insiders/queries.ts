@@ -1,7 +1,37 @@
-import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import { and, asc, desc, eq, gte, inArray, isNull, lte, ne, notInArray, or, sql } from "drizzle-orm";
 import type { PgDatabase } from "drizzle-orm/pg-core";
-import type { Insider, Issuer, Transaction } from "../../schema";
-import { insiders, issuers, slackAlerts, transactions } from "../../schema";
+import type {
+	AlertOutboxEntry,
+	Filing,
+	Form144Notice,
+	InitialStatement,
+	Insider,
+	Issuer,
+	IssuerTicker,
+	Person,
+	Position,
+	SlackAlert,
+	TradingPlan,
+	Transaction,
+} from "../../schema";
+import {
+	alertOutbox,
+	filingFootnotes,
+	filings,
+	form144Notices,
+	initialHoldings,
+	initialStatements,
+	insiders,
+	issuerTickers,
+	issuers,
+	persons,
+	positions,
+	slackAlerts,
+	tradingPlans,
+	transactionFootnotes,
+	transactionReportingOwners,
+	transactions,
+} from "../../schema";
 
 /**
  * Get an issuer by CIK
@@ -17,14 +47,83 @@ export async function getIssuerByCik(
 
 /**
  * Get an issuer by ticker
+ * Falls back to the ticker history, most recently valid first, so former and class-share
+ * tickers resolve too. Pass a normalized ticker (see normalizeTicker)
  */
 export async function getIssuerByTicker(
 	db: PgDatabase<any, any, any>,
 	ticker: string,
 ): Promise<Issuer | null> {
 	const [issuer] = await db.select().from(issuers).where(eq(issuers.ticker, ticker)).limit(1);
+	if (issuer) return issuer;
 
-	return issuer || null;
+	const [historical] = await db
+		.select({ issuer: issuers })
+		.from(issuerTickers)
+		.innerJoin(issuers, eq(issuerTickers.cik, issuers.cik))
+		.where(eq(issuerTickers.ticker, ticker))
+		.orderBy(sql`${issuerTickers.validTo} DESC NULLS FIRST`, desc(issuerTickers.validFrom))
+		.limit(1);
+
+	return historical?.issuer || null;
+}
+
+/**
+ * Get the CIK the reference tickers list for a ticker, current listing first
+ * Covers issuers that haven't been ingested yet
+ */
+export async function getReferenceTickerCik(
+	db: PgDatabase<any, any, any>,
+	ticker: string,
+): Promise<string | null> {
+	const [reference] = await db
+		.select({ cik: issuerTickers.cik })
+		.from(issuerTickers)
+		.where(eq(issuerTickers.ticker, ticker))
+		.orderBy(sql`${issuerTickers.validTo} DESC NULLS FIRST`, desc(issuerTickers.validFrom))
+		.limit(1);
+
+	return reference?.cik || null;
+}
+
+/**
+ * Get every issuer's CIK and current ticker
+ * Used when loading the SEC ticker reference
+ */
+export async function getIssuerTickerSummaries(
+	db: PgDatabase<any, any, any>,
+): Promise<Array<Pick<Issuer, "id" | "cik" | "ticker">>> {
+	return db.select({ id: issuers.id, cik: issuers.cik, ticker: issuers.ticker }).from(issuers);
+}
+
+/**
+ * Get the current reference tickers, optionally for one CIK
+ */
+export async function getCurrentIssuerTickers(
+	db: PgDatabase<any, any, any>,
+	cik?: string,
+): Promise<IssuerTicker[]> {
+	return db
+		.select()
+		.from(issuerTickers)
+		.where(
+			and(isNull(issuerTickers.validTo), cik === undefined ? undefined : eq(issuerTickers.cik, cik)),
+		)
+		.orderBy(asc(issuerTickers.cik), asc(issuerTickers.createdAt), asc(issuerTickers.ticker));
+}
+
+/**
+ * Get a CIK's ticker history, current tickers first
+ */
+export async function getIssuerTickerHistory(
+	db: PgDatabase<any, any, any>,
+	cik: string,
+): Promise<IssuerTicker[]> {
+	return db
+		.select()
+		.from(issuerTickers)
+		.where(eq(issuerTickers.cik, cik))
+		.orderBy(sql`${issuerTickers.validTo} DESC NULLS FIRST`, desc(issuerTickers.validFrom));
 }
 
 /**
@@ -44,6 +143,58 @@ export async function getInsiderByNameAndIssuer(
 	return insider || null;
 }
 
+/**
+ * Get a person (reporting owner across issuers) by ID
+ */
+export async function getPersonById(
+	db: PgDatabase<any, any, any>,
+	personId: string,
+): Promise<Person | null> {
+	const [person] = await db.select().from(persons).where(eq(persons.id, personId)).limit(1);
+
+	return person || null;
+}
+
+export interface PersonIssuerRole {
+	insider: Insider;
+	issuer: Issuer;
+	transactionCount: number; // Active (not superseded) Form 4 transactions at the issuer
+	lastTransactionDate: string | null;
+}
+
+/**
+ * Get a person's insider row at every issuer, with their trading activity there
+ * Most recently traded first
+ */
+export async function getPersonIssuerRoles(
+	db: PgDatabase<any, any, any>,
+	personId: string,
+): Promise<PersonIssuerRole[]> {
+	const rows = await db
+		.select({
+			insider: insiders,
+			issuer: issuers,
+			transactionCount: sql<string>`COUNT(${transactions.id})`,
+			lastTransactionDate: sql<string | null>`MAX(${transactions.transactionDate})`,
+		})
+		.from(insiders)
+		.innerJoin(issuers, eq(insiders.issuerId, issuers.id))
+		.leftJoin(
+			transactions,
+			and(eq(transactions.insiderId, insiders.id), isNull(transactions.supersededByAccession)),
+		)
+		.where(eq(insiders.personId, personId))
+		.groupBy(insiders.id, issuers.id)
+		.orderBy(sql`MAX(${transactions.transactionDate}) DESC NULLS LAST`, asc(issuers.companyName));
+
+	return rows.map((row) => ({
+		insider: row.insider,
+		issuer: row.issuer,
+		transactionCount: Number(row.transactionCount),
+		lastTransactionDate: row.lastTransactionDate,
+	}));
+}
+
 /**
  * Get insider's last transaction date
  * Used to determine if this is their first activity in 180+ days
@@ -52,13 +203,25 @@ export async function getInsiderLastTransactionDate(
 	db: PgDatabase<any, any, any>,
 	insiderId: string,
 	beforeDate: string,
+	excludeFilingAccession?: string,
 ): Promise<string | null> {
+	const conditions = [
+		eq(transactions.insiderId, insiderId),
+		lte(transactions.transactionDate, beforeDate),
+		isNull(transactions.supersededByAccession),
+	];
+
+	// Rows from the filing being scored aren't prior activity
+	if (excludeFilingAccession) {
+		conditions.push(ne(transactions.filingAccession, excludeFilingAccession));
+	}
+
 	const [result] = await db
 		.select({
 			transactionDate: transactions.transactionDate,
 		})
 		.from(transactions)
-		.where(and(eq(transactions.insiderId, insiderId), lte(transactions.transactionDate, beforeDate)))
+		.where(and(...conditions))
 		.orderBy(desc(transactions.transactionDate))
 		.limit(1);
 
@@ -83,6 +246,7 @@ export async function getRecentTransactionsByTicker(
 				eq(transactions.issuerId, issuerId),
 				gte(transactions.transactionDate, startDate),
 				lte(transactions.transactionDate, endDate),
+				isNull(transactions.supersededByAccession),
 			),
 		)
 		.orderBy(desc(transactions.transactionDate));
@@ -97,16 +261,17 @@ export async function getDistinctInsiderCountInCluster(
 	issuerId: string,
 	startDate: string,
 	endDate: string,
-	excludeInsiderId?: string,
+	excludeInsiderIds: string[] = [],
 ): Promise<number> {
 	const conditions = [
 		eq(transactions.issuerId, issuerId),
 		gte(transactions.transactionDate, startDate),
 		lte(transactions.transactionDate, endDate),
+		isNull(transactions.supersededByAccession),
 	];
 
-	if (excludeInsiderId) {
-		conditions.push(sql`${transactions.insiderId} != ${excludeInsiderId}`);
+	if (excludeInsiderIds.length > 0) {
+		conditions.push(notInArray(transactions.insiderId, excludeInsiderIds));
 	}
 
 	const [result] = await db
@@ -120,24 +285,126 @@ export async function getDistinctInsiderCountInCluster(
 }
 
 /**
- * Get insider's holdings history (previous transaction)
+ * Get insider's holdings history (previous transaction in the same ownership vehicle)
  * Used to calculate holdings delta percentage
  */
 export async function getInsiderPreviousTransaction(
 	db: PgDatabase<any, any, any>,
 	insiderId: string,
+	ownershipVehicle: string,
 	beforeDate: string,
+	excludeFilingAccession?: string,
 ): Promise<Transaction | null> {
+	const conditions = [
+		eq(transactions.insiderId, insiderId),
+		eq(transactions.ownershipVehicle, ownershipVehicle),
+		lte(transactions.transactionDate, beforeDate),
+		isNull(transactions.supersededByAccession),
+	];
+
+	// The filing being alerted on is already saved and isn't its own prior state
+	if (excludeFilingAccession) {
+		conditions.push(ne(transactions.filingAccession, excludeFilingAccession));
+	}
+
 	const [transaction] = await db
 		.select()
 		.from(transactions)
-		.where(and(eq(transactions.insiderId, insiderId), lte(transactions.transactionDate, beforeDate)))
+		.where(and(...conditions))
 		.orderBy(desc(transactions.transactionDate))
 		.limit(1);
 
 	return transaction || null;
 }
 
+/**
+ * Get the insider's most recent Form 3 initial statement
+ * Used as the starting point when the insider has no earlier Form 4 activity
+ */
+export async function getInsiderInitialStatement(
+	db: PgDatabase<any, any, any>,
+	insiderId: string,
+): Promise<InitialStatement | null> {
+	const [statement] = await db
+		.select()
+		.from(initialStatements)
+		.where(eq(initialStatements.insiderId, insiderId))
+		.orderBy(desc(initialStatements.eventDate), desc(initialStatements.filingDate))
+		.limit(1);
+
+	return statement || null;
+}
+
+/**
+ * Get the insider's baseline non-derivative shares from their Form 3
+ * Sums holding rows in the same ownership vehicle as the transaction
+ * @returns Baseline share count (0 if the Form 3 reported none), or null without a Form 3
+ */
+export async function getInsiderBaselineShares(
+	db: PgDatabase<any, any, any>,
+	insiderId: string,
+	ownershipVehicle: string,
+): Promise<number | null> {
+	const statement = await getInsiderInitialStatement(db, insiderId);
+	if (!statement) return null;
+
+	const [result] = await db
+		.select({
+			shares: sql<string | null>`SUM(${initialHoldings.shares})`,
+		})
+		.from(initialHoldings)
+		.where(
+			and(
+				eq(initialHoldings.statementId, statement.id),
+				eq(initialHoldings.isDerivative, false),
+				eq(initialHoldings.ownershipVehicle, ownershipVehicle),
+			),
+		);
+
+	return Number(result?.shares || 0);
+}
+
+/**
+ * Get the reported positions of every insider of an issuer
+ * Non-derivative positions first, largest first
+ */
+export async function getIssuerPositions(
+	db: PgDatabase<any, any, any>,
+	issuerId: string,
+): Promise<Array<Position & { insider: Insider }>> {
+	const rows = await db
+		.select({ position: positions, insider: insiders })
+		.from(positions)
+		.innerJoin(insiders, eq(positions.insiderId, insiders.id))
+		.where(eq(positions.issuerId, issuerId))
+		.orderBy(asc(positions.isDerivative), desc(positions.shares), asc(positions.securityTitle));
+
+	return rows.map((row) => ({ ...row.position, insider: row.insider }));
+}
+
+/**
+ * Get a person's reported positions at every issuer
+ */
+export async function getPersonPositions(
+	db: PgDatabase<any, any, any>,
+	personId: string,
+): Promise<Array<Position & { issuer: Issuer }>> {
+	const rows = await db
+		.select({ position: positions, issuer: issuers })
+		.from(positions)
+		.innerJoin(insiders, eq(positions.insiderId, insiders.id))
+		.innerJoin(issuers, eq(positions.issuerId, issuers.id))
+		.where(eq(insiders.personId, personId))
+		.orderBy(
+			asc(issuers.companyName),
+			asc(positions.isDerivative),
+			desc(positions.shares),
+			asc(positions.securityTitle),
+		);
+
+	return rows.map((row) => ({ ...row.position, issuer: row.issuer }));
+}
+
 /**
  * Get daily transactions grouped by ticker for digest
  * Used to build the daily digest message
@@ -156,11 +423,33 @@ export async function getDailyTransactionsByDate(
 			transactionCode: transactions.transactionCode,
 			shares: transactions.shares,
 			price: transactions.price,
+			priceLow: transactions.priceLow,
+			priceHigh: transactions.priceHigh,
+			priceUnknown: transactions.priceUnknown,
+			isPriceEstimated: transactions.isPriceEstimated,
 			transactionValue: transactions.transactionValue,
 			postTransactionShares: transactions.postTransactionShares,
 			isDirectOwnership: transactions.isDirectOwnership,
+			natureOfOwnership: transactions.natureOfOwnership,
+			ownershipVehicle: transactions.ownershipVehicle,
 			is10b51: transactions.is10b51,
+			tradingPlanId: transactions.tradingPlanId,
+			planAdoptionDate: transactions.planAdoptionDate,
+			isDuringCoolingOff: transactions.isDuringCoolingOff,
+			filingDelayDays: transactions.filingDelayDays,
+			isLateFiling: transactions.isLateFiling,
 			signalScore: transactions.signalScore,
+			supersededByAccession: transactions.supersededByAccession,
+			supersededAt: transactions.supersededAt,
+			securityTitle: transactions.securityTitle,
+			isDerivative: transactions.isDerivative,
+			underlyingSecurityTitle: transactions.underlyingSecurityTitle,
+			underlyingShares: transactions.underlyingShares,
+			conversionOrExercisePrice: transactions.conversionOrExercisePrice,
+			exerciseDate: transactions.exerciseDate,
+			expirationDate: transactions.expirationDate,
+			isExerciseAndSell: transactions.isExerciseAndSell,
+			rowIndex: transactions.rowIndex,
 			createdAt: transactions.createdAt,
 			updatedAt: transactions.updatedAt,
 			issuer: issuers,
@@ -169,7 +458,9 @@ export async function getDailyTransactionsByDate(
 		.from(transactions)
 		.innerJoin(issuers, eq(transactions.issuerId, issuers.id))
 		.innerJoin(insiders, eq(transactions.insiderId, insiders.id))
-		.where(eq(transactions.transactionDate, date))
+		.where(
+			and(eq(transactions.transactionDate, date), isNull(transactions.supersededByAccession)),
+		)
 		.orderBy(desc(transactions.signalScore));
 }
 
@@ -193,18 +484,46 @@ export async function getTransactionsByTicker(
 			transactionCode: transactions.transactionCode,
 			shares: transactions.shares,
 			price: transactions.price,
+			priceLow: transactions.priceLow,
+			priceHigh: transactions.priceHigh,
+			priceUnknown: transactions.priceUnknown,
+			isPriceEstimated: transactions.isPriceEstimated,
 			transactionValue: transactions.transactionValue,
 			postTransactionShares: transactions.postTransactionShares,
 			isDirectOwnership: transactions.isDirectOwnership,
+			natureOfOwnership: transactions.natureOfOwnership,
+			ownershipVehicle: transactions.ownershipVehicle,
 			is10b51: transactions.is10b51,
+			tradingPlanId: transactions.tradingPlanId,
+			planAdoptionDate: transactions.planAdoptionDate,
+			isDuringCoolingOff: transactions.isDuringCoolingOff,
+			filingDelayDays: transactions.filingDelayDays,
+			isLateFiling: transactions.isLateFiling,
 			signalScore: transactions.signalScore,
+			supersededByAccession: transactions.supersededByAccession,
+			supersededAt: transactions.supersededAt,
+			securityTitle: transactions.securityTitle,
+			isDerivative: transactions.isDerivative,
+			underlyingSecurityTitle: transactions.underlyingSecurityTitle,
+			underlyingShares: transactions.underlyingShares,
+			conversionOrExercisePrice: transactions.conversionOrExercisePrice,
+			exerciseDate: transactions.exerciseDate,
+			expirationDate: transactions.expirationDate,
+			isExerciseAndSell: transactions.isExerciseAndSell,
+			rowIndex: transactions.rowIndex,
 			createdAt: transactions.createdAt,
 			updatedAt: transactions.updatedAt,
 			insider: insiders,
 		})
 		.from(transactions)
 		.innerJoin(insiders, eq(transactions.insiderId, insiders.id))
-		.where(and(eq(transactions.issuerId, issuerId), gte(transactions.transactionDate, startDate)))
+		.where(
+			and(
+				eq(transactions.issuerId, issuerId),
+				gte(transactions.transactionDate, startDate),
+				isNull(transactions.supersededByAccession),
+			),
+		)
 		.orderBy(desc(transactions.transactionDate))
 		.limit(limit);
 }
@@ -232,11 +551,33 @@ export async function getRecentHighScoreTransactions(
 			transactionCode: transactions.transactionCode,
 			shares: transactions.shares,
 			price: transactions.price,
+			priceLow: transactions.priceLow,
+			priceHigh: transactions.priceHigh,
+			priceUnknown: transactions.priceUnknown,
+			isPriceEstimated: transactions.isPriceEstimated,
 			transactionValue: transactions.transactionValue,
 			postTransactionShares: transactions.postTransactionShares,
 			isDirectOwnership: transactions.isDirectOwnership,
+			natureOfOwnership: transactions.natureOfOwnership,
+			ownershipVehicle: transactions.ownershipVehicle,
 			is10b51: transactions.is10b51,
+			tradingPlanId: transactions.tradingPlanId,
+			planAdoptionDate: transactions.planAdoptionDate,
+			isDuringCoolingOff: transactions.isDuringCoolingOff,
+			filingDelayDays: transactions.filingDelayDays,
+			isLateFiling: transactions.isLateFiling,
 			signalScore: transactions.signalScore,
+			supersededByAccession: transactions.supersededByAccession,
+			supersededAt: transactions.supersededAt,
+			securityTitle: transactions.securityTitle,
+			isDerivative: transactions.isDerivative,
+			underlyingSecurityTitle: transactions.underlyingSecurityTitle,
+			underlyingShares: transactions.underlyingShares,
+			conversionOrExercisePrice: transactions.conversionOrExercisePrice,
+			exerciseDate: transactions.exerciseDate,
+			expirationDate: transactions.expirationDate,
+			isExerciseAndSell: transactions.isExerciseAndSell,
+			rowIndex: transactions.rowIndex,
 			createdAt: transactions.createdAt,
 			updatedAt: transactions.updatedAt,
 			issuer: issuers,
@@ -249,6 +590,7 @@ export async function getRecentHighScoreTransactions(
 			and(
 				gte(transactions.transactionDate, startDateStr),
 				sql`ABS(${transactions.signalScore}) >= ${minScore}`,
+				isNull(transactions.supersededByAccession),
 			),
 		)
 		.orderBy(desc(sql`ABS(${transactions.signalScore})`), desc(transactions.transactionDate))
@@ -275,7 +617,284 @@ export async function hasSlackAlertForTransaction(
 }
 
 /**
- * Search tickers by symbol or company name
+ * Get active transactions for an issuer within a date range, with the insider
+ * Used to rescore the cluster window around an amended filing
+ */
+export async function getTransactionsWithInsiderInRange(
+	db: PgDatabase<any, any, any>,
+	issuerId: string,
+	startDate: string,
+	endDate: string,
+): Promise<Array<{ transaction: Transaction; insider: Insider }>> {
+	return db
+		.select({ transaction: transactions, insider: insiders })
+		.from(transactions)
+		.innerJoin(insiders, eq(transactions.insiderId, insiders.id))
+		.where(
+			and(
+				eq(transactions.issuerId, issuerId),
+				gte(transactions.transactionDate, startDate),
+				lte(transactions.transactionDate, endDate),
+				isNull(transactions.supersededByAccession),
+			),
+		)
+		.orderBy(asc(transactions.transactionDate));
+}
+
+/**
+ * Get every reporting owner linked to a transaction, primary owner first
+ */
+export async function getTransactionReportingOwners(
+	db: PgDatabase<any, any, any>,
+	transactionId: string,
+): Promise<Array<Insider & { isPrimary: boolean }>> {
+	const rows = await db
+		.select({ insider: insiders, isPrimary: transactionReportingOwners.isPrimary })
+		.from(transactionReportingOwners)
+		.innerJoin(insiders, eq(transactionReportingOwners.insiderId, insiders.id))
+		.where(eq(transactionReportingOwners.transactionId, transactionId))
+		.orderBy(desc(transactionReportingOwners.isPrimary), asc(insiders.name));
+
+	return rows.map((row) => ({ ...row.insider, isPrimary: row.isPrimary }));
+}
+
+/**
+ * Get the footnotes attached to a transaction, with the field each one annotates
+ */
+export async function getTransactionFootnotes(
+	db: PgDatabase<any, any, any>,
+	transactionId: string,
+): Promise<Array<{ footnoteId: string; field: string; text: string }>> {
+	return db
+		.select({
+			footnoteId: transactionFootnotes.footnoteId,
+			field: transactionFootnotes.field,
+			text: filingFootnotes.text,
+		})
+		.from(transactionFootnotes)
+		.innerJoin(transactions, eq(transactionFootnotes.transactionId, transactions.id))
+		.innerJoin(
+			filingFootnotes,
+			and(
+				eq(filingFootnotes.filingAccession, transactions.filingAccession),
+				eq(filingFootnotes.footnoteId, transactionFootnotes.footnoteId),
+			),
+		)
+		.where(eq(transactionFootnotes.transactionId, transactionId))
+		.orderBy(asc(transactionFootnotes.footnoteId), asc(transactionFootnotes.field));
+}
+
+/**
+ * Get a processed filing by accession number
+ */
+export async function getFilingByAccession(
+	db: PgDatabase<any, any, any>,
+	accessionNumber: string,
+): Promise<Filing | null> {
+	const [filing] = await db
+		.select()
+		.from(filings)
+		.where(eq(filings.accessionNumber, accessionNumber))
+		.limit(1);
+
+	return filing || null;
+}
+
+/**
+ * Find the current filing a Form 4/A amends
+ * Matches filings for the issuer submitted on the original date (or earlier amendments of it)
+ * that still have active transactions for the reporting insider
+ */
+export async function findAmendedFiling(
+	db: PgDatabase<any, any, any>,
+	params: {
+		issuerId: string;
+		insiderId: string;
+		dateOfOriginalSubmission: string;
+		amendmentAccession: string;
+	},
+): Promise<Filing | null> {
+	const [filing] = await db
+		.select()
+		.from(filings)
+		.where(
+			and(
+				eq(filings.issuerId, params.issuerId),
+				ne(filings.accessionNumber, params.amendmentAccession),
+				isNull(filings.supersededByAccession),
+				or(
+					eq(filings.filingDate, params.dateOfOriginalSubmission),
+					eq(filings.dateOfOriginalSubmission, params.dateOfOriginalSubmission),
+				),
+				sql`EXISTS (
+					SELECT 1 FROM ${transactions}
+					WHERE ${transactions.filingAccession} = ${filings.accessionNumber}
+					AND ${transactions.insiderId} = ${params.insiderId}
+					AND ${transactions.supersededByAccession} IS NULL
+				)`,
+			),
+		)
+		.orderBy(desc(filings.filingDate), desc(filings.createdAt))
+		.limit(1);
+
+	return filing || null;
+}
+
+/**
+ * Check whether any filing of the issuer submitted on a date was ingested
+ * Looser than findAmendedFiling: tells an amendment whose original is still to come apart
+ * from one whose original was stored without matching transactions
+ */
+export async function hasIssuerFilingOn(
+	db: PgDatabase<any, any, any>,
+	params: { issuerId: string; filingDate: string; excludeAccession: string },
+): Promise<boolean> {
+	const [filing] = await db
+		.select({ id: filings.id })
+		.from(filings)
+		.where(
+			and(
+				eq(filings.issuerId, params.issuerId),
+				eq(filings.filingDate, params.filingDate),
+				ne(filings.accessionNumber, params.excludeAccession),
+			),
+		)
+		.limit(1);
+
+	return filing !== undefined;
+}
+
+/**
+ * Get the amendment chain a filing belongs to, oldest first
+ * Follows amendsAccession back to the original and supersededByAccession forward to the current version
+ */
+export async function getFilingAmendmentHistory(
+	db: PgDatabase<any, any, any>,
+	accessionNumber: string,
+): Promise<Filing[]> {
+	const start = await getFilingByAccession(db, accessionNumber);
+	if (!start) return [];
+
+	const history = [start];
+	const seen = new Set([start.accessionNumber]);
+
+	// Walk back to the original filing
+	let cursor: Filing | null = start;
+	while (cursor?.amendsAccession && !seen.has(cursor.amendsAccession)) {
+		cursor = await getFilingByAccession(db, cursor.amendsAccession);
+		if (!cursor) break;
+		seen.add(cursor.accessionNumber);
+		history.unshift(cursor);
+	}
+
+	// Walk forward to the current amendment
+	cursor = start;
+	while (cursor?.supersededByAccession && !seen.has(cursor.supersededByAccession)) {
+		cursor = await getFilingByAccession(db, cursor.supersededByAccession);
+		if (!cursor) break;
+		seen.add(cursor.accessionNumber);
+		history.push(cursor);
+	}
+
+	return history;
+}
+
+/**
+ * Get urgent alerts for transactions that haven't been corrected yet
+ */
+export async function getUncorrectedUrgentAlerts(
+	db: PgDatabase<any, any, any>,
+	transactionIds: string[],
+): Promise<SlackAlert[]> {
+	if (transactionIds.length === 0) return [];
+
+	return db
+		.select()
+		.from(slackAlerts)
+		.where(
+			and(
+				inArray(slackAlerts.transactionId, transactionIds),
+				eq(slackAlerts.alertType, "urgent"),
+				isNull(slackAlerts.correctedAt),
+			),
+		);
+}
+
+/**
+ * Get unmatched Form 144 notices that could cover a sale on a date
+ * A notice is filed on or before the sale and covers sales within 90 days of filing
+ */
+export async function getMatchableForm144Notices(
+	db: PgDatabase<any, any, any>,
+	issuerId: string,
+	saleDate: string,
+	validityDays: number,
+): Promise<Form144Notice[]> {
+	const earliestFilingDate = new Date(`${saleDate}T00:00:00Z`);
+	earliestFilingDate.setUTCDate(earliestFilingDate.getUTCDate() - validityDays);
+	const earliestFilingDateStr = earliestFilingDate.toISOString().split("T")[0];
+
+	return db
+		.select()
+		.from(form144Notices)
+		.where(
+			and(
+				eq(form144Notices.issuerId, issuerId),
+				isNull(form144Notices.matchedTransactionId),
+				lte(form144Notices.filingDate, saleDate),
+				gte(form144Notices.filingDate, earliestFilingDateStr),
+			),
+		)
+		.orderBy(asc(form144Notices.filingDate));
+}
+
+/**
+ * Get pending (unexecuted, unexpired) Form 144 notices for an issuer
+ * Used for the dashboard ticker view
+ */
+export async function getPendingForm144Notices(
+	db: PgDatabase<any, any, any>,
+	issuerId: string,
+	asOfDate: string,
+	validityDays: number,
+): Promise<Form144Notice[]> {
+	const earliestFilingDate = new Date(`${asOfDate}T00:00:00Z`);
+	earliestFilingDate.setUTCDate(earliestFilingDate.getUTCDate() - validityDays);
+	const earliestFilingDateStr = earliestFilingDate.toISOString().split("T")[0];
+
+	return db
+		.select()
+		.from(form144Notices)
+		.where(
+			and(
+				eq(form144Notices.issuerId, issuerId),
+				isNull(form144Notices.matchedTransactionId),
+				gte(form144Notices.filingDate, earliestFilingDateStr),
+			),
+		)
+		.orderBy(desc(form144Notices.filingDate));
+}
+
+/**
+ * Get Form 144 notices filed on a date, with issuer
+ * Used to build the daily digest message
+ */
+export async function getForm144NoticesByFilingDate(
+	db: PgDatabase<any, any, any>,
+	date: string,
+): Promise<Array<Form144Notice & { issuer: Issuer }>> {
+	const rows = await db
+		.select({ notice: form144Notices, issuer: issuers })
+		.from(form144Notices)
+		.innerJoin(issuers, eq(form144Notices.issuerId, issuers.id))
+		.where(eq(form144Notices.filingDate, date))
+		.orderBy(desc(form144Notices.aggregateMarketValue));
+
+	return rows.map((row) => ({ ...row.notice, issuer: row.issuer }));
+}
+
+/**
+ * Search tickers by symbol (current or former) or company name
  */
 export async function searchTickers(
 	db: PgDatabase<any, any, any>,
@@ -288,7 +907,126 @@ export async function searchTickers(
 		.select()
 		.from(issuers)
 		.where(
-			sql`UPPER(${issuers.ticker}) LIKE ${searchPattern} OR UPPER(${issuers.companyName}) LIKE ${searchPattern}`,
+			sql`UPPER(${issuers.ticker}) LIKE ${searchPattern} OR UPPER(${issuers.companyName}) LIKE ${searchPattern} OR EXISTS (SELECT 1 FROM ${issuerTickers} WHERE ${issuerTickers.cik} = ${issuers.cik} AND ${issuerTickers.ticker} LIKE ${searchPattern})`,
 		)
 		.limit(limit);
 }
+
+/**
+ * Get an insider's most recently adopted trading plan as of a date
+ * Used for plan trades whose footnotes don't repeat the adoption date
+ */
+export async function getLatestTradingPlan(
+	db: PgDatabase<any, any, any>,
+	insiderId: string,
+	asOfDate: string,
+): Promise<TradingPlan | null> {
+	const [plan] = await db
+		.select()
+		.from(tradingPlans)
+		.where(and(eq(tradingPlans.insiderId, insiderId), lte(tradingPlans.adoptionDate, asOfDate)))
+		.orderBy(desc(tradingPlans.adoptionDate))
+		.limit(1);
+
+	return plan || null;
+}
+
+export interface LateFilingStats {
+	filingCount: number;
+	lateFilingCount: number; // Filed after the two-business-day deadline
+	avgDelayDays: number | null; // Mean business days from trade to filing
+	maxDelayDays: number | null;
+}
+
+export interface InsiderLateFilingStats extends LateFilingStats {
+	insiderId: string;
+	name: string;
+	title: string | null;
+}
+
+/**
+ * Reporting-delay aggregates over transaction rows
+ * Counted per filing: a late Form 4 with several rows is one late filing
+ */
+const lateFilingStatsFields = {
+	filingCount: sql<string>`COUNT(DISTINCT ${transactions.filingAccession})`,
+	lateFilingCount: sql<string>`COUNT(DISTINCT ${transactions.filingAccession}) FILTER (WHERE ${transactions.isLateFiling})`,
+	avgDelayDays: sql<string | null>`AVG(${transactions.filingDelayDays})`,
+	maxDelayDays: sql<string | null>`MAX(${transactions.filingDelayDays})`,
+};
+
+function toLateFilingStats(row: {
+	filingCount: string;
+	lateFilingCount: string;
+	avgDelayDays: string | null;
+	maxDelayDays: string | null;
+}): LateFilingStats {
+	return {
+		filingCount: Number(row.filingCount),
+		lateFilingCount: Number(row.lateFilingCount),
+		avgDelayDays: row.avgDelayDays === null ? null : Number(Number(row.avgDelayDays).toFixed(1)),
+		maxDelayDays: row.maxDelayDays === null ? null : Number(row.maxDelayDays),
+	};
+}
+
+/**
+ * Get an issuer's late Form 4 filing statistics for trades since a date
+ */
+export async function getIssuerLateFilingStats(
+	db: PgDatabase<any, any, any>,
+	issuerId: string,
+	startDate: string,
+): Promise<LateFilingStats> {
+	const [result] = await db
+		.select(lateFilingStatsFields)
+		.from(transactions)
+		.where(
+			and(
+				eq(transactions.issuerId, issuerId),
+				gte(transactions.transactionDate, startDate),
+				isNull(transactions.supersededByAccession),
+			),
+		);
+
+	return toLateFilingStats(result);
+}
+
+/**
+ * Get late Form 4 filing statistics for each insider of an issuer, for trades since a date
+ * Insiders with the most late filings first
+ */
+export async function getInsiderLateFilingStats(
+	db: PgDatabase<any, any, any>,
+	issuerId: string,
+	startDate: string,
+): Promise<InsiderLateFilingStats[]> {
+	const rows = await db
+		.select({
+			insiderId: insiders.id,
+			name: insiders.name,
+			title: insiders.title,
+			...lateFilingStatsFields,
+		})
+		.from(transactions)
+		.innerJoin(insiders, eq(transactions.insiderId, insiders.id))
+		.where(
+			and(
+				eq(transactions.issuerId, issuerId),
+				gte(transactions.transactionDate, startDate),
+				isNull(transactions.supersededByAccession),
+			),
+		)
+		.groupBy(insiders.id, insiders.name, insiders.title)
+		.orderBy(
+			desc(lateFilingStatsFields.lateFilingCount),
+			sql`${lateFilingStatsFields.maxDelayDays} DESC NULLS LAST`,
+			asc(insiders.name),
+		);
+
+	return rows.map((row) => ({
+		insiderId: row.insiderId,
+		name: row.name,
+		title: row.title,
+		...toLateFilingStats(row),
+	}));
+}
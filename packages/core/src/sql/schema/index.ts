@@ -1,4 +1,5 @@
 export * from "./auth";
 export * from "./enums";
 export * from "./roles";
-export * from "./insiders";
\ No newline at end of file
+export * from "./insiders";
+export * from "./ingestion";
\ No newline at end of file
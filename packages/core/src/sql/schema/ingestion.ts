@@ -0,0 +1,182 @@
+import { defaultFields } from "@starter/core/src/sql/utils";
+import {
+	boolean,
+	date,
+	doublePrecision,
+	index,
+	integer,
+	jsonb,
+	pgTable,
+	text,
+	timestamp,
+	unique,
+	uuid,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+
+// Backfill jobs table - historical ingestion over a date range, resumable across runs
+export const backfillJobs = pgTable(
+	"backfill_jobs",
+	{
+		...defaultFields,
+		source: text("source").notNull(), // 'daily-index', 'full-index' or 'submissions'
+		issuerCik: text("issuer_cik"), // Issuer whose submissions are loaded ('submissions' jobs only)
+		startDate: date("start_date").notNull(), // First filing date to load (inclusive)
+		endDate: date("end_date").notNull(), // Last filing date to load (inclusive)
+		skipAlerts: boolean("skip_alerts").notNull().default(true), // Don't post urgent alerts to Slack
+		status: text("status").notNull().default("pending"), // 'pending', 'discovering', 'processing', 'completed'
+		discoveredThrough: date("discovered_through"), // Last filing date whose index has been read
+		filingsProcessed: integer("filings_processed").notNull().default(0),
+		filingsFailed: integer("filings_failed").notNull().default(0),
+		completedAt: timestamp("completed_at"),
+	},
+	(table) => [
+		index("backfill_jobs_status_idx").on(table.status),
+		index("backfill_jobs_issuer_cik_idx").on(table.issuerCik),
+	],
+);
+
+export type BackfillJob = typeof backfillJobs.$inferSelect;
+export type InsertBackfillJob = typeof backfillJobs.$inferInsert;
+export const BackfillJobSchema = createSelectSchema(backfillJobs);
+export const InsertBackfillJobSchema = createInsertSchema(backfillJobs).omit({ id: true });
+
+// Backfill items table - one row per filing discovered by a backfill job
+export const backfillItems = pgTable(
+	"backfill_items",
+	{
+		...defaultFields,
+		jobId: uuid("job_id")
+			.notNull()
+			.references(() => backfillJobs.id, { onDelete: "cascade" }),
+		accessionNumber: text("accession_number").notNull(),
+		cik: text("cik").notNull(), // CIK used to locate the filing in the archive
+		companyName: text("company_name").notNull(),
+		formType: text("form_type").notNull(),
+		filingDate: date("filing_date").notNull(),
+		status: text("status").notNull().default("pending"), // 'pending', 'processed', 'failed'
+		error: text("error"), // Failure reason for 'failed' items
+		processedAt: timestamp("processed_at"),
+	},
+	(table) => [
+		unique("backfill_items_job_accession_unique").on(table.jobId, table.accessionNumber),
+		index("backfill_items_job_status_idx").on(table.jobId, table.status, table.filingDate),
+	],
+);
+
+export type BackfillItem = typeof backfillItems.$inferSelect;
+export type InsertBackfillItem = typeof backfillItems.$inferInsert;
+export const BackfillItemSchema = createSelectSchema(backfillItems);
+export const InsertBackfillItemSchema = createInsertSchema(backfillItems).omit({ id: true });
+
+// Ingestion cursors table - newest filing seen on each live EDGAR feed, so runs resume where
+// the previous one stopped instead of only reading the latest page
+export const ingestionCursors = pgTable("ingestion_cursors", {
+	...defaultFields,
+	feed: text("feed").notNull().unique(), // e.g. 'current-form-4' (getcurrent feed for one form type)
+	lastAccession: text("last_accession").notNull(), // Newest accession seen on the feed
+	lastFiledAt: timestamp("last_filed_at", { withTimezone: true }).notNull(), // Its feed timestamp
+});
+
+export type IngestionCursor = typeof ingestionCursors.$inferSelect;
+export type InsertIngestionCursor = typeof ingestionCursors.$inferInsert;
+export const IngestionCursorSchema = createSelectSchema(ingestionCursors);
+export const InsertIngestionCursorSchema = createInsertSchema(ingestionCursors).omit({ id: true });
+
+// Rate limit buckets table - token buckets shared by every process calling an external API,
+// plus the circuit breaker that pauses all callers while the API is throttling us
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+	...defaultFields,
+	key: text("key").notNull().unique(), // e.g. 'sec-edgar'
+	tokens: doublePrecision("tokens").notNull(), // Tokens left at refilledAt (negative = reserved by waiting callers)
+	refilledAt: timestamp("refilled_at", { withTimezone: true }).notNull(),
+	pausedUntil: timestamp("paused_until", { withTimezone: true }), // Circuit breaker open until (null = closed)
+});
+
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type InsertRateLimitBucket = typeof rateLimitBuckets.$inferInsert;
+export const RateLimitBucketSchema = createSelectSchema(rateLimitBuckets);
+export const InsertRateLimitBucketSchema = createInsertSchema(rateLimitBuckets).omit({ id: true });
+
+// Raw filings table - the primary document of every ingested filing as fetched from EDGAR, kept in a
+// blob store so history can be reparsed without fetching it again
+export const rawFilings = pgTable(
+	"raw_filings",
+	{
+		...defaultFields,
+		accessionNumber: text("accession_number").notNull().unique(),
+		cik: text("cik").notNull(), // CIK the filing was fetched under
+		formType: text("form_type").notNull(), // Form type as listed by the feed or index (e.g. '4/A')
+		filingDate: date("filing_date").notNull(),
+		filedAt: text("filed_at").notNull(), // Filing date/time as listed, passed to the parsers on replay
+		sourceUrl: text("source_url").notNull(), // URL the document was fetched from
+		primaryDocument: text("primary_document").notNull(), // File name within the filing folder
+		documentStrategy: text("document_strategy").notNull(), // 'index-json', 'index-htm' or 'guessed'
+		blobKey: text("blob_key").notNull(), // Key of the raw bytes in the blob store
+		contentHash: text("content_hash").notNull(), // SHA-256 of the raw bytes (hex)
+		byteLength: integer("byte_length").notNull(),
+		fetchedAt: timestamp("fetched_at", { withTimezone: true }).notNull(),
+	},
+	(table) => [index("raw_filings_filing_date_idx").on(table.filingDate, table.accessionNumber)],
+);
+
+export type RawFiling = typeof rawFilings.$inferSelect;
+export type InsertRawFiling = typeof rawFilings.$inferInsert;
+export const RawFilingSchema = createSelectSchema(rawFilings);
+export const InsertRawFilingSchema = createInsertSchema(rawFilings).omit({ id: true });
+
+// Ingestion runs table - one row per processor, worker, backfill, replay or digest run, so a run's
+// parameters, timing and counts outlive its Lambda logs
+export const ingestionRuns = pgTable(
+	"ingestion_runs",
+	{
+		...defaultFields,
+		kind: text("kind").notNull(), // 'form4-processor', 'form4-enqueue', 'filing-worker', 'backfill', 'replay' or 'daily-digest'
+		parameters: jsonb("parameters").$type<Record<string, unknown>>().notNull().default({}), // Options the run was started with
+		status: text("status").notNull().default("running"), // 'running', 'completed', 'failed'
+		startedAt: timestamp("started_at", { withTimezone: true }).notNull().defaultNow(),
+		completedAt: timestamp("completed_at", { withTimezone: true }),
+		durationMs: integer("duration_ms"),
+		filingsParsed: integer("filings_parsed").notNull().default(0),
+		filingsSkipped: integer("filings_skipped").notNull().default(0),
+		filingsFailed: integer("filings_failed").notNull().default(0),
+		stats: jsonb("stats").$type<Record<string, unknown>>(), // The run's full stats object (e.g. ProcessorStats)
+		error: text("error"), // Why a 'failed' run stopped
+	},
+	(table) => [index("ingestion_runs_kind_started_idx").on(table.kind, table.startedAt)],
+);
+
+export type IngestionRun = typeof ingestionRuns.$inferSelect;
+export type InsertIngestionRun = typeof ingestionRuns.$inferInsert;
+export const IngestionRunSchema = createSelectSchema(ingestionRuns);
+export const InsertIngestionRunSchema = createInsertSchema(ingestionRuns).omit({ id: true });
+
+// Ingestion run items table - the outcome of each filing an ingestion run handled
+export const ingestionRunItems = pgTable(
+	"ingestion_run_items",
+	{
+		...defaultFields,
+		runId: uuid("run_id")
+			.notNull()
+			.references(() => ingestionRuns.id, { onDelete: "cascade" }),
+		accessionNumber: text("accession_number").notNull(),
+		formType: text("form_type").notNull(),
+		cik: text("cik").notNull(), // CIK the filing was listed under
+		issuerCik: text("issuer_cik"), // Known once the filing is parsed
+		ticker: text("ticker"), // Issuer ticker, known once the filing is parsed
+		status: text("status").notNull(), // 'parsed', 'skipped', 'failed'
+		reason: text("reason"), // Why the filing was skipped or failed
+		transactionsSaved: integer("transactions_saved").notNull().default(0),
+		processedAt: timestamp("processed_at", { withTimezone: true }).notNull().defaultNow(),
+	},
+	(table) => [
+		index("ingestion_run_items_run_status_idx").on(table.runId, table.status),
+		index("ingestion_run_items_accession_idx").on(table.accessionNumber),
+		index("ingestion_run_items_ticker_idx").on(table.ticker, table.processedAt),
+	],
+);
+
+export type IngestionRunItem = typeof ingestionRunItems.$inferSelect;
+export type InsertIngestionRunItem = typeof ingestionRunItems.$inferInsert;
+export const IngestionRunItemSchema = createSelectSchema(ingestionRunItems);
+export const InsertIngestionRunItemSchema = createInsertSchema(ingestionRunItems).omit({ id: true });
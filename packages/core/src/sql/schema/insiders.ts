@@ -1,13 +1,17 @@
 import { defaultFields } from "@starter/core/src/sql/utils";
+import { sql } from "drizzle-orm";
 import {
 	boolean,
 	date,
 	decimal,
 	index,
+	integer,
+	jsonb,
 	pgTable,
 	text,
 	timestamp,
 	unique,
+	uniqueIndex,
 	uuid,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
@@ -29,7 +33,43 @@ export type InsertIssuer = typeof issuers.$inferInsert;
 export const IssuerSchema = createSelectSchema(issuers);
 export const InsertIssuerSchema = createInsertSchema(issuers).omit({ id: true });
 
-// Insiders table - reporting owners (identity scoped per issuer)
+// Issuer tickers table - effective-dated CIK to ticker mapping loaded from the SEC company
+// tickers files, so renamed and class-share tickers still resolve to their issuer
+export const issuerTickers = pgTable(
+	"issuer_tickers",
+	{
+		...defaultFields,
+		cik: text("cik").notNull(), // SEC Central Index Key (the issuer may not be ingested yet)
+		ticker: text("ticker").notNull(), // Normalized: upper case, class separator '-' (e.g. BRK-B)
+		exchange: text("exchange"), // e.g. 'Nasdaq', 'NYSE' (company_tickers_exchange.json only)
+		companyName: text("company_name").notNull(), // Name as listed by the SEC
+		validFrom: date("valid_from").notNull(), // First snapshot date listing the ticker for the CIK
+		validTo: date("valid_to"), // First snapshot date no longer listing it (null while current)
+	},
+	(table) => [
+		index("issuer_tickers_ticker_idx").on(table.ticker),
+		index("issuer_tickers_cik_idx").on(table.cik, table.validTo),
+	],
+);
+
+export type IssuerTicker = typeof issuerTickers.$inferSelect;
+export type InsertIssuerTicker = typeof issuerTickers.$inferInsert;
+export const IssuerTickerSchema = createSelectSchema(issuerTickers);
+export const InsertIssuerTickerSchema = createInsertSchema(issuerTickers).omit({ id: true });
+
+// Persons table - reporting owners (people and entities) across issuers, keyed by owner CIK
+export const persons = pgTable("persons", {
+	...defaultFields,
+	cik: text("cik").notNull().unique(), // Reporting owner CIK (leading zeros removed)
+	name: text("name").notNull(), // Name as reported on the owner's latest processed filing
+});
+
+export type Person = typeof persons.$inferSelect;
+export type InsertPerson = typeof persons.$inferInsert;
+export const PersonSchema = createSelectSchema(persons);
+export const InsertPersonSchema = createInsertSchema(persons).omit({ id: true });
+
+// Insiders table - reporting owners (identity scoped per issuer), linked to their person by CIK
 export const insiders = pgTable(
 	"insiders",
 	{
@@ -37,11 +77,20 @@ export const insiders = pgTable(
 		issuerId: uuid("issuer_id")
 			.notNull()
 			.references(() => issuers.id, { onDelete: "cascade" }),
+		personId: uuid("person_id").references(() => persons.id, { onDelete: "set null" }), // Null for owners filed without a CIK
 		name: text("name").notNull(),
 		title: text("title"), // Job title (nullable)
+		isDirector: boolean("is_director").notNull().default(false), // Relationship to the issuer on the latest filing
+		isOfficer: boolean("is_officer").notNull().default(false),
+		isTenPercentOwner: boolean("is_ten_percent_owner").notNull().default(false),
+		isOther: boolean("is_other").notNull().default(false),
 	},
 	(table) => [
-		unique("insiders_name_issuer_unique").on(table.name, table.issuerId),
+		unique("insiders_person_issuer_unique").on(table.personId, table.issuerId),
+		// Owners filed without a CIK can only be told apart by name; owners with one never are
+		uniqueIndex("insiders_name_issuer_unlinked_unique")
+			.on(table.name, table.issuerId)
+			.where(sql`${table.personId} IS NULL`),
 		index("insiders_issuer_idx").on(table.issuerId),
 	],
 );
@@ -51,6 +100,34 @@ export type InsertInsider = typeof insiders.$inferInsert;
 export const InsiderSchema = createSelectSchema(insiders);
 export const InsertInsiderSchema = createInsertSchema(insiders).omit({ id: true });
 
+// Trading plans table - Rule 10b5-1 plans, one per insider and adoption date, from Form 4 footnotes
+export const tradingPlans = pgTable(
+	"trading_plans",
+	{
+		...defaultFields,
+		insiderId: uuid("insider_id")
+			.notNull()
+			.references(() => insiders.id, { onDelete: "cascade" }),
+		issuerId: uuid("issuer_id")
+			.notNull()
+			.references(() => issuers.id, { onDelete: "cascade" }),
+		adoptionDate: date("adoption_date").notNull(),
+		coolingOffEndsOn: date("cooling_off_ends_on").notNull(), // Last day of the cooling-off period (90 days for directors and officers, 30 otherwise)
+		firstFilingAccession: text("first_filing_accession").notNull(), // Filing whose footnotes first gave the adoption date
+		firstTradeDate: date("first_trade_date").notNull(),
+		lastTradeDate: date("last_trade_date").notNull(),
+	},
+	(table) => [
+		unique("trading_plans_insider_adoption_unique").on(table.insiderId, table.adoptionDate),
+		index("trading_plans_issuer_idx").on(table.issuerId),
+	],
+);
+
+export type TradingPlan = typeof tradingPlans.$inferSelect;
+export type InsertTradingPlan = typeof tradingPlans.$inferInsert;
+export const TradingPlanSchema = createSelectSchema(tradingPlans);
+export const InsertTradingPlanSchema = createInsertSchema(tradingPlans).omit({ id: true });
+
 // Transactions table - individual Form 4 transactions
 export const transactions = pgTable(
 	"transactions",
@@ -66,27 +143,54 @@ export const transactions = pgTable(
 		transactionDate: date("transaction_date").notNull(), // Date of transaction
 		transactionCode: text("transaction_code").notNull(), // 'P' = buy, 'S' = sell
 		shares: decimal("shares", { precision: 20, scale: 4 }).notNull(),
-		price: decimal("price", { precision: 20, scale: 4 }).notNull(),
+		price: decimal("price", { precision: 20, scale: 4 }).notNull(), // Reported (often weighted-average) price; 0 when priceUnknown
+		priceLow: decimal("price_low", { precision: 20, scale: 4 }), // Price range of a multi-lot trade, from the price footnote
+		priceHigh: decimal("price_high", { precision: 20, scale: 4 }),
+		priceUnknown: boolean("price_unknown").notNull().default(false), // Purchase or sale reported without a price; value is unknown, not zero
+		isPriceEstimated: boolean("is_price_estimated").notNull().default(false), // Blank price estimated at the midpoint of its range
 		transactionValue: decimal("transaction_value", { precision: 20, scale: 2 }).notNull(), // shares * price
 		postTransactionShares: decimal("post_transaction_shares", { precision: 20, scale: 4 }).notNull(), // Holdings after transaction
 		isDirectOwnership: boolean("is_direct_ownership").notNull().default(true),
-		is10b51: boolean("is_10b5_1").notNull().default(false), // Parsed from footnotes
+		natureOfOwnership: text("nature_of_ownership"), // Indirect rows: the filer's description, e.g. "By Trust"
+		ownershipVehicle: text("ownership_vehicle").notNull().default("direct"), // "direct" or the normalized nature of ownership; holdings are compared within a vehicle
+		is10b51: boolean("is_10b5_1").notNull().default(false), // From footnotes or the filing's Rule 10b5-1(c) checkbox
+		tradingPlanId: uuid("trading_plan_id").references(() => tradingPlans.id, { onDelete: "set null" }), // 10b5-1 plan the trade was made under (when its adoption date is known)
+		planAdoptionDate: date("plan_adoption_date"), // Adoption date of that plan
+		isDuringCoolingOff: boolean("is_during_cooling_off").notNull().default(false), // Plan trade on or before the end of the plan's cooling-off period
+		filingDelayDays: integer("filing_delay_days"), // NYSE business days from the trade to the Form 4 filing
+		isLateFiling: boolean("is_late_filing").notNull().default(false), // Filed after the two-business-day Form 4 deadline
 		signalScore: decimal("signal_score", { precision: 10, scale: 2 }).notNull().default("0"), // Calculated signal score
+		supersededByAccession: text("superseded_by_accession"), // Form 4/A accession that replaced this row (null = active)
+		supersededAt: timestamp("superseded_at"),
+		securityTitle: text("security_title"), // e.g. "Common Stock" or "Stock Option (Right to Buy)"
+		isDerivative: boolean("is_derivative").notNull().default(false), // Row from the Form 4 derivative table
+		underlyingSecurityTitle: text("underlying_security_title"), // Derivative rows only
+		underlyingShares: decimal("underlying_shares", { precision: 20, scale: 4 }), // Derivative rows only
+		conversionOrExercisePrice: decimal("conversion_or_exercise_price", { precision: 20, scale: 4 }), // Derivative rows only
+		exerciseDate: date("exercise_date"), // Derivative rows only
+		expirationDate: date("expiration_date"), // Derivative rows only
+		isExerciseAndSell: boolean("is_exercise_and_sell").notNull().default(false), // Sale alongside a same-day option exercise
+		rowIndex: integer("row_index").notNull().default(0), // Position among the filing's buy and sell rows, in document order
 	},
 	(table) => [
-		// Dedupe constraint per specs
+		// Dedupe constraint per specs; a direct and a "By Trust" row of the same size are two trades,
+		// and so are same-sized rows reported without a price (stored with price 0)
 		unique("transactions_dedupe").on(
 			table.filingAccession,
 			table.insiderId,
 			table.transactionDate,
 			table.shares,
 			table.price,
+			table.ownershipVehicle,
+			table.transactionCode,
+			table.rowIndex,
 		),
 		index("transactions_filing_idx").on(table.filingAccession),
 		index("transactions_date_idx").on(table.transactionDate),
 		index("transactions_issuer_idx").on(table.issuerId),
 		index("transactions_insider_idx").on(table.insiderId),
 		index("transactions_issuer_date_idx").on(table.issuerId, table.transactionDate),
+		index("transactions_superseded_idx").on(table.supersededByAccession),
 	],
 );
 
@@ -95,6 +199,33 @@ export type InsertTransaction = typeof transactions.$inferInsert;
 export const TransactionSchema = createSelectSchema(transactions);
 export const InsertTransactionSchema = createInsertSchema(transactions).omit({ id: true });
 
+// Transaction reporting owners table - every owner on a (possibly joint) Form 4
+// The transaction row is stored once and attributed to the primary owner via transactions.insider_id
+export const transactionReportingOwners = pgTable(
+	"transaction_reporting_owners",
+	{
+		...defaultFields,
+		transactionId: uuid("transaction_id")
+			.notNull()
+			.references(() => transactions.id, { onDelete: "cascade" }),
+		insiderId: uuid("insider_id")
+			.notNull()
+			.references(() => insiders.id, { onDelete: "cascade" }),
+		isPrimary: boolean("is_primary").notNull().default(false), // Owner the transaction is scored for
+	},
+	(table) => [
+		unique("transaction_reporting_owners_unique").on(table.transactionId, table.insiderId),
+		index("transaction_reporting_owners_insider_idx").on(table.insiderId),
+	],
+);
+
+export type TransactionReportingOwner = typeof transactionReportingOwners.$inferSelect;
+export type InsertTransactionReportingOwner = typeof transactionReportingOwners.$inferInsert;
+export const TransactionReportingOwnerSchema = createSelectSchema(transactionReportingOwners);
+export const InsertTransactionReportingOwnerSchema = createInsertSchema(
+	transactionReportingOwners,
+).omit({ id: true });
+
 // Slack alerts table - tracks what has been posted to Slack
 export const slackAlerts = pgTable(
 	"slack_alerts",
@@ -110,6 +241,8 @@ export const slackAlerts = pgTable(
 		slackThreadTs: text("slack_thread_ts"), // Slack thread timestamp for threading
 		slackMessageTs: text("slack_message_ts"), // Slack message timestamp
 		postedAt: timestamp("posted_at"), // When the alert was posted
+		correctedByAccession: text("corrected_by_accession"), // Form 4/A accession that corrected the alerted transaction
+		correctedAt: timestamp("corrected_at"), // When the correction was posted to the alert thread
 	},
 	(table) => [
 		index("slack_alerts_transaction_idx").on(table.transactionId),
@@ -121,3 +254,233 @@ export type SlackAlert = typeof slackAlerts.$inferSelect;
 export type InsertSlackAlert = typeof slackAlerts.$inferInsert;
 export const SlackAlertSchema = createSelectSchema(slackAlerts);
 export const InsertSlackAlertSchema = createInsertSchema(slackAlerts).omit({ id: true });
+
+// Alert outbox table - Slack alerts queued in the same database transaction as the filing that
+// triggered them, and posted once that transaction has committed
+export const alertOutbox = pgTable(
+	"alert_outbox",
+	{
+		...defaultFields,
+		kind: text("kind").notNull(), // 'urgent' (new alert) or 'correction' (reply to an alert a Form 4/A replaced)
+		transactionId: uuid("transaction_id")
+			.notNull()
+			.references(() => transactions.id, { onDelete: "cascade" }), // Alerted transaction (the replaced one for corrections)
+		issuerId: uuid("issuer_id")
+			.notNull()
+			.references(() => issuers.id, { onDelete: "cascade" }),
+		slackAlertId: uuid("slack_alert_id").references(() => slackAlerts.id, { onDelete: "cascade" }), // Corrections: the alert being corrected
+		filingAccession: text("filing_accession").notNull(), // Filing whose processing queued the alert
+		message: jsonb("message").$type<{ text: string; blocks?: Array<Record<string, any>> }>().notNull(), // Slack message payload
+		threadTs: text("thread_ts"), // Corrections: Slack thread to reply in
+		status: text("status").notNull().default("pending"), // 'pending', 'sending' (claimed by a dispatcher), 'sent', 'failed'
+		attempts: integer("attempts").notNull().default(0),
+		lastError: text("last_error"),
+		claimedAt: timestamp("claimed_at"), // When a dispatcher last claimed the entry for posting
+		sentAt: timestamp("sent_at"),
+	},
+	(table) => [
+		unique("alert_outbox_kind_transaction_unique").on(table.kind, table.transactionId),
+		index("alert_outbox_status_idx").on(table.status, table.createdAt),
+	],
+);
+
+export type AlertOutboxEntry = typeof alertOutbox.$inferSelect;
+export type InsertAlertOutboxEntry = typeof alertOutbox.$inferInsert;
+export const AlertOutboxEntrySchema = createSelectSchema(alertOutbox);
+export const InsertAlertOutboxEntrySchema = createInsertSchema(alertOutbox).omit({ id: true });
+
+// Filings table - one row per processed ownership filing, links Form 4/A amendments to the filing they replace
+export const filings = pgTable(
+	"filings",
+	{
+		...defaultFields,
+		accessionNumber: text("accession_number").notNull().unique(),
+		issuerId: uuid("issuer_id")
+			.notNull()
+			.references(() => issuers.id, { onDelete: "cascade" }),
+		formType: text("form_type").notNull(), // '4' or '4/A'
+		filingDate: date("filing_date").notNull(),
+		dateOfOriginalSubmission: date("date_of_original_submission"), // 4/A only: filing date of the amended Form 4
+		amendsAccession: text("amends_accession"), // 4/A only: accession of the filing it replaced (null if not found)
+		supersededByAccession: text("superseded_by_accession"), // Later 4/A that replaced this filing (null = current)
+		primaryDocument: text("primary_document"), // File name of the parsed XML document, e.g. "wf-form4_170512345678901.xml"
+		documentStrategy: text("document_strategy"), // How it was located: 'index-json', 'index-htm' or 'guessed'
+		aff10b5One: boolean("aff_10b5_one"), // Form 4 Rule 10b5-1(c) checkbox (null on filings without it)
+		contentHash: text("content_hash"), // SHA-256 of the document last processed in full (null = stored before hashing)
+	},
+	(table) => [
+		index("filings_issuer_date_idx").on(table.issuerId, table.filingDate),
+		index("filings_amends_idx").on(table.amendsAccession),
+	],
+);
+
+export type Filing = typeof filings.$inferSelect;
+export type InsertFiling = typeof filings.$inferInsert;
+export const FilingSchema = createSelectSchema(filings);
+export const InsertFilingSchema = createInsertSchema(filings).omit({ id: true });
+
+// Filing footnotes table - the document-level footnotes of a Form 4
+export const filingFootnotes = pgTable(
+	"filing_footnotes",
+	{
+		...defaultFields,
+		filingAccession: text("filing_accession").notNull(), // SEC accession number
+		footnoteId: text("footnote_id").notNull(), // e.g. "F1"
+		text: text("text").notNull(),
+	},
+	(table) => [unique("filing_footnotes_unique").on(table.filingAccession, table.footnoteId)],
+);
+
+export type FilingFootnote = typeof filingFootnotes.$inferSelect;
+export type InsertFilingFootnote = typeof filingFootnotes.$inferInsert;
+export const FilingFootnoteSchema = createSelectSchema(filingFootnotes);
+export const InsertFilingFootnoteSchema = createInsertSchema(filingFootnotes).omit({ id: true });
+
+// Transaction footnotes table - which footnote annotates which field of a transaction
+export const transactionFootnotes = pgTable(
+	"transaction_footnotes",
+	{
+		...defaultFields,
+		transactionId: uuid("transaction_id")
+			.notNull()
+			.references(() => transactions.id, { onDelete: "cascade" }),
+		footnoteId: text("footnote_id").notNull(), // Resolved against filing_footnotes of the transaction's filing
+		field: text("field").notNull(), // Annotated element, e.g. "transactionPricePerShare"
+	},
+	(table) => [
+		unique("transaction_footnotes_unique").on(table.transactionId, table.footnoteId, table.field),
+	],
+);
+
+export type TransactionFootnote = typeof transactionFootnotes.$inferSelect;
+export type InsertTransactionFootnote = typeof transactionFootnotes.$inferInsert;
+export const TransactionFootnoteSchema = createSelectSchema(transactionFootnotes);
+export const InsertTransactionFootnoteSchema = createInsertSchema(transactionFootnotes).omit({
+	id: true,
+});
+
+// Initial statements table - Form 3 filings, the insider's starting position at an issuer
+export const initialStatements = pgTable(
+	"initial_statements",
+	{
+		...defaultFields,
+		filingAccession: text("filing_accession").notNull().unique(), // SEC accession number
+		insiderId: uuid("insider_id")
+			.notNull()
+			.references(() => insiders.id, { onDelete: "cascade" }),
+		issuerId: uuid("issuer_id")
+			.notNull()
+			.references(() => issuers.id, { onDelete: "cascade" }),
+		formType: text("form_type").notNull(), // '3' or '3/A'
+		eventDate: date("event_date").notNull(), // Date the filer became an insider (periodOfReport)
+		filingDate: date("filing_date").notNull(),
+		noSecuritiesOwned: boolean("no_securities_owned").notNull().default(false),
+	},
+	(table) => [index("initial_statements_insider_idx").on(table.insiderId, table.eventDate)],
+);
+
+export type InitialStatement = typeof initialStatements.$inferSelect;
+export type InsertInitialStatement = typeof initialStatements.$inferInsert;
+export const InitialStatementSchema = createSelectSchema(initialStatements);
+export const InsertInitialStatementSchema = createInsertSchema(initialStatements).omit({ id: true });
+
+// Initial holdings table - holding rows reported on a Form 3
+export const initialHoldings = pgTable(
+	"initial_holdings",
+	{
+		...defaultFields,
+		statementId: uuid("statement_id")
+			.notNull()
+			.references(() => initialStatements.id, { onDelete: "cascade" }),
+		securityTitle: text("security_title").notNull(),
+		shares: decimal("shares", { precision: 20, scale: 4 }).notNull(), // Underlying shares for derivatives
+		isDirectOwnership: boolean("is_direct_ownership").notNull().default(true),
+		natureOfOwnership: text("nature_of_ownership"), // Indirect holdings: the filer's description
+		ownershipVehicle: text("ownership_vehicle").notNull().default("direct"), // "direct" or the normalized nature of ownership
+		isDerivative: boolean("is_derivative").notNull().default(false),
+		underlyingSecurityTitle: text("underlying_security_title"), // Derivatives only
+		conversionOrExercisePrice: decimal("conversion_or_exercise_price", { precision: 20, scale: 4 }), // Derivatives only
+		exerciseDate: date("exercise_date"), // Derivatives only
+		expirationDate: date("expiration_date"), // Derivatives only
+	},
+	(table) => [index("initial_holdings_statement_idx").on(table.statementId)],
+);
+
+export type InitialHolding = typeof initialHoldings.$inferSelect;
+export type InsertInitialHolding = typeof initialHoldings.$inferInsert;
+export const InitialHoldingSchema = createSelectSchema(initialHoldings);
+export const InsertInitialHoldingSchema = createInsertSchema(initialHoldings).omit({ id: true });
+
+// Positions table - each insider's latest reported holding per security and ownership vehicle
+// Fed by Form 4 transaction and holding rows and Form 3 holdings; a filing only replaces a
+// position reported on the same or an earlier filing date
+export const positions = pgTable(
+	"positions",
+	{
+		...defaultFields,
+		insiderId: uuid("insider_id")
+			.notNull()
+			.references(() => insiders.id, { onDelete: "cascade" }),
+		issuerId: uuid("issuer_id")
+			.notNull()
+			.references(() => issuers.id, { onDelete: "cascade" }),
+		securityTitle: text("security_title").notNull(), // e.g. "Common Stock" or "Stock Option (Right to Buy)"
+		ownershipVehicle: text("ownership_vehicle").notNull(), // "direct" or the normalized nature of ownership
+		isDirectOwnership: boolean("is_direct_ownership").notNull().default(true),
+		natureOfOwnership: text("nature_of_ownership"), // Indirect positions: the filer's description
+		isDerivative: boolean("is_derivative").notNull().default(false),
+		underlyingSecurityTitle: text("underlying_security_title"), // Derivatives only
+		shares: decimal("shares", { precision: 20, scale: 4 }).notNull(), // Shares owned; underlying shares for derivative holding rows
+		asOfDate: date("as_of_date").notNull(), // Trade date of the reporting row, or the date of a holding row's filing
+		source: text("source").notNull(), // 'transaction', 'holding' (Form 4 holding row) or 'initial' (Form 3)
+		sourceAccession: text("source_accession").notNull(), // Filing that last reported the position
+		sourceFilingDate: date("source_filing_date").notNull(),
+	},
+	(table) => [
+		unique("positions_insider_security_vehicle_unique").on(
+			table.insiderId,
+			table.securityTitle,
+			table.ownershipVehicle,
+		),
+		index("positions_issuer_idx").on(table.issuerId),
+	],
+);
+
+export type Position = typeof positions.$inferSelect;
+export type InsertPosition = typeof positions.$inferInsert;
+export const PositionSchema = createSelectSchema(positions);
+export const InsertPositionSchema = createInsertSchema(positions).omit({ id: true });
+
+// Form 144 notices table - proposed sales, matched to the Form 4 sale that executes them
+export const form144Notices = pgTable(
+	"form144_notices",
+	{
+		...defaultFields,
+		accessionNumber: text("accession_number").notNull().unique(),
+		issuerId: uuid("issuer_id")
+			.notNull()
+			.references(() => issuers.id, { onDelete: "cascade" }),
+		sellerName: text("seller_name").notNull(), // Person for whose account the shares are sold
+		relationship: text("relationship"), // Relationships to issuer, comma separated (e.g. "Officer, Director")
+		securityClassTitle: text("security_class_title").notNull(),
+		sharesToBeSold: decimal("shares_to_be_sold", { precision: 20, scale: 4 }).notNull(),
+		aggregateMarketValue: decimal("aggregate_market_value", { precision: 20, scale: 2 }).notNull(),
+		approxSaleDate: date("approx_sale_date"), // Approximate date of sale stated on the notice
+		filingDate: date("filing_date").notNull(),
+		brokerName: text("broker_name"),
+		exchangeName: text("exchange_name"),
+		matchedTransactionId: uuid("matched_transaction_id").references(() => transactions.id, {
+			onDelete: "set null",
+		}), // Form 4 sale that executed the notice (null = pending)
+		matchedAt: timestamp("matched_at"),
+	},
+	(table) => [
+		index("form144_notices_issuer_date_idx").on(table.issuerId, table.filingDate),
+		index("form144_notices_matched_idx").on(table.matchedTransactionId),
+	],
+);
+
+export type Form144Notice = typeof form144Notices.$inferSelect;
+export type InsertForm144Notice = typeof form144Notices.$inferInsert;
+export const Form144NoticeSchema = createSelectSchema(form144Notices);
+export const InsertForm144NoticeSchema = createInsertSchema(form144Notices).omit({ id: true });
@@ -0,0 +1,50 @@
+import { Resource } from "sst";
+import { drizzle } from "drizzle-orm/node-postgres";
+import pkg from "pg";
+const { Pool } = pkg;
+import { createForm4Backfill } from "@starter/core/src/domain/pipeline";
+
+/**
+ * Cron handler for running backfill jobs
+ * Runs every 15 minutes to work through jobs queued from the dashboard ("Load full history")
+ */
+export const handler = async () => {
+	console.log("[BackfillRunnerCron] Starting backfill run...");
+
+	// Create database connection
+	const pool = new Pool({
+		connectionString: Resource.DB_URL.value,
+	});
+
+	try {
+		const db = drizzle(pool);
+
+		// Process a bounded number of filings so the run finishes within the Lambda timeout;
+		// unfinished jobs resume on the next run
+		const backfill = createForm4Backfill(db);
+		const stats = await backfill.runPending(200);
+
+		console.log("[BackfillRunnerCron] Run complete:", stats);
+
+		return {
+			statusCode: 200,
+			body: JSON.stringify({
+				message: "Backfill run complete",
+				stats,
+			}),
+		};
+	} catch (error) {
+		console.error("[BackfillRunnerCron] Error:", error);
+
+		return {
+			statusCode: 500,
+			body: JSON.stringify({
+				message: "Backfill run failed",
+				error: error instanceof Error ? error.message : "Unknown error",
+			}),
+		};
+	} finally {
+		// Close database connection, whether or not the run succeeded
+		await pool.end();
+	}
+};
@@ -5,8 +5,8 @@ const { Pool } = pkg;
 import { createForm4Processor } from "@starter/core/src/domain/pipeline";
 
 /**
- * Cron handler for processing Form 4 filings
- * Runs every 2 hours to fetch and process recent SEC Form 4 filings
+ * Cron handler for discovering Form 4 filings
+ * Runs every 2 hours to read the live feeds and queue each new filing for the form4-worker
  */
 export const handler = async (event: any) => {
 	console.log("[Form4ProcessorCron] Starting Form 4 processing job...");
@@ -19,11 +19,11 @@ export const handler = async (event: any) => {
 		});
 		const db = drizzle(pool);
 
-		// Create processor and run
+		// Create processor and queue new filings
 		const processor = createForm4Processor(db);
-		const stats = await processor.process(100); // Fetch up to 100 recent filings
+		const stats = await processor.enqueue(100); // Page through the feeds 100 filings at a time
 
-		console.log("[Form4ProcessorCron] Processing complete:", stats);
+		console.log("[Form4ProcessorCron] Queueing complete:", stats);
 
 		// Close database connection
 		await pool.end();
@@ -31,7 +31,7 @@ export const handler = async (event: any) => {
 		return {
 			statusCode: 200,
 			body: JSON.stringify({
-				message: "Form 4 processing complete",
+				message: "Form 4 filings queued",
 				stats,
 			}),
 		};
@@ -41,7 +41,7 @@ export const handler = async (event: any) => {
 		return {
 			statusCode: 500,
 			body: JSON.stringify({
-				message: "Form 4 processing failed",
+				message: "Form 4 queueing failed",
 				error: error instanceof Error ? error.message : "Unknown error",
 			}),
 		};
@@ -0,0 +1,34 @@
+import { Resource } from "sst";
+import { drizzle } from "drizzle-orm/node-postgres";
+import pkg from "pg";
+const { Pool } = pkg;
+import { type FilingQueueRecord, createFilingWorker } from "@starter/core/src/domain/pipeline";
+
+/**
+ * Filing queue handler
+ * Processes the PROCESS_FORM4 messages queued by the Form 4 processor cron. Failed messages
+ * are returned as batch item failures: SQS retries them, then moves them to the dead-letter queue.
+ */
+export const handler = async (event: { Records: FilingQueueRecord[] }) => {
+	console.log(`[Form4Worker] Processing ${event.Records.length} messages...`);
+
+	// Create database connection
+	const pool = new Pool({
+		connectionString: Resource.DB_URL.value,
+	});
+	const db = drizzle(pool);
+
+	try {
+		const worker = createFilingWorker(db);
+		const result = await worker.processBatch(event.Records);
+
+		console.log(
+			`[Form4Worker] Batch complete: ${event.Records.length - result.batchItemFailures.length} processed, ${result.batchItemFailures.length} failed`,
+		);
+
+		return result;
+	} finally {
+		// Close database connection
+		await pool.end();
+	}
+};
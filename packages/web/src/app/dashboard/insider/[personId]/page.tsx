@@ -0,0 +1,112 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { trpc } from "@starter/web/src/utils/trpc";
+import { InsiderRoles } from "@starter/web/src/components/insiders/InsiderRoles";
+import { PositionList } from "@starter/web/src/components/insiders/PositionList";
+import { TransactionList } from "@starter/web/src/components/insiders/TransactionList";
+import Link from "next/link";
+
+export default function InsiderProfilePage() {
+	const params = useParams();
+	const personId = params.personId as string;
+
+	const { data, isLoading, error } = trpc.insiders.profile.useQuery({ personId });
+
+	return (
+		<div className="space-y-6">
+			{/* Header */}
+			<div className="flex items-center gap-4">
+				<Link href="/dashboard/insiders" className="btn btn-ghost btn-sm">
+					← Back
+				</Link>
+				{data && (
+					<div>
+						<h1 className="text-3xl font-bold">{data.person.name}</h1>
+						<p className="text-base-content/60">
+							Reporting owner CIK{" "}
+							<a
+								href={`https://www.sec.gov/cgi-bin/browse-edgar?action=getcompany&CIK=${data.person.cik}&type=4`}
+								target="_blank"
+								rel="noopener noreferrer"
+								className="link link-hover"
+							>
+								{data.person.cik}
+							</a>
+						</p>
+					</div>
+				)}
+			</div>
+
+			{isLoading && (
+				<div className="flex justify-center py-12">
+					<span className="loading loading-spinner loading-lg" />
+				</div>
+			)}
+
+			{error && (
+				<div className="alert alert-error">
+					<span>Error loading insider: {error.message}</span>
+				</div>
+			)}
+
+			{data && (
+				<>
+					{/* Stats Cards */}
+					<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+						<div className="card bg-base-100 shadow">
+							<div className="card-body">
+								<h2 className="card-title text-sm">Companies</h2>
+								<p className="text-3xl font-bold">{data.stats.issuerCount}</p>
+								<p className="text-xs text-base-content/60">Issuers this insider files for</p>
+							</div>
+						</div>
+						<div className="card bg-base-100 shadow">
+							<div className="card-body">
+								<h2 className="card-title text-sm">Board Seats</h2>
+								<p className="text-3xl font-bold">{data.stats.boardSeatCount}</p>
+								<p className="text-xs text-base-content/60">Director on the latest filing</p>
+							</div>
+						</div>
+						<div className="card bg-base-100 shadow">
+							<div className="card-body">
+								<h2 className="card-title text-sm">Trades</h2>
+								<p className="text-3xl font-bold">{data.stats.transactionCount}</p>
+								<p className="text-xs text-base-content/60">Across all companies</p>
+							</div>
+						</div>
+					</div>
+
+					{/* Roles by Company */}
+					<div className="card bg-base-100 shadow-xl">
+						<div className="card-body">
+							<h2 className="card-title">Roles</h2>
+							<InsiderRoles roles={data.roles} />
+						</div>
+					</div>
+
+					{/* Reported Holdings */}
+					{data.positions.length > 0 && (
+						<div className="card bg-base-100 shadow-xl">
+							<div className="card-body">
+								<h2 className="card-title">Holdings</h2>
+								<p className="text-sm text-base-content/60">
+									Latest reported position in each security and ownership vehicle
+								</p>
+								<PositionList positions={data.positions} />
+							</div>
+						</div>
+					)}
+
+					{/* Trades at Every Issuer */}
+					<div className="card bg-base-100 shadow-xl">
+						<div className="card-body">
+							<h2 className="card-title">Recent Transactions</h2>
+							<TransactionList transactions={data.recentTransactions} />
+						</div>
+					</div>
+				</>
+			)}
+		</div>
+	);
+}
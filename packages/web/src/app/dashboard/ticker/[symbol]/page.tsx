@@ -2,6 +2,11 @@
 
 import { useParams } from "next/navigation";
 import { trpc } from "@starter/web/src/utils/trpc";
+import { Form144NoticeList } from "@starter/web/src/components/insiders/Form144NoticeList";
+import { HistoryBackfillStatus } from "@starter/web/src/components/insiders/HistoryBackfillStatus";
+import { InsiderStakes } from "@starter/web/src/components/insiders/InsiderStakes";
+import { LateFilers } from "@starter/web/src/components/insiders/LateFilers";
+import { TickerHistory } from "@starter/web/src/components/insiders/TickerHistory";
 import { TransactionList } from "@starter/web/src/components/insiders/TransactionList";
 import Link from "next/link";
 
@@ -14,6 +19,26 @@ export default function TickerPage() {
 		daysBack: 90,
 	});
 
+	// Full-history backfill: polled while the runner works through the queued filings
+	const utils = trpc.useUtils();
+	const { data: backfill } = trpc.insiders.historyBackfill.useQuery(
+		{ ticker: symbol },
+		{
+			refetchInterval: (query: { state: { data?: { status: string } | null } }) =>
+				query.state.data && query.state.data.status !== "completed" ? 30_000 : false,
+		},
+	);
+	const loadFullHistory = trpc.insiders.loadFullHistory.useMutation({
+		onSuccess: () => utils.insiders.historyBackfill.invalidate({ ticker: symbol }),
+	});
+	const historyBackfill = (
+		<HistoryBackfillStatus
+			backfill={backfill}
+			onLoad={() => loadFullHistory.mutate({ ticker: symbol })}
+			isStarting={loadFullHistory.isPending}
+		/>
+	);
+
 	return (
 		<div className="space-y-6">
 			{/* Header */}
@@ -24,9 +49,18 @@ export default function TickerPage() {
 				<div>
 					<h1 className="text-3xl font-bold">{symbol}</h1>
 					{data && (
-						<p className="text-base-content/60">{data.issuer.companyName}</p>
+						<>
+							<p className="text-base-content/60">
+								{data.issuer.companyName}
+								{data.issuer.ticker && data.issuer.ticker !== symbol.toUpperCase() && (
+									<> · now trading as {data.issuer.ticker}</>
+								)}
+							</p>
+							<TickerHistory history={data.tickerHistory} />
+						</>
 					)}
 				</div>
+				{data && <div className="ml-auto">{historyBackfill}</div>}
 			</div>
 
 			{isLoading && (
@@ -41,6 +75,21 @@ export default function TickerPage() {
 				</div>
 			)}
 
+			{/* A ticker that hasn't been ingested yet can still load its history from EDGAR */}
+			{error && (
+				<div className="card bg-base-100 shadow">
+					<div className="card-body">
+						<p className="text-sm text-base-content/60">
+							No filings stored for {symbol} yet. Load its Form 3, 4 and 5 history from SEC EDGAR.
+						</p>
+						{historyBackfill}
+						{loadFullHistory.error && (
+							<p className="text-sm text-error">{loadFullHistory.error.message}</p>
+						)}
+					</div>
+				</div>
+			)}
+
 			{data && (
 				<>
 					{/* Stats Cards */}
@@ -84,6 +133,55 @@ export default function TickerPage() {
 						</div>
 					</div>
 
+					{/* Insider Stakes */}
+					{data.stakes.length > 0 && (
+						<div className="card bg-base-100 shadow-xl">
+							<div className="card-body">
+								<h2 className="card-title">Insider Holdings</h2>
+								<p className="text-sm text-base-content/60">
+									Each insider's latest reported stake, including shares held through trusts and other
+									vehicles that were reported without a trade
+								</p>
+								<InsiderStakes stakes={data.stakes} />
+							</div>
+						</div>
+					)}
+
+					{/* Pending Form 144 Notices */}
+					{data.pendingForm144Notices.length > 0 && (
+						<div className="card bg-base-100 shadow-xl">
+							<div className="card-body">
+								<h2 className="card-title">
+									Proposed Sales (Form 144)
+									<span className="badge badge-warning">{data.pendingForm144Notices.length} pending</span>
+								</h2>
+								<p className="text-sm text-base-content/60">
+									Notices filed in the last 90 days that no Form 4 sale has executed yet
+								</p>
+								<Form144NoticeList notices={data.pendingForm144Notices} />
+							</div>
+						</div>
+					)}
+
+					{/* Late Form 4 Filings */}
+					{data.stats.lateFilings.lateFilingCount > 0 && (
+						<div className="card bg-base-100 shadow-xl">
+							<div className="card-body">
+								<h2 className="card-title">
+									Late Filings
+									<span className="badge badge-error">
+										{data.stats.lateFilings.lateFilingCount} of {data.stats.lateFilings.filingCount}
+									</span>
+								</h2>
+								<p className="text-sm text-base-content/60">
+									Form 4s filed more than two business days after the trade (average delay{" "}
+									{data.stats.lateFilings.avgDelayDays ?? 0} business days)
+								</p>
+								<LateFilers insiders={data.lateFilers} />
+							</div>
+						</div>
+					)}
+
 					{/* Recent Transactions */}
 					<div className="card bg-base-100 shadow-xl">
 						<div className="card-body">
@@ -3,6 +3,9 @@
 import { useParams } from "next/navigation";
 import Link from "next/link";
 import { trpc } from "@starter/web/src/utils/trpc";
+import { AmendmentHistory } from "@starter/web/src/components/insiders/AmendmentHistory";
+import { FootnoteList } from "@starter/web/src/components/insiders/FootnoteList";
+import { JointFilers } from "@starter/web/src/components/insiders/JointFilers";
 import { SignalScoreBadge } from "@starter/web/src/components/insiders/SignalScoreBadge";
 
 export default function TransactionPage() {
@@ -36,6 +39,11 @@ export default function TransactionPage() {
 	}
 
 	const tickerDisplay = data.issuer.ticker || data.issuer.companyName;
+	const planAgeDays = data.planAdoptionDate
+		? Math.round(
+				(Date.parse(data.transactionDate) - Date.parse(data.planAdoptionDate)) / (24 * 60 * 60 * 1000),
+			)
+		: null;
 	const accessionNoDashes = data.filingAccession.replace(/-/g, "");
 	const cikPadded = data.issuer.cik.padStart(10, "0");
 	const filingUrl = `https://www.sec.gov/cgi-bin/viewer?action=view&cik=${cikPadded}&accession_number=${data.filingAccession}&xbrl_type=v`;
@@ -53,6 +61,16 @@ export default function TransactionPage() {
 				</div>
 			</div>
 
+			{data.supersededByAccession && (
+				<div className="alert alert-warning">
+					<span>
+						This transaction was replaced by Form 4/A{" "}
+						<span className="font-mono">{data.supersededByAccession}</span> and is excluded
+						from scores and digests.
+					</span>
+				</div>
+			)}
+
 			{/* Main Card */}
 			<div className="card bg-base-100 shadow-xl">
 				<div className="card-body">
@@ -75,13 +93,25 @@ export default function TransactionPage() {
 						<div className="grid grid-cols-2 gap-4">
 							<div>
 								<p className="text-sm text-base-content/60">Name</p>
-								<p className="font-medium">{data.insider.name}</p>
+								<p className="font-medium">
+									{data.insider.personId ? (
+										<Link
+											href={`/dashboard/insider/${data.insider.personId}`}
+											className="link link-hover"
+										>
+											{data.insider.name}
+										</Link>
+									) : (
+										data.insider.name
+									)}
+								</p>
 							</div>
 							<div>
 								<p className="text-sm text-base-content/60">Title</p>
 								<p className="font-medium">{data.insider.title || "N/A"}</p>
 							</div>
 						</div>
+						{data.jointFilers.length > 0 && <JointFilers filers={data.jointFilers} />}
 					</div>
 
 					<div className="divider" />
@@ -116,18 +146,33 @@ export default function TransactionPage() {
 							</div>
 							<div>
 								<p className="text-sm text-base-content/60">Price Per Share</p>
-								<p className="font-medium font-mono">
-									${Number.parseFloat(data.price).toFixed(2)}
-								</p>
+								{data.priceUnknown ? (
+									<p className="font-medium text-base-content/60">Not reported</p>
+								) : (
+									<p className="font-medium font-mono">
+										{data.isPriceEstimated ? "~" : ""}${Number.parseFloat(data.price).toFixed(2)}
+									</p>
+								)}
+								{data.priceLow && data.priceHigh && (
+									<p className="text-xs text-base-content/60">
+										{data.isPriceEstimated ? "Midpoint of" : "Weighted average;"} range $
+										{Number.parseFloat(data.priceLow).toFixed(2)}–$
+										{Number.parseFloat(data.priceHigh).toFixed(2)}
+									</p>
+								)}
 							</div>
 							<div>
 								<p className="text-sm text-base-content/60">Total Value</p>
-								<p className="font-medium font-mono text-lg">
-									$
-									{Number.parseFloat(data.transactionValue).toLocaleString(undefined, {
-										maximumFractionDigits: 0,
-									})}
-								</p>
+								{data.priceUnknown ? (
+									<p className="font-medium text-lg text-base-content/60">Unknown</p>
+								) : (
+									<p className="font-medium font-mono text-lg">
+										{data.isPriceEstimated ? "~" : ""}$
+										{Number.parseFloat(data.transactionValue).toLocaleString(undefined, {
+											maximumFractionDigits: 0,
+										})}
+									</p>
+								)}
 							</div>
 							<div>
 								<p className="text-sm text-base-content/60">Post-Transaction Holdings</p>
@@ -137,20 +182,84 @@ export default function TransactionPage() {
 									})}{" "}
 									shares
 								</p>
+								{!data.isDirectOwnership && (
+									<p className="text-xs text-base-content/60">
+										Held {data.natureOfOwnership ? `(${data.natureOfOwnership})` : "indirectly"}
+									</p>
+								)}
 							</div>
 							<div>
 								<p className="text-sm text-base-content/60">Ownership Type</p>
 								<p className="font-medium">
 									{data.isDirectOwnership ? "Direct" : "Indirect"}
 								</p>
+								{!data.isDirectOwnership && (
+									<p className="text-sm text-base-content/60">
+										{data.natureOfOwnership ?? "Vehicle not described"}
+									</p>
+								)}
 							</div>
 							<div>
 								<p className="text-sm text-base-content/60">10b5-1 Trading Plan</p>
-								<p className="font-medium">{data.is10b51 ? "Yes" : "No"}</p>
+								<p className="font-medium">
+									{data.is10b51 ? "Yes" : "No"}
+									{data.planAdoptionDate && ` (adopted ${data.planAdoptionDate})`}
+								</p>
 							</div>
+							{data.securityTitle && (
+								<div>
+									<p className="text-sm text-base-content/60">Security</p>
+									<p className="font-medium">{data.securityTitle}</p>
+								</div>
+							)}
 						</div>
 					</div>
 
+					{/* Derivative Details */}
+					{data.isDerivative && (
+						<div className="space-y-2">
+							<h3 className="text-lg font-semibold">Derivative Details</h3>
+							<div className="grid grid-cols-2 gap-4">
+								<div>
+									<p className="text-sm text-base-content/60">Underlying Security</p>
+									<p className="font-medium">
+										{data.underlyingSecurityTitle || "N/A"}
+										{data.underlyingShares &&
+											` (${Number.parseFloat(data.underlyingShares).toLocaleString(undefined, {
+												maximumFractionDigits: 0,
+											})} shares)`}
+									</p>
+								</div>
+								<div>
+									<p className="text-sm text-base-content/60">Exercise Price</p>
+									<p className="font-medium font-mono">
+										{data.conversionOrExercisePrice
+											? `$${Number.parseFloat(data.conversionOrExercisePrice).toFixed(2)}`
+											: "N/A"}
+									</p>
+								</div>
+								<div>
+									<p className="text-sm text-base-content/60">Exercisable</p>
+									<p className="font-medium">{data.exerciseDate || "N/A"}</p>
+								</div>
+								<div>
+									<p className="text-sm text-base-content/60">Expires</p>
+									<p className="font-medium">{data.expirationDate || "N/A"}</p>
+								</div>
+							</div>
+						</div>
+					)}
+
+					{data.isExerciseAndSell && (
+						<div className="alert">
+							<span>
+								Exercise-and-sell: these shares were sold on the same day the insider exercised
+								options, typically to cover the exercise price and taxes rather than as a
+								discretionary sale.
+							</span>
+						</div>
+					)}
+
 					{data.is10b51 && (
 						<div className="alert alert-info">
 							<svg
@@ -167,12 +276,29 @@ export default function TransactionPage() {
 								/>
 							</svg>
 							<span>
-								This transaction was made pursuant to a Rule 10b5-1 trading plan, which may
+								This transaction was made pursuant to a Rule 10b5-1 trading plan
+								{planAgeDays !== null && ` adopted ${planAgeDays} days earlier`}, which may
 								indicate the trade was pre-planned.
 							</span>
 						</div>
 					)}
 
+					{data.isDuringCoolingOff && (
+						<div className="alert alert-warning">
+							<span>
+								Traded during the plan's cooling-off period: Rule 10b5-1 plan trades should wait
+								90 days after adoption for directors and officers (30 days for others).
+							</span>
+						</div>
+					)}
+
+					{data.footnotes.length > 0 && (
+						<>
+							<div className="divider" />
+							<FootnoteList footnotes={data.footnotes} />
+						</>
+					)}
+
 					<div className="divider" />
 
 					{/* SEC Filing Link */}
@@ -202,6 +328,15 @@ export default function TransactionPage() {
 					</div>
 				</div>
 			</div>
+
+			{/* Amendment History */}
+			{data.amendmentHistory.length > 1 && (
+				<AmendmentHistory
+					filings={data.amendmentHistory}
+					issuerCik={data.issuer.cik}
+					currentAccession={data.filingAccession}
+				/>
+			)}
 		</div>
 	);
 }
@@ -0,0 +1,66 @@
+"use client";
+
+interface AmendmentHistoryFiling {
+	accessionNumber: string;
+	formType: string;
+	filingDate: string;
+	isCurrent: boolean;
+}
+
+interface AmendmentHistoryProps {
+	filings: AmendmentHistoryFiling[];
+	issuerCik: string;
+	currentAccession: string; // Filing the viewed transaction belongs to
+}
+
+export function AmendmentHistory({ filings, issuerCik, currentAccession }: AmendmentHistoryProps) {
+	const cikPadded = issuerCik.padStart(10, "0");
+
+	return (
+		<div className="card bg-base-100 shadow-xl">
+			<div className="card-body">
+				<h3 className="card-title">Amendment History</h3>
+				<div className="overflow-x-auto">
+					<table className="table">
+						<thead>
+							<tr>
+								<th>Form</th>
+								<th>Filed</th>
+								<th>Accession</th>
+								<th>Status</th>
+							</tr>
+						</thead>
+						<tbody>
+							{filings.map((filing) => (
+								<tr
+									key={filing.accessionNumber}
+									className={filing.accessionNumber === currentAccession ? "bg-base-200" : undefined}
+								>
+									<td>{filing.formType}</td>
+									<td>{new Date(filing.filingDate).toLocaleDateString()}</td>
+									<td>
+										<a
+											href={`https://www.sec.gov/cgi-bin/viewer?action=view&cik=${cikPadded}&accession_number=${filing.accessionNumber}&xbrl_type=v`}
+											target="_blank"
+											rel="noopener noreferrer"
+											className="link font-mono text-sm"
+										>
+											{filing.accessionNumber}
+										</a>
+									</td>
+									<td>
+										{filing.isCurrent ? (
+											<span className="badge badge-success">Current</span>
+										) : (
+											<span className="badge badge-ghost">Superseded</span>
+										)}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			</div>
+		</div>
+	);
+}
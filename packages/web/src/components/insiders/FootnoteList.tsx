@@ -0,0 +1,45 @@
+"use client";
+
+interface TransactionFootnote {
+	footnoteId: string;
+	field: string; // Form 4 element the footnote annotates, e.g. "transactionPricePerShare"
+	text: string;
+}
+
+interface FootnoteListProps {
+	footnotes: TransactionFootnote[];
+}
+
+// Split a Form 4 element name into words: "transactionPricePerShare" -> "transaction price per share"
+function formatField(field: string): string {
+	return field.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+}
+
+export function FootnoteList({ footnotes }: FootnoteListProps) {
+	// One entry per footnote, listing every field it is attached to
+	const footnoteIds = Array.from(new Set(footnotes.map((footnote) => footnote.footnoteId)));
+
+	return (
+		<div className="space-y-2">
+			<h3 className="text-lg font-semibold">Footnotes</h3>
+			<ul className="space-y-3">
+				{footnoteIds.map((footnoteId) => {
+					const refs = footnotes.filter((footnote) => footnote.footnoteId === footnoteId);
+					return (
+						<li key={footnoteId} className="text-sm">
+							<div className="flex flex-wrap items-center gap-2 mb-1">
+								<span className="badge badge-neutral">{footnoteId}</span>
+								{refs.map((ref) => (
+									<span key={ref.field} className="badge badge-ghost badge-sm">
+										{formatField(ref.field)}
+									</span>
+								))}
+							</div>
+							<p className="text-base-content/80">{refs[0].text}</p>
+						</li>
+					);
+				})}
+			</ul>
+		</div>
+	);
+}
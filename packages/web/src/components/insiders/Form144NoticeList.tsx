@@ -0,0 +1,71 @@
+"use client";
+
+interface Form144Notice {
+	id: string;
+	accessionNumber: string;
+	sellerName: string;
+	relationship: string | null;
+	sharesToBeSold: string;
+	aggregateMarketValue: string;
+	approxSaleDate: string | null;
+	filingDate: string;
+}
+
+interface Form144NoticeListProps {
+	notices: Form144Notice[];
+}
+
+export function Form144NoticeList({ notices }: Form144NoticeListProps) {
+	if (notices.length === 0) {
+		return (
+			<div className="text-center py-8 text-base-content/60">
+				<p>No pending proposed sales</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="overflow-x-auto">
+			<table className="table table-zebra">
+				<thead>
+					<tr>
+						<th>Filed</th>
+						<th>Seller</th>
+						<th>Shares</th>
+						<th>Market Value</th>
+						<th>Approx. Sale Date</th>
+					</tr>
+				</thead>
+				<tbody>
+					{notices.map((notice) => (
+						<tr key={notice.id}>
+							<td>{new Date(notice.filingDate).toLocaleDateString()}</td>
+							<td>
+								<div className="font-medium">{notice.sellerName}</div>
+								{notice.relationship && (
+									<div className="text-sm text-base-content/60">{notice.relationship}</div>
+								)}
+							</td>
+							<td className="font-mono">
+								{Number.parseFloat(notice.sharesToBeSold).toLocaleString(undefined, {
+									maximumFractionDigits: 0,
+								})}
+							</td>
+							<td className="font-mono">
+								$
+								{Number.parseFloat(notice.aggregateMarketValue).toLocaleString(undefined, {
+									maximumFractionDigits: 0,
+								})}
+							</td>
+							<td>
+								{notice.approxSaleDate
+									? new Date(notice.approxSaleDate).toLocaleDateString()
+									: "N/A"}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
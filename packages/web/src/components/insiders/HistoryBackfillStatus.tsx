@@ -0,0 +1,60 @@
+"use client";
+
+interface HistoryBackfill {
+	id: string;
+	status: string;
+	filingsDiscovered: number;
+	filingsProcessed: number;
+	filingsFailed: number;
+	completedAt: string | Date | null;
+}
+
+interface HistoryBackfillStatusProps {
+	backfill: HistoryBackfill | null | undefined;
+	onLoad: () => void;
+	isStarting: boolean;
+}
+
+export function HistoryBackfillStatus({ backfill, onLoad, isStarting }: HistoryBackfillStatusProps) {
+	const isRunning = backfill != null && backfill.status !== "completed";
+
+	if (isRunning) {
+		const done = backfill.filingsProcessed + backfill.filingsFailed;
+
+		return (
+			<div className="flex items-center gap-3 text-sm">
+				<span className="loading loading-spinner loading-sm" />
+				{backfill.status === "pending" || backfill.status === "discovering" ? (
+					<span>Finding filings on EDGAR…</span>
+				) : (
+					<>
+						<progress
+							className="progress progress-primary w-40"
+							value={done}
+							max={Math.max(backfill.filingsDiscovered, 1)}
+						/>
+						<span>
+							{done.toLocaleString()} / {backfill.filingsDiscovered.toLocaleString()} filings loaded
+						</span>
+					</>
+				)}
+			</div>
+		);
+	}
+
+	return (
+		<div className="flex items-center gap-3 text-sm">
+			<button type="button" className="btn btn-outline btn-sm" onClick={onLoad} disabled={isStarting}>
+				{isStarting && <span className="loading loading-spinner loading-xs" />}
+				Load full history
+			</button>
+			{backfill?.completedAt && (
+				<span className="text-base-content/60">
+					{backfill.filingsProcessed.toLocaleString()} filings loaded on{" "}
+					{new Date(backfill.completedAt).toLocaleDateString()}
+					{backfill.filingsFailed > 0 && ` (${backfill.filingsFailed} failed)`}
+				</span>
+			)}
+		</div>
+	);
+}
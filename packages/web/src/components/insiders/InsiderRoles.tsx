@@ -0,0 +1,73 @@
+"use client";
+
+import Link from "next/link";
+
+interface InsiderRole {
+	insiderId: string;
+	name: string;
+	title: string | null;
+	isDirector: boolean;
+	isOfficer: boolean;
+	isTenPercentOwner: boolean;
+	isOther: boolean;
+	transactionCount: number;
+	lastTransactionDate: string | null;
+	issuer: {
+		ticker: string | null;
+		companyName: string;
+	};
+}
+
+interface InsiderRolesProps {
+	roles: InsiderRole[];
+}
+
+export function InsiderRoles({ roles }: InsiderRolesProps) {
+	return (
+		<div className="overflow-x-auto">
+			<table className="table table-zebra">
+				<thead>
+					<tr>
+						<th>Company</th>
+						<th>Relationship</th>
+						<th>Filed As</th>
+						<th className="text-right">Trades</th>
+						<th>Last Trade</th>
+					</tr>
+				</thead>
+				<tbody>
+					{roles.map((role) => (
+						<tr key={role.insiderId}>
+							<td>
+								<Link
+									href={`/dashboard/ticker/${role.issuer.ticker || encodeURIComponent(role.issuer.companyName)}`}
+									className="link link-primary font-semibold"
+								>
+									{role.issuer.ticker || role.issuer.companyName}
+								</Link>
+								<div className="text-sm text-base-content/60">{role.issuer.companyName}</div>
+							</td>
+							<td>
+								<div className="flex flex-wrap gap-1">
+									{role.isDirector && <span className="badge badge-primary badge-sm">Director</span>}
+									{role.isOfficer && (
+										<span className="badge badge-secondary badge-sm">{role.title || "Officer"}</span>
+									)}
+									{role.isTenPercentOwner && <span className="badge badge-accent badge-sm">10% Owner</span>}
+									{role.isOther && <span className="badge badge-ghost badge-sm">Other</span>}
+								</div>
+							</td>
+							<td className="text-sm">{role.name}</td>
+							<td className="text-right font-mono">{role.transactionCount}</td>
+							<td className="text-sm">
+								{role.lastTransactionDate
+									? new Date(role.lastTransactionDate).toLocaleDateString()
+									: "No trades"}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
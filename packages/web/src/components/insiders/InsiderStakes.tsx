@@ -0,0 +1,91 @@
+"use client";
+
+import Link from "next/link";
+
+interface StakePosition {
+	id: string;
+	securityTitle: string;
+	isDirectOwnership: boolean;
+	natureOfOwnership: string | null;
+	isDerivative: boolean;
+	shares: number;
+}
+
+interface InsiderStake {
+	insiderId: string;
+	personId: string | null;
+	name: string;
+	title: string | null;
+	totalShares: number;
+	asOfDate: string;
+	positions: StakePosition[];
+}
+
+interface InsiderStakesProps {
+	stakes: InsiderStake[];
+}
+
+export function InsiderStakes({ stakes }: InsiderStakesProps) {
+	return (
+		<div className="overflow-x-auto">
+			<table className="table table-zebra">
+				<thead>
+					<tr>
+						<th>Insider</th>
+						<th className="text-right">Total Shares</th>
+						<th>Held As</th>
+						<th>Derivatives</th>
+						<th>As Of</th>
+					</tr>
+				</thead>
+				<tbody>
+					{stakes.map((stake) => (
+						<tr key={stake.insiderId}>
+							<td>
+								<div className="font-medium">
+									{stake.personId ? (
+										<Link href={`/dashboard/insider/${stake.personId}`} className="link link-hover">
+											{stake.name}
+										</Link>
+									) : (
+										stake.name
+									)}
+								</div>
+								{stake.title && <div className="text-sm text-base-content/60">{stake.title}</div>}
+							</td>
+							<td className="text-right font-mono">
+								{stake.totalShares.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+							</td>
+							<td className="text-sm">
+								{stake.positions
+									.filter((position) => !position.isDerivative)
+									.map((position) => (
+										<div key={position.id}>
+											{position.isDirectOwnership ? "Direct" : position.natureOfOwnership || "Indirect"}
+											{position.securityTitle !== "Common Stock" && ` (${position.securityTitle})`}:{" "}
+											<span className="font-mono">
+												{position.shares.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+											</span>
+										</div>
+									))}
+							</td>
+							<td className="text-sm">
+								{stake.positions
+									.filter((position) => position.isDerivative)
+									.map((position) => (
+										<div key={position.id}>
+											{position.securityTitle}:{" "}
+											<span className="font-mono">
+												{position.shares.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+											</span>
+										</div>
+									))}
+							</td>
+							<td className="text-sm">{new Date(stake.asOfDate).toLocaleDateString()}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
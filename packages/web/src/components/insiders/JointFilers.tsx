@@ -0,0 +1,38 @@
+"use client";
+
+import Link from "next/link";
+
+interface JointFiler {
+	id: string;
+	personId: string | null;
+	name: string;
+	title: string | null;
+}
+
+interface JointFilersProps {
+	filers: JointFiler[];
+}
+
+export function JointFilers({ filers }: JointFilersProps) {
+	return (
+		<div className="space-y-1">
+			<p className="text-sm text-base-content/60">
+				Joint filers (share this transaction; its value is counted once)
+			</p>
+			<ul className="space-y-1">
+				{filers.map((filer) => (
+					<li key={filer.id} className="font-medium">
+						{filer.personId ? (
+							<Link href={`/dashboard/insider/${filer.personId}`} className="link link-hover">
+								{filer.name}
+							</Link>
+						) : (
+							filer.name
+						)}
+						{filer.title && <span className="text-sm text-base-content/60"> ({filer.title})</span>}
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
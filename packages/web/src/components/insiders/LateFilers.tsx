@@ -0,0 +1,56 @@
+"use client";
+
+interface InsiderLateFilingStats {
+	insiderId: string;
+	name: string;
+	title: string | null;
+	filingCount: number;
+	lateFilingCount: number;
+	avgDelayDays: number | null;
+	maxDelayDays: number | null;
+}
+
+interface LateFilersProps {
+	insiders: InsiderLateFilingStats[];
+}
+
+export function LateFilers({ insiders }: LateFilersProps) {
+	return (
+		<div className="overflow-x-auto">
+			<table className="table table-zebra">
+				<thead>
+					<tr>
+						<th>Insider</th>
+						<th className="text-right">Late / Filings</th>
+						<th className="text-right">Avg Delay</th>
+						<th className="text-right">Max Delay</th>
+					</tr>
+				</thead>
+				<tbody>
+					{insiders.map((insider) => (
+						<tr key={insider.insiderId}>
+							<td>
+								<div className="font-medium">{insider.name}</div>
+								{insider.title && (
+									<div className="text-sm text-base-content/60">{insider.title}</div>
+								)}
+							</td>
+							<td className="text-right font-mono">
+								<span className={insider.lateFilingCount > 0 ? "text-error" : ""}>
+									{insider.lateFilingCount}
+								</span>{" "}
+								/ {insider.filingCount}
+							</td>
+							<td className="text-right font-mono">
+								{insider.avgDelayDays !== null ? `${insider.avgDelayDays}d` : "N/A"}
+							</td>
+							<td className="text-right font-mono">
+								{insider.maxDelayDays !== null ? `${insider.maxDelayDays}d` : "N/A"}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import Link from "next/link";
+
+interface Position {
+	id: string;
+	securityTitle: string;
+	isDirectOwnership: boolean;
+	natureOfOwnership: string | null;
+	isDerivative: boolean;
+	underlyingSecurityTitle: string | null;
+	shares: number;
+	asOfDate: string;
+	issuer: {
+		ticker: string | null;
+		companyName: string;
+	};
+}
+
+interface PositionListProps {
+	positions: Position[];
+}
+
+export function PositionList({ positions }: PositionListProps) {
+	return (
+		<div className="overflow-x-auto">
+			<table className="table table-zebra">
+				<thead>
+					<tr>
+						<th>Company</th>
+						<th>Security</th>
+						<th>Ownership</th>
+						<th className="text-right">Shares</th>
+						<th>As Of</th>
+					</tr>
+				</thead>
+				<tbody>
+					{positions.map((position) => (
+						<tr key={position.id}>
+							<td>
+								<Link
+									href={`/dashboard/ticker/${position.issuer.ticker || encodeURIComponent(position.issuer.companyName)}`}
+									className="link link-primary font-semibold"
+								>
+									{position.issuer.ticker || position.issuer.companyName}
+								</Link>
+							</td>
+							<td>
+								<div>{position.securityTitle}</div>
+								{position.isDerivative && position.underlyingSecurityTitle && (
+									<div className="text-sm text-base-content/60">
+										Underlying: {position.underlyingSecurityTitle}
+									</div>
+								)}
+							</td>
+							<td className="text-sm">
+								{position.isDirectOwnership ? "Direct" : position.natureOfOwnership || "Indirect"}
+							</td>
+							<td className="text-right font-mono">
+								{position.shares.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+							</td>
+							<td className="text-sm">{new Date(position.asOfDate).toLocaleDateString()}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
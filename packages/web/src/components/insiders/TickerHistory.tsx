@@ -0,0 +1,29 @@
+"use client";
+
+interface TickerHistoryEntry {
+	ticker: string;
+	exchange: string | null;
+	validFrom: string;
+	validTo: string | null;
+}
+
+interface TickerHistoryProps {
+	history: TickerHistoryEntry[];
+}
+
+export function TickerHistory({ history }: TickerHistoryProps) {
+	const former = history.filter((entry) => entry.validTo !== null);
+	if (former.length === 0) return null;
+
+	return (
+		<p className="text-sm text-base-content/60">
+			Formerly{" "}
+			{former.map((entry, index) => (
+				<span key={`${entry.ticker}-${entry.validFrom}`}>
+					{index > 0 && ", "}
+					<span className="font-mono">{entry.ticker}</span> (until {entry.validTo})
+				</span>
+			))}
+		</p>
+	);
+}
@@ -10,12 +10,19 @@ interface Transaction {
 	shares: string;
 	price: string;
 	transactionValue: string;
+	priceUnknown?: boolean;
+	isPriceEstimated?: boolean;
 	signalScore: string;
+	isExerciseAndSell?: boolean;
+	isDuringCoolingOff?: boolean;
+	filingDelayDays?: number | null;
+	isLateFiling?: boolean;
 	issuer: {
 		ticker: string | null;
 		companyName: string;
 	};
 	insider: {
+		personId?: string | null;
 		name: string;
 		title: string | null;
 	};
@@ -73,7 +80,18 @@ export function TransactionList({ transactions, showTicker = true }: Transaction
 							)}
 							<td>
 								<div>
-									<div className="font-medium">{tx.insider.name}</div>
+									<div className="font-medium">
+										{tx.insider.personId ? (
+											<Link
+												href={`/dashboard/insider/${tx.insider.personId}`}
+												className="link link-hover"
+											>
+												{tx.insider.name}
+											</Link>
+										) : (
+											tx.insider.name
+										)}
+									</div>
 									{tx.insider.title && (
 										<div className="text-sm text-base-content/60">{tx.insider.title}</div>
 									)}
@@ -85,6 +103,21 @@ export function TransactionList({ transactions, showTicker = true }: Transaction
 								) : (
 									<span className="badge badge-error badge-sm">SELL</span>
 								)}
+								{tx.isExerciseAndSell && (
+									<span className="badge badge-ghost badge-sm ml-1" title="Sold alongside a same-day option exercise">
+										EXERCISE
+									</span>
+								)}
+								{tx.isDuringCoolingOff && (
+									<span className="badge badge-warning badge-sm ml-1" title="10b5-1 plan trade during the plan's cooling-off period">
+										COOLING-OFF
+									</span>
+								)}
+								{tx.isLateFiling && (
+									<span className="badge badge-error badge-outline badge-sm ml-1" title={`Form 4 filed ${tx.filingDelayDays} business days after the trade`}>
+										LATE
+									</span>
+								)}
 							</td>
 							<td className="text-right font-mono text-sm">
 								{Number.parseFloat(tx.shares).toLocaleString(undefined, {
@@ -92,13 +125,14 @@ export function TransactionList({ transactions, showTicker = true }: Transaction
 								})}
 							</td>
 							<td className="text-right font-mono text-sm">
-								${Number.parseFloat(tx.price).toFixed(2)}
+								{tx.priceUnknown
+									? "N/A"
+									: `${tx.isPriceEstimated ? "~" : ""}$${Number.parseFloat(tx.price).toFixed(2)}`}
 							</td>
 							<td className="text-right font-mono text-sm">
-								$
-								{Number.parseFloat(tx.transactionValue).toLocaleString(undefined, {
-									maximumFractionDigits: 0,
-								})}
+								{tx.priceUnknown
+									? "Unknown"
+									: `${tx.isPriceEstimated ? "~" : ""}$${Number.parseFloat(tx.transactionValue).toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
 							</td>
 							<td>
 								<SignalScoreBadge score={tx.signalScore} />
@@ -137,6 +137,14 @@ declare module "sst" {
       "type": "sst.sst.Secret"
       "value": string
     }
+    "FilingQueue": {
+      "type": "sst.aws.Queue"
+      "url": string
+    }
+    "FilingQueueDlq": {
+      "type": "sst.aws.Queue"
+      "url": string
+    }
     "GOOGLE_GENERATIVE_AI_API_KEY": {
       "type": "sst.sst.Secret"
       "value": string